@@ -10,6 +10,7 @@ import EmailVerification from './components/auth/EmailVerification';
 import ErrorBoundary from './components/common/ErrorBoundary';
 import ToastContainer from './components/common/ToastContainer';
 import ApiErrorHandler from './components/common/ApiErrorHandler';
+import PendingMutations from './components/common/PendingMutations';
 import AuthInitializer from './components/auth/AuthInitializer';
 
 // Lazy load heavy pages for better performance
@@ -112,6 +113,7 @@ function AppRoutes() {
         </Suspense>
         {/* Global error and notification handlers */}
         <ApiErrorHandler />
+        <PendingMutations />
         <ToastContainer />
       </AppLayout>
     </ErrorBoundary>
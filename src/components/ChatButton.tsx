@@ -1,5 +1,6 @@
 import React from 'react';
 import { MessageCircle, X, Loader2 } from 'lucide-react';
+import { useWidgetI18n } from '../widget/i18n';
 
 interface ChatButtonProps {
   isOpen: boolean;
@@ -16,12 +17,14 @@ const ChatButton: React.FC<ChatButtonProps> = ({
   primaryColor,
   onClick,
 }) => {
+  const { strings } = useWidgetI18n();
+
   return (
     <button
       className="widget-button relative"
       style={{ backgroundColor: primaryColor }}
       onClick={onClick}
-      aria-label={isOpen ? 'Close chat' : 'Open chat'}
+      aria-label={isOpen ? strings.closeChat : strings.openChat}
       disabled={isLoading}
     >
       {/* Loading spinner */}
@@ -45,7 +48,7 @@ const ChatButton: React.FC<ChatButtonProps> = ({
       {/* Unread message indicator */}
       {hasUnreadMessages && !isOpen && !isLoading && (
         <div className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 rounded-full border-2 border-white">
-          <span className="sr-only">Unread messages</span>
+          <span className="sr-only">{strings.unreadMessages}</span>
         </div>
       )}
       
@@ -1,17 +1,30 @@
 import React, { useState } from 'react';
-import { X, Minus, Settings, Volume2, VolumeX, Maximize2, Minimize2 } from 'lucide-react';
-import type { ChatState, WidgetState, WidgetConfig, WidgetSettings } from '../types/api';
+import { X, Minus, Settings, Volume2, VolumeX, Maximize2, Minimize2, MessageSquarePlus } from 'lucide-react';
+import type { ChatState, WidgetState, WidgetConfig, WidgetSettings, LeadRequest, FeedbackReason, MessageAttachment } from '../types/api';
 import MessageList from './MessageList';
 import MessageInput from './MessageInput';
+import OfflineLeadForm from './OfflineLeadForm';
+import { formatString, useWidgetI18n } from '../widget/i18n';
 
 interface ChatWindowProps {
   chatState: ChatState;
   widgetState: WidgetState;
   config: WidgetConfig | null;
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments?: MessageAttachment[]) => void;
+  /** Upload a file for the next message; without it files can't be attached */
+  onUploadAttachment?: (file: File, onProgress: (fraction: number) => void, signal: AbortSignal) => Promise<MessageAttachment>;
+  /** Rate an assistant reply; without it replies show no rating buttons */
+  onRateMessage?: (messageId: string, wasHelpful: boolean, reason?: FeedbackReason) => void;
+  /** Forget the current conversation and start a new one */
+  onNewConversation?: () => void;
   onClose: () => void;
   onMinimize: () => void;
   settings: WidgetSettings;
+  /** Outside business hours: the offline form replaces the chat */
+  isOffline?: boolean;
+  /** When business hours start again, e.g. "Monday 09:00" */
+  nextOpening?: string;
+  onSubmitLead?: (lead: Pick<LeadRequest, 'name' | 'email' | 'question'>) => Promise<void>;
 }
 
 const ChatWindow: React.FC<ChatWindowProps> = ({
@@ -19,18 +32,39 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   widgetState,
   config,
   onSendMessage,
+  onRateMessage,
+  onNewConversation,
+  onUploadAttachment,
   onClose,
   onMinimize,
   settings,
+  isOffline = false,
+  nextOpening,
+  onSubmitLead,
 }) => {
+  const { strings } = useWidgetI18n();
   const [showSettings, setShowSettings] = useState(false);
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [isExpanded, setIsExpanded] = useState(false);
-  const [showOnlineUsers, setShowOnlineUsers] = useState(false);
-  
-  // Simulate online users count
-  const [onlineUsers] = useState(Math.floor(Math.random() * 50) + 10);
   
+  // Fall back to the boolean flag when no connection state is reported
+  const connectionState = widgetState.connectionState
+    ?? (widgetState.isConnected ? 'open' : 'connecting');
+
+  const connectionStatus = isOffline
+    ? {
+      label: nextOpening ? formatString(strings.offlineUntil, { time: nextOpening }) : strings.offline,
+      dotClass: 'bg-gray-300',
+    }
+    : {
+      open: { label: strings.online, dotClass: 'bg-green-400 animate-pulse' },
+      degraded: { label: strings.connectionUnstable, dotClass: 'bg-yellow-400 animate-pulse' },
+      connecting: { label: strings.connecting, dotClass: 'bg-red-400' },
+      closed: { label: strings.offlineReconnecting, dotClass: 'bg-red-400' },
+    }[connectionState];
+  const showOnlineStatus = config?.config.show_online_status !== false;
+  const hasConversation = chatState.messages.some(message => message.type === 'user');
+
   const windowHeight = widgetState.isMinimized 
     ? 'h-12' 
     : isExpanded 
@@ -65,31 +99,33 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             </h3>
             
             {/* Status line */}
-            <div className="flex items-center space-x-2 text-xs text-white/80">
-              {widgetState.isConnected ? (
-                <>
-                  <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-                  <span>Online</span>
-                  {showOnlineUsers && (
-                    <span>• {onlineUsers} users online</span>
-                  )}
-                </>
-              ) : (
-                <>
-                  <div className="w-2 h-2 bg-red-400 rounded-full"></div>
-                  <span>Connecting...</span>
-                </>
-              )}
-            </div>
+            {showOnlineStatus && (
+              <div className="flex items-center space-x-2 text-xs text-white/80">
+                <div className={`w-2 h-2 rounded-full ${connectionStatus.dotClass}`}></div>
+                <span>{connectionStatus.label}</span>
+              </div>
+            )}
           </div>
         </div>
         
         <div className="flex items-center space-x-1">
+          {/* New conversation */}
+          {onNewConversation && hasConversation && !isOffline && (
+            <button
+              onClick={onNewConversation}
+              className="p-1.5 rounded hover:bg-white/20 transition-colors"
+              aria-label={strings.newConversation}
+              title={strings.newConversation}
+            >
+              <MessageSquarePlus className="w-4 h-4 text-white" />
+            </button>
+          )}
+
           {/* Sound toggle */}
           <button
             onClick={() => setSoundEnabled(!soundEnabled)}
             className="p-1.5 rounded hover:bg-white/20 transition-colors"
-            aria-label={soundEnabled ? 'Mute sounds' : 'Enable sounds'}
+            aria-label={soundEnabled ? strings.muteSounds : strings.enableSounds}
           >
             {soundEnabled ? (
               <Volume2 className="w-4 h-4 text-white" />
@@ -102,7 +138,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           <button
             onClick={() => setIsExpanded(!isExpanded)}
             className="p-1.5 rounded hover:bg-white/20 transition-colors"
-            aria-label={isExpanded ? 'Contract window' : 'Expand window'}
+            aria-label={isExpanded ? strings.contractWindow : strings.expandWindow}
           >
             {isExpanded ? (
               <Minimize2 className="w-4 h-4 text-white" />
@@ -115,7 +151,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           <button
             onClick={() => setShowSettings(!showSettings)}
             className="p-1.5 rounded hover:bg-white/20 transition-colors"
-            aria-label="Settings"
+            aria-label={strings.settings}
           >
             <Settings className="w-4 h-4 text-white" />
           </button>
@@ -124,7 +160,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           <button
             onClick={onMinimize}
             className="p-1.5 rounded hover:bg-white/20 transition-colors"
-            aria-label={widgetState.isMinimized ? 'Expand chat' : 'Minimize chat'}
+            aria-label={widgetState.isMinimized ? strings.expandChat : strings.minimizeChat}
           >
             <Minus className="w-4 h-4 text-white" />
           </button>
@@ -133,7 +169,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           <button
             onClick={onClose}
             className="p-1.5 rounded hover:bg-white/20 transition-colors"
-            aria-label="Close chat"
+            aria-label={strings.closeChat}
           >
             <X className="w-4 h-4 text-white" />
           </button>
@@ -141,13 +177,13 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         
         {/* Settings dropdown */}
         {showSettings && (
-          <div className="absolute top-full right-0 mt-1 w-64 bg-white rounded-lg shadow-xl border border-gray-200 z-50 animate-fade-in">
+          <div className="absolute top-full end-0 mt-1 w-64 bg-white rounded-lg shadow-xl border border-gray-200 z-50 animate-fade-in">
             <div className="p-3">
-              <h4 className="font-semibold text-gray-800 text-sm mb-3">Chat Settings</h4>
+              <h4 className="font-semibold text-gray-800 text-sm mb-3">{strings.chatSettings}</h4>
               
               <div className="space-y-3">
                 <label className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">Sound notifications</span>
+                  <span className="text-sm text-gray-600">{strings.soundNotifications}</span>
                   <input
                     type="checkbox"
                     checked={soundEnabled}
@@ -156,21 +192,11 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                   />
                 </label>
                 
-                <label className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">Show online users</span>
-                  <input
-                    type="checkbox"
-                    checked={showOnlineUsers}
-                    onChange={(e) => setShowOnlineUsers(e.target.checked)}
-                    className="rounded border-gray-300"
-                  />
-                </label>
-                
                 <div className="pt-2 border-t border-gray-200">
                   <div className="text-xs text-gray-500 space-y-1">
-                    <div>Status: {widgetState.isConnected ? 'Connected' : 'Disconnected'}</div>
-                    <div>Messages: {chatState.messages.length}</div>
-                    <div>Version: 1.0.0</div>
+                    <div>{formatString(strings.statusLine, { status: connectionStatus.label })}</div>
+                    <div>{formatString(strings.messageCount, { count: chatState.messages.length })}</div>
+                    <div>{formatString(strings.versionLine, { version: '1.0.0' })}</div>
                   </div>
                 </div>
               </div>
@@ -180,13 +206,23 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
       </div>
 
       {/* Chat content (hidden when minimized) */}
-      {!widgetState.isMinimized && (
+      {!widgetState.isMinimized && isOffline && onSubmitLead && (
+        <OfflineLeadForm
+          offlineMessage={settings.offlineMessage}
+          thanksMessage={settings.thanksMessage}
+          nextOpening={nextOpening}
+          primaryColor={settings.primaryColor}
+          onSubmit={onSubmitLead}
+        />
+      )}
+
+      {!widgetState.isMinimized && !(isOffline && onSubmitLead) && (
         <>
           {/* Error state */}
           {widgetState.hasError && (
             <div className="p-4 bg-red-50 border-b border-red-200">
               <p className="text-red-600 text-sm">
-                {widgetState.errorMessage || 'Something went wrong. Please try again.'}
+                {widgetState.errorMessage || strings.somethingWrong}
               </p>
             </div>
           )}
@@ -196,7 +232,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             <div className="flex-1 flex items-center justify-center p-8">
               <div className="text-center">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-400 mx-auto mb-2"></div>
-                <p className="text-gray-500 text-sm">Loading...</p>
+                <p className="text-gray-500 text-sm">{strings.loading}</p>
               </div>
             </div>
           )}
@@ -209,13 +245,15 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 messages={chatState.messages}
                 isTyping={chatState.isTyping}
                 isConnected={widgetState.isConnected}
+                onRateMessage={onRateMessage}
               />
               
               {/* Message input */}
               <MessageInput
                 onSendMessage={onSendMessage}
+                onUploadAttachment={onUploadAttachment}
                 disabled={widgetState.isLoading || !widgetState.isConnected}
-                placeholder={settings.placeholder || 'Type your message...'}
+                placeholder={settings.placeholder || strings.typeMessage}
                 isTyping={chatState.isTyping}
               />
             </>
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../widget/markdown';
+import { useWidgetI18n } from '../widget/i18n';
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index} className="px-1 rounded bg-black/5 font-mono text-[0.85em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="underline break-all">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const HEADING_CLASSES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-medium'];
+
+const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, code }) => {
+  const { strings } = useWidgetI18n();
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard?.writeText(code)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(() => setCopied(false));
+  };
+
+  return (
+    <div className="relative group my-2">
+      <pre className="bg-gray-900 text-gray-100 rounded-md p-2 pe-8 overflow-x-auto text-xs" dir="ltr">
+        <code className={language ? `language-${language}` : undefined}>{code}</code>
+      </pre>
+      <button
+        type="button"
+        onClick={copy}
+        className="absolute top-1 end-1 p-1 rounded text-gray-300 hover:text-white hover:bg-white/10"
+        aria-label={copied ? strings.copied : strings.copyCode}
+        title={copied ? strings.copied : strings.copyCode}
+      >
+        {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+      </button>
+    </div>
+  );
+};
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading':
+        return React.createElement(
+          `h${Math.min(block.level + 2, 6)}`,
+          { key: index, className: `${HEADING_CLASSES[Math.min(block.level, 3) - 1]} mt-2 mb-1` },
+          renderInline(block.children)
+        );
+      case 'paragraph':
+        return <p key={index} className="my-1">{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered
+          ? <ol key={index} start={block.start} className="list-decimal ps-5 my-1 space-y-0.5">{items}</ol>
+          : <ul key={index} className="list-disc ps-5 my-1 space-y-0.5">{items}</ul>;
+      }
+      case 'code':
+        return <CodeBlock key={index} language={block.language} code={block.code} />;
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto my-2">
+            <table className="border-collapse text-xs">
+              <thead>
+                <tr>
+                  {block.header.map((cell, cellIndex) => (
+                    <th key={cellIndex} className="border border-gray-300 px-2 py-1 font-semibold bg-black/5" style={{ textAlign: block.align[cellIndex] }}>
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="border border-gray-300 px-2 py-1" style={{ textAlign: block.align[cellIndex] }}>
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="border-s-2 border-gray-300 ps-2 my-1 text-gray-600">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'rule':
+        return <hr key={index} className="my-2 border-gray-300" />;
+    }
+  });
+
+/**
+ * Assistant reply rendered from Markdown. Everything goes through React
+ * elements, so HTML in the reply is shown as text.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className="text-sm break-words">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownContent;
@@ -1,25 +1,41 @@
 import React from 'react';
-import { Check, CheckCheck, AlertCircle, Clock } from 'lucide-react';
-import type { Message } from '../types/api';
+import { Check, CheckCheck, AlertCircle, Clock, ThumbsUp, ThumbsDown, FileText } from 'lucide-react';
+import type { FeedbackReason, Message } from '../types/api';
+import { useWidgetI18n, type WidgetStrings } from '../widget/i18n';
+import SourceCitations from './SourceCitations';
+import MarkdownContent from './MarkdownContent';
+import { formatFileSize, isImageAttachment } from '../widget/attachments';
 
 interface MessageBubbleProps {
   message: Message;
   isLast: boolean;
+  onRate?: (messageId: string, wasHelpful: boolean, reason?: FeedbackReason) => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
+const FEEDBACK_REASONS: Array<{ reason: FeedbackReason; label: keyof WidgetStrings }> = [
+  { reason: 'wrong', label: 'feedbackWrong' },
+  { reason: 'outdated', label: 'feedbackOutdated' },
+  { reason: 'unclear', label: 'feedbackUnclear' },
+];
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onRate }) => {
+  const { locale, strings } = useWidgetI18n();
   const isUser = message.type === 'user';
   const isAssistant = message.type === 'assistant';
 
   // Format timestamp
   const formatTime = (timestamp: Date) => {
-    return new Intl.DateTimeFormat('en-US', {
+    return new Intl.DateTimeFormat(locale, {
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true,
     }).format(timestamp);
   };
 
+  // Format processing time
+  const formatDuration = (ms: number) => {
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+  };
+
   // Get status icon for user messages
   const getStatusIcon = () => {
     if (!isUser) return null;
@@ -41,26 +57,71 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-2`}>
       <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'} max-w-[85%]`}>
-        {/* Message bubble */}
-        <div
-          className={`message-bubble ${message.type} ${
-            message.isTyping ? 'animate-pulse' : ''
-          } ${message.status === 'error' ? 'border-red-200' : ''}`}
-        >
-          {/* Message content */}
-          <p className="text-sm whitespace-pre-wrap break-words">
-            {message.content}
-          </p>
-
-          {/* Typing indicator inside message for streaming */}
-          {message.isTyping && (
-            <div className="flex items-center mt-1">
-              <div className="typing-dot"></div>
-              <div className="typing-dot"></div>
-              <div className="typing-dot"></div>
-            </div>
-          )}
-        </div>
+        {/* Attached screenshots and files */}
+        {message.attachments && message.attachments.length > 0 && (
+          <div className={`flex flex-wrap gap-1 mt-2 ${isUser ? 'justify-end' : ''}`}>
+            {message.attachments.map(attachment => (
+              <a
+                key={attachment.id}
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={attachment.name}
+                className="block rounded-lg border border-gray-200 bg-white overflow-hidden hover:border-gray-300"
+              >
+                {isImageAttachment(attachment.content_type) ? (
+                  <img
+                    src={attachment.thumbnail_url || attachment.url}
+                    alt={attachment.name}
+                    className="block max-w-40 max-h-32 object-cover"
+                  />
+                ) : (
+                  <span className="flex items-center gap-2 max-w-48 px-2 py-1.5 text-xs">
+                    <FileText className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                    <span className="min-w-0">
+                      <span className="block truncate text-gray-700">{attachment.name}</span>
+                      <span className="block text-gray-400">{formatFileSize(attachment.size)}</span>
+                    </span>
+                  </span>
+                )}
+              </a>
+            ))}
+          </div>
+        )}
+
+        {/* Message bubble; a message can be attachments only */}
+        {(message.content || message.isTyping || !message.attachments?.length) && (
+          <div
+            className={`message-bubble ${message.type} ${
+              message.status === 'error' ? 'border-red-200' : ''
+            }`}
+            aria-busy={message.isTyping}
+          >
+            {/* Waiting for the first streamed chunk */}
+            {message.isTyping && !message.content ? (
+              <div className="flex items-center">
+                <div className="typing-dot"></div>
+                <div className="typing-dot"></div>
+                <div className="typing-dot"></div>
+              </div>
+            ) : isAssistant ? (
+              <>
+                <MarkdownContent content={message.content} />
+                {/* Cursor while the reply is still streaming */}
+                {message.isTyping && <span className="stream-cursor" aria-hidden="true" />}
+              </>
+            ) : (
+              // Visitors' messages are shown exactly as typed
+              <p className="text-sm whitespace-pre-wrap break-words">
+                {message.content}
+              </p>
+            )}
+          </div>
+        )}
+
+        {isAssistant && !message.isTyping && message.sources && (
+          <SourceCitations citations={message.sources} />
+        )}
 
         {/* Message metadata */}
         <div className={`flex items-center mt-1 space-x-1 ${isUser ? 'flex-row-reverse space-x-reverse' : ''}`}>
@@ -75,21 +136,76 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           {/* Error retry option */}
           {message.status === 'error' && isUser && (
             <button 
-              className="text-xs text-red-600 hover:text-red-800 underline ml-1"
+              className="text-xs text-red-600 hover:text-red-800 underline ms-1"
               onClick={() => {
                 // TODO: Implement retry functionality
                 console.log('Retry message:', message.id);
               }}
             >
-              Retry
+              {strings.retry}
             </button>
           )}
         </div>
 
-        {/* Confidence score for assistant messages (debug mode) */}
-        {isAssistant && import.meta.env.DEV && (
+        {/* Reply details once streaming has finished */}
+        {isAssistant && !message.isTyping && (message.modelUsed || message.processingTimeMs !== undefined) && (
           <div className="text-xs text-gray-400 mt-1">
-            {/* TODO: Add confidence score from API response */}
+            {[
+              message.modelUsed,
+              message.processingTimeMs !== undefined && formatDuration(message.processingTimeMs),
+            ].filter(Boolean).join(' · ')}
+          </div>
+        )}
+
+        {/* Helpfulness rating of stored replies */}
+        {isAssistant && !message.isTyping && message.serverId && onRate && (
+          <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-gray-500">
+            {!message.feedback || message.feedback.wasHelpful ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onRate(message.id, true)}
+                  disabled={!!message.feedback}
+                  className={`p-1 rounded hover:bg-gray-100 ${message.feedback?.wasHelpful ? 'text-green-600' : ''}`}
+                  aria-label={strings.helpful}
+                  title={strings.helpful}
+                >
+                  <ThumbsUp className="w-3 h-3" />
+                </button>
+                {!message.feedback && (
+                  <button
+                    type="button"
+                    onClick={() => onRate(message.id, false)}
+                    className="p-1 rounded hover:bg-gray-100"
+                    aria-label={strings.notHelpful}
+                    title={strings.notHelpful}
+                  >
+                    <ThumbsDown className="w-3 h-3" />
+                  </button>
+                )}
+                {message.feedback && <span>{strings.feedbackThanks}</span>}
+              </>
+            ) : message.feedback.reason ? (
+              <>
+                <ThumbsDown className="w-3 h-3 text-red-500" aria-hidden="true" />
+                <span>{strings.feedbackThanks}</span>
+              </>
+            ) : (
+              <>
+                <ThumbsDown className="w-3 h-3 text-red-500" aria-hidden="true" />
+                <span>{strings.whatWentWrong}</span>
+                {FEEDBACK_REASONS.map(({ reason, label }) => (
+                  <button
+                    key={reason}
+                    type="button"
+                    onClick={() => onRate(message.id, false, reason)}
+                    className="px-2 py-0.5 rounded-full border border-gray-200 hover:bg-gray-100"
+                  >
+                    {strings[label]}
+                  </button>
+                ))}
+              </>
+            )}
           </div>
         )}
       </div>
@@ -97,4 +213,5 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
   );
 };
 
-export default MessageBubble;
+// Memoized so only the bubble receiving stream chunks re-renders
+export default React.memo(MessageBubble);
@@ -1,24 +1,119 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, Paperclip, Smile, Mic, Square } from 'lucide-react';
+import { Send, Loader2, Paperclip, Smile, Mic, Square, X, FileText } from 'lucide-react';
+import type { MessageAttachment } from '../types/api';
+import { config } from '../config/env';
+import { formatString, useWidgetI18n } from '../widget/i18n';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  isImageAttachment,
+  validateAttachment,
+} from '../widget/attachments';
 
 interface MessageInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments?: MessageAttachment[]) => void;
+  /** Upload a file for the next message; without it files can't be attached */
+  onUploadAttachment?: (file: File, onProgress: (fraction: number) => void, signal: AbortSignal) => Promise<MessageAttachment>;
   disabled: boolean;
   placeholder: string;
   isTyping: boolean;
 }
 
+/** A file attached to the message being written, uploading or uploaded */
+interface PendingAttachment {
+  localId: string;
+  file: File;
+  /** Object URL for image thumbnails */
+  previewUrl?: string;
+  progress: number;
+  uploaded?: MessageAttachment;
+  failed?: boolean;
+  controller: AbortController;
+}
+
 const MessageInput: React.FC<MessageInputProps> = ({
   onSendMessage,
+  onUploadAttachment,
   disabled,
   placeholder,
   isTyping,
 }) => {
+  const { strings } = useWidgetI18n();
   const [message, setMessage] = useState('');
   const [isComposing, setIsComposing] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+
+  // Cancel uploads and free thumbnails when the chat closes
+  useEffect(() => () => {
+    attachmentsRef.current.forEach(attachment => {
+      attachment.controller.abort();
+      if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+    });
+  }, []);
+
+  const updateAttachment = (localId: string, changes: Partial<PendingAttachment>) => {
+    setAttachments(prev => prev.map(attachment => (attachment.localId === localId ? { ...attachment, ...changes } : attachment)));
+  };
+
+  const addFiles = (files: File[]) => {
+    if (!onUploadAttachment || files.length === 0) return;
+
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - attachmentsRef.current.length;
+    let error: string | null = files.length > room
+      ? formatString(strings.attachmentLimit, { count: MAX_ATTACHMENTS_PER_MESSAGE })
+      : null;
+
+    const added: PendingAttachment[] = [];
+    files.slice(0, Math.max(room, 0)).forEach(file => {
+      const problem = validateAttachment(file);
+      if (problem) {
+        error = problem === 'tooLarge'
+          ? formatString(strings.attachmentTooLarge, { name: file.name, size: formatFileSize(config.features.maxUploadSize) })
+          : formatString(strings.attachmentUnsupported, { name: file.name });
+        return;
+      }
+
+      const attachment: PendingAttachment = {
+        localId: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        file,
+        previewUrl: isImageAttachment(file.type) ? URL.createObjectURL(file) : undefined,
+        progress: 0,
+        controller: new AbortController(),
+      };
+      added.push(attachment);
+
+      onUploadAttachment(file, progress => updateAttachment(attachment.localId, { progress }), attachment.controller.signal)
+        .then(uploaded => updateAttachment(attachment.localId, { uploaded, progress: 1 }))
+        .catch(() => {
+          if (!attachment.controller.signal.aborted) {
+            updateAttachment(attachment.localId, { failed: true });
+          }
+        });
+    });
+
+    setAttachments(prev => [...prev, ...added]);
+    setAttachmentError(error);
+  };
+
+  const removeAttachment = (localId: string) => {
+    const attachment = attachmentsRef.current.find(candidate => candidate.localId === localId);
+    attachment?.controller.abort();
+    if (attachment?.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+    setAttachments(prev => prev.filter(candidate => candidate.localId !== localId));
+    setAttachmentError(null);
+  };
+
+  const uploadedAttachments = attachments.flatMap(attachment => (attachment.uploaded ? [attachment.uploaded] : []));
+  const attachmentsReady = attachments.length === uploadedAttachments.length;
 
   // Common emojis for quick access
   const quickEmojis = ['👍', '��', '😂', '❤️', '🤔', '👌', '🙏', '🎉'];
@@ -41,9 +136,14 @@ const MessageInput: React.FC<MessageInputProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (message.trim() && !disabled && !isTyping) {
-      onSendMessage(message.trim());
+    if (canSend) {
+      onSendMessage(message.trim(), uploadedAttachments.length > 0 ? uploadedAttachments : undefined);
       setMessage('');
+      attachments.forEach(attachment => {
+        if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+      });
+      setAttachments([]);
+      setAttachmentError(null);
       
       // Reset textarea height
       if (textareaRef.current) {
@@ -65,11 +165,89 @@ const MessageInput: React.FC<MessageInputProps> = ({
     setMessage(e.target.value);
   };
 
-  const canSend = message.trim() && !disabled && !isTyping;
+  // Screenshots pasted from the clipboard become attachments
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0 || !onUploadAttachment) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onUploadAttachment || disabled || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onUploadAttachment || disabled) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const canSend = (!!message.trim() || uploadedAttachments.length > 0) && attachmentsReady && !disabled && !isTyping;
 
   return (
-    <div className="border-t border-gray-200 bg-white">
+    <div
+      className="relative border-t border-gray-200 bg-white"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center border-2 border-dashed border-blue-400 bg-blue-50/90 text-sm text-blue-700 pointer-events-none">
+          {strings.dropFiles}
+        </div>
+      )}
       <form onSubmit={handleSubmit} className="p-3">
+        {/* Attached files */}
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {attachments.map(attachment => (
+              <div
+                key={attachment.localId}
+                className={`relative flex items-center gap-2 max-w-40 rounded-md border p-1 pe-6 overflow-hidden text-xs ${
+                  attachment.failed ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-gray-50'
+                }`}
+              >
+                {attachment.previewUrl ? (
+                  <img src={attachment.previewUrl} alt="" className="w-8 h-8 flex-shrink-0 rounded object-cover" />
+                ) : (
+                  <FileText className="w-5 h-5 flex-shrink-0 text-gray-400" />
+                )}
+                <div className="min-w-0">
+                  <div className="truncate text-gray-700">{attachment.file.name}</div>
+                  <div className={attachment.failed ? 'text-red-600' : 'text-gray-400'}>
+                    {attachment.failed ? strings.uploadFailed : formatFileSize(attachment.file.size)}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeAttachment(attachment.localId)}
+                  className="absolute top-0.5 end-0.5 p-0.5 rounded text-gray-400 hover:text-gray-600"
+                  aria-label={strings.removeAttachment}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+                {/* Upload progress */}
+                {!attachment.uploaded && !attachment.failed && (
+                  <div className="absolute bottom-0 start-0 h-0.5 bg-blue-500 transition-all" style={{ width: `${Math.round(attachment.progress * 100)}%` }} />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {attachmentError && (
+          <div className="mb-2 text-xs text-red-600" role="alert">{attachmentError}</div>
+        )}
+
         <div className="flex items-end space-x-2">
           {/* Message input */}
           <div className="flex-1 relative">
@@ -78,12 +256,13 @@ const MessageInput: React.FC<MessageInputProps> = ({
               value={message}
               onChange={handleChange}
               onKeyDown={handleKeyPress}
+              onPaste={handlePaste}
               onCompositionStart={() => setIsComposing(true)}
               onCompositionEnd={() => setIsComposing(false)}
-              placeholder={disabled ? 'Connecting...' : placeholder}
+              placeholder={disabled ? strings.connecting : placeholder}
               disabled={disabled}
               rows={1}
-              className="w-full resize-none rounded-lg border border-gray-300 px-3 py-2 pr-24 text-sm 
+              className="w-full resize-none rounded-lg border border-gray-300 px-3 py-2 pe-24 text-sm 
                          focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500
                          disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed
                          scrollbar-hide"
@@ -94,27 +273,43 @@ const MessageInput: React.FC<MessageInputProps> = ({
             />
             
             {/* Input accessories */}
-            <div className="absolute right-2 bottom-2 flex items-center space-x-1">
+            <div className="absolute end-2 bottom-2 flex items-center space-x-1">
               {/* Emoji picker button */}
               <button
                 type="button"
                 onClick={() => setShowEmojiPicker(!showEmojiPicker)}
                 disabled={disabled}
                 className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:cursor-not-allowed"
-                aria-label="Add emoji"
+                aria-label={strings.addEmoji}
               >
                 <Smile className="w-4 h-4" />
               </button>
               
               {/* File attachment button */}
-              <button
-                type="button"
-                disabled={disabled}
-                className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:cursor-not-allowed"
-                aria-label="Attach file"
-              >
-                <Paperclip className="w-4 h-4" />
-              </button>
+              {onUploadAttachment && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={disabled || attachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:cursor-not-allowed"
+                    aria-label={strings.attachFile}
+                  >
+                    <Paperclip className="w-4 h-4" />
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                      addFiles(Array.from(e.target.files ?? []));
+                      e.target.value = '';
+                    }}
+                  />
+                </>
+              )}
               
               {/* Voice recording button */}
               <button
@@ -126,7 +321,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
                     ? 'text-red-500 hover:text-red-600' 
                     : 'text-gray-400 hover:text-gray-600'
                 }`}
-                aria-label={isRecording ? 'Stop recording' : 'Start voice recording'}
+                aria-label={isRecording ? strings.stopRecording : strings.startRecording}
               >
                 {isRecording ? (
                   <Square className="w-4 h-4 fill-current" />
@@ -138,7 +333,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
             
             {/* Emoji picker */}
             {showEmojiPicker && (
-              <div className="absolute bottom-full left-0 mb-2 bg-white border border-gray-200 rounded-lg shadow-lg p-2 z-10">
+              <div className="absolute bottom-full start-0 mb-2 bg-white border border-gray-200 rounded-lg shadow-lg p-2 z-10">
                 <div className="flex space-x-1">
                   {quickEmojis.map((emoji, index) => (
                     <button
@@ -160,7 +355,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
             
             {/* Character count */}
             {message.length > 1800 && (
-              <div className="absolute bottom-1 left-2 text-xs text-gray-400">
+              <div className="absolute bottom-1 start-2 text-xs text-gray-400">
                 {message.length}/2000
               </div>
             )}
@@ -175,7 +370,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
                 ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-sm hover:shadow-md'
                 : 'bg-gray-100 text-gray-400 cursor-not-allowed'
             }`}
-            aria-label="Send message"
+            aria-label={strings.sendMessage}
           >
             {isTyping ? (
               <Loader2 className="w-5 h-5 animate-spin" />
@@ -191,24 +386,24 @@ const MessageInput: React.FC<MessageInputProps> = ({
             {/* Connection status */}
             {disabled && (
               <span className="text-xs text-gray-500 flex items-center">
-                <div className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse mr-1"></div>
-                Connecting...
+                <div className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse me-1"></div>
+                {strings.connecting}
               </span>
             )}
             
             {/* Recording status */}
             {isRecording && (
               <span className="text-xs text-red-600 flex items-center">
-                <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse mr-1"></div>
-                Recording...
+                <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse me-1"></div>
+                {strings.recording}
               </span>
             )}
             
             {/* Typing status */}
             {isTyping && (
               <span className="text-xs text-blue-600 flex items-center">
-                <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse mr-1"></div>
-                AI is typing...
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse me-1"></div>
+                {strings.aiTyping}
               </span>
             )}
           </div>
@@ -216,14 +411,14 @@ const MessageInput: React.FC<MessageInputProps> = ({
           {/* Tips - only show when no other status */}
           {!disabled && !isTyping && message.length === 0 && !isRecording && (
             <span className="text-xs text-gray-400">
-              Press Enter to send, Shift+Enter for new line
+              {strings.enterToSend}
             </span>
           )}
           
           {/* Message count - only show when typing */}
           {message.length > 0 && (
             <span className="text-xs text-gray-400">
-              {message.length} characters
+              {formatString(strings.characters, { count: message.length })}
             </span>
           )}
         </div>
@@ -1,29 +1,53 @@
 import React, { useEffect, useRef } from 'react';
-import type { Message } from '../types/api';
+import type { FeedbackReason, Message } from '../types/api';
 import MessageBubble from './MessageBubble';
 import TypingIndicator from './TypingIndicator';
+import { useWidgetI18n } from '../widget/i18n';
 
 interface MessageListProps {
   messages: Message[];
   isTyping: boolean;
   isConnected: boolean;
+  onRateMessage?: (messageId: string, wasHelpful: boolean, reason?: FeedbackReason) => void;
 }
 
 const MessageList: React.FC<MessageListProps> = ({
   messages,
   isTyping,
   isConnected,
+  onRateMessage,
 }) => {
+  const { strings } = useWidgetI18n();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const isPinnedToBottomRef = useRef(true);
+  const messageCountRef = useRef(messages.length);
 
-  // Auto-scroll to bottom when new messages arrive
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const lastMessage = messages[messages.length - 1];
+  const isStreaming = lastMessage?.type === 'assistant' && !!lastMessage.isTyping;
+
+  // Only follow new content while the reader is already at the bottom
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    isPinnedToBottomRef.current = distanceFromBottom < 48;
   };
 
+  // Auto-scroll to bottom when new messages arrive or a streamed reply grows
   useEffect(() => {
-    scrollToBottom();
+    const hasNewMessage = messages.length !== messageCountRef.current;
+    messageCountRef.current = messages.length;
+
+    if (!isPinnedToBottomRef.current && !hasNewMessage) return;
+    isPinnedToBottomRef.current = true;
+
+    if (hasNewMessage || !containerRef.current) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+    } else {
+      // Jump instantly while chunks stream in; stacking smooth scrolls causes jank
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
   }, [messages, isTyping]);
 
   // Show empty state when no messages
@@ -41,8 +65,8 @@ const MessageList: React.FC<MessageListProps> = ({
               />
             </svg>
           </div>
-          <p className="text-sm font-medium mb-1">Start a conversation</p>
-          <p className="text-xs">Ask me anything about this website!</p>
+          <p className="text-sm font-medium mb-1">{strings.startConversation}</p>
+          <p className="text-xs">{strings.askAnything}</p>
         </div>
       </div>
     );
@@ -51,6 +75,7 @@ const MessageList: React.FC<MessageListProps> = ({
   return (
     <div 
       ref={containerRef}
+      onScroll={handleScroll}
       className="flex-1 overflow-y-auto p-3 space-y-3 scrollbar-hide"
       style={{ maxHeight: '280px' }} // Reduced from 320px to 280px
     >
@@ -58,8 +83,8 @@ const MessageList: React.FC<MessageListProps> = ({
       {!isConnected && messages.length > 0 && (
         <div className="text-center">
           <div className="inline-flex items-center px-3 py-1 rounded-full text-xs bg-yellow-100 text-yellow-800">
-            <div className="w-2 h-2 bg-yellow-400 rounded-full mr-2"></div>
-            Reconnecting...
+            <div className="w-2 h-2 bg-yellow-400 rounded-full me-2"></div>
+            {strings.reconnecting}
           </div>
         </div>
       )}
@@ -70,11 +95,12 @@ const MessageList: React.FC<MessageListProps> = ({
           key={message.id}
           message={message}
           isLast={index === messages.length - 1}
+          onRate={onRateMessage}
         />
       ))}
 
-      {/* Typing indicator */}
-      {isTyping && <TypingIndicator />}
+      {/* Typing indicator (the streaming bubble shows its own cursor) */}
+      {isTyping && !isStreaming && <TypingIndicator />}
 
       {/* Scroll anchor */}
       <div ref={messagesEndRef} />
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Loader2, CheckCircle } from 'lucide-react';
+import type { LeadRequest } from '../types/api';
+import { formatString, useWidgetI18n } from '../widget/i18n';
+
+interface OfflineLeadFormProps {
+  offlineMessage?: string;
+  thanksMessage?: string;
+  /** e.g. "Monday 09:00", when the team is back */
+  nextOpening?: string;
+  primaryColor: string;
+  onSubmit: (lead: Pick<LeadRequest, 'name' | 'email' | 'question'>) => Promise<void>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/**
+ * Shown instead of the chat outside business hours: collects name, email and question
+ */
+const OfflineLeadForm: React.FC<OfflineLeadFormProps> = ({
+  offlineMessage,
+  thanksMessage,
+  nextOpening,
+  primaryColor,
+  onSubmit,
+}) => {
+  const { strings } = useWidgetI18n();
+  const [lead, setLead] = useState({ name: '', email: '', question: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = { name: lead.name.trim(), email: lead.email.trim(), question: lead.question.trim() };
+
+    if (!trimmed.name || !trimmed.question) {
+      setError(strings.nameAndQuestionRequired);
+      return;
+    }
+    if (!EMAIL_PATTERN.test(trimmed.email)) {
+      setError(strings.invalidEmail);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(trimmed);
+      setIsSubmitted(true);
+    } catch {
+      setError(strings.submitFailed);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+        <CheckCircle className="w-10 h-10 mb-3" style={{ color: primaryColor }} />
+        <p className="text-sm text-gray-700">{thanksMessage || strings.defaultThanksMessage}</p>
+        <p className="text-xs text-gray-500 mt-1">{formatString(strings.replyTo, { email: lead.email.trim() })}</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-4 space-y-3" noValidate>
+      <p className="text-sm text-gray-700">
+        {offlineMessage || strings.defaultOfflineMessage}
+      </p>
+      {nextOpening && (
+        <p className="text-xs text-gray-500">{formatString(strings.backOnline, { time: nextOpening })}</p>
+      )}
+
+      <input
+        type="text"
+        className={inputClassName}
+        placeholder={strings.yourName}
+        autoComplete="name"
+        value={lead.name}
+        onChange={(e) => setLead(prev => ({ ...prev, name: e.target.value }))}
+      />
+      <input
+        type="email"
+        className={inputClassName}
+        placeholder={strings.yourEmail}
+        autoComplete="email"
+        value={lead.email}
+        onChange={(e) => setLead(prev => ({ ...prev, email: e.target.value }))}
+      />
+      <textarea
+        className={`${inputClassName} resize-none`}
+        rows={4}
+        placeholder={strings.howCanWeHelp}
+        value={lead.question}
+        onChange={(e) => setLead(prev => ({ ...prev, question: e.target.value }))}
+      />
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full flex items-center justify-center space-x-2 py-2 rounded-md text-sm font-medium text-white disabled:opacity-50"
+        style={{ backgroundColor: primaryColor }}
+      >
+        {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+        <span>{isSubmitting ? strings.sending : strings.send}</span>
+      </button>
+    </form>
+  );
+};
+
+export default OfflineLeadForm;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { SourceCitation } from '../types/api';
+import { getCitationFavicon, getCitationTitle } from '../widget/citations';
+import { useWidgetI18n } from '../widget/i18n';
+
+interface SourceCitationsProps {
+  citations: SourceCitation[];
+}
+
+/**
+ * Numbered links to the pages an answer is based on; hovering or focusing a
+ * chip shows the page's title and favicon
+ */
+const SourceCitations: React.FC<SourceCitationsProps> = ({ citations }) => {
+  const { strings } = useWidgetI18n();
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-gray-500">
+      <span>{strings.sources}</span>
+      {citations.map((citation, index) => {
+        const title = getCitationTitle(citation);
+        const favicon = getCitationFavicon(citation);
+
+        return (
+          <a
+            key={citation.url}
+            href={citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="group relative inline-flex items-center justify-center min-w-5 h-5 px-1 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 focus:bg-gray-200"
+            aria-label={`${index + 1}: ${title}`}
+          >
+            {index + 1}
+            <span
+              className="hidden group-hover:flex group-focus:flex absolute bottom-full start-0 mb-1 z-10 items-center gap-1.5 w-max max-w-56 px-2 py-1 rounded-md bg-gray-800 text-white shadow-lg"
+              role="tooltip"
+            >
+              {favicon && (
+                <img
+                  src={favicon}
+                  alt=""
+                  className="w-3.5 h-3.5 flex-shrink-0"
+                  onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                />
+              )}
+              <span className="truncate">{title}</span>
+            </span>
+          </a>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SourceCitations;
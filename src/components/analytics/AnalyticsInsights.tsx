@@ -15,63 +15,7 @@ import {
   Star,
   Flag
 } from 'lucide-react';
-
-interface InsightsData {
-  website_id: string;
-  analysis_period: {
-    days: number;
-    start_date: string;
-    end_date: string;
-  };
-  insights: {
-    conversation_patterns: string[];
-    user_behavior_insights: string[];
-    performance_recommendations: string[];
-    content_optimization_suggestions: string[];
-    engagement_improvement_tips: string[];
-  };
-  action_items: {
-    high_priority: Array<{
-      title: string;
-      description: string;
-      impact: string;
-      effort: string;
-    }>;
-    medium_priority: Array<{
-      title: string;
-      description: string;
-      impact: string;
-      effort: string;
-    }>;
-    low_priority: Array<{
-      title: string;
-      description: string;
-      impact: string;
-      effort: string;
-    }>;
-  };
-  trends_analysis: {
-    positive_trends: string[];
-    concerning_trends: string[];
-    neutral_trends: string[];
-  };
-  benchmarking: {
-    performance_vs_average: {
-      score: number;
-      comparison: string;
-    };
-    engagement_vs_average: {
-      score: number;
-      comparison: string;
-    };
-    quality_vs_average: {
-      score: number;
-      comparison: string;
-    };
-  };
-  generated_at: string;
-  insight_confidence: number;
-}
+import { apiService, type AnalyticsInsightsReport } from '../../services/centralizedApi';
 
 interface AnalyticsInsightsProps {
   websiteId: string;
@@ -79,38 +23,38 @@ interface AnalyticsInsightsProps {
 }
 
 const AnalyticsInsights: React.FC<AnalyticsInsightsProps> = ({ websiteId, days }) => {
-  const [data, setData] = useState<InsightsData | null>(null);
+  const [data, setData] = useState<AnalyticsInsightsReport | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeInsightCategory, setActiveInsightCategory] = useState<string>('conversation_patterns');
   const [activePriority, setActivePriority] = useState<string>('high_priority');
 
   useEffect(() => {
-    loadAnalyticsInsights();
+    const controller = new AbortController();
+    loadAnalyticsInsights(controller.signal);
+    return () => controller.abort();
   }, [websiteId, days]);
 
-  const loadAnalyticsInsights = async () => {
+  const loadAnalyticsInsights = async (signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/v1/analytics/websites/${websiteId}/insights?days=${days}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const response = await apiService.getAnalyticsInsights(websiteId, days, { signal });
+      if (response.aborted) return;
 
-      if (!response.ok) {
-        throw new Error(`Failed to load analytics insights: ${response.status}`);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load analytics insights');
       }
 
-      const insightsData = await response.json();
-      setData(insightsData);
+      setData(response.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load analytics insights');
       console.error('Analytics insights loading error:', err);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
@@ -135,7 +79,7 @@ const AnalyticsInsights: React.FC<AnalyticsInsightsProps> = ({ websiteId, days }
             <AlertCircle className="w-6 h-6 text-red-500 mx-auto mb-2" />
             <p className="text-red-600">{error || 'Failed to load analytics insights'}</p>
             <button
-              onClick={loadAnalyticsInsights}
+              onClick={() => loadAnalyticsInsights()}
               className="mt-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
             >
               Try again
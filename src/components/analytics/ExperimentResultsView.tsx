@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FlaskConical, Loader2, AlertCircle, ArrowUp, ArrowDown } from 'lucide-react';
+import { apiService, type ExperimentResults, type ExperimentVariantResult } from '../../services/centralizedApi';
+
+interface ExperimentResultsViewProps {
+  websiteId: string;
+  days: number;
+}
+
+interface RateMetric {
+  key: string;
+  label: string;
+  successes: (variant: ExperimentVariantResult) => number;
+  total: (variant: ExperimentVariantResult) => number;
+}
+
+const METRICS: RateMetric[] = [
+  { key: 'open', label: 'Open rate', successes: v => v.opens, total: v => v.impressions },
+  { key: 'conversation', label: 'Conversation start rate', successes: v => v.conversations, total: v => v.impressions },
+  { key: 'satisfaction', label: 'Satisfaction', successes: v => v.satisfied_responses, total: v => v.satisfaction_responses }
+];
+
+/** Below this many observations per variant a difference is not judged */
+const MIN_SAMPLE_SIZE = 100;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Standard normal CDF (Abramowitz and Stegun 7.1.26) */
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/** Two-sided p-value of a two-proportion z-test; null when it cannot be computed */
+const twoProportionPValue = (successesA: number, totalA: number, successesB: number, totalB: number): number | null => {
+  if (totalA === 0 || totalB === 0) return null;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return null;
+  const z = (successesB / totalB - successesA / totalA) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+};
+
+const formatRate = (successes: number, total: number): string =>
+  total > 0 ? `${((successes / total) * 100).toFixed(1)}%` : '–';
+
+interface ComparisonBadgeProps {
+  metric: RateMetric;
+  control: ExperimentVariantResult;
+  variant: ExperimentVariantResult;
+}
+
+/**
+ * Difference to the control and whether it is statistically significant
+ */
+const ComparisonBadge: React.FC<ComparisonBadgeProps> = ({ metric, control, variant }) => {
+  const controlTotal = metric.total(control);
+  const variantTotal = metric.total(variant);
+
+  if (controlTotal < MIN_SAMPLE_SIZE || variantTotal < MIN_SAMPLE_SIZE) {
+    return <span className="text-xs text-gray-400">Needs more data</span>;
+  }
+
+  const controlRate = metric.successes(control) / controlTotal;
+  const variantRate = metric.successes(variant) / variantTotal;
+  const difference = (variantRate - controlRate) * 100;
+  const pValue = twoProportionPValue(metric.successes(control), controlTotal, metric.successes(variant), variantTotal);
+  const isSignificant = pValue !== null && pValue < SIGNIFICANCE_LEVEL;
+
+  if (!isSignificant) {
+    return (
+      <span className="text-xs text-gray-500" title={pValue !== null ? `p = ${pValue.toFixed(3)}` : undefined}>
+        {difference >= 0 ? '+' : ''}{difference.toFixed(1)} pts, not significant
+      </span>
+    );
+  }
+
+  const isBetter = difference > 0;
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 text-xs font-medium px-1.5 py-0.5 rounded ${
+        isBetter ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+      }`}
+      title={`p = ${pValue.toFixed(3)}`}
+    >
+      {isBetter ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+      <span>{difference >= 0 ? '+' : ''}{difference.toFixed(1)} pts, significant</span>
+    </span>
+  );
+};
+
+/**
+ * Per-variant open, conversation start and satisfaction rates of the widget A/B tests
+ */
+const ExperimentResultsView: React.FC<ExperimentResultsViewProps> = ({ websiteId, days }) => {
+  const [experiments, setExperiments] = useState<ExperimentResults[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExperiments = useCallback(async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiService.getExperimentResults(websiteId, days, { signal });
+      if (response.aborted) return;
+
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load A/B test results');
+      }
+
+      setExperiments(response.data.experiments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load A/B test results');
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [websiteId, days]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadExperiments(controller.signal);
+    return () => controller.abort();
+  }, [loadExperiments]);
+
+  if (isLoading) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-sm border">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <Loader2 className="w-6 h-6 animate-spin text-indigo-600 mx-auto mb-2" />
+            <p className="text-gray-600">Loading A/B test results...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-sm border">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <AlertCircle className="w-6 h-6 text-red-500 mx-auto mb-2" />
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={() => loadExperiments()}
+              className="mt-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
+            >
+              Try again
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (experiments.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-sm border text-center py-12">
+        <FlaskConical className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+        <p className="text-gray-600">No A/B tests yet.</p>
+        <p className="text-sm text-gray-500 mt-1">
+          Add variants of the widget configuration under A/B Test in the script generator.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {experiments.map(experiment => {
+        const [control, ...challengers] = experiment.variants;
+
+        return (
+          <div key={experiment.experiment_id} className="bg-white p-6 rounded-lg shadow-sm border">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2">
+                <FlaskConical className="w-5 h-5 text-indigo-600" />
+                <h3 className="text-lg font-medium text-gray-900">{experiment.name}</h3>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${
+                  experiment.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                }`}>
+                  {experiment.enabled ? 'Running' : 'Stopped'}
+                </span>
+              </div>
+              {experiment.started_at && (
+                <span className="text-sm text-gray-500">
+                  Since {new Date(experiment.started_at).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Variant</th>
+                    <th className="py-2 pr-4 font-medium">Impressions</th>
+                    {METRICS.map(metric => (
+                      <th key={metric.key} className="py-2 pr-4 font-medium">{metric.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {experiment.variants.map(variant => (
+                    <tr key={variant.variant_id} className="border-b last:border-0 align-top">
+                      <td className="py-3 pr-4">
+                        <div className="font-medium text-gray-900">{variant.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {variant === control ? 'Control' : 'Challenger'} · {variant.weight}% of traffic
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">{variant.impressions.toLocaleString()}</td>
+                      {METRICS.map(metric => (
+                        <td key={metric.key} className="py-3 pr-4">
+                          <div className="text-gray-900">{formatRate(metric.successes(variant), metric.total(variant))}</div>
+                          {variant !== control && <ComparisonBadge metric={metric} control={control} variant={variant} />}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {challengers.length > 0 && (
+              <p className="mt-3 text-xs text-gray-500">
+                Challengers are compared with the control using a two-proportion z-test at 95% confidence.
+                Satisfaction counts positively rated conversations out of all rated ones.
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ExperimentResultsView;
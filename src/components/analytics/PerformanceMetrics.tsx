@@ -13,39 +13,7 @@ import {
   TrendingDown,
   Cpu
 } from 'lucide-react';
-
-interface PerformanceData {
-  website_id: string;
-  analysis_period: {
-    days: number;
-    start_date: string;
-    end_date: string;
-  };
-  response_performance: {
-    avg_response_time_ms: number;
-    median_response_time_ms: number;
-    p95_response_time_ms: number;
-    slow_responses_count: number;
-    response_time_trend: string;
-  };
-  context_optimization: {
-    avg_context_preparation_time_ms: number;
-    context_optimization_success_rate: number;
-    avg_tokens_optimized: number;
-    compression_ratio: number;
-  };
-  system_health: {
-    error_rate: number;
-    timeout_rate: number;
-    cache_hit_rate: number;
-    system_status: string;
-  };
-  resource_usage: {
-    avg_memory_usage_mb: number;
-    peak_concurrent_conversations: number;
-    database_query_performance: number;
-  };
-}
+import { apiService, type PerformanceAnalytics } from '../../services/centralizedApi';
 
 interface PerformanceMetricsProps {
   websiteId: string;
@@ -53,36 +21,36 @@ interface PerformanceMetricsProps {
 }
 
 const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ websiteId, days }) => {
-  const [data, setData] = useState<PerformanceData | null>(null);
+  const [data, setData] = useState<PerformanceAnalytics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    loadPerformanceMetrics();
+    const controller = new AbortController();
+    loadPerformanceMetrics(controller.signal);
+    return () => controller.abort();
   }, [websiteId, days]);
 
-  const loadPerformanceMetrics = async () => {
+  const loadPerformanceMetrics = async (signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/v1/analytics/websites/${websiteId}/performance?days=${days}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const response = await apiService.getPerformanceAnalytics(websiteId, days, { signal });
+      if (response.aborted) return;
 
-      if (!response.ok) {
-        throw new Error(`Failed to load performance metrics: ${response.status}`);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load performance metrics');
       }
 
-      const performanceData = await response.json();
-      setData(performanceData);
+      setData(response.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load performance metrics');
       console.error('Performance metrics loading error:', err);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
@@ -107,7 +75,7 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ websiteId, days
             <AlertCircle className="w-6 h-6 text-red-500 mx-auto mb-2" />
             <p className="text-red-600">{error || 'Failed to load performance metrics'}</p>
             <button
-              onClick={loadPerformanceMetrics}
+              onClick={() => loadPerformanceMetrics()}
               className="mt-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
             >
               Try again
@@ -9,33 +9,7 @@ import {
   TrendingUp,
   Calendar
 } from 'lucide-react';
-
-interface SessionAnalyticsData {
-  website_id: string;
-  analysis_period: {
-    days: number;
-    start_date: string;
-    end_date: string;
-  };
-  session_metrics: {
-    total_sessions: number;
-    active_sessions: number;
-    expired_sessions: number;
-    avg_session_duration_minutes: number;
-    sessions_per_day: number;
-    session_continuation_rate: number;
-  };
-  conversation_session_mapping: {
-    conversations_with_sessions: number;
-    multi_session_conversations: number;
-    avg_conversations_per_session: number;
-  };
-  context_optimization: {
-    sessions_with_context_optimization: number;
-    avg_context_tokens_saved: number;
-    optimization_success_rate: number;
-  };
-}
+import { apiService, type SessionAnalytics } from '../../services/centralizedApi';
 
 interface SessionAnalyticsChartProps {
   websiteId: string;
@@ -43,36 +17,36 @@ interface SessionAnalyticsChartProps {
 }
 
 const SessionAnalyticsChart: React.FC<SessionAnalyticsChartProps> = ({ websiteId, days }) => {
-  const [data, setData] = useState<SessionAnalyticsData | null>(null);
+  const [data, setData] = useState<SessionAnalytics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    loadSessionAnalytics();
+    const controller = new AbortController();
+    loadSessionAnalytics(controller.signal);
+    return () => controller.abort();
   }, [websiteId, days]);
 
-  const loadSessionAnalytics = async () => {
+  const loadSessionAnalytics = async (signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/v1/analytics/websites/${websiteId}/sessions?days=${days}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const response = await apiService.getSessionAnalytics(websiteId, days, { signal });
+      if (response.aborted) return;
 
-      if (!response.ok) {
-        throw new Error(`Failed to load session analytics: ${response.status}`);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load session analytics');
       }
 
-      const sessionData = await response.json();
-      setData(sessionData);
+      setData(response.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load session analytics');
       console.error('Session analytics loading error:', err);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
@@ -97,7 +71,7 @@ const SessionAnalyticsChart: React.FC<SessionAnalyticsChartProps> = ({ websiteId
             <AlertCircle className="w-6 h-6 text-red-500 mx-auto mb-2" />
             <p className="text-red-600">{error || 'Failed to load session analytics'}</p>
             <button
-              onClick={loadSessionAnalytics}
+              onClick={() => loadSessionAnalytics()}
               className="mt-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
             >
               Try again
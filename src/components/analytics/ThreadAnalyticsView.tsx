@@ -11,43 +11,7 @@ import {
   RotateCcw,
   Hash
 } from 'lucide-react';
-
-interface ThreadAnalyticsData {
-  website_id: string;
-  analysis_period: {
-    days: number;
-    start_date: string;
-    end_date: string;
-  };
-  thread_metrics: {
-    total_threads: number;
-    active_threads: number;
-    avg_thread_length: number;
-    avg_conversations_per_thread: number;
-    thread_continuation_rate: number;
-  };
-  topic_analysis: Record<string, number>;
-  visitor_journey: {
-    multi_session_visitors: number;
-    avg_sessions_per_visitor: number;
-    visitor_return_rate: number;
-  };
-  thread_health: {
-    coherent_threads: number;
-    broken_threads: number;
-    avg_coherence_score: number;
-  };
-  thread_details?: Array<{
-    thread_id: string;
-    topic: string;
-    conversations_count: number;
-    total_messages: number;
-    start_date: string;
-    last_activity: string;
-    coherence_score: number;
-    visitor_id: string;
-  }>;
-}
+import { apiService, type ThreadAnalytics } from '../../services/centralizedApi';
 
 interface ThreadAnalyticsViewProps {
   websiteId: string;
@@ -55,47 +19,44 @@ interface ThreadAnalyticsViewProps {
 }
 
 const ThreadAnalyticsView: React.FC<ThreadAnalyticsViewProps> = ({ websiteId, days }) => {
-  const [data, setData] = useState<ThreadAnalyticsData | null>(null);
+  const [data, setData] = useState<ThreadAnalytics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showDetails, setShowDetails] = useState(false);
 
   useEffect(() => {
-    loadThreadAnalytics();
+    const controller = new AbortController();
+    loadThreadAnalytics(showDetails, controller.signal);
+    return () => controller.abort();
   }, [websiteId, days]);
 
-  const loadThreadAnalytics = async () => {
+  const loadThreadAnalytics = async (includeDetails: boolean = showDetails, signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(
-        `/api/v1/analytics/websites/${websiteId}/threads?days=${days}&include_thread_details=${showDetails}`, 
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-          }
-        }
-      );
+      const response = await apiService.getThreadAnalytics(websiteId, days, includeDetails, { signal });
+      if (response.aborted) return;
 
-      if (!response.ok) {
-        throw new Error(`Failed to load thread analytics: ${response.status}`);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load thread analytics');
       }
 
-      const threadData = await response.json();
-      setData(threadData);
+      setData(response.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load thread analytics');
       console.error('Thread analytics loading error:', err);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
   const toggleDetails = () => {
     setShowDetails(!showDetails);
     if (!showDetails) {
-      loadThreadAnalytics();
+      loadThreadAnalytics(true);
     }
   };
 
@@ -120,7 +81,7 @@ const ThreadAnalyticsView: React.FC<ThreadAnalyticsViewProps> = ({ websiteId, da
             <AlertCircle className="w-6 h-6 text-red-500 mx-auto mb-2" />
             <p className="text-red-600">{error || 'Failed to load thread analytics'}</p>
             <button
-              onClick={loadThreadAnalytics}
+              onClick={() => loadThreadAnalytics()}
               className="mt-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
             >
               Try again
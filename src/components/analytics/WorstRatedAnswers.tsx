@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ThumbsUp, ThumbsDown, Loader2, AlertCircle, ExternalLink } from 'lucide-react';
+import { apiService, type AnswerFeedbackSummary } from '../../services/centralizedApi';
+import type { FeedbackReason } from '../../types/api';
+
+interface WorstRatedAnswersProps {
+  websiteId: string;
+  days: number;
+}
+
+const REASON_LABELS: Record<FeedbackReason, string> = {
+  wrong: 'Wrong',
+  outdated: 'Outdated',
+  unclear: 'Unclear'
+};
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+
+/**
+ * Thumbs up/down visitors gave the widget's answers, and the answers rated
+ * unhelpful most often with a link to their transcript
+ */
+const WorstRatedAnswers: React.FC<WorstRatedAnswersProps> = ({ websiteId, days }) => {
+  const [feedback, setFeedback] = useState<AnswerFeedbackSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFeedback = useCallback(async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiService.getAnswerFeedback(websiteId, days, 10, { signal });
+      if (response.aborted) return;
+
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load answer ratings');
+      }
+
+      setFeedback(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load answer ratings');
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [websiteId, days]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadFeedback(controller.signal);
+    return () => controller.abort();
+  }, [loadFeedback]);
+
+  const totalRatings = feedback ? feedback.helpful_count + feedback.unhelpful_count : 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Worst-Rated Answers</h3>
+        {feedback && totalRatings > 0 && (
+          <div className="flex items-center space-x-4 text-sm text-gray-600">
+            <span className="flex items-center space-x-1">
+              <ThumbsUp className="w-4 h-4 text-green-600" />
+              <span>{feedback.helpful_count.toLocaleString()}</span>
+            </span>
+            <span className="flex items-center space-x-1">
+              <ThumbsDown className="w-4 h-4 text-red-600" />
+              <span>{feedback.unhelpful_count.toLocaleString()}</span>
+            </span>
+            <span>{((feedback.helpful_count / totalRatings) * 100).toFixed(0)}% helpful</span>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-8">
+          <AlertCircle className="w-6 h-6 text-red-500 mx-auto mb-2" />
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={() => loadFeedback()}
+            className="mt-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
+          >
+            Try again
+          </button>
+        </div>
+      ) : !feedback || feedback.worst_answers.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">
+          No answers were rated unhelpful in this period. Visitors rate answers with the thumbs under each reply in the widget.
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {feedback.worst_answers.map(answer => (
+            <li key={answer.message_id} className="py-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  {answer.question && (
+                    <p className="text-sm font-medium text-gray-900">{truncate(answer.question, 120)}</p>
+                  )}
+                  <p className="text-sm text-gray-600 mt-0.5">{truncate(answer.answer, 200)}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <span className="inline-flex items-center space-x-1 text-xs text-red-700 bg-red-50 px-1.5 py-0.5 rounded">
+                      <ThumbsDown className="w-3 h-3" />
+                      <span>{answer.unhelpful_count}</span>
+                    </span>
+                    {answer.helpful_count > 0 && (
+                      <span className="inline-flex items-center space-x-1 text-xs text-green-700 bg-green-50 px-1.5 py-0.5 rounded">
+                        <ThumbsUp className="w-3 h-3" />
+                        <span>{answer.helpful_count}</span>
+                      </span>
+                    )}
+                    {(Object.keys(REASON_LABELS) as FeedbackReason[])
+                      .filter(reason => answer.reasons[reason])
+                      .map(reason => (
+                        <span key={reason} className="text-xs text-gray-600 bg-gray-100 px-1.5 py-0.5 rounded">
+                          {REASON_LABELS[reason]} × {answer.reasons[reason]}
+                        </span>
+                      ))}
+                    <span className="text-xs text-gray-400">
+                      Last rated {new Date(answer.last_rated_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+                <Link
+                  to={`/session-history/${answer.session_token}`}
+                  className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+                >
+                  <span>Transcript</span>
+                  <ExternalLink className="w-3 h-3" />
+                </Link>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WorstRatedAnswers;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Eye, EyeOff, User, Mail, Lock, Loader2, AlertCircle, CheckCircle, Shield } from 'lucide-react';
 import { useAppDispatch, useAppSelector } from '../../store';
@@ -6,7 +6,7 @@ import { registerUser } from '../../store/authSlice';
 
 const RegisterForm: React.FC = () => {
   const dispatch = useAppDispatch();
-  const { isLoading, error } = useAppSelector(state => state.auth);
+  const { isLoading, error, fieldErrors } = useAppSelector(state => state.auth);
   const navigate = useNavigate();
 
   const [formData, setFormData] = useState({
@@ -27,6 +27,21 @@ const RegisterForm: React.FC = () => {
   }>({});
   const [successMessage, setSuccessMessage] = useState('');
 
+  // Show fields rejected by the server next to the matching input
+  useEffect(() => {
+    const rejectedFields = (['name', 'email', 'password'] as const).filter(field => fieldErrors[field]);
+    if (rejectedFields.length === 0) return;
+
+    setErrors(prev => {
+      const next = { ...prev };
+      rejectedFields.forEach(field => {
+        next[field] = fieldErrors[field];
+      });
+      return next;
+    });
+    document.getElementById(rejectedFields[0])?.focus();
+  }, [fieldErrors]);
+
   const getPasswordStrength = (password: string) => {
     if (password.length < 8) return { score: 0, label: 'Weak' };
     
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '../../store';
+import {
+  replayMutationQueue,
+  retryQueuedMutation,
+  discardQueuedMutation,
+  selectPendingMutations,
+  selectIsReplayingMutations,
+  type QueuedMutation
+} from '../../store/dashboardSlice';
+import { showSuccessToast, showWarningToast } from '../../store/notificationSlice';
+
+const describeMutation = (mutation: QueuedMutation): string => {
+  switch (mutation.type) {
+    case 'createWebsite':
+      return `Register "${mutation.websiteData.name}"`;
+    case 'deleteWebsite':
+      return `Delete "${mutation.website?.name || mutation.websiteId}"`;
+    case 'triggerCrawl':
+      return 'Start crawl';
+  }
+};
+
+/**
+ * Lists dashboard changes queued while offline, replays them when the
+ * connection returns and lets the user resolve the ones the server rejected
+ */
+export default function PendingMutations() {
+  const dispatch = useAppDispatch();
+  const isAuthenticated = useAppSelector(state => state.auth.isAuthenticated);
+  const mutations = useAppSelector(selectPendingMutations);
+  const isReplaying = useAppSelector(selectIsReplayingMutations);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  const hasPending = mutations.some(mutation => mutation.status === 'pending');
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Replay on reconnect and on startup (the queue survives page reloads)
+  useEffect(() => {
+    if (!isAuthenticated || !isOnline || !hasPending) return;
+
+    dispatch(replayMutationQueue()).then((action) => {
+      if (!replayMutationQueue.fulfilled.match(action)) return;
+
+      const { applied, conflicts } = action.payload;
+      if (conflicts > 0) {
+        dispatch(showWarningToast(
+          'Some offline changes were rejected',
+          'Review them in the pending changes panel'
+        ));
+      } else if (applied > 0) {
+        dispatch(showSuccessToast(`Synced ${applied} offline change${applied === 1 ? '' : 's'}`));
+      }
+    });
+  }, [dispatch, isAuthenticated, isOnline, hasPending]);
+
+  if (!isAuthenticated || mutations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-80 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        {isOnline ? (
+          <RefreshCw className={`w-4 h-4 text-blue-600 ${isReplaying ? 'animate-spin' : ''}`} />
+        ) : (
+          <CloudOff className="w-4 h-4 text-gray-500" />
+        )}
+        <p className="text-sm font-medium text-gray-900 dark:text-white">
+          {isOnline
+            ? (isReplaying ? 'Syncing offline changes…' : 'Pending changes')
+            : 'Offline – changes will sync when you reconnect'}
+        </p>
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+        {mutations.map(mutation => (
+          <li key={mutation.id} className="px-4 py-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-800 dark:text-gray-200 truncate">
+                  {describeMutation(mutation)}
+                </p>
+                {mutation.status === 'conflict' ? (
+                  <p className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+                    <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                    {mutation.error?.message || 'Rejected by the server'}
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Waiting to sync</p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {mutation.status === 'conflict' && (
+                  <button
+                    onClick={() => dispatch(retryQueuedMutation(mutation.id))}
+                    disabled={!isOnline || isReplaying}
+                    className="text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                  >
+                    Retry
+                  </button>
+                )}
+                <button
+                  onClick={() => dispatch(discardQueuedMutation(mutation.id))}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  title="Discard change"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -13,7 +13,11 @@ import {
   Loader2
 } from 'lucide-react';
 import { useCrawl } from '../../hooks/useCrawl';
-import type { CrawlHistoryEntry, CrawlJobProgress } from '../../hooks/useCrawl';
+import type { CrawlHistoryEntry } from '../../hooks/useCrawl';
+import { useCrawlJobsProgress } from '../../hooks/useCrawlProgress';
+import { useWebSocketSubscription } from '../../hooks/useWebSocket';
+import { websocketChannels } from '../../services/websocket';
+import LiveUpdatesStatus from './LiveUpdatesStatus';
 import { apiService } from '../../services/centralizedApi';
 import type { FirstPageStatus } from '../../services/centralizedApi';
 
@@ -32,7 +36,7 @@ const CrawlHistoryModal: React.FC<CrawlHistoryModalProps> = ({
   onClose,
   website,
 }) => {
-  const { getCrawlHistory, getCrawlJobProgress, isLoading } = useCrawl();
+  const { getCrawlHistory, isLoading } = useCrawl();
   const navigate = useNavigate();
   const location = useLocation();
   const [history, setHistory] = useState<CrawlHistoryEntry[]>([]);
@@ -42,9 +46,21 @@ const CrawlHistoryModal: React.FC<CrawlHistoryModalProps> = ({
   const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set());
   const [currentPage, setCurrentPage] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [jobProgress, setJobProgress] = useState<Map<string, CrawlJobProgress>>(new Map());
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const historyRef = useRef<CrawlHistoryEntry[]>([]);
+  // Live progress for running jobs (pushed over WebSocket, polled as fallback)
+  const runningJobIds = isOpen
+    ? history.filter(entry => entry.status === 'running').map(entry => entry.crawl_id)
+    : [];
+  const jobProgress = useCrawlJobsProgress(runningJobIds);
+  // Jobs the history was already reloaded for, so their progress doesn't trigger another reload
+  const announcedJobIdsRef = useRef<Set<string>>(new Set());
+
+  // Crawls started elsewhere (another tab, a schedule) show up without a manual refresh
+  useWebSocketSubscription('crawl_progress', (message) => {
+    const jobId = message.job_id;
+    if (!jobId || announcedJobIdsRef.current.has(jobId) || history.some(entry => entry.crawl_id === jobId)) return;
+    announcedJobIdsRef.current.add(jobId);
+    loadHistory(true);
+  }, { channel: websocketChannels.crawl(website.id), enabled: isOpen });
 
   // First page crawl status
   const [firstPageStatus, setFirstPageStatus] = useState<FirstPageStatus | null>(null);
@@ -52,11 +68,6 @@ const CrawlHistoryModal: React.FC<CrawlHistoryModalProps> = ({
 
   const pageSize = 10;
 
-  // Keep historyRef in sync with history state
-  useEffect(() => {
-    historyRef.current = history;
-  }, [history]);
-
   // Redirect to parent page on F5 refresh if modal is open
   useEffect(() => {
     if (!isOpen) return;
@@ -117,80 +128,23 @@ const CrawlHistoryModal: React.FC<CrawlHistoryModalProps> = ({
     return () => clearInterval(interval);
   }, [isOpen, firstPageStatus?.status]);
 
-  // Poll progress for running jobs
+  // Sync history entries when a running job finishes
   useEffect(() => {
-    if (!isOpen) {
-      // Clean up interval when modal closes
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
-      return;
-    }
-
-    // Fetch progress for all jobs in history
-    const fetchProgress = async () => {
-      // Find running jobs from current history ref (always gets latest value)
-      const runningJobs = historyRef.current.filter(entry => entry.status === 'running');
-
-      if (runningJobs.length === 0) {
-        setJobProgress(new Map());
-        return;
-      }
-
-      const progressMap = new Map<string, CrawlJobProgress>();
-
-      for (const job of runningJobs) {
-        try {
-          const result = await getCrawlJobProgress(job.crawl_id, true); // silent = true for background polling
-          if (result.success && result.data) {
-            console.log(`Progress for ${job.crawl_id}:`, result.data); // DEBUG
-            progressMap.set(job.crawl_id, result.data);
-
-            // Update history entry if job completed
-            if (result.data.status === 'completed' || result.data.status === 'failed') {
-              setHistory(prev => prev.map(entry =>
-                entry.crawl_id === job.crawl_id
-                  ? {
-                      ...entry,
-                      status: result.data!.status,
-                      pages_crawled: result.data!.pages_completed,
-                      completed_at: result.data!.completed_at
-                    }
-                  : entry
-              ));
-            }
-          } else {
-            console.log(`Progress fetch failed for ${job.crawl_id}:`, result.error); // DEBUG
-          }
-        } catch (error) {
-          // Silently ignore errors during polling
-          console.debug(`Error fetching progress for job ${job.crawl_id}:`, error);
-        }
-      }
-
-      console.log(`Setting jobProgress Map with ${progressMap.size} entries`); // DEBUG
-      setJobProgress(progressMap);
-    };
-
-    // Initial fetch
-    fetchProgress();
-
-    // Set up polling interval (every 2 seconds) - only if not already running
-    if (!progressIntervalRef.current) {
-      progressIntervalRef.current = setInterval(() => {
-        fetchProgress();
-      }, 2000);
-    }
-
-    // Cleanup on unmount
-    return () => {
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
+    jobProgress.forEach((progress, crawlId) => {
+      if (progress.status === 'completed' || progress.status === 'failed') {
+        setHistory(prev => prev.map(entry =>
+          entry.crawl_id === crawlId && entry.status === 'running'
+            ? {
+                ...entry,
+                status: progress.status,
+                pages_crawled: progress.pages_completed,
+                completed_at: progress.completed_at
+              }
+            : entry
+        ));
       }
-    };
-  }, [isOpen]); // Only depend on isOpen - historyRef.current always has latest value
+    });
+  }, [jobProgress]);
 
   const loadHistory = async (reset: boolean = false) => {
     if (reset) {
@@ -354,6 +308,7 @@ const CrawlHistoryModal: React.FC<CrawlHistoryModalProps> = ({
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            <LiveUpdatesStatus />
             <button
               onClick={handleRefresh}
               disabled={isRefreshing}
@@ -1,9 +1,9 @@
 /**
  * CrawlingHistory Component
  * Displays list of crawling jobs with real-time progress tracking.
- * Uses 2-second polling for active jobs.
+ * Active job progress is pushed over WebSocket, falling back to adaptive polling.
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Clock,
   CheckCircle,
@@ -16,18 +16,10 @@ import {
   TrendingUp
 } from 'lucide-react';
 import { useCrawlProgress, type CrawlJobProgress } from '../../hooks/useCrawlProgress';
-import { config } from '../../config/env';
-
-interface CrawlingJob {
-  job_id: string;
-  website_id: string;
-  website_name?: string;
-  base_url: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
-  created_at: string;
-  started_at?: string;
-  completed_at?: string;
-}
+import { useWebSocketSubscription } from '../../hooks/useWebSocket';
+import { websocketChannels } from '../../services/websocket';
+import LiveUpdatesStatus from './LiveUpdatesStatus';
+import { apiService, type CrawlingJob } from '../../services/centralizedApi';
 
 interface CrawlingHistoryProps {
   websiteId?: string;
@@ -46,6 +38,16 @@ const CrawlingHistory: React.FC<CrawlingHistoryProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeJobIds, setActiveJobIds] = useState<Set<string>>(new Set());
+  // Jobs the list was already reloaded for, so their progress doesn't trigger another reload
+  const announcedJobIdsRef = useRef<Set<string>>(new Set());
+
+  // A website's new crawls appear right away instead of on the next refresh
+  useWebSocketSubscription('crawl_progress', (message) => {
+    const jobId = message.job_id;
+    if (!jobId || announcedJobIdsRef.current.has(jobId) || jobs.some(job => job.job_id === jobId)) return;
+    announcedJobIdsRef.current.add(jobId);
+    fetchJobs();
+  }, { channel: websiteId && websocketChannels.crawl(websiteId), enabled: !!websiteId });
 
   // Fetch jobs list
   useEffect(() => {
@@ -60,33 +62,18 @@ const CrawlingHistory: React.FC<CrawlingHistoryProps> = ({
       setIsLoading(true);
       setError(null);
 
-      const authToken = localStorage.getItem('auth_token');
-      let url = `${config.api.baseUrl}/api/v1/crawl/crawling-jobs?limit=${limit}`;
+      const response = await apiService.getCrawlingJobs({ limit, websiteId, activeOnly });
 
-      if (websiteId) {
-        url += `&website_id=${websiteId}`;
-      }
-      if (activeOnly) {
-        url += '&status=pending,running';
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to fetch jobs');
       }
 
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch jobs');
-      }
-
-      const data = await response.json();
-      setJobs(data.jobs || []);
+      const fetchedJobs = response.data?.jobs || [];
+      setJobs(fetchedJobs);
 
       // Track active jobs for progress polling
       const activeIds: Set<string> = new Set(
-        data.jobs
+        fetchedJobs
           .filter((job: CrawlingJob) => ['pending', 'running'].includes(job.status))
           .map((job: CrawlingJob) => job.job_id)
       );
@@ -144,9 +131,12 @@ const CrawlingHistory: React.FC<CrawlingHistoryProps> = ({
     <div className="space-y-4">
       {/* Header */}
       <div className="flex items-center justify-between">
-        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-          {activeOnly ? 'Active Crawls' : 'Crawling History'}
-        </h3>
+        <div className="flex items-center space-x-3">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {activeOnly ? 'Active Crawls' : 'Crawling History'}
+          </h3>
+          <LiveUpdatesStatus />
+        </div>
         <button
           onClick={handleRefresh}
           className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
@@ -176,8 +166,7 @@ interface CrawlingJobCardProps {
 }
 
 const CrawlingJobCard: React.FC<CrawlingJobCardProps> = ({ job, isActive }) => {
-  const { progress, startPolling, stopPolling, isPolling } = useCrawlProgress({
-    pollingInterval: 2000,
+  const { progress, startPolling, stopPolling, isPolling, transport } = useCrawlProgress({
     autoStopOnComplete: true
   });
 
@@ -198,20 +187,10 @@ const CrawlingJobCard: React.FC<CrawlingJobCardProps> = ({ job, isActive }) => {
 
   const handleCancel = async () => {
     try {
-      const authToken = localStorage.getItem('auth_token');
-      const response = await fetch(
-        `${config.api.baseUrl}/api/v1/crawl/crawling-jobs/${job.job_id}/cancel`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Bearer ${authToken}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      const response = await apiService.cancelCrawlingJob(job.job_id);
 
-      if (!response.ok) {
-        throw new Error('Failed to cancel job');
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to cancel job');
       }
 
       // Refresh will happen via polling
@@ -234,7 +213,7 @@ const CrawlingJobCard: React.FC<CrawlingJobCardProps> = ({ job, isActive }) => {
             {isPolling && (
               <span className="flex items-center text-xs text-gray-500 dark:text-gray-400">
                 <Loader className="w-3 h-3 animate-spin mr-1" />
-                Updating...
+                {transport === 'push' ? 'Live' : 'Updating...'}
               </span>
             )}
           </div>
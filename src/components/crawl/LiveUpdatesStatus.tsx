@@ -0,0 +1,24 @@
+import React from 'react';
+import { useWebSocketConnectionState } from '../../hooks/useWebSocket';
+import type { ConnectionState } from '../../types/api';
+
+// State of the shared connection that pushes crawl progress; polling takes over while it is down
+const LIVE_UPDATES_STATUS: Record<ConnectionState, { label: string; dotClass: string }> = {
+  open: { label: 'Live updates', dotClass: 'bg-green-500' },
+  degraded: { label: 'Live updates delayed', dotClass: 'bg-yellow-500' },
+  connecting: { label: 'Connecting...', dotClass: 'bg-gray-400' },
+  closed: { label: 'Reconnecting, refreshing periodically', dotClass: 'bg-red-500' },
+};
+
+const LiveUpdatesStatus: React.FC = () => {
+  const { label, dotClass } = LIVE_UPDATES_STATUS[useWebSocketConnectionState()];
+
+  return (
+    <span className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+      <span className={`w-2 h-2 rounded-full mr-1.5 ${dotClass}`} />
+      {label}
+    </span>
+  );
+};
+
+export default LiveUpdatesStatus;
@@ -0,0 +1,216 @@
+import React from 'react';
+import { AlertCircle, Clock, Plus, X } from 'lucide-react';
+import type { BusinessHours, BusinessHoursException, OpeningInterval, Weekday } from '../../types/api';
+import { WEEKDAYS, createDefaultBusinessHours, isWithinBusinessHours, formatNextOpening, validateBusinessHours } from '../../widget/businessHours';
+
+interface BusinessHoursEditorProps {
+  value: BusinessHours | undefined;
+  onChange: (businessHours: BusinessHours) => void;
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Mon', tue: 'Tue', wed: 'Wed', thu: 'Thu', fri: 'Fri', sat: 'Sat', sun: 'Sun'
+};
+
+const DEFAULT_INTERVAL: OpeningInterval = { start: '09:00', end: '17:00' };
+
+const TIMEZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+const inputClassName = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm';
+
+interface IntervalListProps {
+  intervals: OpeningInterval[];
+  onChange: (intervals: OpeningInterval[]) => void;
+  emptyLabel: string;
+}
+
+const IntervalList: React.FC<IntervalListProps> = ({ intervals, onChange, emptyLabel }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    {intervals.length === 0 && <span className="text-sm text-gray-500">{emptyLabel}</span>}
+    {intervals.map((interval, index) => (
+      <div key={index} className="flex items-center space-x-1">
+        <input
+          type="time"
+          className={inputClassName}
+          value={interval.start}
+          onChange={(e) => onChange(intervals.map((item, i) => (i === index ? { ...item, start: e.target.value } : item)))}
+        />
+        <span className="text-gray-500">–</span>
+        <input
+          type="time"
+          className={inputClassName}
+          value={interval.end}
+          onChange={(e) => onChange(intervals.map((item, i) => (i === index ? { ...item, end: e.target.value } : item)))}
+        />
+        <button
+          type="button"
+          onClick={() => onChange(intervals.filter((_, i) => i !== index))}
+          className="p-1 text-gray-400 hover:text-red-400"
+          title="Remove hours"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    ))}
+    <button
+      type="button"
+      onClick={() => onChange([...intervals, DEFAULT_INTERVAL])}
+      className="p-1 text-gray-400 hover:text-white"
+      title="Add hours"
+    >
+      <Plus className="w-4 h-4" />
+    </button>
+  </div>
+);
+
+/**
+ * Weekly opening hours with holiday exceptions. Outside them the widget shows
+ * the offline form and collects leads.
+ */
+const BusinessHoursEditor: React.FC<BusinessHoursEditorProps> = ({ value, onChange }) => {
+  const hours = value ?? createDefaultBusinessHours();
+  const update = (changes: Partial<BusinessHours>) => onChange({ ...hours, ...changes });
+
+  const updateException = (index: number, changes: Partial<BusinessHoursException>) => {
+    update({ exceptions: hours.exceptions.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const isOpenNow = isWithinBusinessHours(hours);
+  const nextOpening = formatNextOpening(hours);
+  const errors = validateBusinessHours(hours);
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-teal-500/20 rounded-lg">
+            <Clock className="w-6 h-6 text-teal-400" />
+          </div>
+          <h3 className="text-xl font-bold text-white">Business Hours</h3>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={hours.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="rounded border-gray-600 bg-gray-700 text-teal-500 focus:ring-teal-500"
+          />
+          <span>Enabled</span>
+        </label>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Outside these hours the widget shows your offline message with a form for name, email and question.
+        Submissions appear as leads on the website's page. When disabled the widget is always online.
+        Hours ending at or before their start run past midnight, e.g. 22:00 – 02:00 or 18:00 – 00:00.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="flex items-start space-x-2 bg-red-500/10 border border-red-500/30 rounded-md p-2 mb-4 text-xs text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <ul className="space-y-0.5">
+            {errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {hours.enabled && (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <label className="text-sm text-gray-300">
+              Timezone
+              {TIMEZONES.length > 0 ? (
+                <select
+                  className={`${inputClassName} ml-2`}
+                  value={hours.timezone}
+                  onChange={(e) => update({ timezone: e.target.value })}
+                >
+                  {TIMEZONES.map(timezone => (
+                    <option key={timezone} value={timezone}>{timezone}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  className={`${inputClassName} ml-2`}
+                  value={hours.timezone}
+                  onChange={(e) => update({ timezone: e.target.value })}
+                  placeholder="Europe/Berlin"
+                />
+              )}
+            </label>
+            <span className={`text-xs px-2 py-1 rounded-full ${isOpenNow ? 'bg-green-500/20 text-green-300' : 'bg-gray-700 text-gray-300'}`}>
+              {isOpenNow ? 'Open now' : nextOpening ? `Closed, opens ${nextOpening}` : 'Closed'}
+            </span>
+          </div>
+
+          {/* Weekly schedule */}
+          <div className="space-y-2 mb-6">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="flex items-start space-x-3">
+                <span className="w-10 pt-1 text-sm font-medium text-gray-300">{WEEKDAY_LABELS[day]}</span>
+                <IntervalList
+                  intervals={hours.weekly[day] ?? []}
+                  onChange={(intervals) => update({ weekly: { ...hours.weekly, [day]: intervals } })}
+                  emptyLabel="Closed"
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Holidays and special days */}
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-300">Holidays and special days</h4>
+            <button
+              type="button"
+              onClick={() => update({ exceptions: [...hours.exceptions, { date: '', label: '', intervals: [] }] })}
+              className="flex items-center space-x-1 bg-gray-700 text-white px-2 py-1 rounded-md hover:bg-gray-600 text-xs"
+            >
+              <Plus className="w-3 h-3" />
+              <span>Add date</span>
+            </button>
+          </div>
+          {hours.exceptions.length === 0 && (
+            <p className="text-xs text-gray-500">The weekly schedule applies every day.</p>
+          )}
+          <div className="space-y-3">
+            {hours.exceptions.map((exception, index) => (
+              <div key={index} className="bg-gray-700/50 rounded-lg p-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="date"
+                    className={inputClassName}
+                    value={exception.date}
+                    onChange={(e) => updateException(index, { date: e.target.value })}
+                  />
+                  <input
+                    type="text"
+                    className={`${inputClassName} flex-1 min-w-0`}
+                    value={exception.label || ''}
+                    onChange={(e) => updateException(index, { label: e.target.value })}
+                    placeholder="e.g. Christmas Day"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update({ exceptions: hours.exceptions.filter((_, i) => i !== index) })}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Remove date"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <IntervalList
+                  intervals={exception.intervals}
+                  onChange={(intervals) => updateException(index, { intervals })}
+                  emptyLabel="Closed all day"
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BusinessHoursEditor;
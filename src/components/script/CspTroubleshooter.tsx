@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ShieldAlert, CheckCircle, XCircle } from 'lucide-react';
+import { findCspViolations, type CspSources, type CspViolation } from './embedSecurity';
+
+interface CspTroubleshooterProps {
+  /** Sources the widget needs */
+  required: CspSources;
+}
+
+/**
+ * Checks a pasted Content-Security-Policy against the widget's sources
+ */
+const CspTroubleshooter: React.FC<CspTroubleshooterProps> = ({ required }) => {
+  const [policy, setPolicy] = useState('');
+  const [violations, setViolations] = useState<CspViolation[] | null>(null);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+      <h3 className="text-xl font-semibold text-gray-900 mb-2 flex items-center space-x-2">
+        <ShieldAlert className="w-6 h-6 text-red-500" />
+        <span>Content Security Policy</span>
+      </h3>
+      <p className="text-gray-700 text-sm mb-4">
+        Console errors such as "Refused to load the script" or "Refused to connect" mean your site's
+        Content-Security-Policy blocks the widget. Paste the policy (from the response headers or the
+        CSP meta tag) to see what is missing.
+      </p>
+
+      <textarea
+        value={policy}
+        onChange={(e) => {
+          setPolicy(e.target.value);
+          setViolations(null);
+        }}
+        rows={3}
+        placeholder="default-src 'self'; script-src 'self' https://cdn.example.com"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <button
+        onClick={() => setViolations(findCspViolations(policy, required))}
+        disabled={!policy.trim()}
+        className="mt-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+      >
+        Check policy
+      </button>
+
+      {violations && (
+        <div className="mt-4 space-y-2">
+          {violations.length === 0 ? (
+            <div className="flex items-start space-x-2">
+              <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+              <span className="text-gray-700 text-sm">
+                This policy allows everything the widget needs. If it still does not load, check for a second
+                policy (header and meta tag are both enforced).
+              </span>
+            </div>
+          ) : (
+            violations.map(violation => (
+              <div key={`${violation.directive}-${violation.source}`} className="flex items-start space-x-2">
+                <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                <span className="text-gray-700 text-sm">{violation.explanation}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CspTroubleshooter;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Shield, Copy, Check, Loader2, AlertCircle } from 'lucide-react';
+import { formatCspPolicy, type CspSources } from './embedSecurity';
+
+interface EmbedSecurityPanelProps {
+  /** Pinned widget build; empty when only the latest build is served */
+  pinnedVersion: string;
+  pinIntegrity: boolean;
+  onPinIntegrityChange: (pin: boolean) => void;
+  integrity: string | null;
+  isIntegrityLoading: boolean;
+  integrityError: string | null;
+  cspSources: CspSources;
+}
+
+const EmbedSecurityPanel: React.FC<EmbedSecurityPanelProps> = ({
+  pinnedVersion,
+  pinIntegrity,
+  onPinIntegrityChange,
+  integrity,
+  isIntegrityLoading,
+  integrityError,
+  cspSources
+}) => {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const policy = formatCspPolicy(cspSources);
+  const snippets = [
+    { id: 'header', label: 'HTTP header', value: `Content-Security-Policy: ${policy}` },
+    { id: 'meta', label: 'Meta tag', value: `<meta http-equiv="Content-Security-Policy" content="${policy}">` }
+  ];
+
+  const copy = async (id: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(id);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-blue-500/20 rounded-lg">
+          <Shield className="w-6 h-6 text-blue-400" />
+        </div>
+        <h3 className="text-xl font-bold text-white">Security</h3>
+      </div>
+
+      {/* Subresource Integrity */}
+      <label className="flex items-start space-x-3 mb-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={pinIntegrity}
+          disabled={!pinnedVersion}
+          onChange={(e) => onPinIntegrityChange(e.target.checked)}
+          className="mt-0.5 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500 disabled:opacity-50"
+        />
+        <span>
+          {pinnedVersion
+            ? `Pin widget v${pinnedVersion} and add a Subresource Integrity hash`
+            : 'Subresource Integrity needs a pinned widget version, and none is configured'}
+          <span className="block text-xs text-gray-400">
+            The browser refuses to run widget.js if it was modified. Pinned snippets need updating to get widget fixes.
+          </span>
+        </span>
+      </label>
+
+      {pinIntegrity && (
+        <div className="bg-gray-700/50 rounded-lg p-3 mb-4 text-xs">
+          {isIntegrityLoading ? (
+            <div className="flex items-center space-x-2 text-gray-400">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              <span>Computing integrity hash...</span>
+            </div>
+          ) : integrityError ? (
+            <div className="flex items-center space-x-2 text-red-400">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              <span>{integrityError} – snippets are generated without an integrity hash</span>
+            </div>
+          ) : (
+            <code className="text-green-300 break-all">{integrity}</code>
+          )}
+        </div>
+      )}
+
+      {/* Content Security Policy */}
+      <p className="text-sm text-gray-300 mt-4 mb-2">
+        If your site sends a Content-Security-Policy, merge these sources into it:
+      </p>
+      <div className="space-y-2">
+        {snippets.map(snippet => (
+          <div key={snippet.id} className="bg-gray-900 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-400">{snippet.label}</span>
+              <button
+                onClick={() => copy(snippet.id, snippet.value)}
+                className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300"
+              >
+                {copied === snippet.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                <span>{copied === snippet.id ? 'Copied!' : 'Copy'}</span>
+              </button>
+            </div>
+            <code className="text-xs text-gray-200 break-all">{snippet.value}</code>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EmbedSecurityPanel;
@@ -0,0 +1,245 @@
+import React from 'react';
+import { FlaskConical, Plus, Trash2 } from 'lucide-react';
+import type { ExperimentVariant, ExperimentVariantOverrides, WidgetExperiment } from '../../types/api';
+
+interface ExperimentEditorProps {
+  experiment: WidgetExperiment | undefined;
+  onChange: (experiment: WidgetExperiment | undefined) => void;
+  /** Base texts and color shown as placeholders for what a variant keeps */
+  baseWelcomeMessage: string;
+  baseColor: string;
+}
+
+const fieldClassName = 'px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm';
+
+const VARIANT_LETTERS = 'ABCDEFGH';
+
+const createVariant = (index: number, weight: number): ExperimentVariant => ({
+  id: `variant_${Date.now().toString(36)}_${index}`,
+  name: `Variant ${VARIANT_LETTERS[index] ?? index + 1}`,
+  weight,
+  overrides: {}
+});
+
+const createExperiment = (): WidgetExperiment => ({
+  id: `experiment_${Date.now().toString(36)}`,
+  name: 'Welcome message test',
+  enabled: true,
+  variants: [
+    { ...createVariant(0, 50), name: 'Control' },
+    createVariant(1, 50)
+  ]
+});
+
+/** Equal shares that add up to exactly 100 */
+const evenWeights = (count: number): number[] =>
+  Array.from({ length: count }, (_, i) => Math.floor(100 / count) + (i < 100 % count ? 1 : 0));
+
+/**
+ * Defines an A/B test: variants of the welcome message, color and trigger
+ * delay, and the share of visitors each one gets. Results show on the
+ * analytics dashboard.
+ */
+const ExperimentEditor: React.FC<ExperimentEditorProps> = ({ experiment, onChange, baseWelcomeMessage, baseColor }) => {
+  if (!experiment) {
+    return (
+      <div className="mt-8 pt-6 border-t border-gray-700">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-pink-500/20 rounded-lg">
+              <FlaskConical className="w-6 h-6 text-pink-400" />
+            </div>
+            <h3 className="text-xl font-bold text-white">A/B Test</h3>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(createExperiment())}
+            className="flex items-center space-x-1 bg-gray-700 text-white px-3 py-1.5 rounded-md hover:bg-gray-600 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Create test</span>
+          </button>
+        </div>
+        <p className="text-sm text-gray-400">
+          Split visitors between variants of the welcome message, color or trigger delay and compare their
+          open, conversation and satisfaction rates.
+        </p>
+      </div>
+    );
+  }
+
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  const update = (changes: Partial<WidgetExperiment>) => onChange({ ...experiment, ...changes });
+
+  const updateVariant = (id: string, changes: Partial<ExperimentVariant>) => {
+    update({ variants: experiment.variants.map(variant => (variant.id === id ? { ...variant, ...changes } : variant)) });
+  };
+
+  const updateOverrides = (variant: ExperimentVariant, changes: ExperimentVariantOverrides) => {
+    updateVariant(variant.id, { overrides: { ...variant.overrides, ...changes } });
+  };
+
+  const splitEvenly = (variants: ExperimentVariant[]) => {
+    const weights = evenWeights(variants.length);
+    return variants.map((variant, i) => ({ ...variant, weight: weights[i] }));
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-pink-500/20 rounded-lg">
+            <FlaskConical className="w-6 h-6 text-pink-400" />
+          </div>
+          <h3 className="text-xl font-bold text-white">A/B Test</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={experiment.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="rounded border-gray-600 bg-gray-700 text-pink-500 focus:ring-pink-500"
+            />
+            <span>Running</span>
+          </label>
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="p-1 text-gray-400 hover:text-red-400"
+            title="Delete test"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Each visitor is assigned a variant from their visitor id and keeps it on every visit. Changing the
+        variants or their shares reassigns visitors, so start a new test instead of editing a running one.
+        Empty fields keep the base configuration.
+      </p>
+
+      <input
+        type="text"
+        className={`${fieldClassName} w-full mb-4`}
+        value={experiment.name}
+        onChange={(e) => update({ name: e.target.value })}
+        placeholder="Test name"
+      />
+
+      <div className="space-y-3">
+        {experiment.variants.map((variant, index) => (
+          <div key={variant.id} className="bg-gray-700/50 rounded-lg p-4 space-y-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                className={`${fieldClassName} flex-1 min-w-0`}
+                value={variant.name}
+                onChange={(e) => updateVariant(variant.id, { name: e.target.value })}
+              />
+              <label className="flex items-center space-x-1 text-sm text-gray-300">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className={`${fieldClassName} w-20`}
+                  value={variant.weight}
+                  onChange={(e) => updateVariant(variant.id, { weight: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                />
+                <span>%</span>
+              </label>
+              {index === 0 ? (
+                <span className="text-xs px-2 py-1 rounded-full bg-gray-600 text-gray-200">Control</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => update({ variants: splitEvenly(experiment.variants.filter(v => v.id !== variant.id)) })}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  title="Remove variant"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <label className="block text-xs text-gray-400">
+              Welcome message
+              <input
+                type="text"
+                className={`${fieldClassName} w-full mt-1`}
+                value={variant.overrides.welcome_message || ''}
+                placeholder={baseWelcomeMessage}
+                onChange={(e) => updateOverrides(variant, { welcome_message: e.target.value || undefined })}
+              />
+            </label>
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>Color</span>
+                <input
+                  type="color"
+                  className="w-8 h-8 rounded border border-gray-600 bg-gray-700"
+                  value={variant.overrides.widget_color || baseColor}
+                  onChange={(e) => updateOverrides(variant, { widget_color: e.target.value })}
+                />
+                {variant.overrides.widget_color && (
+                  <button
+                    type="button"
+                    onClick={() => updateOverrides(variant, { widget_color: undefined })}
+                    className="text-gray-400 hover:text-white underline"
+                  >
+                    Reset
+                  </button>
+                )}
+              </label>
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>Trigger delay</span>
+                <input
+                  type="number"
+                  min={0}
+                  className={`${fieldClassName} w-20`}
+                  value={variant.overrides.trigger_delay ?? ''}
+                  placeholder="As set"
+                  onChange={(e) => updateOverrides(variant, {
+                    trigger_delay: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value))
+                  })}
+                />
+                <span>s</span>
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <span className={`text-sm ${totalWeight === 100 ? 'text-gray-400' : 'text-yellow-300'}`}>
+          {totalWeight === 100 ? 'Traffic split adds up to 100%' : `Traffic split adds up to ${totalWeight}%; shares are scaled to fit`}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => update({ variants: splitEvenly(experiment.variants) })}
+            className="bg-gray-700 text-white px-3 py-1.5 rounded-md hover:bg-gray-600 text-sm"
+          >
+            Split evenly
+          </button>
+          {experiment.variants.length < VARIANT_LETTERS.length && (
+            <button
+              type="button"
+              onClick={() => update({
+                variants: splitEvenly([...experiment.variants, createVariant(experiment.variants.length, 0)])
+              })}
+              className="flex items-center space-x-1 bg-gray-700 text-white px-3 py-1.5 rounded-md hover:bg-gray-600 text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add variant</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentEditor;
@@ -1,24 +1,34 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useSearchParams, Link, useNavigate } from 'react-router-dom';
 import { config as envConfig } from '../../config/env';
 import { useAppDispatch, useAppSelector } from '../../store';
 import { selectWebsites, fetchWebsitesWithMetrics, selectWebsitesLoading } from '../../store/dashboardSlice';
 import { useTokenRefresh } from '../../hooks/useTokenRefresh';
-import type { Website as ReduxWebsite } from '../../services/centralizedApi';
+import type { Website as ReduxWebsite, WidgetConfiguration } from '../../services/centralizedApi';
+import type { ProactiveTrigger } from '../../types/api';
 import { apiService } from '../../services/centralizedApi';
-
-// TypeScript declarations for window.ChatLite
-declare global {
-  interface Window {
-    ChatLite?: {
-      init: (config: any) => void;
-      destroy?: () => void;
-      open?: () => void;
-      close?: () => void;
-      toggle?: () => void;
-    };
-  }
-}
+import { useWidgetConfig } from '../../hooks/useWidgetConfig';
+import { showErrorToast, showSuccessToast } from '../../store/notificationSlice';
+import WidgetConfigPublisher from './WidgetConfigPublisher';
+import {
+  getEmbedTargets,
+  getEmbedTarget,
+  getEmbedFilename,
+  type EmbedContext
+} from './embedTargets';
+import { getWidgetScriptUrl, buildCspSources } from './embedSecurity';
+import { useScriptIntegrity } from '../../hooks/useScriptIntegrity';
+import EmbedSecurityPanel from './EmbedSecurityPanel';
+import CspTroubleshooter from './CspTroubleshooter';
+import TriggerRulesEditor from './TriggerRulesEditor';
+import TriggerSimulator from './TriggerSimulator';
+import BusinessHoursEditor from './BusinessHoursEditor';
+import { validateBusinessHours } from '../../widget/businessHours';
+import TranslationsEditor from './TranslationsEditor';
+import ExperimentEditor from './ExperimentEditor';
+import { DEFAULT_WIDGET_CONFIGURATION } from './defaultWidgetConfiguration';
+import { getConfiguredTriggers } from '../../widget/triggers';
+import WidgetLivePreview, { type SimulatedTrigger } from './WidgetLivePreview';
 
 import {
   Code,
@@ -53,45 +63,29 @@ import {
   X,
   Loader2,
   User,
-  Image
+  Image,
+  Clock
 } from 'lucide-react';
 
 interface Website extends ReduxWebsite {
   widgetId?: string; // Optional since Redux Website doesn't have this
 }
 
-interface WidgetConfiguration {
-  widget_color: string;
-  widget_position: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
-  widget_size: 'small' | 'medium' | 'large';
-  widget_theme: 'light' | 'dark' | 'auto';
-  show_avatar: boolean;
-  enable_sound: boolean;
-  auto_open_delay?: number;
-  show_online_status: boolean;
-  welcome_message: string;
-  placeholder_text: string;
-  offline_message: string;
-  thanks_message: string;
-  show_branding: boolean;
-  custom_logo_url?: string;
-  company_name: string;
-  support_email?: string;
-  custom_css?: string;
-  font_family?: string;
-  border_radius: number;
-  chatbot_name?: string;
-  ai_logo_url?: string;
-  button_logo_url?: string;
-  ai_avatar_url?: string;
-  user_avatar_url?: string;
-}
-
 interface ScriptConfig extends WidgetConfiguration {
   websiteId: string;
   asyncLoading: boolean;
 }
 
+/**
+ * The part of the editor state that is saved and published
+ */
+const toWidgetConfiguration = (scriptConfig: ScriptConfig): WidgetConfiguration => {
+  const widgetConfiguration: WidgetConfiguration & Partial<Pick<ScriptConfig, 'websiteId' | 'asyncLoading'>> = { ...scriptConfig };
+  delete widgetConfiguration.websiteId;
+  delete widgetConfiguration.asyncLoading;
+  return widgetConfiguration;
+};
+
 const ScriptGenerator: React.FC = () => {
   const [searchParams] = useSearchParams();
   const dispatch = useAppDispatch();
@@ -105,49 +99,16 @@ const ScriptGenerator: React.FC = () => {
   // Enable automatic token refresh
   useTokenRefresh();
   const [config, setConfig] = useState<ScriptConfig>({
+    ...DEFAULT_WIDGET_CONFIGURATION,
     websiteId: '',
-    widget_color: '#0066CC',
-    widget_position: 'bottom-right',
-    widget_size: 'small',
-    widget_theme: 'auto',
-    show_avatar: true,
-    enable_sound: true,
-    auto_open_delay: undefined,
-    show_online_status: true,
-    welcome_message: 'Hi! How can I help you today?',
-    placeholder_text: 'Type your message...',
-    offline_message: "We're currently offline. We'll get back to you soon!",
-    thanks_message: 'Thank you for your message!',
-    show_branding: true,
-    custom_logo_url: undefined,
-    company_name: 'Support',
-    support_email: undefined,
-    custom_css: undefined,
-    font_family: undefined,
-    border_radius: 13,
-    chatbot_name: undefined,
-    ai_logo_url: undefined,
-    button_logo_url: undefined,
-    ai_avatar_url: undefined,
-    user_avatar_url: undefined,
     asyncLoading: true
   });
 
   const [copiedItems, setCopiedItems] = useState<Set<string>>(new Set());
   const [previewDevice, setPreviewDevice] = useState('desktop');
-  const [activeScriptType, setActiveScriptType] = useState<'html' | 'wordpress' | 'react' | 'nextjs'>('html');
-  const [iframeError, setIframeError] = useState(false);
-  const [iframeLoading, setIframeLoading] = useState(true);
-  const [previewChatOpen, setPreviewChatOpen] = useState(true);
+  const [activeScriptType, setActiveScriptType] = useState<string>('html');
   const [showFullscreenPreview, setShowFullscreenPreview] = useState(false);
-  const iframeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const iframeLoadedRef = useRef(false);
-
-  // Separate state for fullscreen modal iframe
-  const [fullscreenIframeError, setFullscreenIframeError] = useState(false);
-  const [fullscreenIframeLoading, setFullscreenIframeLoading] = useState(true);
-  const fullscreenIframeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const fullscreenIframeLoadedRef = useRef(false);
+  const [simulatedTrigger, setSimulatedTrigger] = useState<SimulatedTrigger | null>(null);
 
   const [isGeneratingScript, setIsGeneratingScript] = useState(false);
   const [generatedScript, setGeneratedScript] = useState<string>('');
@@ -162,24 +123,78 @@ const ScriptGenerator: React.FC = () => {
   const integrationGuideRef = useRef<HTMLDivElement>(null);
   const troubleshootRef = useRef<HTMLDivElement>(null);
 
-  // Preview chat functionality
-  const [previewMessages, setPreviewMessages] = useState<Array<{ id: string; content: string; type: 'user' | 'assistant'; timestamp: Date }>>([
-    {
-      id: '1',
-      content: config.welcome_message || 'Hi! How can I help you today?',
-      type: 'assistant',
-      timestamp: new Date()
-    }
-  ]);
-  const [previewInputValue, setPreviewInputValue] = useState('');
-  const [isPreviewTyping, setIsPreviewTyping] = useState(false);
-  const previewMessagesContainerRef = useRef<HTMLDivElement>(null);
-  const fullscreenMessagesContainerRef = useRef<HTMLDivElement>(null);
-
   // First page crawl status
   const [firstPageStatus, setFirstPageStatus] = useState<any>(null);
   const [loadingFirstPageStatus, setLoadingFirstPageStatus] = useState(false);
 
+  // Saved configuration: draft, published version and history
+  const widgetConfig = useWidgetConfig(selectedWebsite?.id);
+  const savedWidgetConfig = widgetConfig.record?.draft ?? widgetConfig.record?.published ?? null;
+
+  // Load the selected website's saved configuration into the editor. It goes over
+  // the defaults, not the previous site's edits, so nothing carries over between sites.
+  // An old auto-open delay shows up as the trigger rule the widget runs it as.
+  const selectedWebsiteId = selectedWebsite?.id;
+  useEffect(() => {
+    setConfig(prev => ({
+      ...DEFAULT_WIDGET_CONFIGURATION,
+      ...savedWidgetConfig?.config,
+      triggers: savedWidgetConfig ? getConfiguredTriggers(savedWidgetConfig.config) : DEFAULT_WIDGET_CONFIGURATION.triggers,
+      auto_open_delay: undefined,
+      websiteId: selectedWebsiteId ?? '',
+      asyncLoading: prev.asyncLoading
+    }));
+  }, [savedWidgetConfig, selectedWebsiteId]);
+
+  // Pinned widget build with Subresource Integrity
+  const [pinIntegrity, setPinIntegrity] = useState(false);
+  const widgetScriptUrl = getWidgetScriptUrl(
+    envConfig.widget.frontendUrl,
+    pinIntegrity ? envConfig.widget.version : undefined
+  );
+  const scriptIntegrity = useScriptIntegrity(widgetScriptUrl, pinIntegrity && !!envConfig.widget.version);
+
+  // The live preview runs the embedded widget.js against the editor state
+  const widgetApiBase = envConfig.api.baseUrl + '/api/v1/widget';
+  const previewWidgetConfig = useMemo(() => toWidgetConfiguration(config), [config]);
+
+  // Hosts the customer's Content-Security-Policy has to allow
+  const cspSources = buildCspSources({
+    frontendBase: envConfig.widget.frontendUrl,
+    apiBase: envConfig.api.baseUrl,
+    websocketUrl: envConfig.websocket.url,
+    imageUrls: [config.ai_avatar_url, config.user_avatar_url, config.ai_logo_url, config.button_logo_url]
+  });
+
+  // Incomplete business hours would silently keep the widget offline
+  const canSave = (): boolean => {
+    const errors = validateBusinessHours(config.business_hours);
+    if (errors.length > 0) {
+      dispatch(showErrorToast('Fix the business hours before saving', errors[0]));
+    }
+    return errors.length === 0;
+  };
+
+  const handleSaveDraft = async (note?: string) => {
+    if (!canSave()) return;
+    if (await widgetConfig.saveDraft(toWidgetConfiguration(config), note)) {
+      dispatch(showSuccessToast('Draft saved', 'Publish it to update the widget on your website'));
+    }
+  };
+
+  const handlePublish = async (note?: string) => {
+    if (!canSave()) return;
+    if (await widgetConfig.publish(toWidgetConfiguration(config), note)) {
+      dispatch(showSuccessToast('Configuration published', 'Embedded widgets pick it up on their next page load'));
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (await widgetConfig.rollback(version)) {
+      dispatch(showSuccessToast(`Version ${version} is live again`));
+    }
+  };
+
   // F5 refresh: Check auth and load websites
   useEffect(() => {
     if (!isAuthenticated && !isRefreshing) {
@@ -197,53 +212,6 @@ const ScriptGenerator: React.FC = () => {
     initializeWebsiteSelection();
   }, [websites, searchParams]);
 
-  // Reset iframe state when website URL changes
-  useEffect(() => {
-    // Clear any existing timeout
-    if (iframeTimeoutRef.current) {
-      clearTimeout(iframeTimeoutRef.current);
-      iframeTimeoutRef.current = null;
-    }
-
-    // Only proceed if we have a website URL
-    if (selectedWebsite?.url) {
-      console.log('Resetting iframe state for:', selectedWebsite.url);
-      setIframeError(false);
-      setIframeLoading(true);
-      iframeLoadedRef.current = false;
-    }
-
-    return () => {
-      if (iframeTimeoutRef.current) {
-        clearTimeout(iframeTimeoutRef.current);
-        iframeTimeoutRef.current = null;
-      }
-    };
-  }, [selectedWebsite?.url]); // Only depend on URL, not the whole object
-
-  // Reset fullscreen iframe state when modal opens or website URL changes
-  useEffect(() => {
-    // Clear any existing timeout
-    if (fullscreenIframeTimeoutRef.current) {
-      clearTimeout(fullscreenIframeTimeoutRef.current);
-      fullscreenIframeTimeoutRef.current = null;
-    }
-
-    if (showFullscreenPreview && selectedWebsite?.url) {
-      console.log('Resetting fullscreen iframe state for:', selectedWebsite.url);
-      setFullscreenIframeError(false);
-      setFullscreenIframeLoading(true);
-      fullscreenIframeLoadedRef.current = false;
-    }
-
-    return () => {
-      if (fullscreenIframeTimeoutRef.current) {
-        clearTimeout(fullscreenIframeTimeoutRef.current);
-        fullscreenIframeTimeoutRef.current = null;
-      }
-    };
-  }, [showFullscreenPreview, selectedWebsite?.url]); // Only depend on URL, not the whole object
-
   const toggleInstallationSection = (section: string) => {
     setExpandedInstallationSection(prev => {
       const newSet = new Set(prev);
@@ -311,26 +279,7 @@ const ScriptGenerator: React.FC = () => {
     setIsGeneratingScript(true);
     setScriptNeedsRegeneration(false);
     try {
-      // Generate the script based on selected type
-      let script = '';
-      switch (activeScriptType) {
-        case 'html':
-          script = generateHTMLScript();
-          break;
-        case 'wordpress':
-          script = generateWordPressScript();
-          break;
-        case 'react':
-          script = generateReactScript();
-          break;
-        case 'nextjs':
-          script = generateNextJSScript();
-          break;
-        default:
-          script = generateHTMLScript();
-      }
-
-      setGeneratedScript(script);
+      setGeneratedScript(generateEmbedScript(activeScriptType));
       setShowGeneratedSection(true);
 
       // Smooth scroll to generated section after a short delay
@@ -348,453 +297,27 @@ const ScriptGenerator: React.FC = () => {
     }
   };
 
-  // Handle sending messages in preview chat
-  const handlePreviewSendMessage = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-
-    const messageText = previewInputValue.trim();
-    if (!messageText || isPreviewTyping || !selectedWebsite) return;
-
-    // Add user message
-    const userMessage = {
-      id: Date.now().toString(),
-      content: messageText,
-      type: 'user' as const,
-      timestamp: new Date()
-    };
-    setPreviewMessages(prev => [...prev, userMessage]);
-    setPreviewInputValue('');
-
-    // Show typing indicator
-    setIsPreviewTyping(true);
-
-    try {
-      // Call actual API to chat with first page content
-      const response = await apiService.chatWithFirstPage(
-        selectedWebsite.id,
-        messageText,
-        `preview-${selectedWebsite.id}-${Date.now()}`
-      );
-
-      if (response.success && response.data) {
-        const botResponse = {
-          id: (Date.now() + 1).toString(),
-          content: response.data.response,
-          type: 'assistant' as const,
-          timestamp: new Date()
-        };
-        setPreviewMessages(prev => [...prev, botResponse]);
-      } else {
-        throw new Error(response.message || 'Failed to get response');
-      }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      const errorMessage = {
-        id: (Date.now() + 1).toString(),
-        content: "Sorry, I couldn't process your message. Please try again.",
-        type: 'assistant' as const,
-        timestamp: new Date()
-      };
-      setPreviewMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsPreviewTyping(false);
-    }
-  };
-
-  const handlePreviewKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handlePreviewSendMessage();
-    }
-  };
-
-  // Auto-scroll to bottom when new messages are added (only scroll the chat container, not the whole page)
-  useEffect(() => {
-    // Scroll the main preview messages container
-    if (previewMessagesContainerRef.current) {
-      previewMessagesContainerRef.current.scrollTop = previewMessagesContainerRef.current.scrollHeight;
-    }
-    // Scroll the fullscreen preview messages container
-    if (fullscreenMessagesContainerRef.current) {
-      fullscreenMessagesContainerRef.current.scrollTop = fullscreenMessagesContainerRef.current.scrollHeight;
-    }
-  }, [previewMessages, isPreviewTyping]);
-
-  const escapeJSString = (text: string): string => {
-    if (!text) return '';
-    return text
-      .replace(/\\/g, '\\\\')
-      .replace(/'/g, "\\'")
-      .replace(/"/g, '\\"')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '\\r')
-      .replace(/\t/g, '\\t');
-  };
-
-  const generateHTMLScript = (): string => {
-    if (!selectedWebsite) return '';
-
-    const widgetId = selectedWebsite.widgetId || `widget_${selectedWebsite.id}_${Date.now()}`;
-    const frontendBase = envConfig.widget.frontendUrl;
-    const apiBase = envConfig.api.baseUrl + '/api/v1/widget';
-
-    return `<!-- ChatLite Widget Script -->
-<script>
-    // ChatLite Widget Configuration
-    window.chatLiteConfig = {
-        widgetId: '${widgetId}',
-        frontendBase: '${frontendBase}',
-        apiBase: '${apiBase}',
-        websiteName: '${escapeJSString(selectedWebsite.name)}',
-
-        // Appearance Configuration
-        primaryColor: '${config.widget_color}',
-        position: '${config.widget_position}',
-        size: '${config.widget_size}',
-        theme: '${config.widget_theme}',
-        borderRadius: '${config.border_radius}px',
-        fontFamily: '${config.font_family || "-apple-system,BlinkMacSystemFont,Segoe UI,sans-serif"}',
-
-        // Messages Configuration
-        welcomeMessage: '${escapeJSString(config.welcome_message)}',
-        placeholderText: '${escapeJSString(config.placeholder_text)}',
-        offlineMessage: '${escapeJSString(config.offline_message)}',
-        thanksMessage: '${escapeJSString(config.thanks_message)}',
-
-        // Branding Configuration
-        showBranding: ${config.show_branding},
-        customLogoUrl: '${escapeJSString(config.custom_logo_url || "")}',
-        companyName: '${escapeJSString(config.company_name)}',
-        supportEmail: '${escapeJSString(config.support_email || "")}',
-        chatbotName: '${escapeJSString(config.chatbot_name || "")}',
-        aiLogoUrl: '${escapeJSString(config.ai_logo_url || "")}',
-        buttonLogoUrl: '${escapeJSString(config.button_logo_url || "")}',
-        aiAvatarUrl: '${escapeJSString(config.ai_avatar_url || "")}',
-        userAvatarUrl: '${escapeJSString(config.user_avatar_url || "")}',
-
-        // Custom CSS
-        customCSS: '${escapeJSString(config.custom_css || "")}'
-    };
-</script>
-<script src="${frontendBase}/widget.js" async></script>`;
+  // Replay a simulated trigger in the live preview
+  const handlePreviewTrigger = (trigger: ProactiveTrigger | null) => {
+    setSimulatedTrigger({ trigger });
   };
 
-  const generateWordPressScript = (): string => {
-    if (!selectedWebsite) return '';
-
-    const widgetId = selectedWebsite.widgetId || `widget_${selectedWebsite.id}_${Date.now()}`;
-    const frontendBase = envConfig.widget.frontendUrl;
-    const apiBase = envConfig.api.baseUrl + '/api/v1/widget';
-
-    return `<?php
-/**
- * ChatLite Widget Integration for WordPress
- * Add this code to your theme's functions.php file
- * or create a custom plugin for the widget
- */
-
-add_action('wp_footer', 'add_chatlite_widget');
-
-function add_chatlite_widget() {
-    ?>
-    <script>
-    (function() {
-        // ChatLite Widget Configuration
-        const widgetConfig = {
-            widgetId: '<?php echo esc_js("${widgetId}"); ?>',
-            frontendBase: '${frontendBase}',
-            apiBase: '${apiBase}',
-            websiteName: '<?php echo esc_js("${escapeJSString(selectedWebsite.name)}"); ?>',
-
-            // Appearance Configuration
-            primaryColor: '<?php echo esc_js("${config.widget_color}"); ?>',
-            position: '<?php echo esc_js("${config.widget_position}"); ?>',
-            size: '<?php echo esc_js("${config.widget_size}"); ?>',
-            theme: '<?php echo esc_js("${config.widget_theme}"); ?>',
-            borderRadius: '<?php echo esc_js("${config.border_radius}px"); ?>',
-            fontFamily: '<?php echo esc_js("${config.font_family || "-apple-system,BlinkMacSystemFont,Segoe UI,sans-serif"}"); ?>',
-
-            // Behavior Configuration
-            showAvatar: <?php echo ${config.show_avatar} ? 'true' : 'false'; ?>,
-            enableSound: <?php echo ${config.enable_sound} ? 'true' : 'false'; ?>,
-            autoOpenDelay: <?php echo ${config.auto_open_delay || 'null'}; ?>,
-            showOnlineStatus: <?php echo ${config.show_online_status} ? 'true' : 'false'; ?>,
-
-            // Messages Configuration
-            welcomeMessage: '<?php echo esc_js("${escapeJSString(config.welcome_message)}"); ?>',
-            placeholderText: '<?php echo esc_js("${escapeJSString(config.placeholder_text)}"); ?>',
-            offlineMessage: '<?php echo esc_js("${escapeJSString(config.offline_message)}"); ?>',
-            thanksMessage: '<?php echo esc_js("${escapeJSString(config.thanks_message)}"); ?>',
-
-            // Branding Configuration
-            showBranding: <?php echo ${config.show_branding} ? 'true' : 'false'; ?>,
-            customLogoUrl: '<?php echo esc_js("${escapeJSString(config.custom_logo_url || "")}"); ?>',
-            companyName: '<?php echo esc_js("${escapeJSString(config.company_name)}"); ?>',
-            supportEmail: '<?php echo esc_js("${escapeJSString(config.support_email || "")}"); ?>',
-            chatbotName: '<?php echo esc_js("${escapeJSString(config.chatbot_name || "")}"); ?>',
-            aiLogoUrl: '<?php echo esc_js("${escapeJSString(config.ai_logo_url || "")}"); ?>',
-            buttonLogoUrl: '<?php echo esc_js("${escapeJSString(config.button_logo_url || "")}"); ?>',
-            aiAvatarUrl: '<?php echo esc_js("${escapeJSString(config.ai_avatar_url || "")}"); ?>',
-            userAvatarUrl: '<?php echo esc_js("${escapeJSString(config.user_avatar_url || "")}"); ?>',
-
-            // Custom CSS
-            customCSS: '<?php echo esc_js("${escapeJSString(config.custom_css || "")}"); ?>'
-        };
-
-        // Set global config before loading widget
-        window.chatLiteConfig = widgetConfig;
-
-        // Load ChatLite Widget
-        const script = document.createElement('script');
-        script.src = widgetConfig.frontendBase + '/widget.js';
-        script.async = true;
-        script.onload = function() {
-            if (window.ChatLite) {
-                window.ChatLite.init(widgetConfig);
-            }
-        };
-        document.head.appendChild(script);
-    })();
-    </script>
-    <?php
-}
-?>`;
-  };
-
-  const generateReactScript = (): string => {
-    if (!selectedWebsite) return '';
-
-    const widgetId = selectedWebsite.widgetId || `widget_${selectedWebsite.id}_${Date.now()}`;
-    const frontendBase = envConfig.widget.frontendUrl;
-    const apiBase = envConfig.api.baseUrl + '/api/v1/widget';
-
-    return `// ChatLite Widget Component for React
-// Install: npm install --save @chatlite/react-widget
-// Or include the script directly in your index.html
-
-import React, { useEffect } from 'react';
-
-const ChatLiteWidget = () => {
-    useEffect(() => {
-        // ChatLite Widget Configuration
-        const widgetConfig = {
-            widgetId: '${widgetId}',
-            frontendBase: '${frontendBase}',
-            apiBase: '${apiBase}',
-            websiteName: '${escapeJSString(selectedWebsite.name)}',
-
-            // Appearance Configuration
-            primaryColor: '${config.widget_color}',
-            position: '${config.widget_position}',
-            size: '${config.widget_size}',
-            theme: '${config.widget_theme}',
-            borderRadius: '${config.border_radius}px',
-            fontFamily: '${config.font_family || "-apple-system,BlinkMacSystemFont,Segoe UI,sans-serif"}',
-
-            // Behavior Configuration
-            showAvatar: ${config.show_avatar},
-            enableSound: ${config.enable_sound},
-            autoOpenDelay: ${config.auto_open_delay || 'null'},
-            showOnlineStatus: ${config.show_online_status},
-
-            // Messages Configuration
-            welcomeMessage: '${escapeJSString(config.welcome_message)}',
-            placeholderText: '${escapeJSString(config.placeholder_text)}',
-            offlineMessage: '${escapeJSString(config.offline_message)}',
-            thanksMessage: '${escapeJSString(config.thanks_message)}',
-
-            // Branding Configuration
-            showBranding: ${config.show_branding},
-            customLogoUrl: '${escapeJSString(config.custom_logo_url || "")}',
-            companyName: '${escapeJSString(config.company_name)}',
-            supportEmail: '${escapeJSString(config.support_email || "")}',
-            chatbotName: '${escapeJSString(config.chatbot_name || "")}',
-            aiLogoUrl: '${escapeJSString(config.ai_logo_url || "")}',
-            buttonLogoUrl: '${escapeJSString(config.button_logo_url || "")}',
-            aiAvatarUrl: '${escapeJSString(config.ai_avatar_url || "")}',
-            userAvatarUrl: '${escapeJSString(config.user_avatar_url || "")}',
-
-            // Custom CSS
-            customCSS: '${escapeJSString(config.custom_css || "")}'
-        };
-
-        // Set global config before loading widget
-        window.chatLiteConfig = widgetConfig;
-
-        // Dynamically load the ChatLite script
-        const script = document.createElement('script');
-        script.src = widgetConfig.frontendBase + '/widget.js';
-        script.async = true;
-        script.onload = () => {
-            if (window.ChatLite) {
-                window.ChatLite.init(widgetConfig);
-            }
-        };
-        document.body.appendChild(script);
-
-        // Cleanup on unmount
-        return () => {
-            if (window.ChatLite && window.ChatLite.destroy) {
-                window.ChatLite.destroy();
-            }
-            document.body.removeChild(script);
-        };
-    }, []);
-
-    return null; // Widget renders itself
-};
-
-export default ChatLiteWidget;
-
-// Usage in your app:
-// import ChatLiteWidget from './ChatLiteWidget';
-//
-// function App() {
-//     return (
-//         <div>
-//             <YourContent />
-//             <ChatLiteWidget />
-//         </div>
-//     );
-// }`;
-  };
+  // Issued by the backend when the configuration is first saved
+  const getWidgetId = (): string =>
+    widgetConfig.record?.widget_id || selectedWebsite?.widgetId || `widget_${selectedWebsite?.id}`;
+
+  const getEmbedContext = (): EmbedContext => ({
+    widgetId: getWidgetId(),
+    frontendBase: envConfig.widget.frontendUrl,
+    apiBase: widgetApiBase,
+    scriptUrl: widgetScriptUrl,
+    integrity: scriptIntegrity.integrity ?? undefined,
+    domain: selectedWebsite?.domain || ''
+  });
 
-  const generateNextJSScript = (): string => {
+  const generateEmbedScript = (targetId: string): string => {
     if (!selectedWebsite) return '';
-
-    const widgetId = selectedWebsite.widgetId || `widget_${selectedWebsite.id}_${Date.now()}`;
-    const frontendBase = envConfig.widget.frontendUrl;
-    const apiBase = envConfig.api.baseUrl + '/api/v1/widget';
-
-    return `// ChatLite Widget for Next.js
-// Place this component in your components folder
-
-'use client'; // For Next.js 13+ app directory
-
-import { useEffect } from 'react';
-import Script from 'next/script';
-
-export default function ChatLiteWidget() {
-    useEffect(() => {
-        // Initialize widget when script loads
-        if (typeof window !== 'undefined' && window.ChatLite) {
-            const widgetConfig = {
-                widgetId: '${widgetId}',
-                frontendBase: '${frontendBase}',
-                apiBase: '${apiBase}',
-                websiteName: '${escapeJSString(selectedWebsite.name)}',
-
-                // Appearance Configuration
-                primaryColor: '${config.widget_color}',
-                position: '${config.widget_position}',
-                size: '${config.widget_size}',
-                theme: '${config.widget_theme}',
-                borderRadius: '${config.border_radius}px',
-                fontFamily: '${config.font_family || "-apple-system,BlinkMacSystemFont,Segoe UI,sans-serif"}',
-
-                // Behavior Configuration
-                showAvatar: ${config.show_avatar},
-                enableSound: ${config.enable_sound},
-                autoOpenDelay: ${config.auto_open_delay || 'null'},
-                showOnlineStatus: ${config.show_online_status},
-
-                // Messages Configuration
-                welcomeMessage: '${escapeJSString(config.welcome_message)}',
-                placeholderText: '${escapeJSString(config.placeholder_text)}',
-                offlineMessage: '${escapeJSString(config.offline_message)}',
-                thanksMessage: '${escapeJSString(config.thanks_message)}',
-
-                // Branding Configuration
-                showBranding: ${config.show_branding},
-                customLogoUrl: '${escapeJSString(config.custom_logo_url || "")}',
-                companyName: '${escapeJSString(config.company_name)}',
-                supportEmail: '${escapeJSString(config.support_email || "")}',
-                chatbotName: '${escapeJSString(config.chatbot_name || "")}',
-                aiLogoUrl: '${escapeJSString(config.ai_logo_url || "")}',
-                buttonLogoUrl: '${escapeJSString(config.button_logo_url || "")}',
-                aiAvatarUrl: '${escapeJSString(config.ai_avatar_url || "")}',
-                userAvatarUrl: '${escapeJSString(config.user_avatar_url || "")}',
-
-                // Custom CSS
-                customCSS: '${escapeJSString(config.custom_css || "")}'
-            };
-
-            window.chatLiteConfig = widgetConfig;
-
-            window.ChatLite.init(widgetConfig);
-        }
-    }, []);
-
-    return (
-        <>
-            <Script
-                id="chatlite-widget"
-                src="${frontendBase}/widget.js"
-                strategy="afterInteractive"
-                onLoad={() => {
-                    if (window.ChatLite) {
-                        const widgetConfig = {
-                            widgetId: '${widgetId}',
-                            frontendBase: '${frontendBase}',
-                            apiBase: '${apiBase}',
-                            websiteName: '${escapeJSString(selectedWebsite.name)}',
-
-                            // Appearance Configuration
-                            primaryColor: '${config.widget_color}',
-                            position: '${config.widget_position}',
-                            size: '${config.widget_size}',
-                            theme: '${config.widget_theme}',
-                            borderRadius: '${config.border_radius}px',
-                            fontFamily: '${config.font_family || "-apple-system,BlinkMacSystemFont,Segue UI,sans-serif"}',
-
-                            // Behavior Configuration
-                            showAvatar: ${config.show_avatar},
-                            enableSound: ${config.enable_sound},
-                            autoOpenDelay: ${config.auto_open_delay || 'null'},
-                            showOnlineStatus: ${config.show_online_status},
-
-                            // Messages Configuration
-                            welcomeMessage: '${escapeJSString(config.welcome_message)}',
-                            placeholderText: '${escapeJSString(config.placeholder_text)}',
-                            offlineMessage: '${escapeJSString(config.offline_message)}',
-                            thanksMessage: '${escapeJSString(config.thanks_message)}',
-
-                            // Branding Configuration
-                            showBranding: ${config.show_branding},
-                            customLogoUrl: '${escapeJSString(config.custom_logo_url || "")}',
-                            companyName: '${escapeJSString(config.company_name)}',
-                            supportEmail: '${escapeJSString(config.support_email || "")}',
-                            chatbotName: '${escapeJSString(config.chatbot_name || "")}',
-                            aiLogoUrl: '${escapeJSString(config.ai_logo_url || "")}',
-                            buttonLogoUrl: '${escapeJSString(config.button_logo_url || "")}',
-                            aiAvatarUrl: '${escapeJSString(config.ai_avatar_url || "")}',
-                            userAvatarUrl: '${escapeJSString(config.user_avatar_url || "")}',
-
-                            // Custom CSS
-                            customCSS: '${escapeJSString(config.custom_css || "")}'
-                        };
-                        window.chatLiteConfig = widgetConfig;
-                        window.ChatLite.init(widgetConfig);
-                    }
-                }}
-            />
-        </>
-    );
-}
-
-// Usage in your layout.tsx or page.tsx:
-// import ChatLiteWidget from '@/components/ChatLiteWidget';
-//
-// export default function RootLayout({ children }) {
-//     return (
-//         <html lang="en">
-//             <body>
-//                 {children}
-//                 <ChatLiteWidget />
-//             </body>
-//         </html>
-//     );
-// }`;
+    return getEmbedTarget(targetId)?.generate(getEmbedContext()) ?? '';
   };
 
   const copyToClipboard = async (text: string, itemId: string) => {
@@ -825,12 +348,12 @@ export default function ChatLiteWidget() {
     URL.revokeObjectURL(url);
   };
 
-  // Auto-regenerate script when config changes
+  // The snippet only carries the widget id and script URL, so it changes only when those do
   useEffect(() => {
     if (showGeneratedSection && !scriptNeedsRegeneration) {
       setScriptNeedsRegeneration(true);
     }
-  }, [config]);
+  }, [widgetConfig.record?.widget_id, widgetScriptUrl, scriptIntegrity.integrity]);
 
   return (
     <div className="min-h-screen bg-gray-900 flex flex-col">
@@ -1097,6 +620,29 @@ export default function ChatLiteWidget() {
                 />
                 <div className="text-xs text-gray-400 mt-1">Message shown when support is offline</div>
               </div>
+
+              {/* Conversation Memory */}
+              <div className="mt-6">
+                <label className="flex items-center space-x-2 text-purple-400 font-medium mb-3">
+                  <Clock className="w-4 h-4 text-purple-400" />
+                  <span>Remember Conversations (minutes)</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="10080"
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white"
+                  placeholder="30"
+                  value={config.session_ttl_minutes ?? ''}
+                  onChange={(e) => setConfig(prev => ({
+                    ...prev,
+                    session_ttl_minutes: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)
+                  }))}
+                />
+                <div className="text-xs text-gray-400 mt-1">
+                  How long an idle conversation follows visitors from page to page. 0 starts a new chat on every page.
+                </div>
+              </div>
             </div>
 
             {/* Branding & Customization Section */}
@@ -1189,6 +735,50 @@ export default function ChatLiteWidget() {
               </div>
             </div>
 
+            <TriggerRulesEditor
+              triggers={config.triggers || []}
+              onChange={(triggers) => setConfig(prev => ({ ...prev, triggers }))}
+            />
+
+            <BusinessHoursEditor
+              value={config.business_hours}
+              onChange={(business_hours) => setConfig(prev => ({ ...prev, business_hours }))}
+            />
+
+            <TranslationsEditor
+              config={config}
+              onChange={(changes) => setConfig(prev => ({ ...prev, ...changes }))}
+            />
+
+            <ExperimentEditor
+              experiment={config.experiment}
+              onChange={(experiment) => setConfig(prev => ({ ...prev, experiment }))}
+              baseWelcomeMessage={config.welcome_message}
+              baseColor={config.widget_color}
+            />
+
+            <WidgetConfigPublisher
+              config={toWidgetConfiguration(config)}
+              record={widgetConfig.record}
+              versions={widgetConfig.versions}
+              isLoading={widgetConfig.isLoading}
+              isSaving={widgetConfig.isSaving}
+              error={widgetConfig.error}
+              onSaveDraft={handleSaveDraft}
+              onPublish={handlePublish}
+              onRollback={handleRollback}
+            />
+
+            <EmbedSecurityPanel
+              pinnedVersion={envConfig.widget.version}
+              pinIntegrity={pinIntegrity}
+              onPinIntegrityChange={setPinIntegrity}
+              integrity={scriptIntegrity.integrity}
+              isIntegrityLoading={scriptIntegrity.isLoading}
+              integrityError={scriptIntegrity.error}
+              cspSources={cspSources}
+            />
+
             {/* Generated Script Section - Always visible */}
             <div ref={generatedSectionRef} className="mt-8 pt-6 border-t border-gray-700">
               <div className="flex items-center space-x-3 mb-6">
@@ -1200,35 +790,15 @@ export default function ChatLiteWidget() {
 
               {/* Script Type Tabs - Always visible */}
               <div className="flex flex-wrap gap-2 mb-4">
-                {[
-                  { id: 'html', label: 'HTML' },
-                  { id: 'wordpress', label: 'WordPress' },
-                  { id: 'react', label: 'React' },
-                  { id: 'nextjs', label: 'Next.js' }
-                ].map(type => {
+                {getEmbedTargets().map(type => {
                   return (
                     <button
                       key={type.id}
                       onClick={() => {
-                        setActiveScriptType(type.id as any);
+                        setActiveScriptType(type.id);
                         // Regenerate script for new type if already generated
                         if (selectedWebsite && showGeneratedSection) {
-                          let newScript = '';
-                          switch (type.id) {
-                            case 'html':
-                              newScript = generateHTMLScript();
-                              break;
-                            case 'wordpress':
-                              newScript = generateWordPressScript();
-                              break;
-                            case 'react':
-                              newScript = generateReactScript();
-                              break;
-                            case 'nextjs':
-                              newScript = generateNextJSScript();
-                              break;
-                          }
-                          setGeneratedScript(newScript);
+                          setGeneratedScript(generateEmbedScript(type.id));
                           setScriptNeedsRegeneration(false);
                         }
                       }}
@@ -1248,7 +818,7 @@ export default function ChatLiteWidget() {
               <div className="flex items-center space-x-3 mb-4">
                 <button
                   onClick={generateScript}
-                  disabled={!selectedWebsite || isGeneratingScript}
+                  disabled={!selectedWebsite || isGeneratingScript || scriptIntegrity.isLoading}
                   className="flex items-center space-x-2 bg-green-600 text-white px-3 py-1.5 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                 >
                   {isGeneratingScript ? (
@@ -1284,29 +854,9 @@ export default function ChatLiteWidget() {
 
                 <button
                   onClick={() => {
-                    let filename = `chatlite-${selectedWebsite?.domain || 'widget'}`;
-                    let mimeType = 'text/plain';
-
-                    switch (activeScriptType) {
-                      case 'html':
-                        filename += '.html';
-                        mimeType = 'text/html';
-                        break;
-                      case 'wordpress':
-                        filename += '.php';
-                        mimeType = 'text/x-php';
-                        break;
-                      case 'react':
-                        filename += '.jsx';
-                        mimeType = 'text/javascript';
-                        break;
-                      case 'nextjs':
-                        filename += '.tsx';
-                        mimeType = 'text/typescript';
-                        break;
-                    }
-
-                    downloadFile(generatedScript, filename, mimeType);
+                    const target = getEmbedTarget(activeScriptType);
+                    if (!target) return;
+                    downloadFile(generatedScript, getEmbedFilename(target, getEmbedContext()), target.mimeType);
                   }}
                   disabled={!generatedScript}
                   className="flex items-center space-x-2 bg-purple-600 text-white px-3 py-1.5 rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
@@ -1466,6 +1016,8 @@ export default function ChatLiteWidget() {
               </div>
             )}
 
+            <TriggerSimulator triggers={config.triggers || []} onSimulate={handlePreviewTrigger} />
+
             {/* Preview Container */}
             <div className="flex justify-center flex-1 overflow-auto">
               <div className={`
@@ -1496,395 +1048,21 @@ export default function ChatLiteWidget() {
                   }`}>{selectedWebsite?.domain || 'yourwebsite.com'}</div>
                 </div>
 
-                {/* Website Content - Priority: Screenshot > Iframe > Fallback */}
-                <div className="relative h-full">
-                  {selectedWebsite?.screenshot_url ? (
-                    // Show screenshot if available (primary)
-                    <div className="absolute inset-0 overflow-y-auto overflow-x-hidden">
-                      <img
-                        src={selectedWebsite.screenshot_url}
-                        alt={`Screenshot of ${selectedWebsite.domain}`}
-                        className="w-full object-cover object-top"
-                      />
-                    </div>
-                  ) : selectedWebsite?.url ? (
-                    // Try iframe if no screenshot (secondary)
-                    <>
-                      {iframeLoading && (
-                        <div className={`absolute inset-0 flex items-center justify-center bg-white space-y-4 ${
-                          previewDevice === 'mobile' ? 'p-4' : 'p-6'
-                        }`}>
-                          <div className="text-center">
-                            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
-                            <div className="text-gray-600 text-sm">Loading website...</div>
-                          </div>
-                        </div>
-                      )}
-                      {!iframeError ? (
-                        <iframe
-                          key={selectedWebsite.url}
-                          src={selectedWebsite.url}
-                          className="w-full h-full border-0"
-                          style={{ pointerEvents: 'auto' }}
-                          onLoad={(e) => {
-                            console.log('Iframe loaded successfully', e.currentTarget.src);
-                            iframeLoadedRef.current = true;
-                            if (iframeTimeoutRef.current) {
-                              clearTimeout(iframeTimeoutRef.current);
-                              iframeTimeoutRef.current = null;
-                            }
-                            setIframeLoading(false);
-                            setIframeError(false);
-                          }}
-                          onError={(e) => {
-                            console.error('Iframe failed to load:', e.currentTarget.src);
-                            if (iframeTimeoutRef.current) {
-                              clearTimeout(iframeTimeoutRef.current);
-                              iframeTimeoutRef.current = null;
-                            }
-                            setIframeError(true);
-                            setIframeLoading(false);
-                          }}
-                          title="Website Preview"
-                        />
-                      ) : (
-                        // Show fallback if iframe failed and no screenshot
-                        <div className={`space-y-4 ${
-                          previewDevice === 'mobile' ? 'p-4' : 'p-6'
-                        }`}>
-                          <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-3">
-                            <div className="flex items-start space-x-2">
-                              <Info className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5" />
-                              <div className="flex-1">
-                                <div className="text-xs font-medium text-blue-900 mb-1">Preview Not Available</div>
-                                <div className="text-xs text-blue-800 leading-relaxed">
-                                  This website blocks iframe embedding for security. This is normal for sites like ChatGPT, banks, and many corporate sites. Your chat widget will work perfectly when installed on your actual website.
-                                </div>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      )}
-                    </>
-                  ) : (
-                    // Default fallback - no website selected
-                    <div className={`space-y-4 ${
-                      previewDevice === 'mobile' ? 'p-4' : 'p-6'
-                    }`}>
-                      <div className={`font-bold text-gray-900 ${
-                        previewDevice === 'mobile' ? 'text-lg' : 'text-2xl'
-                      }`}>Your Website</div>
-                      <div className={`text-gray-600 ${
-                        previewDevice === 'mobile' ? 'text-sm' : 'text-base'
-                      }`}>This is how your chat widget will appear to visitors</div>
-                      <div className="space-y-2">
-                        <div className={`bg-gray-200 rounded w-3/4 ${
-                          previewDevice === 'mobile' ? 'h-3' : 'h-4'
-                        }`}></div>
-                        <div className={`bg-gray-200 rounded w-1/2 ${
-                          previewDevice === 'mobile' ? 'h-3' : 'h-4'
-                        }`}></div>
-                        <div className={`bg-gray-200 rounded w-2/3 ${
-                          previewDevice === 'mobile' ? 'h-3' : 'h-4'
-                        }`}></div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-
-                {/* Chat Widget Preview */}
-                <div className="absolute" style={{
-                  ...{
-                    'bottom-right': {
-                      bottom: previewDevice === 'mobile' ? '12px' : '16px',
-                      right: previewDevice === 'mobile' ? '12px' : '16px'
-                    },
-                    'bottom-left': {
-                      bottom: previewDevice === 'mobile' ? '12px' : '16px',
-                      left: previewDevice === 'mobile' ? '12px' : '16px'
-                    },
-                    'top-right': {
-                      top: previewDevice === 'mobile' ? '50px' : '56px',
-                      right: previewDevice === 'mobile' ? '12px' : '16px'
-                    },
-                    'top-left': {
-                      top: previewDevice === 'mobile' ? '50px' : '56px',
-                      left: previewDevice === 'mobile' ? '12px' : '16px'
-                    }
-                  }[config.widget_position]
-                }}>
-
-                  {/* Chat Interface - Toggleable */}
-                  {previewChatOpen && (
-                    <div
-                      className="bg-white rounded-lg shadow-2xl border-2 mb-3 absolute z-10 transition-all duration-300"
-                      style={{
-                        width: previewDevice === 'mobile' ? '240px' : previewDevice === 'tablet' ? '280px' : '320px',
-                        height: previewDevice === 'mobile' ? '320px' : previewDevice === 'tablet' ? '380px' : '420px',
-                        borderColor: config.widget_color,
-                        borderRadius: config.border_radius + 'px',
-                        ...{
-                          'bottom-right': {
-                            bottom: previewDevice === 'mobile' ? '50px' : previewDevice === 'tablet' ? '60px' : '70px',
-                            right: '0'
-                          },
-                          'bottom-left': {
-                            bottom: previewDevice === 'mobile' ? '50px' : previewDevice === 'tablet' ? '60px' : '70px',
-                            left: '0'
-                          },
-                          'top-right': {
-                            top: previewDevice === 'mobile' ? '50px' : previewDevice === 'tablet' ? '60px' : '70px',
-                            right: '0'
-                          },
-                          'top-left': {
-                            top: previewDevice === 'mobile' ? '50px' : previewDevice === 'tablet' ? '60px' : '70px',
-                            left: '0'
-                          }
-                        }[config.widget_position]
-                      }}
-                    >
-                      {/* Chat Header */}
-                      <div
-                        className={`flex items-center justify-between text-white ${
-                          previewDevice === 'mobile' ? 'p-2' : 'p-3'
-                        }`}
-                        style={{
-                          backgroundColor: config.widget_color,
-                          borderTopLeftRadius: config.border_radius + 'px',
-                          borderTopRightRadius: config.border_radius + 'px'
-                        }}
-                      >
-                        <div className="flex items-center space-x-2">
-                          {config.ai_logo_url ? (
-                            <img
-                              src={config.ai_logo_url}
-                              alt="AI Logo"
-                              className={`rounded-full object-cover ${
-                                previewDevice === 'mobile' ? 'w-5 h-5' : 'w-6 h-6'
-                              }`}
-                              onError={(e) => {
-                                // Fallback to emoji if image fails to load
-                                e.currentTarget.style.display = 'none';
-                                e.currentTarget.nextElementSibling?.classList.remove('hidden');
-                              }}
-                            />
-                          ) : null}
-                          <div className={`bg-white/20 rounded-full flex items-center justify-center ${
-                            previewDevice === 'mobile' ? 'w-5 h-5 text-xs' : 'w-6 h-6 text-xs'
-                          } ${config.ai_logo_url ? 'hidden' : ''}`}>
-                            💬
-                          </div>
-                          <div>
-                            <div className={`font-semibold ${
-                              previewDevice === 'mobile' ? 'text-xs' : 'text-sm'
-                            }`}>{config.chatbot_name || config.company_name || 'Support Chat'}</div>
-                            <div className={`opacity-80 ${
-                              previewDevice === 'mobile' ? 'text-xs' : 'text-xs'
-                            }`}>Online now</div>
-                          </div>
-                        </div>
-                        <button
-                          onClick={() => setPreviewChatOpen(false)}
-                          className={`text-white/60 hover:text-white transition-colors ${
-                            previewDevice === 'mobile' ? 'text-xs' : 'text-sm'
-                          }`}
-                        >
-                          ✕
-                        </button>
-                      </div>
-
-                    {/* Chat Messages */}
-                    <div
-                      ref={previewMessagesContainerRef}
-                      className={`flex-1 space-y-2 overflow-y-auto ${
-                        previewDevice === 'mobile' ? 'p-2' : 'p-3'
-                      }`}
-                      style={{
-                        height: previewDevice === 'mobile' ? '200px' : previewDevice === 'tablet' ? '250px' : '280px'
-                      }}
-                    >
-                      {previewMessages.map((msg) => (
-                        <div
-                          key={msg.id}
-                          className={`flex items-start ${
-                            msg.type === 'user' ? 'justify-end' : ''
-                          } ${
-                            previewDevice === 'mobile' ? 'space-x-1' : 'space-x-2'
-                          }`}
-                        >
-                          {msg.type === 'assistant' && (
-                            config.ai_avatar_url ? (
-                              <img
-                                src={config.ai_avatar_url}
-                                alt="AI Avatar"
-                                className={`rounded-full flex-shrink-0 object-cover ${
-                                  previewDevice === 'mobile' ? 'w-4 h-4' : 'w-5 h-5'
-                                }`}
-                                onError={(e) => {
-                                  // Fallback to emoji if image fails to load
-                                  e.currentTarget.style.display = 'none';
-                                  e.currentTarget.nextElementSibling?.classList.remove('hidden');
-                                }}
-                              />
-                            ) : (
-                              <div className={`bg-gray-300 rounded-full flex-shrink-0 flex items-center justify-center ${
-                                previewDevice === 'mobile' ? 'w-4 h-4 text-xs' : 'w-5 h-5 text-xs'
-                              }`}>👤</div>
-                            )
-                          )}
-                          <div
-                            className={`rounded-lg max-w-xs ${
-                              msg.type === 'assistant'
-                                ? 'bg-gray-100'
-                                : 'text-white'
-                            } ${
-                              previewDevice === 'mobile' ? 'px-2 py-1' : 'px-2 py-1'
-                            }`}
-                            style={msg.type === 'user' ? { backgroundColor: config.widget_color } : {}}
-                          >
-                            <div className={`${
-                              msg.type === 'assistant' ? 'text-gray-800' : 'text-white'
-                            } ${
-                              previewDevice === 'mobile' ? 'text-xs' : 'text-xs'
-                            }`}>{msg.content}</div>
-                          </div>
-                          {msg.type === 'user' && (
-                            config.user_avatar_url ? (
-                              <img
-                                src={config.user_avatar_url}
-                                alt="User Avatar"
-                                className={`rounded-full flex-shrink-0 object-cover ${
-                                  previewDevice === 'mobile' ? 'w-4 h-4' : 'w-5 h-5'
-                                }`}
-                                onError={(e) => {
-                                  // Fallback to emoji if image fails to load
-                                  e.currentTarget.style.display = 'none';
-                                  e.currentTarget.nextElementSibling?.classList.remove('hidden');
-                                }}
-                              />
-                            ) : (
-                              <div className={`bg-gray-300 rounded-full flex-shrink-0 flex items-center justify-center ${
-                                previewDevice === 'mobile' ? 'w-4 h-4 text-xs' : 'w-5 h-5 text-xs'
-                              }`}>👤</div>
-                            )
-                          )}
-                        </div>
-                      ))}
-                      {isPreviewTyping && (
-                        <div className={`flex items-start ${
-                          previewDevice === 'mobile' ? 'space-x-1' : 'space-x-2'
-                        }`}>
-                          {config.ai_avatar_url ? (
-                            <img
-                              src={config.ai_avatar_url}
-                              alt="AI Avatar"
-                              className={`rounded-full flex-shrink-0 object-cover ${
-                                previewDevice === 'mobile' ? 'w-4 h-4' : 'w-5 h-5'
-                              }`}
-                              onError={(e) => {
-                                // Fallback to emoji if image fails to load
-                                e.currentTarget.style.display = 'none';
-                                e.currentTarget.nextElementSibling?.classList.remove('hidden');
-                              }}
-                            />
-                          ) : null}
-                          <div className={`bg-gray-300 rounded-full flex-shrink-0 flex items-center justify-center ${
-                            previewDevice === 'mobile' ? 'w-4 h-4 text-xs' : 'w-5 h-5 text-xs'
-                          } ${config.ai_avatar_url ? 'hidden' : ''}`}>👤</div>
-                          <div className={`bg-gray-100 rounded-lg ${
-                            previewDevice === 'mobile' ? 'px-2 py-1' : 'px-2 py-1'
-                          }`}>
-                            <div className="flex space-x-1">
-                              <div className="w-1.5 h-1.5 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-                              <div className="w-1.5 h-1.5 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-                              <div className="w-1.5 h-1.5 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
-                            </div>
-                          </div>
-                        </div>
-                      )}
-                    </div>
-
-                    {/* Chat Input */}
-                    <div className={`border-t border-gray-200 ${
-                      previewDevice === 'mobile' ? 'p-2' : 'p-3'
-                    }`}>
-                      <form onSubmit={handlePreviewSendMessage} className="flex items-center space-x-1">
-                        <input
-                          type="text"
-                          placeholder={isPreviewTyping ? "AI is typing..." : (config.placeholder_text || "Type your message...")}
-                          value={previewInputValue}
-                          onChange={(e) => setPreviewInputValue(e.target.value)}
-                          onKeyPress={handlePreviewKeyPress}
-                          disabled={isPreviewTyping || !selectedWebsite}
-                          className={`flex-1 border border-gray-300 rounded min-w-0 bg-white text-gray-800 placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed ${
-                            previewDevice === 'mobile' ? 'px-1.5 py-1 text-xs' : 'px-2 py-1 text-xs'
-                          }`}
-                        />
-                        <button
-                          type="submit"
-                          disabled={!previewInputValue.trim() || isPreviewTyping || !selectedWebsite}
-                          className={`text-white rounded flex-shrink-0 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed transition-opacity ${
-                            previewDevice === 'mobile' ? 'px-1.5 py-1 text-xs' : 'px-2 py-1 text-xs'
-                          }`}
-                          style={{ backgroundColor: config.widget_color }}
-                        >
-                          {isPreviewTyping ? '...' : 'Send'}
-                        </button>
-                      </form>
-                    </div>
-                  </div>
-                  )}
-
-                  {/* Chat Button */}
-                  <button
-                    onClick={() => setPreviewChatOpen(!previewChatOpen)}
-                    className="rounded-full shadow-lg cursor-pointer flex items-center justify-center text-white hover:scale-110 transition-transform duration-200 focus:outline-none"
-                    style={{
-                      width: (() => {
-                        const baseSize = config.widget_size === 'small' ? 50 : config.widget_size === 'large' ? 70 : 60;
-                        const deviceMultiplier = previewDevice === 'mobile' ? 0.8 : previewDevice === 'tablet' ? 0.9 : 1;
-                        return Math.round(baseSize * deviceMultiplier) + 'px';
-                      })(),
-                      height: (() => {
-                        const baseSize = config.widget_size === 'small' ? 50 : config.widget_size === 'large' ? 70 : 60;
-                        const deviceMultiplier = previewDevice === 'mobile' ? 0.8 : previewDevice === 'tablet' ? 0.9 : 1;
-                        return Math.round(baseSize * deviceMultiplier) + 'px';
-                      })(),
-                      fontSize: previewDevice === 'mobile' ? '16px' : previewDevice === 'tablet' ? '18px' : '20px',
-                      backgroundColor: config.widget_color,
-                      borderRadius: config.border_radius + 'px'
-                    }}
-                  >
-                    {config.button_logo_url ? (
-                      <img
-                        src={config.button_logo_url}
-                        alt="Chat Button"
-                        className="rounded-full object-cover"
-                        style={{
-                          width: (() => {
-                            const baseSize = config.widget_size === 'small' ? 30 : config.widget_size === 'large' ? 42 : 36;
-                            const deviceMultiplier = previewDevice === 'mobile' ? 0.8 : previewDevice === 'tablet' ? 0.9 : 1;
-                            return Math.round(baseSize * deviceMultiplier) + 'px';
-                          })(),
-                          height: (() => {
-                            const baseSize = config.widget_size === 'small' ? 30 : config.widget_size === 'large' ? 42 : 36;
-                            const deviceMultiplier = previewDevice === 'mobile' ? 0.8 : previewDevice === 'tablet' ? 0.9 : 1;
-                            return Math.round(baseSize * deviceMultiplier) + 'px';
-                          })()
-                        }}
-                        onError={(e) => {
-                          // Fallback to emoji if image fails to load
-                          e.currentTarget.style.display = 'none';
-                          const parent = e.currentTarget.parentElement;
-                          if (parent) {
-                            parent.innerHTML = '💬';
-                          }
-                        }}
-                      />
-                    ) : (
-                      '💬'
-                    )}
-                  </button>
+                {/* Website with the real widget on top */}
+                <div className={`relative ${previewDevice === 'mobile' ? 'h-[calc(100%-32px)]' : 'h-[calc(100%-40px)]'}`}>
+                  <WidgetLivePreview
+                    key={selectedWebsite?.id}
+                    websiteId={selectedWebsite?.id || ''}
+                    widgetId={getWidgetId()}
+                    scriptUrl={widgetScriptUrl}
+                    apiBase={widgetApiBase}
+                    config={previewWidgetConfig}
+                    siteUrl={selectedWebsite?.url}
+                    screenshotUrl={selectedWebsite?.screenshot_url}
+                    siteName={selectedWebsite?.domain}
+                    simulatedTrigger={simulatedTrigger}
+                    compact={previewDevice === 'mobile'}
+                  />
                 </div>
               </div>
             </div>
@@ -2127,6 +1305,52 @@ export default function ChatLiteWidget() {
                     )}
                   </div>
 
+                  {/* Guides supplied by embed targets */}
+                  {getEmbedTargets().filter(target => target.guide).map(target => (
+                    <div key={target.id} className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+                      <button
+                        onClick={() => toggleInstallationSection(target.id)}
+                        className="flex items-center justify-between w-full p-4 text-left hover:bg-gray-50 transition-colors"
+                      >
+                        <div className="flex items-center space-x-3">
+                          <Code className="w-5 h-5 text-blue-600" />
+                          <span className="font-medium text-gray-900 text-lg">{target.guide!.title}</span>
+                          {target.guide!.badge && (
+                            <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded-full">{target.guide!.badge}</span>
+                          )}
+                        </div>
+                        {expandedInstallationSection.has(target.id) ? (
+                          <ChevronDown className="w-5 h-5 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="w-5 h-5 text-gray-400" />
+                        )}
+                      </button>
+
+                      {expandedInstallationSection.has(target.id) && (
+                        <div className="px-6 pb-6 border-t border-gray-100">
+                          <div className="mt-4 space-y-4">
+                            <div className="bg-purple-50 rounded-lg p-4">
+                              <div className="flex items-start space-x-3">
+                                <Info className="w-5 h-5 text-purple-600 mt-0.5 flex-shrink-0" />
+                                <p className="text-purple-900 text-sm">{target.guide!.summary}</p>
+                              </div>
+                            </div>
+                            <div className="space-y-3">
+                              {target.guide!.steps.map((step, index) => (
+                                <div key={index} className="flex items-start space-x-3">
+                                  <div className="w-6 h-6 bg-purple-600 rounded-full flex items-center justify-center text-white text-sm font-bold flex-shrink-0 mt-0.5">
+                                    {index + 1}
+                                  </div>
+                                  <span className="text-gray-700 text-sm">{step}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+
                   {/* Testing & Verification */}
                   <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
                     <button
@@ -2308,6 +1532,8 @@ export default function ChatLiteWidget() {
                     </div>
                   </div>
 
+                  <CspTroubleshooter required={cspSources} />
+
                   {/* Platform-Specific Issues */}
                   <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
                     <h3 className="text-xl font-semibold text-gray-900 mb-4 flex items-center space-x-2">
@@ -2519,215 +1745,21 @@ export default function ChatLiteWidget() {
                   <div className="ml-3 text-white text-sm">{selectedWebsite?.domain || 'yourwebsite.com'}</div>
                 </div>
 
-                {/* Website Content - Priority: Screenshot > Iframe > Fallback */}
+                {/* Website with the real widget on top */}
                 <div className="relative h-[calc(100%-40px)]">
-                  {selectedWebsite?.screenshot_url ? (
-                    // Show screenshot if available (primary)
-                    <div className="absolute inset-0 overflow-y-auto overflow-x-hidden">
-                      <img
-                        src={selectedWebsite.screenshot_url}
-                        alt={`Screenshot of ${selectedWebsite.domain}`}
-                        className="w-full object-cover object-top"
-                      />
-                    </div>
-                  ) : selectedWebsite?.url ? (
-                    // Try iframe if no screenshot (secondary)
-                    <>
-                      {fullscreenIframeLoading && (
-                        <div className="absolute inset-0 flex items-center justify-center bg-white">
-                          <div className="text-center">
-                            <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
-                            <div className="text-gray-600">Loading website...</div>
-                          </div>
-                        </div>
-                      )}
-                      {!fullscreenIframeError ? (
-                        <iframe
-                          key={selectedWebsite.url}
-                          src={selectedWebsite.url}
-                          className="w-full h-full border-0"
-                          style={{ pointerEvents: 'auto' }}
-                          onLoad={(e) => {
-                            console.log('Fullscreen iframe loaded successfully', e.currentTarget.src);
-                            fullscreenIframeLoadedRef.current = true;
-                            if (fullscreenIframeTimeoutRef.current) {
-                              clearTimeout(fullscreenIframeTimeoutRef.current);
-                              fullscreenIframeTimeoutRef.current = null;
-                            }
-                            setFullscreenIframeLoading(false);
-                            setFullscreenIframeError(false);
-                          }}
-                          onError={(e) => {
-                            console.error('Fullscreen iframe failed to load:', e.currentTarget.src);
-                            if (fullscreenIframeTimeoutRef.current) {
-                              clearTimeout(fullscreenIframeTimeoutRef.current);
-                              fullscreenIframeTimeoutRef.current = null;
-                            }
-                            setFullscreenIframeError(true);
-                            setFullscreenIframeLoading(false);
-                          }}
-                          title="Website Preview Fullscreen"
-                        />
-                      ) : (
-                        // Show fallback if iframe failed and no screenshot
-                        <div className="p-8 h-full overflow-auto">
-                          <div className="mt-6 bg-blue-50 border border-blue-300 rounded-lg p-4">
-                            <div className="flex items-start space-x-3">
-                              <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
-                              <div className="flex-1">
-                                <div className="text-sm font-medium text-blue-900 mb-2">Preview Not Available</div>
-                                <div className="text-sm text-blue-800 leading-relaxed">
-                                  This website blocks iframe embedding for security reasons. This is common for sites like ChatGPT, online banking, and many corporate websites. Rest assured, your chat widget will work perfectly when you install it on your actual website.
-                                </div>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      )}
-                    </>
-                  ) : (
-                    // Default fallback - no website selected
-                    <div className="p-8 h-full overflow-auto">
-                      <div className="font-bold text-gray-900 text-3xl mb-4">Your Website</div>
-                      <div className="text-gray-600 text-lg mb-6">This is how your chat widget will appear to visitors</div>
-                      <div className="space-y-3">
-                        <div className="bg-gray-200 rounded h-6 w-3/4"></div>
-                        <div className="bg-gray-200 rounded h-6 w-1/2"></div>
-                        <div className="bg-gray-200 rounded h-6 w-2/3"></div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-
-                {/* Chat Widget Preview */}
-                <div className="absolute" style={{
-                  ...{
-                    'bottom-right': { bottom: '20px', right: '20px' },
-                    'bottom-left': { bottom: '20px', left: '20px' },
-                    'top-right': { top: '60px', right: '20px' },
-                    'top-left': { top: '60px', left: '20px' }
-                  }[config.widget_position]
-                }}>
-                  {/* Chat Interface - Toggleable */}
-                  {previewChatOpen && (
-                    <div
-                      className="bg-white rounded-lg shadow-2xl border-2 mb-3 absolute z-10 transition-all duration-300"
-                      style={{
-                        width: '360px',
-                        height: '520px',
-                        borderColor: config.widget_color,
-                        borderRadius: config.border_radius + 'px',
-                        ...{
-                          'bottom-right': { bottom: '80px', right: '0' },
-                          'bottom-left': { bottom: '80px', left: '0' },
-                          'top-right': { top: '80px', right: '0' },
-                          'top-left': { top: '80px', left: '0' }
-                        }[config.widget_position]
-                      }}
-                    >
-                      {/* Chat Header */}
-                      <div
-                        className="flex items-center justify-between text-white p-4"
-                        style={{
-                          backgroundColor: config.widget_color,
-                          borderTopLeftRadius: config.border_radius + 'px',
-                          borderTopRightRadius: config.border_radius + 'px'
-                        }}
-                      >
-                        <div className="flex items-center space-x-2">
-                          <div className="w-8 h-8 bg-white/20 rounded-full flex items-center justify-center">💬</div>
-                          <div>
-                            <div className="font-semibold">Support Chat</div>
-                            <div className="text-sm opacity-80">Online now</div>
-                          </div>
-                        </div>
-                        <button
-                          onClick={() => setPreviewChatOpen(false)}
-                          className="text-white/60 hover:text-white transition-colors"
-                        >
-                          ✕
-                        </button>
-                      </div>
-
-                      {/* Chat Messages */}
-                      <div ref={fullscreenMessagesContainerRef} className="p-4 space-y-3 overflow-y-auto" style={{ height: '380px' }}>
-                        {previewMessages.map((msg) => (
-                          <div
-                            key={msg.id}
-                            className={`flex items-start space-x-2 ${
-                              msg.type === 'user' ? 'justify-end' : ''
-                            }`}
-                          >
-                            {msg.type === 'assistant' && (
-                              <div className="w-6 h-6 bg-gray-300 rounded-full flex-shrink-0 flex items-center justify-center text-xs">👤</div>
-                            )}
-                            <div
-                              className={`rounded-lg px-3 py-2 max-w-xs ${
-                                msg.type === 'assistant'
-                                  ? 'bg-gray-100'
-                                  : 'text-white'
-                              }`}
-                              style={msg.type === 'user' ? { backgroundColor: config.widget_color } : {}}
-                            >
-                              <div className={`text-sm ${
-                                msg.type === 'assistant' ? 'text-gray-800' : 'text-white'
-                              }`}>{msg.content}</div>
-                            </div>
-                          </div>
-                        ))}
-                        {isPreviewTyping && (
-                          <div className="flex items-start space-x-2">
-                            <div className="w-6 h-6 bg-gray-300 rounded-full flex-shrink-0 flex items-center justify-center text-xs">👤</div>
-                            <div className="bg-gray-100 rounded-lg px-3 py-2">
-                              <div className="flex space-x-1">
-                                <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-                                <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-                                <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
-                              </div>
-                            </div>
-                          </div>
-                        )}
-                      </div>
-
-                      {/* Chat Input */}
-                      <div className="border-t border-gray-200 p-3">
-                        <form onSubmit={handlePreviewSendMessage} className="flex items-center space-x-2">
-                          <input
-                            type="text"
-                            placeholder={isPreviewTyping ? "AI is typing..." : (config.placeholder_text || "Type your message...")}
-                            value={previewInputValue}
-                            onChange={(e) => setPreviewInputValue(e.target.value)}
-                            onKeyPress={handlePreviewKeyPress}
-                            disabled={isPreviewTyping || !selectedWebsite}
-                            className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm min-w-0 bg-white text-gray-800 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                          />
-                          <button
-                            type="submit"
-                            disabled={!previewInputValue.trim() || isPreviewTyping || !selectedWebsite}
-                            className="text-white rounded px-4 py-2 text-sm flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
-                            style={{ backgroundColor: config.widget_color }}
-                          >
-                            {isPreviewTyping ? '...' : 'Send'}
-                          </button>
-                        </form>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Chat Button */}
-                  <button
-                    onClick={() => setPreviewChatOpen(!previewChatOpen)}
-                    className="rounded-full shadow-lg cursor-pointer flex items-center justify-center text-white hover:scale-110 transition-transform duration-200 focus:outline-none"
-                    style={{
-                      width: config.widget_size === 'small' ? '60px' : config.widget_size === 'large' ? '80px' : '70px',
-                      height: config.widget_size === 'small' ? '60px' : config.widget_size === 'large' ? '80px' : '70px',
-                      fontSize: '24px',
-                      backgroundColor: config.widget_color,
-                      borderRadius: config.border_radius + 'px'
-                    }}
-                  >
-                    💬
-                  </button>
+                  <WidgetLivePreview
+                    key={selectedWebsite?.id}
+                    websiteId={selectedWebsite?.id || ''}
+                    widgetId={getWidgetId()}
+                    scriptUrl={widgetScriptUrl}
+                    apiBase={widgetApiBase}
+                    config={previewWidgetConfig}
+                    siteUrl={selectedWebsite?.url}
+                    screenshotUrl={selectedWebsite?.screenshot_url}
+                    siteName={selectedWebsite?.domain}
+                    simulatedTrigger={simulatedTrigger}
+                    compact={previewDevice === 'mobile'}
+                  />
                 </div>
               </div>
             </div>
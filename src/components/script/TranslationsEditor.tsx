@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Languages, Plus, Trash2 } from 'lucide-react';
+import type { LocalizedWidgetText } from '../../types/api';
+import type { WidgetConfiguration } from '../../services/centralizedApi';
+import { BUILT_IN_LOCALES, LOCALIZED_TEXT_FIELDS, isRtlLocale, matchLocale } from '../../widget/i18n';
+
+type TranslatableConfig = Pick<
+  WidgetConfiguration,
+  'welcome_message' | 'placeholder_text' | 'offline_message' | 'thanks_message' | 'default_locale' | 'translations' | 'auto_detect_locale'
+>;
+
+interface TranslationsEditorProps {
+  config: TranslatableConfig;
+  onChange: (changes: Partial<TranslatableConfig>) => void;
+}
+
+const FIELD_LABELS: Record<keyof LocalizedWidgetText, string> = {
+  welcome_message: 'Welcome message',
+  placeholder_text: 'Placeholder text',
+  offline_message: 'Offline message',
+  thanks_message: 'Thank-you message'
+};
+
+const SUGGESTED_LOCALES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'pt-BR', 'nl', 'pl', 'tr', 'ar', 'he', 'hi', 'ja', 'zh', 'ko'];
+
+const languageNames = typeof Intl.DisplayNames === 'function'
+  ? new Intl.DisplayNames(['en'], { type: 'language' })
+  : null;
+
+const getLanguageName = (locale: string): string => {
+  try {
+    return languageNames?.of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+};
+
+const fieldClassName = 'px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm';
+
+/**
+ * Per-locale overrides of the widget texts, with how complete each locale is.
+ * Untranslated texts fall back to the base texts above.
+ */
+const TranslationsEditor: React.FC<TranslationsEditorProps> = ({ config, onChange }) => {
+  const [newLocale, setNewLocale] = useState('');
+  const translations = config.translations ?? {};
+  const defaultLocale = config.default_locale || 'en';
+  const locales = Object.keys(translations);
+
+  // Base texts the visitor would otherwise see in the default locale
+  const baseFields = LOCALIZED_TEXT_FIELDS.filter(field => config[field]);
+
+  const updateTranslation = (locale: string, changes: LocalizedWidgetText) => {
+    onChange({ translations: { ...translations, [locale]: { ...translations[locale], ...changes } } });
+  };
+
+  const removeLocale = (locale: string) => {
+    const remaining = { ...translations };
+    delete remaining[locale];
+    onChange({ translations: remaining });
+  };
+
+  const addLocale = () => {
+    const locale = newLocale.trim();
+    if (!locale || locale === defaultLocale || translations[locale]) return;
+    onChange({ translations: { ...translations, [locale]: {} } });
+    setNewLocale('');
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-sky-500/20 rounded-lg">
+          <Languages className="w-6 h-6 text-sky-400" />
+        </div>
+        <h3 className="text-xl font-bold text-white">Languages</h3>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Visitors see the texts of their language when one is configured. Sites can force a language with
+        a <code className="text-gray-300">data-lang</code> attribute on the widget script; otherwise the
+        page's <code className="text-gray-300">lang</code> attribute and the browser language are used when
+        detection is on. Arabic and Hebrew render right-to-left.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <label className="text-sm text-gray-300">
+          Base texts are in
+          <select
+            className={`${fieldClassName} ml-2`}
+            value={defaultLocale}
+            onChange={(e) => onChange({ default_locale: e.target.value })}
+          >
+            {SUGGESTED_LOCALES.map(locale => (
+              <option key={locale} value={locale}>{getLanguageName(locale)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={!!config.auto_detect_locale}
+            onChange={(e) => onChange({ auto_detect_locale: e.target.checked })}
+            className="rounded border-gray-600 bg-gray-700 text-sky-500 focus:ring-sky-500"
+          />
+          <span>Detect the visitor's language</span>
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        {locales.map(locale => {
+          const translation = translations[locale];
+          const translated = baseFields.filter(field => translation[field]?.trim()).length;
+          const isComplete = translated === baseFields.length;
+          const hasBuiltInLabels = !!matchLocale([locale], BUILT_IN_LOCALES);
+
+          return (
+            <div key={locale} className="bg-gray-700/50 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-white">{getLanguageName(locale)}</span>
+                  <span className="text-xs text-gray-400">{locale}</span>
+                  {isRtlLocale(locale) && <span className="text-xs px-1.5 py-0.5 rounded bg-gray-600 text-gray-200">RTL</span>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full ${isComplete ? 'bg-green-500/20 text-green-300' : 'bg-yellow-500/20 text-yellow-300'}`}
+                    title="Configured texts translated for this language"
+                  >
+                    {translated}/{baseFields.length} texts
+                  </span>
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full ${hasBuiltInLabels ? 'bg-green-500/20 text-green-300' : 'bg-gray-600 text-gray-300'}`}
+                    title="Buttons, status and form labels that ship with the widget"
+                  >
+                    {hasBuiltInLabels ? 'UI labels included' : 'UI labels in English'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeLocale(locale)}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Remove language"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {LOCALIZED_TEXT_FIELDS.map(field => (
+                <label key={field} className="block text-xs text-gray-400">
+                  {FIELD_LABELS[field]}
+                  <input
+                    type="text"
+                    dir={isRtlLocale(locale) ? 'rtl' : 'ltr'}
+                    className={`${fieldClassName} w-full mt-1`}
+                    value={translation[field] || ''}
+                    placeholder={config[field] || ''}
+                    onChange={(e) => updateTranslation(locale, { [field]: e.target.value || undefined })}
+                  />
+                </label>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center space-x-2 mt-4">
+        <input
+          type="text"
+          list="translation-locales"
+          className={`${fieldClassName} w-40`}
+          value={newLocale}
+          onChange={(e) => setNewLocale(e.target.value)}
+          placeholder="e.g. de or pt-BR"
+        />
+        <datalist id="translation-locales">
+          {SUGGESTED_LOCALES.filter(locale => locale !== defaultLocale && !translations[locale]).map(locale => (
+            <option key={locale} value={locale}>{getLanguageName(locale)}</option>
+          ))}
+        </datalist>
+        <button
+          type="button"
+          onClick={addLocale}
+          disabled={!newLocale.trim()}
+          className="flex items-center space-x-1 bg-gray-700 text-white px-3 py-1.5 rounded-md hover:bg-gray-600 text-sm disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add language</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationsEditor;
@@ -0,0 +1,241 @@
+import React from 'react';
+import { Zap, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import type { ProactiveTrigger, TriggerConditions, TriggerFrequency } from '../../types/api';
+
+interface TriggerRulesEditorProps {
+  triggers: ProactiveTrigger[];
+  onChange: (triggers: ProactiveTrigger[]) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: TriggerFrequency; label: string }[] = [
+  { value: 'every_page', label: 'Every page view' },
+  { value: 'once_per_session', label: 'Once per visit' },
+  { value: 'once_per_day', label: 'Once per day' },
+  { value: 'once', label: 'Only once per visitor' }
+];
+
+const UTM_FIELDS = ['utm_source', 'utm_medium', 'utm_campaign'] as const;
+
+const inputClassName = 'w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm';
+
+const createTrigger = (): ProactiveTrigger => ({
+  id: `trigger_${Date.now().toString(36)}`,
+  name: 'Pricing page help',
+  enabled: true,
+  conditions: { url_pattern: '/pricing*', time_on_page: 20 },
+  action: 'teaser',
+  message: 'Questions about our plans? We are happy to help.',
+  frequency: 'once_per_session'
+});
+
+/**
+ * Edits the proactive trigger rules. Rules are checked in order and the first
+ * match wins, so the list can be reordered.
+ */
+const TriggerRulesEditor: React.FC<TriggerRulesEditorProps> = ({ triggers, onChange }) => {
+  const updateTrigger = (id: string, changes: Partial<ProactiveTrigger>) => {
+    onChange(triggers.map(trigger => (trigger.id === id ? { ...trigger, ...changes } : trigger)));
+  };
+
+  const updateConditions = (trigger: ProactiveTrigger, changes: Partial<TriggerConditions>) => {
+    updateTrigger(trigger.id, { conditions: { ...trigger.conditions, ...changes } });
+  };
+
+  const moveTrigger = (index: number, offset: number) => {
+    const reordered = [...triggers];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    onChange(reordered);
+  };
+
+  const toNumber = (value: string): number | undefined => (value === '' ? undefined : Math.max(0, Number(value)));
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-yellow-500/20 rounded-lg">
+            <Zap className="w-6 h-6 text-yellow-400" />
+          </div>
+          <h3 className="text-xl font-bold text-white">Proactive Triggers</h3>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange([...triggers, createTrigger()])}
+          className="flex items-center space-x-1 bg-gray-700 text-white px-3 py-1.5 rounded-md hover:bg-gray-600 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add rule</span>
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Open the chat or show a teaser message when a visitor matches all conditions of a rule.
+        Rules are checked from top to bottom; the first match wins and at most one fires per page.
+      </p>
+
+      {triggers.length === 0 && (
+        <div className="bg-gray-700/50 rounded-lg p-4 text-center text-sm text-gray-400 border-2 border-dashed border-gray-600">
+          No triggers yet. The widget waits for visitors to open it.
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {triggers.map((trigger, index) => (
+          <div
+            key={trigger.id}
+            className={`bg-gray-700/50 rounded-lg p-4 border border-gray-600 ${trigger.enabled ? '' : 'opacity-60'}`}
+          >
+            {/* Rule header */}
+            <div className="flex items-center space-x-2 mb-3">
+              <input
+                type="checkbox"
+                checked={trigger.enabled}
+                onChange={(e) => updateTrigger(trigger.id, { enabled: e.target.checked })}
+                className="rounded border-gray-600 bg-gray-700 text-yellow-500 focus:ring-yellow-500"
+                title={trigger.enabled ? 'Disable rule' : 'Enable rule'}
+              />
+              <input
+                type="text"
+                className={inputClassName}
+                value={trigger.name}
+                onChange={(e) => updateTrigger(trigger.id, { name: e.target.value })}
+                placeholder="Rule name"
+              />
+              <button
+                type="button"
+                onClick={() => moveTrigger(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveTrigger(index, 1)}
+                disabled={index === triggers.length - 1}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(triggers.filter(item => item.id !== trigger.id))}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Delete rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* Conditions */}
+            <div className="text-xs font-medium text-gray-300 mb-2">When</div>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <label className="text-xs text-gray-400">
+                Page path
+                <input
+                  type="text"
+                  className={`${inputClassName} mt-1`}
+                  value={trigger.conditions.url_pattern || ''}
+                  onChange={(e) => updateConditions(trigger, { url_pattern: e.target.value || undefined })}
+                  placeholder="Any page, or /pricing*"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Visitor
+                <select
+                  className={`${inputClassName} mt-1`}
+                  value={trigger.conditions.visitor_type || ''}
+                  onChange={(e) => updateConditions(trigger, {
+                    visitor_type: (e.target.value || undefined) as TriggerConditions['visitor_type']
+                  })}
+                >
+                  <option value="">Anyone</option>
+                  <option value="new">New visitors</option>
+                  <option value="returning">Returning visitors</option>
+                </select>
+              </label>
+              <label className="text-xs text-gray-400">
+                Seconds on page
+                <input
+                  type="number"
+                  min={0}
+                  className={`${inputClassName} mt-1`}
+                  value={trigger.conditions.time_on_page ?? ''}
+                  onChange={(e) => updateConditions(trigger, { time_on_page: toNumber(e.target.value) })}
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Scroll depth (%)
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className={`${inputClassName} mt-1`}
+                  value={trigger.conditions.scroll_depth ?? ''}
+                  onChange={(e) => updateConditions(trigger, { scroll_depth: toNumber(e.target.value) })}
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-3 mb-3">
+              {UTM_FIELDS.map(field => (
+                <label key={field} className="text-xs text-gray-400">
+                  {field}
+                  <input
+                    type="text"
+                    className={`${inputClassName} mt-1`}
+                    value={trigger.conditions[field] || ''}
+                    onChange={(e) => updateConditions(trigger, { [field]: e.target.value || undefined })}
+                    placeholder="Any"
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center space-x-2 text-xs text-gray-300 mb-3">
+              <input
+                type="checkbox"
+                checked={!!trigger.conditions.exit_intent}
+                onChange={(e) => updateConditions(trigger, { exit_intent: e.target.checked || undefined })}
+                className="rounded border-gray-600 bg-gray-700 text-yellow-500 focus:ring-yellow-500"
+              />
+              <span>Visitor is about to leave (pointer moves out through the top, desktop only)</span>
+            </label>
+
+            {/* Action */}
+            <div className="text-xs font-medium text-gray-300 mb-2">Then</div>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <select
+                className={inputClassName}
+                value={trigger.action}
+                onChange={(e) => updateTrigger(trigger.id, { action: e.target.value as ProactiveTrigger['action'] })}
+              >
+                <option value="teaser">Show a teaser bubble</option>
+                <option value="open">Open the chat</option>
+              </select>
+              <select
+                className={inputClassName}
+                value={trigger.frequency}
+                onChange={(e) => updateTrigger(trigger.id, { frequency: e.target.value as TriggerFrequency })}
+              >
+                {FREQUENCY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="text"
+              className={inputClassName}
+              value={trigger.message || ''}
+              onChange={(e) => updateTrigger(trigger.id, { message: e.target.value || undefined })}
+              placeholder={trigger.action === 'teaser' ? 'Teaser message' : 'Greeting shown in the chat (optional)'}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TriggerRulesEditor;
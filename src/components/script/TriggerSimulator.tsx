@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Play, CheckCircle, XCircle } from 'lucide-react';
+import type { ProactiveTrigger } from '../../types/api';
+import { findFiringTrigger, getUnmetConditions, type PageSnapshot } from '../../widget/triggers';
+
+interface TriggerSimulatorProps {
+  triggers: ProactiveTrigger[];
+  /** Called with the rule that fires for the simulated visit, or null */
+  onSimulate: (trigger: ProactiveTrigger | null) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white text-xs';
+
+/**
+ * Describes a visit and shows which trigger rule would fire for it.
+ * Frequency caps are not applied here.
+ */
+const TriggerSimulator: React.FC<TriggerSimulatorProps> = ({ triggers, onSimulate }) => {
+  const [snapshot, setSnapshot] = useState<PageSnapshot>({
+    path: '/pricing',
+    timeOnPage: 20,
+    scrollDepth: 0,
+    exitIntent: false,
+    isReturning: false,
+    utm: {}
+  });
+  const [result, setResult] = useState<{ fired: ProactiveTrigger | null; snapshot: PageSnapshot } | null>(null);
+
+  const enabledTriggers = triggers.filter(trigger => trigger.enabled);
+
+  const simulate = () => {
+    const fired = findFiringTrigger(triggers, snapshot);
+    setResult({ fired, snapshot });
+    onSimulate(fired);
+  };
+
+  const update = (changes: Partial<PageSnapshot>) => setSnapshot(prev => ({ ...prev, ...changes }));
+
+  if (enabledTriggers.length === 0) return null;
+
+  return (
+    <div className="mb-4 bg-gray-700/50 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-300">Simulate a visit</h4>
+        <button
+          type="button"
+          onClick={simulate}
+          className="flex items-center space-x-1 bg-yellow-600 text-white px-2 py-1 rounded-md hover:bg-yellow-700 text-xs"
+        >
+          <Play className="w-3 h-3" />
+          <span>Run triggers</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-2">
+        <label className="text-xs text-gray-400 col-span-2">
+          Page path
+          <input
+            type="text"
+            className={inputClassName}
+            value={snapshot.path}
+            onChange={(e) => update({ path: e.target.value })}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Seconds
+          <input
+            type="number"
+            min={0}
+            className={inputClassName}
+            value={snapshot.timeOnPage}
+            onChange={(e) => update({ timeOnPage: Number(e.target.value) })}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Scroll %
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className={inputClassName}
+            value={snapshot.scrollDepth}
+            onChange={(e) => update({ scrollDepth: Number(e.target.value) })}
+          />
+        </label>
+        <label className="text-xs text-gray-400 col-span-2">
+          utm_source
+          <input
+            type="text"
+            className={inputClassName}
+            value={snapshot.utm.utm_source || ''}
+            onChange={(e) => update({ utm: { ...snapshot.utm, utm_source: e.target.value || undefined } })}
+          />
+        </label>
+        <label className="flex items-center space-x-1 text-xs text-gray-300 self-end pb-1">
+          <input
+            type="checkbox"
+            checked={snapshot.isReturning}
+            onChange={(e) => update({ isReturning: e.target.checked })}
+          />
+          <span>Returning</span>
+        </label>
+        <label className="flex items-center space-x-1 text-xs text-gray-300 self-end pb-1">
+          <input
+            type="checkbox"
+            checked={snapshot.exitIntent}
+            onChange={(e) => update({ exitIntent: e.target.checked })}
+          />
+          <span>Leaving</span>
+        </label>
+      </div>
+
+      {result && (
+        <ul className="space-y-1 text-xs">
+          {enabledTriggers.map(trigger => {
+            const unmet = getUnmetConditions(trigger, result.snapshot);
+            const fired = result.fired?.id === trigger.id;
+            return (
+              <li key={trigger.id} className="flex items-start space-x-1.5">
+                {fired ? (
+                  <CheckCircle className="w-3.5 h-3.5 text-green-400 flex-shrink-0 mt-px" />
+                ) : (
+                  <XCircle className="w-3.5 h-3.5 text-gray-500 flex-shrink-0 mt-px" />
+                )}
+                <span className={fired ? 'text-green-300' : 'text-gray-400'}>
+                  {trigger.name || 'Untitled rule'}:{' '}
+                  {fired
+                    ? (trigger.action === 'open' ? 'opens the chat' : 'shows the teaser')
+                    : unmet.length > 0
+                      ? `needs ${unmet.join(', ')}`
+                      : 'matches, but an earlier rule fires first'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TriggerSimulator;
@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import {
+  Save,
+  Upload,
+  History,
+  RotateCcw,
+  GitCompare,
+  Loader2,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react';
+import type {
+  WidgetConfigRecord,
+  WidgetConfigVersion,
+  WidgetConfiguration
+} from '../../services/centralizedApi';
+
+interface ConfigChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface WidgetConfigPublisherProps {
+  /** Configuration currently in the editor */
+  config: WidgetConfiguration;
+  record: WidgetConfigRecord | null;
+  versions: WidgetConfigVersion[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  onSaveDraft: (note?: string) => void;
+  onPublish: (note?: string) => void;
+  onRollback: (version: number) => void;
+}
+
+/**
+ * A setting in comparable form: unset, empty strings, lists and objects all
+ * become undefined, and object keys are sorted so saved and edited copies match
+ */
+const normalizeValue = (value: unknown): unknown => {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(item => normalizeValue(item) ?? null) : undefined;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => [key, normalizeValue((value as Record<string, unknown>)[key])] as const)
+      .filter(([, item]) => item !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return value;
+};
+
+interface IdentifiedItem {
+  id: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A list of rules with ids (e.g. triggers); unset counts as an empty list
+ */
+const asIdentifiedItems = (value: unknown): IdentifiedItem[] | null => {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  return value.every(item => typeof (item as { id?: unknown })?.id === 'string') ? value as IdentifiedItem[] : null;
+};
+
+/**
+ * Fields whose value differs between two objects, compared by value
+ */
+const diffValues = (before: Record<string, unknown>, after: Record<string, unknown>): ConfigChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return Array.from(fields)
+    .map(field => ({ field, before: before[field], after: after[field] }))
+    .filter(change => JSON.stringify(normalizeValue(change.before)) !== JSON.stringify(normalizeValue(change.after)))
+    .flatMap(expandItemChanges);
+};
+
+/**
+ * Split a changed list of rules into the rules added, removed or edited, down
+ * to the edited setting (`triggers › Pricing › conditions`). A list that was
+ * only reordered stays one change.
+ */
+const expandItemChanges = (change: ConfigChange): ConfigChange[] => {
+  const before = asIdentifiedItems(change.before);
+  const after = asIdentifiedItems(change.after);
+  if (!before || !after) return [change];
+
+  const ids = Array.from(new Set([...before, ...after].map(item => item.id)));
+  const itemChanges = ids.flatMap(id => {
+    const previous = before.find(item => item.id === id);
+    const next = after.find(item => item.id === id);
+    const field = `${change.field} › ${next?.name || previous?.name || id}`;
+    if (!previous || !next) return [{ field, before: previous, after: next }];
+    return diffValues(previous, next).map(itemChange => ({ ...itemChange, field: `${field} › ${itemChange.field}` }));
+  });
+
+  return itemChanges.length > 0 ? itemChanges : [change];
+};
+
+/**
+ * Settings that differ between two configurations
+ */
+const diffConfigs = (before: WidgetConfiguration, after: WidgetConfiguration): ConfigChange[] =>
+  diffValues(before as unknown as Record<string, unknown>, after as unknown as Record<string, unknown>);
+
+const formatValue = (value: unknown): string => {
+  const normalized = normalizeValue(value);
+  if (normalized === undefined) return '—';
+  // Named items (trigger rules, experiment variants) are listed by name
+  if (Array.isArray(normalized) && normalized.every(item => typeof (item as { name?: unknown })?.name === 'string')) {
+    return `${normalized.length}: ${normalized.map(item => (item as { name: string }).name).join(', ')}`;
+  }
+  return typeof normalized === 'object' ? JSON.stringify(normalized) : String(normalized);
+};
+
+const formatDate = (value?: string | null): string =>
+  value ? new Date(value).toLocaleString() : '';
+
+const WidgetConfigPublisher: React.FC<WidgetConfigPublisherProps> = ({
+  config,
+  record,
+  versions,
+  isLoading,
+  isSaving,
+  error,
+  onSaveDraft,
+  onPublish,
+  onRollback
+}) => {
+  const [note, setNote] = useState('');
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const saved = record?.draft ?? record?.published ?? null;
+  const hasUnsavedChanges = !saved || diffConfigs(saved.config, config).length > 0;
+  const hasUnpublishedDraft = !!record?.draft &&
+    (!record.published || record.draft.version !== record.published.version);
+
+  const comparedVersion = versions.find(version => version.version === compareVersion) ?? null;
+  const changes = comparedVersion ? diffConfigs(comparedVersion.config, config) : [];
+
+  const submit = (action: (note?: string) => void) => {
+    action(note.trim() || undefined);
+    setNote('');
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-emerald-500/20 rounded-lg">
+          <Upload className="w-6 h-6 text-emerald-400" />
+        </div>
+        <h3 className="text-xl font-bold text-white">Publish Configuration</h3>
+      </div>
+
+      {/* Status */}
+      <div className="bg-gray-700/50 rounded-lg p-3 mb-4 text-sm space-y-1">
+        {isLoading ? (
+          <div className="flex items-center space-x-2 text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Loading saved configuration...</span>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center space-x-2 text-gray-300">
+              <CheckCircle className={`w-4 h-4 ${record?.published ? 'text-green-400' : 'text-gray-500'}`} />
+              <span>
+                {record?.published
+                  ? `Live: version ${record.published.version}, published ${formatDate(record.published.published_at)}`
+                  : 'Nothing published yet – embedded widgets use the default configuration'}
+              </span>
+            </div>
+            {hasUnpublishedDraft && (
+              <div className="text-yellow-400">Draft version {record!.draft!.version} is not published yet</div>
+            )}
+            {hasUnsavedChanges && (
+              <div className="text-orange-400">The editor has unsaved changes</div>
+            )}
+          </>
+        )}
+        {error && (
+          <div className="flex items-center space-x-2 text-red-400">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Describe this change (optional)"
+        className="w-full px-3 py-2 mb-3 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+      />
+
+      <div className="flex items-center space-x-3 mb-6">
+        <button
+          onClick={() => submit(onSaveDraft)}
+          disabled={isSaving || isLoading || !hasUnsavedChanges}
+          className="flex items-center space-x-2 bg-gray-700 text-white px-3 py-1.5 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Draft</span>
+        </button>
+        <button
+          onClick={() => submit(onPublish)}
+          disabled={isSaving || isLoading || (!hasUnsavedChanges && !hasUnpublishedDraft)}
+          className="flex items-center space-x-2 bg-emerald-600 text-white px-3 py-1.5 rounded-md hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          <span>Publish</span>
+        </button>
+      </div>
+
+      {/* Version History */}
+      <div className="flex items-center space-x-2 text-gray-300 font-medium mb-3">
+        <History className="w-4 h-4" />
+        <span>Version History</span>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-400">No saved versions yet</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {versions.map(version => {
+            const isLive = record?.published?.version === version.version;
+            return (
+              <li key={version.version} className="bg-gray-700/50 rounded-lg p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="text-white font-medium">v{version.version}</span>
+                    <span className={`ml-2 px-2 py-0.5 rounded text-xs ${
+                      isLive ? 'bg-green-500/20 text-green-400' : 'bg-gray-600 text-gray-300'
+                    }`}>
+                      {isLive ? 'live' : version.status}
+                    </span>
+                    <div className="text-xs text-gray-400 mt-1">
+                      {formatDate(version.created_at)}
+                      {version.restored_from ? ` · restored from v${version.restored_from}` : ''}
+                    </div>
+                    {version.note && <div className="text-xs text-gray-300 mt-1">{version.note}</div>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setCompareVersion(compareVersion === version.version ? null : version.version)}
+                      className="flex items-center space-x-1 text-blue-400 hover:text-blue-300 text-xs"
+                      title="Compare with the editor"
+                    >
+                      <GitCompare className="w-3 h-3" />
+                      <span>Compare</span>
+                    </button>
+                    {!isLive && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Publish version ${version.version} again? Embedded widgets switch to it immediately.`)) {
+                            onRollback(version.version);
+                          }
+                        }}
+                        disabled={isSaving}
+                        className="flex items-center space-x-1 text-orange-400 hover:text-orange-300 disabled:opacity-50 text-xs"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        <span>Rollback</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {compareVersion === version.version && (
+                  <div className="mt-3 border-t border-gray-600 pt-2">
+                    {changes.length === 0 ? (
+                      <p className="text-xs text-gray-400">Identical to the editor</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-gray-400 text-left">
+                            <th className="font-normal pb-1">Field</th>
+                            <th className="font-normal pb-1">v{version.version}</th>
+                            <th className="font-normal pb-1">Editor</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {changes.map((change, index) => (
+                            <tr key={`${index}-${change.field}`} className="align-top">
+                              <td className="pr-2 py-0.5 text-gray-300 font-mono">{change.field}</td>
+                              <td className="pr-2 py-0.5 text-red-300 break-all">{formatValue(change.before)}</td>
+                              <td className="py-0.5 text-green-300 break-all">{formatValue(change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WidgetConfigPublisher;
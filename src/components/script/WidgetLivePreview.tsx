@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Image, Globe, Info } from 'lucide-react';
+import { apiService, type WidgetConfiguration } from '../../services/centralizedApi';
+import type { ProactiveTrigger } from '../../types/api';
+import {
+  isPreviewEnvelope,
+  toPreviewEnvelope,
+  type PreviewHostMessage,
+  type PreviewWidgetMessage
+} from '../../widget/preview';
+
+/** A fresh object per simulation so the same trigger can be replayed */
+export interface SimulatedTrigger {
+  trigger: ProactiveTrigger | null;
+}
+
+interface WidgetLivePreviewProps {
+  websiteId: string;
+  widgetId: string;
+  /** widget.js the customer embeds */
+  scriptUrl: string;
+  apiBase: string;
+  config: WidgetConfiguration;
+  siteUrl?: string;
+  screenshotUrl?: string;
+  siteName?: string;
+  simulatedTrigger: SimulatedTrigger | null;
+  compact?: boolean;
+}
+
+type Background = 'site' | 'screenshot';
+
+/**
+ * Give up on a live site that hasn't loaded after this. Chromium fires load for
+ * frames refused by X-Frame-Options or frame-ancestors too, so refusal can't be
+ * detected; the screenshot is shown by default and the live site is opt-in.
+ */
+const SITE_LOAD_TIMEOUT = 8000;
+
+/** JSON safe to inline in a <script> element */
+const toInlineJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const buildWidgetDocument = (scriptUrl: string, widgetId: string, apiBase: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>html, body { margin: 0; background: transparent; }</style>
+</head>
+<body>
+<script>window.ChatLiteConfig = ${toInlineJson({ widgetId, apiBase, preview: true, previewOrigin: window.location.origin })};</script>
+<script src=${toInlineJson(scriptUrl)}></script>
+</body>
+</html>`;
+
+/**
+ * The real widget bundle in a sandboxed frame over the customer's site. Edits
+ * stream in over the preview protocol without reloading the frame, and
+ * visitor messages are answered from the crawled first page.
+ */
+const WidgetLivePreview: React.FC<WidgetLivePreviewProps> = ({
+  websiteId,
+  widgetId,
+  scriptUrl,
+  apiBase,
+  config,
+  siteUrl,
+  screenshotUrl,
+  siteName,
+  simulatedTrigger,
+  compact = false
+}) => {
+  const widgetFrameRef = useRef<HTMLIFrameElement>(null);
+  const [isWidgetReady, setIsWidgetReady] = useState(false);
+  // Unset until the user picks; the screenshot may arrive after mount
+  const [chosenBackground, setBackground] = useState<Background | null>(null);
+  const background: Background = chosenBackground ?? (screenshotUrl || !siteUrl ? 'screenshot' : 'site');
+  const [siteLoaded, setSiteLoaded] = useState(false);
+  const [siteFailed, setSiteFailed] = useState(false);
+
+  // One conversation per mounted preview
+  const sessionId = useMemo(() => `preview-${websiteId}-${Date.now()}`, [websiteId]);
+
+  // The frame loads once; later edits go over postMessage
+  const widgetDocument = useMemo(
+    () => buildWidgetDocument(scriptUrl, widgetId, apiBase),
+    [scriptUrl, widgetId, apiBase]
+  );
+
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => {
+    // The sandboxed frame has an opaque origin, so it is identified by its window instead
+    const postToWidget = (message: PreviewHostMessage) => {
+      widgetFrameRef.current?.contentWindow?.postMessage(toPreviewEnvelope(message), '*');
+    };
+
+    const onMessage = async (event: MessageEvent) => {
+      if (!widgetFrameRef.current || event.source !== widgetFrameRef.current.contentWindow) return;
+      if (!isPreviewEnvelope<PreviewWidgetMessage>(event.data)) return;
+
+      const message = event.data;
+      if (message.type === 'ready') {
+        postToWidget({ type: 'config', config: configRef.current });
+        setIsWidgetReady(true);
+        return;
+      }
+
+      try {
+        const response = await apiService.chatWithFirstPage(websiteId, message.content, sessionId);
+        if (!response.success || !response.data) {
+          throw new Error(response.message || 'Failed to get response');
+        }
+        postToWidget({ type: 'reply', requestId: message.requestId, content: response.data.response });
+      } catch (error) {
+        postToWidget({
+          type: 'reply',
+          requestId: message.requestId,
+          error: error instanceof Error ? error.message : 'Failed to get response'
+        });
+      }
+    };
+
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [websiteId, sessionId]);
+
+  // Stream edits to the running widget
+  useEffect(() => {
+    if (!isWidgetReady) return;
+    widgetFrameRef.current?.contentWindow?.postMessage(toPreviewEnvelope({ type: 'config', config }), '*');
+  }, [config, isWidgetReady]);
+
+  useEffect(() => {
+    if (!isWidgetReady || !simulatedTrigger) return;
+    const { trigger } = simulatedTrigger;
+    widgetFrameRef.current?.contentWindow?.postMessage(toPreviewEnvelope({
+      type: 'trigger',
+      trigger: trigger && { action: trigger.action, message: trigger.message }
+    }), '*');
+  }, [simulatedTrigger, isWidgetReady]);
+
+  useEffect(() => {
+    if (background !== 'site' || !siteUrl || siteLoaded || siteFailed) return;
+    const timeout = setTimeout(() => {
+      setSiteFailed(true);
+      if (screenshotUrl) setBackground('screenshot');
+    }, SITE_LOAD_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [background, siteUrl, siteLoaded, siteFailed, screenshotUrl]);
+
+  const isLeftSide = config.widget_position.endsWith('left');
+  const padding = compact ? 'p-4' : 'p-6';
+
+  const renderBackground = () => {
+    if (background === 'screenshot' && screenshotUrl) {
+      return (
+        <div className="absolute inset-0 overflow-y-auto overflow-x-hidden">
+          <img
+            src={screenshotUrl}
+            alt={`Screenshot of ${siteName || 'your website'}`}
+            className="w-full object-cover object-top"
+          />
+        </div>
+      );
+    }
+
+    if (background === 'site' && siteUrl && !(siteFailed && !siteLoaded)) {
+      return (
+        <>
+          {!siteLoaded && (
+            <div className={`absolute inset-0 z-10 flex items-center justify-center bg-white ${padding}`}>
+              <div className="text-center">
+                <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
+                <div className="text-gray-600 text-sm">Loading website...</div>
+              </div>
+            </div>
+          )}
+          <iframe
+            key={siteUrl}
+            src={siteUrl}
+            sandbox="allow-scripts allow-same-origin allow-forms"
+            className="absolute inset-0 w-full h-full border-0"
+            onLoad={() => setSiteLoaded(true)}
+            onError={() => setSiteFailed(true)}
+            title="Website Preview"
+          />
+          {siteLoaded && (
+            <div className={`absolute bottom-2 z-10 max-w-[60%] rounded bg-white/90 px-2 py-1 text-xs text-gray-600 shadow ${isLeftSide ? 'right-2' : 'left-2'}`}>
+              Blank page? The site blocks embedding{screenshotUrl ? '; switch to the screenshot' : ''}.
+            </div>
+          )}
+        </>
+      );
+    }
+
+    if (siteUrl) {
+      return (
+        <div className={padding}>
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <div className="flex items-start space-x-2">
+              <Info className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <div className="text-xs font-medium text-blue-900 mb-1">Preview Not Available</div>
+                <div className="text-xs text-blue-800 leading-relaxed">
+                  This website blocks iframe embedding for security and no screenshot has been captured yet.
+                  Your chat widget will work normally when installed on your actual website.
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className={`space-y-4 ${padding}`}>
+        <div className={`font-bold text-gray-800 ${compact ? 'text-lg' : 'text-2xl'}`}>Your Website</div>
+        <div className={`text-gray-600 ${compact ? 'text-sm' : 'text-base'}`}>
+          This is how the chat widget will appear on your website.
+        </div>
+        <div className="space-y-2">
+          <div className={`bg-gray-200 rounded ${compact ? 'h-3' : 'h-4'}`}></div>
+          <div className={`bg-gray-200 rounded w-3/4 ${compact ? 'h-3' : 'h-4'}`}></div>
+          <div className={`bg-gray-200 rounded w-1/2 ${compact ? 'h-3' : 'h-4'}`}></div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0">
+      {renderBackground()}
+
+      {siteUrl && screenshotUrl && (
+        <div className={`absolute top-2 z-10 flex rounded-md overflow-hidden shadow text-xs ${isLeftSide ? 'right-2' : 'left-2'}`}>
+          <button
+            type="button"
+            onClick={() => setBackground('site')}
+            className={`flex items-center space-x-1 px-2 py-1 ${background === 'site' ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+            title="Sites that refuse framing show a blank or error page"
+          >
+            <Globe className="w-3 h-3" />
+            <span>Live site</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setBackground('screenshot')}
+            className={`flex items-center space-x-1 px-2 py-1 ${background === 'screenshot' ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+          >
+            <Image className="w-3 h-3" />
+            <span>Screenshot</span>
+          </button>
+        </div>
+      )}
+
+      {/* The widget's side of the page; the rest of the site stays clickable */}
+      <iframe
+        ref={widgetFrameRef}
+        srcDoc={widgetDocument}
+        sandbox="allow-scripts allow-forms"
+        className={`absolute top-0 bottom-0 w-full max-w-[440px] h-full border-0 bg-transparent ${isLeftSide ? 'left-0' : 'right-0'}`}
+        title="Chat widget preview"
+      />
+    </div>
+  );
+};
+
+export default WidgetLivePreview;
@@ -0,0 +1,33 @@
+import type { WidgetConfiguration } from '../../services/centralizedApi';
+
+/**
+ * Configuration a new website starts from in the script generator
+ */
+export const DEFAULT_WIDGET_CONFIGURATION: WidgetConfiguration = {
+  widget_color: '#0066CC',
+  widget_position: 'bottom-right',
+  widget_size: 'small',
+  widget_theme: 'auto',
+  show_avatar: true,
+  enable_sound: true,
+  auto_open_delay: undefined,
+  show_online_status: true,
+  welcome_message: 'Hi! How can I help you today?',
+  placeholder_text: 'Type your message...',
+  offline_message: "We're currently offline. We'll get back to you soon!",
+  thanks_message: 'Thank you for your message!',
+  show_branding: true,
+  custom_logo_url: undefined,
+  company_name: 'Support',
+  support_email: undefined,
+  custom_css: undefined,
+  font_family: undefined,
+  border_radius: 13,
+  chatbot_name: undefined,
+  ai_logo_url: undefined,
+  button_logo_url: undefined,
+  ai_avatar_url: undefined,
+  user_avatar_url: undefined,
+  triggers: [],
+  translations: {}
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildCspSources, findCspViolations, formatCspPolicy, type CspSources } from './embedSecurity';
+
+const required: CspSources = {
+  'script-src': ['https://cdn.chatlite.app'],
+  'connect-src': ['https://api.chatlite.app', 'wss://api.chatlite.app'],
+  'frame-src': ['https://cdn.chatlite.app'],
+  'img-src': ['https://cdn.chatlite.app'],
+};
+
+const violatedSources = (policy: string, sources: CspSources = required) =>
+  findCspViolations(policy, sources).map(violation => `${violation.directive} ${violation.source}`);
+
+describe('buildCspSources', () => {
+  it('lists origins per directive without duplicates', () => {
+    const sources = buildCspSources({
+      frontendBase: 'https://cdn.chatlite.app/widget',
+      apiBase: 'https://api.chatlite.app/api/v1/widget',
+      websocketUrl: 'wss://api.chatlite.app/ws',
+      imageUrls: ['https://cdn.chatlite.app/logo.png', 'data:image/png;base64,AAAA', '/relative.png', undefined],
+    });
+
+    expect(sources).toEqual({
+      'script-src': ['https://cdn.chatlite.app'],
+      'connect-src': ['https://api.chatlite.app', 'wss://api.chatlite.app', 'https://cdn.chatlite.app'],
+      'frame-src': ['https://cdn.chatlite.app'],
+      'img-src': ['https://cdn.chatlite.app', 'data:'],
+    });
+  });
+
+  it('formats a policy', () => {
+    expect(formatCspPolicy(required)).toBe(
+      'script-src https://cdn.chatlite.app; connect-src https://api.chatlite.app wss://api.chatlite.app; ' +
+        'frame-src https://cdn.chatlite.app; img-src https://cdn.chatlite.app'
+    );
+  });
+});
+
+describe('findCspViolations', () => {
+  it('accepts the generated policy', () => {
+    expect(findCspViolations(formatCspPolicy(required), required)).toEqual([]);
+  });
+
+  it('matches wildcard subdomains but not the bare domain', () => {
+    expect(violatedSources('script-src *.chatlite.app; connect-src *.chatlite.app; frame-src *.chatlite.app; img-src *.chatlite.app')).toEqual([]);
+    expect(violatedSources('script-src https://*.chatlite.app', { ...required, 'script-src': ['https://chatlite.app'] }))
+      .toEqual(['script-src https://chatlite.app']);
+  });
+
+  it('only matches the default port unless a port is given', () => {
+    const sources: CspSources = { 'script-src': [], 'connect-src': ['https://api.chatlite.app:8443'], 'frame-src': [], 'img-src': [] };
+    expect(violatedSources('connect-src https://api.chatlite.app', sources)).toEqual(['connect-src https://api.chatlite.app:8443']);
+    expect(violatedSources('connect-src https://api.chatlite.app:8443', sources)).toEqual([]);
+    expect(violatedSources('connect-src https://api.chatlite.app:*', sources)).toEqual([]);
+    expect(violatedSources('connect-src https://api.chatlite.app:443', { ...sources, 'connect-src': ['https://api.chatlite.app'] }))
+      .toEqual([]);
+  });
+
+  it('allows secure upgrades of http and ws sources', () => {
+    expect(violatedSources('connect-src http://api.chatlite.app ws://api.chatlite.app', required)).toEqual([]);
+    expect(violatedSources('connect-src https:', required)).toEqual(['connect-src wss://api.chatlite.app']);
+  });
+
+  it("ignores 'self', which is the customer's origin", () => {
+    expect(violatedSources("script-src 'self'")).toEqual(['script-src https://cdn.chatlite.app']);
+  });
+
+  it("blocks everything under 'none'", () => {
+    expect(violatedSources("img-src 'none' *")).toEqual(['img-src https://cdn.chatlite.app']);
+  });
+
+  it('falls back to default-src and says so', () => {
+    const [violation] = findCspViolations("default-src 'self'; script-src https://cdn.chatlite.app; connect-src *; frame-src *", required);
+    expect(violation).toMatchObject({ directive: 'img-src', effectiveDirective: 'default-src' });
+    expect(violation.explanation).toContain('img-src is not set');
+  });
+
+  it('checks frame-src through child-src before default-src', () => {
+    expect(violatedSources("child-src 'none'; default-src *")).toEqual(['frame-src https://cdn.chatlite.app']);
+  });
+
+  it('passes directives the policy does not restrict', () => {
+    expect(violatedSources('frame-ancestors https://example.com')).toEqual([]);
+  });
+
+  it("reports 'strict-dynamic' instead of the host allowlist", () => {
+    expect(violatedSources("Content-Security-Policy: script-src 'strict-dynamic' https://cdn.chatlite.app 'nonce-abc'"))
+      .toEqual(["script-src 'strict-dynamic'"]);
+  });
+
+  it('uses the first of repeated directives', () => {
+    expect(violatedSources("script-src 'none'; script-src https://cdn.chatlite.app")).toEqual(['script-src https://cdn.chatlite.app']);
+  });
+});
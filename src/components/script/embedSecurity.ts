@@ -0,0 +1,228 @@
+/**
+ * Embed Security
+ *
+ * Subresource Integrity hashes for pinned widget builds, the
+ * Content-Security-Policy sources a host page must allow for the widget,
+ * and a check that explains which parts of a customer's policy block it.
+ *
+ * No style-src is needed: the widget's CSS is a constructed stylesheet, which
+ * style-src does not restrict.
+ */
+
+export type CspDirective = 'script-src' | 'connect-src' | 'frame-src' | 'img-src';
+
+export type CspSources = Record<CspDirective, string[]>;
+
+export interface CspSourceInput {
+  frontendBase: string;
+  apiBase: string;
+  websocketUrl: string;
+  /** Avatar and logo URLs from the widget configuration */
+  imageUrls: Array<string | undefined>;
+}
+
+export interface CspViolation {
+  directive: CspDirective;
+  /** Directive in the customer's policy that decided the outcome */
+  effectiveDirective: string;
+  source: string;
+  explanation: string;
+}
+
+/** Directives consulted, in order, when a directive is missing from a policy */
+const CSP_FALLBACKS: Record<CspDirective, string[]> = {
+  'script-src': ['script-src', 'default-src'],
+  'connect-src': ['connect-src', 'default-src'],
+  'frame-src': ['frame-src', 'child-src', 'default-src'],
+  'img-src': ['img-src', 'default-src'],
+};
+
+const CSP_EXPLANATIONS: Record<CspDirective, string> = {
+  'script-src': 'widget.js is blocked and the widget never appears',
+  'connect-src': 'requests to the chat API or for translated labels are blocked, so messages cannot be sent or received, or the widget stays in English',
+  'frame-src': 'the chat window frame is blocked and stays blank',
+  'img-src': 'avatars and logos are blocked and show as broken images',
+};
+
+const DEFAULT_PORTS: Record<string, string> = {
+  'http:': '80',
+  'https:': '443',
+  'ws:': '80',
+  'wss:': '443',
+};
+
+/**
+ * widget.js URL; a configured version pins an immutable build that can carry an SRI hash
+ */
+export const getWidgetScriptUrl = (frontendBase: string, version?: string): string =>
+  version ? `${frontendBase}/widget/${version}/widget.js` : `${frontendBase}/widget.js`;
+
+const integrityCache = new Map<string, Promise<string>>();
+
+/**
+ * SHA-384 Subresource Integrity value (`sha384-...`) for a script URL.
+ * Rejects when the file cannot be fetched (e.g. the CDN does not send CORS headers).
+ */
+export const computeIntegrity = (url: string): Promise<string> => {
+  const cached = integrityCache.get(url);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const response = await fetch(url, { mode: 'cors', cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url} (HTTP ${response.status})`);
+    }
+
+    const digest = await crypto.subtle.digest('SHA-384', await response.arrayBuffer());
+    const binary = Array.from(new Uint8Array(digest), byte => String.fromCharCode(byte)).join('');
+    return `sha384-${btoa(binary)}`;
+  })();
+
+  integrityCache.set(url, pending);
+  // Failures are not cached so a retry can succeed
+  pending.catch(() => integrityCache.delete(url));
+  return pending;
+};
+
+const toSource = (url: string | undefined): string | null => {
+  if (!url) return null;
+  if (url.startsWith('data:')) return 'data:';
+  try {
+    const origin = new URL(url).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    // Relative URLs resolve against the host page, which 'self' already covers
+    return null;
+  }
+};
+
+const unique = (sources: Array<string | null>): string[] =>
+  Array.from(new Set(sources.filter((source): source is string => !!source)));
+
+/**
+ * Sources the widget needs, per directive
+ */
+export const buildCspSources = (input: CspSourceInput): CspSources => {
+  const frontendOrigin = toSource(input.frontendBase);
+  return {
+    'script-src': unique([frontendOrigin]),
+    // The widget fetches its translated labels from where widget.js is served
+    'connect-src': unique([toSource(input.apiBase), toSource(input.websocketUrl), frontendOrigin]),
+    'frame-src': unique([frontendOrigin]),
+    'img-src': unique([frontendOrigin, ...input.imageUrls.map(toSource)]),
+  };
+};
+
+/**
+ * Policy text (`script-src https://...; connect-src ...`) for a header or meta tag
+ */
+export const formatCspPolicy = (sources: CspSources): string =>
+  (Object.entries(sources) as Array<[CspDirective, string[]]>)
+    .filter(([, values]) => values.length > 0)
+    .map(([directive, values]) => `${directive} ${values.join(' ')}`)
+    .join('; ');
+
+const parsePolicy = (policy: string): Map<string, string[]> => {
+  const directives = new Map<string, string[]>();
+  policy
+    .replace(/^\s*content-security-policy\s*:/i, '')
+    .split(';')
+    .forEach(part => {
+      const [name, ...values] = part.trim().split(/\s+/);
+      // Browsers ignore repeated directives
+      if (name && !directives.has(name.toLowerCase())) {
+        directives.set(name.toLowerCase(), values);
+      }
+    });
+  return directives;
+};
+
+const schemeMatches = (expected: string, actual: string): boolean =>
+  expected === actual ||
+  // Secure upgrades are allowed by CSP
+  (expected === 'http:' && actual === 'https:') ||
+  (expected === 'ws:' && actual === 'wss:');
+
+const hostSourceMatches = (expression: string, url: URL): boolean => {
+  const match = expression.match(/^(?:([a-z][a-z0-9+.-]*:)\/\/)?(\*|(?:\*\.)?[^:/]+)(?::(\d+|\*))?(?:\/.*)?$/i);
+  if (!match) return false;
+
+  const [, scheme, host, port] = match;
+  if (scheme && !schemeMatches(scheme.toLowerCase(), url.protocol)) return false;
+  if (!scheme && !DEFAULT_PORTS[url.protocol]) return false;
+
+  const hostname = host.toLowerCase();
+  if (hostname.startsWith('*.')) {
+    if (!url.hostname.endsWith(hostname.slice(1))) return false;
+  } else if (hostname !== '*' && hostname !== url.hostname) {
+    return false;
+  }
+
+  if (port === '*') return true;
+  if (port) return port === (url.port || DEFAULT_PORTS[url.protocol]);
+  // Without a port only the scheme's default port matches (URL leaves it empty)
+  return !url.port;
+};
+
+const sourceAllowed = (sourceList: string[], source: string): boolean => {
+  const expressions = sourceList.map(expression => expression.toLowerCase());
+  if (expressions.includes("'none'")) return false;
+
+  if (source === 'data:') return expressions.includes('data:');
+
+  let url: URL;
+  try {
+    url = new URL(source);
+  } catch {
+    return false;
+  }
+
+  return expressions.some(expression => {
+    if (expression === '*') return true;
+    if (/^[a-z][a-z0-9+.-]*:$/.test(expression)) return schemeMatches(expression, url.protocol);
+    // Keywords such as 'self' refer to the customer's own origin, not ours
+    if (expression.startsWith("'")) return false;
+    return hostSourceMatches(expression, url);
+  });
+};
+
+/**
+ * Compare a customer's Content-Security-Policy with what the widget needs and
+ * explain every source it would block
+ */
+export const findCspViolations = (policy: string, required: CspSources): CspViolation[] => {
+  const directives = parsePolicy(policy);
+  const violations: CspViolation[] = [];
+
+  (Object.keys(required) as CspDirective[]).forEach(directive => {
+    const effectiveDirective = CSP_FALLBACKS[directive].find(name => directives.has(name));
+    if (!effectiveDirective) return;
+
+    const sourceList = directives.get(effectiveDirective)!;
+
+    if (directive === 'script-src' && sourceList.some(expression => expression.toLowerCase() === "'strict-dynamic'")) {
+      violations.push({
+        directive,
+        effectiveDirective,
+        source: "'strict-dynamic'",
+        explanation: "host allowlists are ignored under 'strict-dynamic'; add your page's nonce to the widget <script> tag",
+      });
+      return;
+    }
+
+    required[directive]
+      .filter(source => !sourceAllowed(sourceList, source))
+      .forEach(source => {
+        violations.push({
+          directive,
+          effectiveDirective,
+          source,
+          explanation: effectiveDirective === directive
+            ? `${directive} does not allow ${source}, so ${CSP_EXPLANATIONS[directive]}`
+            : `${effectiveDirective} applies because ${directive} is not set, and it does not allow ${source}, so ${CSP_EXPLANATIONS[directive]}`,
+        });
+      });
+  });
+
+  return violations;
+};
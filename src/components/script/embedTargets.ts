@@ -0,0 +1,567 @@
+/**
+ * Embed Targets
+ *
+ * Registry of the platforms ScriptGenerator can produce an embed snippet for.
+ * Each target owns its snippet template, download file type and (optionally)
+ * installation guide, so a new platform is added by registering a target
+ * rather than by extending switch statements in the generator UI.
+ */
+
+export interface EmbedContext {
+  widgetId: string;
+  /** Origin serving widget.js */
+  frontendBase: string;
+  /** Widget API base URL */
+  apiBase: string;
+  /** widget.js URL: the pinned build when a widget version is configured */
+  scriptUrl: string;
+  /** Subresource Integrity hash of the pinned build */
+  integrity?: string;
+  /** Website domain, used for download file names */
+  domain: string;
+}
+
+export interface EmbedInstallGuide {
+  title: string;
+  /** Short label shown next to the title */
+  badge?: string;
+  summary: string;
+  steps: string[];
+}
+
+export interface EmbedTarget {
+  id: string;
+  /** Tab label */
+  label: string;
+  /** Download file extension, including the leading dot */
+  fileExtension: string;
+  mimeType: string;
+  generate: (context: EmbedContext) => string;
+  /** Installation guide; omitted for targets the guide modal covers by hand */
+  guide?: EmbedInstallGuide;
+}
+
+const registry = new Map<string, EmbedTarget>();
+
+/**
+ * Register (or replace) an embed target. Tabs follow registration order.
+ */
+export const registerEmbedTarget = (target: EmbedTarget): void => {
+  registry.set(target.id, target);
+};
+
+export const getEmbedTargets = (): EmbedTarget[] => Array.from(registry.values());
+
+export const getEmbedTarget = (id: string): EmbedTarget | undefined => registry.get(id);
+
+export const getEmbedFilename = (target: EmbedTarget, context: EmbedContext): string =>
+  `chatlite-${context.domain || 'widget'}${target.fileExtension}`;
+
+/** integrity/crossorigin attributes for a static <script> tag */
+const integrityAttributes = (integrity?: string): string =>
+  integrity ? ` integrity="${integrity}" crossorigin="anonymous"` : '';
+
+/** Statements adding integrity to a script element created at runtime */
+const integrityStatements = (integrity: string | undefined, variable: string, indent: string): string =>
+  integrity
+    ? `\n${indent}${variable}.integrity = '${integrity}';\n${indent}${variable}.crossOrigin = 'anonymous';`
+    : '';
+
+/**
+ * Pre-load `window.ChatLite` stub (ES5) so pages can call ChatLite.open(),
+ * identify() or on() before widget.js arrives; the widget replays `ChatLite.q`.
+ */
+const hostApiStub = (indent: string): string => [
+  `window.ChatLite = window.ChatLite || (function() {`,
+  `    var api = { q: [] };`,
+  `    ['open', 'close', 'toggle', 'sendMessage', 'identify', 'setContext', 'on', 'off'].forEach(function(method) {`,
+  `        api[method] = function() { api.q.push([method, Array.prototype.slice.call(arguments)]); };`,
+  `    });`,
+  `    return api;`,
+  `})();`,
+].map(line => indent + line).join('\n');
+
+// ==================== BUILT-IN TARGETS ====================
+
+registerEmbedTarget({
+  id: 'html',
+  label: 'HTML',
+  fileExtension: '.html',
+  mimeType: 'text/html',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `<!-- ChatLite Widget Script -->
+<!-- Appearance, messages and branding are loaded from your published widget configuration -->
+<script>
+    // ChatLite Widget Configuration
+    window.chatLiteConfig = {
+        widgetId: '${widgetId}',
+        frontendBase: '${frontendBase}',
+        apiBase: '${apiBase}'
+    };
+
+    // Queue ChatLite calls until the widget loads
+${hostApiStub('    ')}
+
+    // Optional: tell the widget who the visitor is and react to chat events
+    // ChatLite.identify({ id: 'user-123', email: 'jane@example.com', name: 'Jane' });
+    // ChatLite.on('message:received', function(message) { console.log(message.content); });
+</script>
+<script src="${scriptUrl}"${integrityAttributes(integrity)} async></script>`
+});
+
+registerEmbedTarget({
+  id: 'wordpress',
+  label: 'WordPress',
+  fileExtension: '.php',
+  mimeType: 'text/x-php',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `<?php
+/**
+ * ChatLite Widget Integration for WordPress
+ * Add this code to your theme's functions.php file
+ * or create a custom plugin for the widget
+ *
+ * Appearance, messages and branding are loaded from your published widget configuration
+ */
+
+add_action('wp_footer', 'add_chatlite_widget');
+
+function add_chatlite_widget() {
+    ?>
+    <script>
+    (function() {
+        // ChatLite Widget Configuration
+        const widgetConfig = {
+            widgetId: '<?php echo esc_js("${widgetId}"); ?>',
+            frontendBase: '${frontendBase}',
+            apiBase: '${apiBase}'
+        };
+
+        // Set global config before loading widget
+        window.chatLiteConfig = widgetConfig;
+${hostApiStub('        ')}
+
+        // Load ChatLite Widget
+        const script = document.createElement('script');
+        script.src = '${scriptUrl}';${integrityStatements(integrity, 'script', '        ')}
+        script.async = true;
+        script.onload = function() {
+            if (window.ChatLite) {
+                window.ChatLite.init(widgetConfig);
+            }
+        };
+        document.head.appendChild(script);
+    })();
+    </script>
+    <?php
+}
+?>`
+});
+
+registerEmbedTarget({
+  id: 'react',
+  label: 'React',
+  fileExtension: '.jsx',
+  mimeType: 'text/javascript',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `// ChatLite Widget Component for React
+// Appearance, messages and branding are loaded from your published widget configuration
+// Install: npm install --save @chatlite/react-widget
+// Or include the script directly in your index.html
+
+import React, { useEffect } from 'react';
+
+const ChatLiteWidget = () => {
+    useEffect(() => {
+        // ChatLite Widget Configuration
+        const widgetConfig = {
+            widgetId: '${widgetId}',
+            frontendBase: '${frontendBase}',
+            apiBase: '${apiBase}'
+        };
+
+        // Set global config before loading widget
+        window.chatLiteConfig = widgetConfig;
+
+        // Dynamically load the ChatLite script
+        const script = document.createElement('script');
+        script.src = '${scriptUrl}';${integrityStatements(integrity, 'script', '        ')}
+        script.async = true;
+        script.onload = () => {
+            if (window.ChatLite) {
+                window.ChatLite.init(widgetConfig);
+            }
+        };
+        document.body.appendChild(script);
+
+        // Cleanup on unmount
+        return () => {
+            if (window.ChatLite && window.ChatLite.destroy) {
+                window.ChatLite.destroy();
+            }
+            document.body.removeChild(script);
+        };
+    }, []);
+
+    return null; // Widget renders itself
+};
+
+export default ChatLiteWidget;
+
+// Usage in your app:
+// import ChatLiteWidget from './ChatLiteWidget';
+//
+// function App() {
+//     return (
+//         <div>
+//             <YourContent />
+//             <ChatLiteWidget />
+//         </div>
+//     );
+// }`
+});
+
+registerEmbedTarget({
+  id: 'nextjs',
+  label: 'Next.js',
+  fileExtension: '.tsx',
+  mimeType: 'text/typescript',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `// ChatLite Widget for Next.js
+// Appearance, messages and branding are loaded from your published widget configuration
+// Place this component in your components folder
+
+'use client'; // For Next.js 13+ app directory
+
+import { useEffect } from 'react';
+import Script from 'next/script';
+
+export default function ChatLiteWidget() {
+    useEffect(() => {
+        // Initialize widget when script loads
+        if (typeof window !== 'undefined' && window.ChatLite) {
+            const widgetConfig = {
+                widgetId: '${widgetId}',
+                frontendBase: '${frontendBase}',
+                apiBase: '${apiBase}'
+            };
+
+            window.chatLiteConfig = widgetConfig;
+
+            window.ChatLite.init(widgetConfig);
+        }
+    }, []);
+
+    return (
+        <>
+            <Script
+                id="chatlite-widget"
+                src="${scriptUrl}"${integrity ? `
+                integrity="${integrity}"
+                crossOrigin="anonymous"` : ''}
+                strategy="afterInteractive"
+                onLoad={() => {
+                    if (window.ChatLite) {
+                        const widgetConfig = {
+                            widgetId: '${widgetId}',
+                            frontendBase: '${frontendBase}',
+                            apiBase: '${apiBase}'
+                        };
+                        window.chatLiteConfig = widgetConfig;
+                        window.ChatLite.init(widgetConfig);
+                    }
+                }}
+            />
+        </>
+    );
+}
+
+// Usage in your layout.tsx or page.tsx:
+// import ChatLiteWidget from '@/components/ChatLiteWidget';
+//
+// export default function RootLayout({ children }) {
+//     return (
+//         <html lang="en">
+//             <body>
+//                 {children}
+//                 <ChatLiteWidget />
+//             </body>
+//         </html>
+//     );
+// }`
+});
+
+registerEmbedTarget({
+  id: 'shopify',
+  label: 'Shopify',
+  fileExtension: '.liquid',
+  mimeType: 'text/plain',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `{% comment %}
+  ChatLite Widget for Shopify
+  Save as snippets/chatlite-widget.liquid and render it from layout/theme.liquid:
+    {% render 'chatlite-widget' %}
+  Appearance, messages and branding are loaded from your published widget configuration
+{% endcomment %}
+
+{% unless request.design_mode %}
+<script>
+    // ChatLite Widget Configuration
+    window.chatLiteConfig = {
+        widgetId: '${widgetId}',
+        frontendBase: '${frontendBase}',
+        apiBase: '${apiBase}'
+    };
+${hostApiStub('    ')}
+</script>
+<script src="${scriptUrl}"${integrityAttributes(integrity)} defer></script>
+{% endunless %}`,
+  guide: {
+    title: 'Shopify',
+    badge: 'Liquid Snippet',
+    summary: 'The snippet is skipped inside the theme editor so the widget only appears on your live storefront.',
+    steps: [
+      'Generate the Shopify snippet above and download it',
+      'In Shopify admin, go to Online Store → Themes → ⋯ → Edit code',
+      'Under Snippets, click "Add a new snippet" and name it chatlite-widget',
+      'Paste the generated code and click Save',
+      'Open layout/theme.liquid and add {% render \'chatlite-widget\' %} just before </body>',
+      'Save theme.liquid and open your storefront to see the chat widget'
+    ]
+  }
+});
+
+registerEmbedTarget({
+  id: 'vue',
+  label: 'Vue / Nuxt',
+  fileExtension: '.vue',
+  mimeType: 'text/plain',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `<!--
+  ChatLite Widget Component for Vue 3 and Nuxt 3
+  Appearance, messages and branding are loaded from your published widget configuration
+  Save as components/ChatLiteWidget.vue
+-->
+<script setup>
+import { onMounted, onBeforeUnmount } from 'vue';
+
+let script = null;
+
+onMounted(() => {
+    // ChatLite Widget Configuration
+    const widgetConfig = {
+        widgetId: '${widgetId}',
+        frontendBase: '${frontendBase}',
+        apiBase: '${apiBase}'
+    };
+
+    // Set global config before loading widget
+    window.chatLiteConfig = widgetConfig;
+
+    script = document.createElement('script');
+    script.src = '${scriptUrl}';${integrityStatements(integrity, 'script', '    ')}
+    script.async = true;
+    script.onload = () => {
+        if (window.ChatLite) {
+            window.ChatLite.init(widgetConfig);
+        }
+    };
+    document.body.appendChild(script);
+});
+
+onBeforeUnmount(() => {
+    if (window.ChatLite && window.ChatLite.destroy) {
+        window.ChatLite.destroy();
+    }
+    script?.remove();
+});
+</script>
+
+<template>
+    <!-- Widget renders itself -->
+</template>
+
+<!--
+Usage in Vue 3 (App.vue):
+    <template>
+        <RouterView />
+        <ChatLiteWidget />
+    </template>
+
+Usage in Nuxt 3 (app.vue) – the component only runs in the browser:
+    <template>
+        <NuxtPage />
+        <ClientOnly>
+            <ChatLiteWidget />
+        </ClientOnly>
+    </template>
+-->`,
+  guide: {
+    title: 'Vue 3 / Nuxt',
+    badge: 'Component Based',
+    summary: 'In Nuxt, wrap the component in <ClientOnly> so it is not rendered on the server.',
+    steps: [
+      'Generate the Vue component above and download it',
+      'Save it as components/ChatLiteWidget.vue in your project',
+      'Vue 3: import the component in App.vue and place it next to <RouterView />',
+      'Nuxt 3: components are auto-imported; add <ClientOnly><ChatLiteWidget /></ClientOnly> to app.vue',
+      'Start your app – the widget loads once and stays mounted across route changes'
+    ]
+  }
+});
+
+registerEmbedTarget({
+  id: 'angular',
+  label: 'Angular',
+  fileExtension: '.component.ts',
+  mimeType: 'text/typescript',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `// ChatLite Widget Component for Angular (standalone, Angular 15+)
+// Appearance, messages and branding are loaded from your published widget configuration
+// Save as src/app/chatlite-widget.component.ts
+
+import { Component, Inject, OnDestroy, OnInit, PLATFORM_ID, Renderer2 } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+
+declare global {
+    interface Window {
+        chatLiteConfig?: Record<string, string>;
+        ChatLite?: { init: (config: Record<string, string>) => void; destroy?: () => void };
+    }
+}
+
+@Component({
+    selector: 'app-chatlite-widget',
+    standalone: true,
+    template: '' // Widget renders itself
+})
+export class ChatLiteWidgetComponent implements OnInit, OnDestroy {
+    private script: HTMLScriptElement | null = null;
+
+    constructor(
+        private renderer: Renderer2,
+        @Inject(DOCUMENT) private document: Document,
+        @Inject(PLATFORM_ID) private platformId: object
+    ) {}
+
+    ngOnInit(): void {
+        // Skip server-side rendering
+        if (!isPlatformBrowser(this.platformId)) return;
+
+        // ChatLite Widget Configuration
+        const widgetConfig = {
+            widgetId: '${widgetId}',
+            frontendBase: '${frontendBase}',
+            apiBase: '${apiBase}'
+        };
+
+        // Set global config before loading widget
+        window.chatLiteConfig = widgetConfig;
+
+        const script = this.renderer.createElement('script') as HTMLScriptElement;
+        script.src = '${scriptUrl}';${integrityStatements(integrity, 'script', '        ')}
+        script.async = true;
+        script.onload = () => window.ChatLite?.init(widgetConfig);
+        this.renderer.appendChild(this.document.body, script);
+        this.script = script;
+    }
+
+    ngOnDestroy(): void {
+        window.ChatLite?.destroy?.();
+        if (this.script) {
+            this.renderer.removeChild(this.document.body, this.script);
+        }
+    }
+}
+
+// Usage in app.component.ts:
+// @Component({
+//     selector: 'app-root',
+//     standalone: true,
+//     imports: [RouterOutlet, ChatLiteWidgetComponent],
+//     template: '<router-outlet /><app-chatlite-widget />'
+// })
+// export class AppComponent {}`,
+  guide: {
+    title: 'Angular',
+    badge: 'Standalone Component',
+    summary: 'The component is SSR-safe: it only loads the widget in the browser.',
+    steps: [
+      'Generate the Angular component above and download it',
+      'Save it as src/app/chatlite-widget.component.ts',
+      'Add ChatLiteWidgetComponent to the imports of your root component (or NgModule)',
+      'Place <app-chatlite-widget /> in the root template, next to <router-outlet />',
+      'Run ng serve – the widget appears on every route'
+    ]
+  }
+});
+
+registerEmbedTarget({
+  id: 'gtm',
+  label: 'Google Tag Manager',
+  fileExtension: '.html',
+  mimeType: 'text/html',
+  // ES5 only: GTM's Custom HTML validator rejects newer syntax
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `<!-- ChatLite Widget – Google Tag Manager Custom HTML tag -->
+<!-- Appearance, messages and branding are loaded from your published widget configuration -->
+<script>
+  (function() {
+    if (window.chatLiteConfig) return; // Already loaded
+
+    var widgetConfig = {
+      widgetId: '${widgetId}',
+      frontendBase: '${frontendBase}',
+      apiBase: '${apiBase}'
+    };
+    window.chatLiteConfig = widgetConfig;
+${hostApiStub('    ')}
+
+    var script = document.createElement('script');
+    script.src = '${scriptUrl}';${integrityStatements(integrity, 'script', '    ')}
+    script.async = true;
+    script.onload = function() {
+      if (window.ChatLite) {
+        window.ChatLite.init(widgetConfig);
+      }
+    };
+    document.body.appendChild(script);
+  })();
+</script>`,
+  guide: {
+    title: 'Google Tag Manager',
+    badge: 'No Code Deploy',
+    summary: 'Use this when you can only change your site through GTM. The tag guards against loading twice.',
+    steps: [
+      'Generate the Google Tag Manager snippet above and copy it',
+      'In your GTM container, go to Tags → New → Tag Configuration → Custom HTML',
+      'Paste the generated code into the HTML field',
+      'Under Triggering, choose "All Pages" (or a Page View trigger for specific pages)',
+      'Name the tag "ChatLite Widget" and click Save',
+      'Use Preview to check the widget loads, then click Submit to publish the container'
+    ]
+  }
+});
+
+registerEmbedTarget({
+  id: 'webflow',
+  label: 'Webflow',
+  fileExtension: '.html',
+  mimeType: 'text/html',
+  generate: ({ widgetId, frontendBase, apiBase, scriptUrl, integrity }) => `<!-- ChatLite Widget for Webflow -->
+<!-- Paste into Project Settings → Custom Code → Footer Code -->
+<!-- Appearance, messages and branding are loaded from your published widget configuration -->
+<script>
+    window.chatLiteConfig = {
+        widgetId: '${widgetId}',
+        frontendBase: '${frontendBase}',
+        apiBase: '${apiBase}'
+    };
+${hostApiStub('    ')}
+</script>
+<script src="${scriptUrl}"${integrityAttributes(integrity)} async></script>`,
+  guide: {
+    title: 'Webflow',
+    badge: 'Custom Code',
+    summary: 'Custom code only runs on the published site, not in the Webflow Designer.',
+    steps: [
+      'Generate the Webflow snippet above and copy it',
+      'Open your project in Webflow and go to Project Settings → Custom Code',
+      'Paste the code into the Footer Code field (before </body> tag)',
+      'Click "Save Changes"',
+      'Publish your site – the widget appears on every page'
+    ]
+  }
+});
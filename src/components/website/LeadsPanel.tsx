@@ -0,0 +1,147 @@
+import React from 'react';
+import { Inbox, Mail, Loader2, RefreshCw } from 'lucide-react';
+import { Card } from '../ui';
+import { useLeads } from '../../hooks/useLeads';
+import { useAppDispatch } from '../../store';
+import { showErrorToast } from '../../store/notificationSlice';
+import type { Lead } from '../../types/api';
+
+interface LeadsPanelProps {
+  websiteId: string;
+}
+
+const STATUS_OPTIONS: { value: Lead['status']; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'contacted', label: 'Contacted' },
+  { value: 'closed', label: 'Closed' }
+];
+
+const STATUS_CLASSES: Record<Lead['status'], string> = {
+  new: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+  contacted: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  closed: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+};
+
+/**
+ * Leads left in the widget's offline form outside business hours
+ */
+const LeadsPanel: React.FC<LeadsPanelProps> = ({ websiteId }) => {
+  const dispatch = useAppDispatch();
+  const {
+    leads,
+    total,
+    hasMore,
+    isLoading,
+    error,
+    statusFilter,
+    setStatusFilter,
+    loadMore,
+    updateStatus,
+    refresh
+  } = useLeads(websiteId);
+
+  const handleStatusChange = async (lead: Lead, status: Lead['status']) => {
+    if (!(await updateStatus(lead.lead_id, status))) {
+      dispatch(showErrorToast('Failed to update lead', `${lead.name} is still marked as ${lead.status}`));
+    }
+  };
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Offline Leads</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Messages left outside business hours{total > 0 ? ` (${total})` : ''}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={statusFilter ?? ''}
+            onChange={(e) => setStatusFilter((e.target.value || null) as Lead['status'] | null)}
+            className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200"
+          >
+            <option value="">All</option>
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => refresh()}
+            disabled={isLoading}
+            className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : leads.length === 0 && !isLoading ? (
+          <div className="text-center py-6 text-gray-500 dark:text-gray-400">
+            <Inbox className="w-8 h-8 mx-auto mb-2" />
+            <p className="text-sm">No leads yet. Enable business hours in the script generator to collect them.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {leads.map(lead => (
+              <li key={lead.lead_id} className="py-4 first:pt-0">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900 dark:text-gray-100">{lead.name}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_CLASSES[lead.status]}`}>
+                        {lead.status}
+                      </span>
+                    </div>
+                    <a
+                      href={`mailto:${lead.email}`}
+                      className="inline-flex items-center space-x-1 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                      <Mail className="w-3.5 h-3.5" />
+                      <span>{lead.email}</span>
+                    </a>
+                    <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{lead.question}</p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(lead.created_at).toLocaleString()}
+                      {lead.page_url && <> · {lead.page_url}</>}
+                    </p>
+                  </div>
+                  <select
+                    value={lead.status}
+                    onChange={(e) => handleStatusChange(lead, e.target.value as Lead['status'])}
+                    className="flex-shrink-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200"
+                  >
+                    {STATUS_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {hasMore && !isLoading && (
+          <button
+            onClick={() => loadMore()}
+            className="mt-4 w-full py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default LeadsPanel;
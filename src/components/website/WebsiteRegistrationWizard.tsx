@@ -3,11 +3,12 @@ import { Globe, Settings, CheckCircle, ArrowLeft, ArrowRight, Loader2, X, Sparkl
 import { useNavigate } from 'react-router-dom';
 import { useAppDispatch } from '../../store';
 import { createWebsite } from '../../store/dashboardSlice';
-import { showSuccessToast, showErrorToast } from '../../store/notificationSlice';
+import { showSuccessToast, showErrorToast, showInfoToast } from '../../store/notificationSlice';
 import { config } from '../../config/env';
 import { apiService } from '../../services/centralizedApi';
-import type { FirstPageStatus } from '../../services/centralizedApi';
+import type { ApiErrorPayload, FirstPageStatus } from '../../services/centralizedApi';
 import LivePreviewModal from './LivePreviewModal';
+import { DEFAULT_WIDGET_CONFIGURATION } from '../script/defaultWidgetConfiguration';
 
 interface WebsiteData {
   name: string;
@@ -51,6 +52,17 @@ const availableFeatures = [
   'Multilingual Support'
 ];
 
+const MULTILINGUAL_FEATURE = 'Multilingual Support';
+
+// Wizard step that renders each server-validated field
+const FIELD_STEPS: Record<string, number> = {
+  name: 1,
+  url: 1,
+  category: 1,
+  scrapingFrequency: 2,
+  maxPages: 2
+};
+
 interface WebsiteRegistrationModalProps {
   isOpen?: boolean;
   onClose?: () => void;
@@ -171,12 +183,29 @@ const WebsiteRegistrationWizard: React.FC<WebsiteRegistrationModalProps> = ({
       // Use Redux action to create website and update state
       const result = await dispatch(createWebsite(websiteData)).unwrap();
 
+      // Offline: the website shows as pending on the dashboard until it is registered
+      if (result.queued) {
+        dispatch(showInfoToast('You are offline', result.message));
+        navigate('/dashboard');
+        return;
+      }
+
       // Show success notification
       dispatch(showSuccessToast(
         'Website registered successfully!',
         'Your chatbot is being set up and will be available shortly.'
       ));
 
+      // Multilingual: start the widget with visitor language detection on
+      if (websiteData.features.includes(MULTILINGUAL_FEATURE)) {
+        // A failed save is reported by the API service; the website itself was created
+        await apiService.saveWidgetConfigDraft(
+          result.website.id,
+          { ...DEFAULT_WIDGET_CONFIGURATION, auto_detect_locale: true },
+          'Language detection enabled at registration'
+        );
+      }
+
       // Set website ID and move to Step 4 to show first page status
       setCreatedWebsiteId(result.website.id);
       setCurrentStep(4);
@@ -194,9 +223,28 @@ const WebsiteRegistrationWizard: React.FC<WebsiteRegistrationModalProps> = ({
         errorMessage = (error as any).message;
       }
 
-      // Handle specific 409 error for duplicate URL
-      if (errorMessage.includes('409') || errorMessage.includes('already exists') || errorMessage.includes('duplicate')) {
-        errorMessage = 'This website URL is already registered. Please use a different URL.';
+      const apiError = error && typeof error === 'object' ? error as Partial<ApiErrorPayload> : null;
+
+      // Send the user back to the step holding the field the server rejected
+      const fieldErrors: Record<string, string> = {};
+      Object.entries(apiError?.fieldErrors || {}).forEach(([field, message]) => {
+        const formField = field === 'domain' ? 'url' : field;
+        if (FIELD_STEPS[formField] && !fieldErrors[formField]) {
+          fieldErrors[formField] = message;
+        }
+      });
+      const rejectedFields = Object.keys(fieldErrors);
+      if (rejectedFields.length > 0) {
+        setErrors(fieldErrors);
+        setCurrentStep(Math.min(...rejectedFields.map(field => FIELD_STEPS[field])));
+        return;
+      }
+
+      // Duplicate URL
+      if (apiError?.status === 409) {
+        setErrors({ url: 'This website URL is already registered. Please use a different URL.' });
+        setCurrentStep(FIELD_STEPS.url);
+        return;
       }
 
       // Only show error in the modal, not as a toast to avoid multiple popups
@@ -439,6 +487,12 @@ const WebsiteRegistrationWizard: React.FC<WebsiteRegistrationModalProps> = ({
         <p className="mt-3 text-xs text-gray-400">
           You can start with basic features and add more later
         </p>
+        {websiteData.features.includes(MULTILINGUAL_FEATURE) && (
+          <p className="mt-2 text-xs text-indigo-300">
+            The widget draft will detect each visitor's language. Add translations under Languages in the
+            script generator, then publish.
+          </p>
+        )}
       </div>
     </div>
   );
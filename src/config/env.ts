@@ -35,6 +35,8 @@ interface AppConfig {
   };
   widget: {
     frontendUrl: string;
+    /** Pinned widget build for SRI-protected snippets; empty when only the latest build is served */
+    version: string;
   };
   environment: string;
 }
@@ -92,6 +94,7 @@ export const config: AppConfig = {
   },
   widget: {
     frontendUrl: import.meta.env.VITE_WIDGET_FRONTEND_URL || 'http://localhost:5174',
+    version: import.meta.env.VITE_WIDGET_VERSION || '',
   },
   environment: import.meta.env.VITE_ENVIRONMENT || import.meta.env.MODE || 'development',
 };
@@ -0,0 +1,209 @@
+/**
+ * Hook that turns SocketService stream frames into chat messages.
+ * Assistant replies grow chunk by chunk and are finalized on the `complete` frame.
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Message, MessageAttachment, WebSocketMessage } from '../types/api';
+import type { SocketService } from '../services/socketService';
+import { normalizeCitations } from '../widget/citations';
+
+interface UseChatStreamOptions {
+  /** Messages to start with (e.g. a welcome message or restored history) */
+  initialMessages?: Message[];
+}
+
+interface UseChatStreamReturn {
+  /** Conversation messages, including the reply currently streaming in */
+  messages: Message[];
+  /** Whether the assistant is typing or streaming a reply */
+  isTyping: boolean;
+  /** Send a user message, with any uploaded attachments, and stream the assistant reply */
+  sendMessage: (content: string, pageUrl?: string, pageTitle?: string, attachments?: MessageAttachment[]) => Promise<void>;
+  /** Replace the message list */
+  setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
+}
+
+const createMessageId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useChatStream = (
+  socketService: SocketService | null,
+  options: UseChatStreamOptions = {}
+): UseChatStreamReturn => {
+  const [messages, setMessages] = useState<Message[]>(options.initialMessages || []);
+  const [isTyping, setIsTyping] = useState(false);
+
+  const streamingIdRef = useRef<string | null>(null);
+  const chunkBufferRef = useRef('');
+  const flushFrameRef = useRef<number | null>(null);
+
+  const updateStreamingMessage = useCallback((update: (message: Message) => Message) => {
+    const streamingId = streamingIdRef.current;
+    if (!streamingId) return;
+    setMessages(prev => prev.map(message => (message.id === streamingId ? update(message) : message)));
+  }, []);
+
+  // Apply buffered chunks at most once per animation frame
+  const flushChunks = useCallback(() => {
+    flushFrameRef.current = null;
+    const buffered = chunkBufferRef.current;
+    if (!buffered) return;
+    chunkBufferRef.current = '';
+    updateStreamingMessage(message => ({ ...message, content: message.content + buffered }));
+  }, [updateStreamingMessage]);
+
+  const cancelFlush = useCallback(() => {
+    if (flushFrameRef.current !== null) {
+      cancelAnimationFrame(flushFrameRef.current);
+      flushFrameRef.current = null;
+    }
+  }, []);
+
+  const finishStream = useCallback((update: (message: Message) => Message) => {
+    cancelFlush();
+    flushChunks();
+    updateStreamingMessage(update);
+    streamingIdRef.current = null;
+    setIsTyping(false);
+  }, [cancelFlush, flushChunks, updateStreamingMessage]);
+
+  useEffect(() => {
+    if (!socketService) return;
+
+    socketService.onMessage('chunk', (frame: WebSocketMessage) => {
+      if (!frame.content) return;
+      chunkBufferRef.current += frame.content;
+      if (flushFrameRef.current === null) {
+        flushFrameRef.current = requestAnimationFrame(flushChunks);
+      }
+    });
+
+    socketService.onMessage('complete', (frame: WebSocketMessage) => {
+      finishStream(message => ({
+        ...message,
+        content: frame.full_response ?? message.content,
+        isTyping: false,
+        status: 'delivered',
+        processingTimeMs: frame.processing_time_ms,
+        modelUsed: frame.model_used,
+        serverId: frame.message_id,
+        sources: normalizeCitations(frame.sources),
+      }));
+    });
+
+    socketService.onMessage('error', (frame: WebSocketMessage) => {
+      finishStream(message => ({
+        ...message,
+        content: message.content || frame.error || 'Sorry, something went wrong. Please try again.',
+        isTyping: false,
+        status: 'error',
+      }));
+    });
+
+    socketService.onMessage('typing', (frame: WebSocketMessage) => {
+      if (!streamingIdRef.current) {
+        setIsTyping(!!frame.is_typing);
+      }
+    });
+
+    return () => {
+      socketService.offMessage('chunk');
+      socketService.offMessage('complete');
+      socketService.offMessage('error');
+      socketService.offMessage('typing');
+      cancelFlush();
+      // A reply still streaming from this connection won't finish
+      chunkBufferRef.current = '';
+      streamingIdRef.current = null;
+      setIsTyping(false);
+    };
+  }, [socketService, flushChunks, finishStream, cancelFlush]);
+
+  // Frames don't say which reply they belong to, so replies stream one at a time
+  const socketServiceRef = useRef(socketService);
+  socketServiceRef.current = socketService;
+  const sendQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const streamReply = useCallback(async (
+    userMessage: Message,
+    pageUrl?: string,
+    pageTitle?: string
+  ) => {
+    // The conversation moved to another connection while this message waited
+    if (!socketService || socketServiceRef.current !== socketService) return;
+
+    const assistantMessage: Message = {
+      id: createMessageId('assistant'),
+      content: '',
+      type: 'assistant',
+      timestamp: new Date(),
+      isTyping: true,
+    };
+
+    streamingIdRef.current = assistantMessage.id;
+    chunkBufferRef.current = '';
+    // Right after its question, even if more were sent while the previous reply streamed
+    setMessages(prev => {
+      const index = prev.findIndex(message => message.id === userMessage.id);
+      return index === -1 ? prev : [...prev.slice(0, index + 1), assistantMessage, ...prev.slice(index + 1)];
+    });
+    setIsTyping(true);
+
+    const response = await socketService.sendChatMessage(
+      userMessage.content,
+      pageUrl,
+      pageTitle,
+      userMessage.attachments?.map(attachment => attachment.id)
+    );
+
+    // Settle the bubble if the reply ended without a complete/error frame reaching us
+    if (streamingIdRef.current === assistantMessage.id) {
+      finishStream(message => ({
+        ...message,
+        content: response.ai_response ?? (message.content || response.error || ''),
+        isTyping: false,
+        status: response.type === 'error' ? 'error' : 'delivered',
+        processingTimeMs: response.processing_time_ms,
+        modelUsed: response.model_used,
+        serverId: response.message_id,
+        sources: normalizeCitations(response.sources),
+      }));
+    }
+
+    setMessages(prev => prev.map(message =>
+      message.id === userMessage.id
+        ? { ...message, status: response.type === 'error' ? 'error' : 'delivered' }
+        : message
+    ));
+  }, [socketService, finishStream]);
+
+  const sendMessage = useCallback((
+    content: string,
+    pageUrl?: string,
+    pageTitle?: string,
+    attachments?: MessageAttachment[]
+  ): Promise<void> => {
+    if (!socketService) return Promise.resolve();
+
+    const userMessage: Message = {
+      id: createMessageId('user'),
+      content,
+      type: 'user',
+      timestamp: new Date(),
+      status: 'sending',
+      attachments,
+    };
+    setMessages(prev => [...prev, userMessage]);
+
+    const send = sendQueueRef.current.then(() => streamReply(userMessage, pageUrl, pageTitle));
+    sendQueueRef.current = send.catch(() => {});
+    return send;
+  }, [socketService, streamReply]);
+
+  return {
+    messages,
+    isTyping,
+    sendMessage,
+    setMessages,
+  };
+};
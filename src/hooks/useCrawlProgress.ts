@@ -1,29 +1,20 @@
 /**
- * Hook for streaming crawl progress tracking with 2-second polling.
- * Monitors active crawling jobs and provides real-time progress updates.
+ * Hook for live crawl progress tracking.
+ * Progress is pushed over the shared WebSocket, with adaptive polling as fallback
+ * (see crawlProgressService).
  */
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { config } from '../config/env';
-
-export interface CrawlJobProgress {
-  job_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
-  pages_queued: number;
-  pages_processing: number;
-  pages_completed: number;
-  pages_failed: number;
-  total_pages: number;
-  progress_percentage: number;
-  current_page_url?: string;
-  started_at?: string;
-  completed_at?: string;
-  error_message?: string;
-}
+import {
+  crawlProgressService,
+  isCrawlJobFinished,
+  type CrawlProgressTransport,
+} from '../services/crawlProgressService';
+import type { CrawlJobProgress } from '../types/api';
+
+export type { CrawlJobProgress };
 
 interface UseCrawlProgressOptions {
-  /** Polling interval in milliseconds (default: 2000) */
-  pollingInterval?: number;
-  /** Auto-stop polling when job completes (default: true) */
+  /** Auto-stop tracking when job completes (default: true) */
   autoStopOnComplete?: boolean;
 }
 
@@ -38,101 +29,88 @@ interface UseCrawlProgressReturn {
   startPolling: (jobId: string) => void;
   /** Stop monitoring */
   stopPolling: () => void;
-  /** Whether polling is active */
+  /** Whether monitoring is active */
   isPolling: boolean;
   /** Manually refresh progress */
   refreshProgress: () => Promise<void>;
+  /** Whether updates currently arrive by push or polling */
+  transport: CrawlProgressTransport;
 }
 
 export const useCrawlProgress = (
   options: UseCrawlProgressOptions = {}
 ): UseCrawlProgressReturn => {
-  const {
-    pollingInterval = 2000,
-    autoStopOnComplete = true
-  } = options;
+  const { autoStopOnComplete = true } = options;
 
   const [progress, setProgress] = useState<CrawlJobProgress | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isPolling, setIsPolling] = useState(false);
+  const [transport, setTransport] = useState<CrawlProgressTransport>(crawlProgressService.getTransport());
 
   const jobIdRef = useRef<string | null>(null);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const untrackRef = useRef<(() => void) | null>(null);
 
-  const fetchProgress = useCallback(async (jobId: string) => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  const stopPolling = useCallback(() => {
+    if (untrackRef.current) {
+      untrackRef.current();
+      untrackRef.current = null;
+    }
+    setIsPolling(false);
+    jobIdRef.current = null;
+  }, []);
 
-      const authToken = localStorage.getItem('auth_token');
-      const response = await fetch(
-        `${config.api.baseUrl}/api/v1/crawl/crawling-jobs/${jobId}/progress`,
-        {
-          headers: {
-            'Authorization': `Bearer ${authToken}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch progress: ${response.statusText}`);
-      }
+  const startPolling = useCallback((jobId: string) => {
+    // Stop tracking any previous job
+    if (untrackRef.current) {
+      untrackRef.current();
+    }
+
+    const current = crawlProgressService.getProgress(jobId);
+    setProgress(current);
+    setError(null);
 
-      const data: CrawlJobProgress = await response.json();
+    if (autoStopOnComplete && isCrawlJobFinished(current)) {
+      untrackRef.current = null;
+      jobIdRef.current = null;
+      setIsPolling(false);
+      return;
+    }
+
+    jobIdRef.current = jobId;
+    setIsPolling(true);
+
+    untrackRef.current = crawlProgressService.track(jobId, (data) => {
+      if (jobIdRef.current !== jobId) return;
       setProgress(data);
+      setError(null);
 
-      // Auto-stop polling if job is complete
-      if (autoStopOnComplete && ['completed', 'failed', 'cancelled'].includes(data.status)) {
+      // Auto-stop tracking if job is complete
+      if (autoStopOnComplete && isCrawlJobFinished(data)) {
         stopPolling();
       }
+    });
+  }, [autoStopOnComplete, stopPolling]);
 
-      return data;
+  const refreshProgress = useCallback(async () => {
+    if (!jobIdRef.current) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      await crawlProgressService.refresh(jobIdRef.current);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch progress';
       setError(errorMessage);
       console.error('Error fetching crawl progress:', err);
-      throw err;
     } finally {
       setIsLoading(false);
     }
-  }, [autoStopOnComplete]);
-
-  const startPolling = useCallback((jobId: string) => {
-    // Clear any existing polling
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-    }
-
-    jobIdRef.current = jobId;
-    setIsPolling(true);
-
-    // Fetch immediately
-    fetchProgress(jobId);
-
-    // Start polling interval
-    pollingIntervalRef.current = setInterval(() => {
-      if (jobIdRef.current) {
-        fetchProgress(jobIdRef.current);
-      }
-    }, pollingInterval);
-  }, [fetchProgress, pollingInterval]);
-
-  const stopPolling = useCallback(() => {
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
-    setIsPolling(false);
-    jobIdRef.current = null;
   }, []);
 
-  const refreshProgress = useCallback(async () => {
-    if (jobIdRef.current) {
-      await fetchProgress(jobIdRef.current);
-    }
-  }, [fetchProgress]);
+  useEffect(() => {
+    return crawlProgressService.onTransportChange(setTransport);
+  }, []);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -149,5 +127,40 @@ export const useCrawlProgress = (
     stopPolling,
     isPolling,
     refreshProgress,
+    transport,
   };
 };
+
+/**
+ * Track progress for several jobs at once (e.g. every running entry in a history list)
+ */
+export const useCrawlJobsProgress = (jobIds: string[]): Map<string, CrawlJobProgress> => {
+  const [progressMap, setProgressMap] = useState<Map<string, CrawlJobProgress>>(new Map());
+  const jobKey = [...jobIds].sort().join(',');
+
+  useEffect(() => {
+    const ids = jobKey ? jobKey.split(',') : [];
+
+    // Keep known progress for tracked jobs and drop the rest
+    setProgressMap(() => {
+      const initial = new Map<string, CrawlJobProgress>();
+      ids.forEach(jobId => {
+        const progress = crawlProgressService.getProgress(jobId);
+        if (progress) initial.set(jobId, progress);
+      });
+      return initial;
+    });
+
+    const untrackers = ids.map(jobId =>
+      crawlProgressService.track(jobId, (data) => {
+        setProgressMap(prev => new Map(prev).set(jobId, data));
+      })
+    );
+
+    return () => {
+      untrackers.forEach(untrack => untrack());
+    };
+  }, [jobKey]);
+
+  return progressMap;
+};
@@ -0,0 +1,98 @@
+/**
+ * Hook for the leads a website's offline form collected
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { apiService } from '../services/centralizedApi';
+import type { Lead } from '../types/api';
+
+interface UseLeadsReturn {
+  leads: Lead[];
+  total: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+  /** Only this status is listed; null lists every lead */
+  statusFilter: Lead['status'] | null;
+  setStatusFilter: (status: Lead['status'] | null) => void;
+  loadMore: () => Promise<void>;
+  updateStatus: (leadId: string, status: Lead['status']) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+export const useLeads = (websiteId: string | null | undefined): UseLeadsReturn => {
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<Lead['status'] | null>(null);
+
+  const load = useCallback(async (pageToLoad: number, signal?: AbortSignal) => {
+    if (!websiteId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await apiService.getLeads(websiteId, {
+        page: pageToLoad,
+        pageSize: PAGE_SIZE,
+        status: statusFilter ?? undefined
+      }, { signal });
+      if (response.aborted) return;
+
+      if (response.success) {
+        setLeads(prev => (pageToLoad === 1 ? response.data.leads : [...prev, ...response.data.leads]));
+        setTotal(response.data.total);
+        setHasMore(response.data.has_more);
+        setPage(pageToLoad);
+      } else {
+        setError(response.message || 'Failed to load leads');
+      }
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [websiteId, statusFilter]);
+
+  useEffect(() => {
+    setLeads([]);
+    setTotal(0);
+    setHasMore(false);
+    if (!websiteId) return;
+
+    const controller = new AbortController();
+    load(1, controller.signal);
+    return () => controller.abort();
+  }, [websiteId, load]);
+
+  const loadMore = useCallback(() => load(page + 1), [load, page]);
+
+  const refresh = useCallback(() => load(1), [load]);
+
+  const updateStatus = useCallback(async (leadId: string, status: Lead['status']) => {
+    if (!websiteId) return false;
+
+    const response = await apiService.updateLeadStatus(websiteId, leadId, status);
+    if (response.success) {
+      setLeads(prev => prev.map(lead => (lead.lead_id === leadId ? { ...lead, status } : lead)));
+    }
+    return response.success;
+  }, [websiteId]);
+
+  return {
+    leads,
+    total,
+    hasMore,
+    isLoading,
+    error,
+    statusFilter,
+    setStatusFilter,
+    loadMore,
+    updateStatus,
+    refresh,
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * Hook computing the Subresource Integrity hash of a script URL on demand
+ */
+import { useState, useEffect } from 'react';
+import { computeIntegrity } from '../components/script/embedSecurity';
+
+interface UseScriptIntegrityReturn {
+  /** `sha384-...` value, null while disabled, loading or failed */
+  integrity: string | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export const useScriptIntegrity = (url: string, enabled: boolean): UseScriptIntegrityReturn => {
+  const [integrity, setIntegrity] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIntegrity(null);
+    setError(null);
+    if (!enabled) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    computeIntegrity(url)
+      .then(hash => {
+        if (!cancelled) setIntegrity(hash);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message || 'Failed to compute integrity hash');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, enabled]);
+
+  return { integrity, isLoading, error };
+};
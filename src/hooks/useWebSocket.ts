@@ -0,0 +1,78 @@
+/**
+ * Hooks for the shared real-time connection.
+ * Components subscribe to message types (optionally per topic channel) and share
+ * one WebSocket per URL; listeners are removed and the connection released on unmount.
+ */
+import { useState, useEffect, useRef } from 'react';
+import { config } from '../config/env';
+import {
+  acquireSharedWebSocket,
+  releaseSharedWebSocket,
+  type ConnectionState,
+  type WebSocketEventHandler,
+  type WebSocketEventType,
+} from '../services/websocket';
+
+interface UseWebSocketSubscriptionOptions {
+  /** Only receive messages published on this topic channel */
+  channel?: string;
+  /** WebSocket URL (default: config.websocket.url) */
+  url?: string;
+  /** Set to false to pause the subscription (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Subscribe to a WebSocket message type for the lifetime of the component
+ */
+export const useWebSocketSubscription = (
+  eventType: WebSocketEventType,
+  handler: WebSocketEventHandler,
+  options: UseWebSocketSubscriptionOptions = {}
+): void => {
+  const { channel, url = config.websocket.url, enabled = true } = options;
+
+  // Keep the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const service = acquireSharedWebSocket(url);
+    const unsubscribe = service.subscribe(
+      eventType,
+      (message) => handlerRef.current(message),
+      { channel }
+    );
+
+    return () => {
+      unsubscribe();
+      releaseSharedWebSocket(url);
+    };
+  }, [eventType, channel, url, enabled]);
+};
+
+/**
+ * Track the state of the shared connection (connecting/open/degraded/closed)
+ */
+export const useWebSocketConnectionState = (
+  url: string = config.websocket.url
+): ConnectionState => {
+  const [state, setState] = useState<ConnectionState>('connecting');
+
+  useEffect(() => {
+    const service = acquireSharedWebSocket(url);
+    setState(service.getState());
+    const unsubscribe = service.onStateChange(setState);
+
+    return () => {
+      unsubscribe();
+      releaseSharedWebSocket(url);
+    };
+  }, [url]);
+
+  return state;
+};
@@ -0,0 +1,136 @@
+/**
+ * Hook for a website's saved widget configuration: draft, published version,
+ * version history and rollback.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import {
+  apiService,
+  type WidgetConfigRecord,
+  type WidgetConfigVersion,
+  type WidgetConfiguration,
+} from '../services/centralizedApi';
+
+export type { WidgetConfigRecord, WidgetConfigVersion, WidgetConfiguration };
+
+interface UseWidgetConfigReturn {
+  /** Saved draft and published version (null until loaded or if nothing was saved) */
+  record: WidgetConfigRecord | null;
+  /** Version history, newest first */
+  versions: WidgetConfigVersion[];
+  isLoading: boolean;
+  /** A save, publish or rollback is in flight */
+  isSaving: boolean;
+  error: string | null;
+  saveDraft: (config: WidgetConfiguration, note?: string) => Promise<boolean>;
+  /** Save the config as draft and publish it */
+  publish: (config: WidgetConfiguration, note?: string) => Promise<boolean>;
+  rollback: (version: number) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export const useWidgetConfig = (websiteId: string | null | undefined): UseWidgetConfigReturn => {
+  const [record, setRecord] = useState<WidgetConfigRecord | null>(null);
+  const [versions, setVersions] = useState<WidgetConfigVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (signal?: AbortSignal) => {
+    if (!websiteId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [configResponse, versionsResponse] = await Promise.all([
+        apiService.getWidgetConfiguration(websiteId, { signal }),
+        apiService.getWidgetConfigVersions(websiteId, { signal })
+      ]);
+      if (configResponse.aborted || versionsResponse.aborted) return;
+
+      if (configResponse.success) {
+        setRecord(configResponse.data);
+      } else if (configResponse.error?.code === 'not_found') {
+        // Nothing saved yet: the editor keeps its defaults
+        setRecord(null);
+      } else {
+        setError(configResponse.message || 'Failed to load widget configuration');
+      }
+      setVersions(versionsResponse.success ? versionsResponse.data.versions : []);
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [websiteId]);
+
+  useEffect(() => {
+    setRecord(null);
+    setVersions([]);
+    if (!websiteId) return;
+
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [websiteId, load]);
+
+  // Runs a mutation and reloads draft, published version and history afterwards
+  const mutate = useCallback(async (action: () => Promise<boolean>) => {
+    if (!websiteId) return false;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const success = await action();
+      if (success) {
+        await load();
+      }
+      return success;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [websiteId, load]);
+
+  const saveDraft = useCallback((config: WidgetConfiguration, note?: string) => mutate(async () => {
+    const response = await apiService.saveWidgetConfigDraft(websiteId!, config, note);
+    if (!response.success) {
+      setError(response.message || 'Failed to save draft');
+    }
+    return response.success;
+  }), [websiteId, mutate]);
+
+  const publish = useCallback((config: WidgetConfiguration, note?: string) => mutate(async () => {
+    const draftResponse = await apiService.saveWidgetConfigDraft(websiteId!, config, note);
+    if (!draftResponse.success) {
+      setError(draftResponse.message || 'Failed to save draft');
+      return false;
+    }
+
+    const response = await apiService.publishWidgetConfig(websiteId!);
+    if (!response.success) {
+      setError(response.message || 'Failed to publish configuration');
+    }
+    return response.success;
+  }), [websiteId, mutate]);
+
+  const rollback = useCallback((version: number) => mutate(async () => {
+    const response = await apiService.rollbackWidgetConfig(websiteId!, version);
+    if (!response.success) {
+      setError(response.message || `Failed to roll back to version ${version}`);
+    }
+    return response.success;
+  }), [websiteId, mutate]);
+
+  const refresh = useCallback(() => load(), [load]);
+
+  return {
+    record,
+    versions,
+    isLoading,
+    isSaving,
+    error,
+    saveDraft,
+    publish,
+    rollback,
+    refresh,
+  };
+};
@@ -17,7 +17,8 @@ import {
   ArrowUp,
   ArrowDown,
   Eye,
-  Link2
+  Link2,
+  FlaskConical
 } from 'lucide-react';
 // Removed useAuth context import - now using Redux auth
 import { useAppSelector } from '../store';
@@ -28,40 +29,9 @@ import SessionAnalyticsChart from '../components/analytics/SessionAnalyticsChart
 import ThreadAnalyticsView from '../components/analytics/ThreadAnalyticsView';
 import PerformanceMetrics from '../components/analytics/PerformanceMetrics';
 import AnalyticsInsights from '../components/analytics/AnalyticsInsights';
-
-interface AnalyticsData {
-  website_id: string;
-  analysis_period: {
-    days: number;
-    start_date: string;
-    end_date: string;
-    analyzed_conversations: number;
-  };
-  key_metrics: {
-    total_conversations: number;
-    total_messages: number;
-    unique_visitors: number;
-    avg_conversation_length: number;
-    avg_messages_per_conversation: number;
-    total_conversation_duration_hours: number;
-  };
-  engagement_summary: {
-    engagement_score: number;
-    response_rate: number;
-    conversation_completion_rate: number;
-    avg_response_time_seconds: number;
-  };
-  quality_indicators: {
-    overall_quality_score: number;
-    coherence_score: number;
-    satisfaction_score: number;
-    issue_resolution_rate: number;
-  };
-  trends: Record<string, any>;
-  insights: string[];
-  generated_at: string;
-  processing_time_ms: number;
-}
+import ExperimentResultsView from '../components/analytics/ExperimentResultsView';
+import WorstRatedAnswers from '../components/analytics/WorstRatedAnswers';
+import { apiService, type AnalyticsOverview } from '../services/centralizedApi';
 
 const AnalyticsDashboard: React.FC = () => {
   const { websiteId } = useParams<{ websiteId: string }>();
@@ -70,11 +40,11 @@ const AnalyticsDashboard: React.FC = () => {
   const navigate = useNavigate();
   const { isMobile, isTablet } = useResponsive();
 
-  const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
+  const [analyticsData, setAnalyticsData] = useState<AnalyticsOverview | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedPeriod, setSelectedPeriod] = useState<number>(7);
-  const [activeTab, setActiveTab] = useState<'overview' | 'sessions' | 'threads' | 'performance' | 'insights'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'sessions' | 'threads' | 'performance' | 'insights' | 'experiments'>('overview');
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
   useEffect(() => {
@@ -88,49 +58,49 @@ const AnalyticsDashboard: React.FC = () => {
       return;
     }
     if (isAuthenticated) {
-      loadAnalyticsData();
+      // Cancel the in-flight request when the period changes or the page unmounts
+      const controller = new AbortController();
+      loadAnalyticsData(controller.signal);
+      return () => controller.abort();
     }
   }, [isAuthenticated, isRefreshing, websiteId, selectedPeriod, navigate]);
 
-  const loadAnalyticsData = async () => {
+  const loadAnalyticsData = async (signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/v1/analytics/websites/${websiteId}/overview?days=${selectedPeriod}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const response = await apiService.getWebsiteAnalytics(websiteId!, selectedPeriod, { signal });
+      if (response.aborted) return;
 
-      if (!response.ok) {
-        throw new Error(`Failed to load analytics data: ${response.status}`);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load analytics data');
       }
 
-      const data = await response.json();
-      setAnalyticsData(data);
+      setAnalyticsData(response.data);
       setLastUpdated(new Date());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load analytics data');
       console.error('Analytics loading error:', err);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
+  const handleRefresh = () => {
+    // Skip the analytics cache so refresh always hits the server
+    apiService.invalidateAnalyticsCache(websiteId!);
+    loadAnalyticsData();
+  };
+
   const handleExportData = async () => {
     try {
-      const response = await fetch(`/api/v1/analytics/websites/${websiteId}/export?days=${selectedPeriod}&format=json`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const response = await apiService.exportAnalytics(websiteId!, selectedPeriod, 'json');
 
-      if (response.ok) {
-        const exportData = await response.json();
-        if (exportData.download_info?.download_url) {
-          window.open(exportData.download_info.download_url, '_blank');
-        }
+      if (response.success && response.data?.download_info?.download_url) {
+        window.open(response.data.download_info.download_url, '_blank');
       }
     } catch (error) {
       console.error('Export failed:', error);
@@ -176,7 +146,7 @@ const AnalyticsDashboard: React.FC = () => {
               <p className="text-red-800">{error || 'Failed to load analytics data'}</p>
             </div>
             <button
-              onClick={loadAnalyticsData}
+              onClick={() => loadAnalyticsData()}
               className="mt-2 text-red-600 hover:text-red-800 text-sm font-medium"
             >
               Try again
@@ -220,7 +190,7 @@ const AnalyticsDashboard: React.FC = () => {
                 <option value={90}>Last 90 days</option>
               </select>
               <button
-                onClick={loadAnalyticsData}
+                onClick={handleRefresh}
                 className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
                 title="Refresh data"
               >
@@ -248,7 +218,8 @@ const AnalyticsDashboard: React.FC = () => {
               { key: 'sessions', label: 'Sessions', icon: Users },
               { key: 'threads', label: 'Threads', icon: Link2 },
               { key: 'performance', label: 'Performance', icon: Activity },
-              { key: 'insights', label: 'Insights', icon: Eye }
+              { key: 'insights', label: 'Insights', icon: Eye },
+              { key: 'experiments', label: 'A/B Tests', icon: FlaskConical }
             ].map(({ key, label, icon: Icon }) => (
               <button
                 key={key}
@@ -337,7 +308,9 @@ const AnalyticsDashboard: React.FC = () => {
                     <span className="font-medium">{analyticsData.quality_indicators.coherence_score.toFixed(1)}/5</span>
                   </div>
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-gray-600">Satisfaction</span>
+                    <span className="text-sm text-gray-600" title="From the thumbs up/down visitors give answers in the widget">
+                      Satisfaction
+                    </span>
                     <span className="font-medium">{analyticsData.quality_indicators.satisfaction_score.toFixed(1)}/5</span>
                   </div>
                   <div className="flex justify-between items-center">
@@ -348,6 +321,9 @@ const AnalyticsDashboard: React.FC = () => {
               </div>
             </div>
 
+            {/* Answers visitors rated unhelpful */}
+            <WorstRatedAnswers websiteId={websiteId!} days={selectedPeriod} />
+
             {/* Recent Insights */}
             {analyticsData.insights && analyticsData.insights.length > 0 && (
               <div className="bg-white p-6 rounded-lg shadow-sm border">
@@ -380,6 +356,10 @@ const AnalyticsDashboard: React.FC = () => {
         {activeTab === 'insights' && (
           <AnalyticsInsights websiteId={websiteId!} days={selectedPeriod} />
         )}
+
+        {activeTab === 'experiments' && (
+          <ExperimentResultsView websiteId={websiteId!} days={selectedPeriod} />
+        )}
       </div>
     </ResponsiveLayout>
   );
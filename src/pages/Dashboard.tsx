@@ -33,7 +33,7 @@ import {
 import { showSuccessToast, showErrorToast } from '../store/notificationSlice';
 import { config } from '../config/env';
 
-import type { Website as ApiWebsite } from '../services/centralizedApi';
+import { apiService, cacheTags, type Website as ApiWebsite } from '../services/centralizedApi';
 import { StatusBadge, StatCard, Card } from '../components/ui';
 import { DashboardSkeleton } from '../components/ui/SkeletonLoader';
 import WebsiteRegistrationWizard from '../components/website/WebsiteRegistrationWizard';
@@ -97,39 +97,21 @@ const Dashboard: React.FC = () => {
     if (isAuthenticated) {
       console.log('Dashboard: Loading fresh data on component mount (F5 refresh or navigation)');
       loadDashboardData();
-      const timestamp = Date.now().toString();
-      localStorage.setItem('dashboard_last_fetch', timestamp);
-      localStorage.setItem('websites_last_fetch', timestamp);
     }
   }, [isAuthenticated, isRefreshing, navigate]);
 
-  // Handle page visibility and focus events for fresh data
+  // Handle page visibility and focus events for fresh data.
+  // Fresh cache entries are served as-is; stale ones revalidate in the background.
   useEffect(() => {
     const handleVisibilityChange = () => {
       if (!document.hidden && isAuthenticated) {
-        // Page became visible, refresh data if it's been more than 1 minute
-        const lastFetch = localStorage.getItem('dashboard_last_fetch');
-        const isStale = !lastFetch || (Date.now() - parseInt(lastFetch)) > 60000; // 1 minute
-        if (isStale) {
-          loadDashboardData();
-          const timestamp = Date.now().toString();
-          localStorage.setItem('dashboard_last_fetch', timestamp);
-          localStorage.setItem('websites_last_fetch', timestamp);
-        }
+        loadDashboardData();
       }
     };
 
     const handleFocus = () => {
       if (isAuthenticated) {
-        // Window regained focus, check for stale data
-        const lastFetch = localStorage.getItem('dashboard_last_fetch');
-        const isStale = !lastFetch || (Date.now() - parseInt(lastFetch)) > 60000; // 1 minute
-        if (isStale) {
-          loadDashboardData();
-          const timestamp = Date.now().toString();
-          localStorage.setItem('dashboard_last_fetch', timestamp);
-          localStorage.setItem('websites_last_fetch', timestamp);
-        }
+        loadDashboardData();
       }
     };
 
@@ -142,6 +124,15 @@ const Dashboard: React.FC = () => {
     };
   }, [isAuthenticated]);
 
+  // Re-read the store once revalidated website data lands in the cache
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return apiService.onCacheUpdate([cacheTags.websites], () => {
+      dispatch(fetchWebsitesWithMetrics({ page: 1, limit: 1000 }));
+      dispatch(fetchChatStats('30d'));
+    });
+  }, [isAuthenticated, dispatch]);
+
   const loadDashboardData = async () => {
     try {
       console.log('Dashboard: Fetching all APIs...');
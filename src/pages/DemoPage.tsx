@@ -14,12 +14,16 @@ import {
 } from 'lucide-react';
 import { apiService } from '../services/centralizedApi';
 import type { DemoStatusResponse } from '../services/centralizedApi';
+import type { SourceCitation } from '../types/api';
+import SourceCitations from '../components/SourceCitations';
+import { normalizeCitations } from '../widget/citations';
 
 interface Message {
   id: string;
   content: string;
   type: 'user' | 'assistant';
   timestamp: Date;
+  sources?: SourceCitation[];
 }
 
 const DemoPage: React.FC = () => {
@@ -123,7 +127,8 @@ const DemoPage: React.FC = () => {
           id: (Date.now() + 1).toString(),
           content: response.data.response,
           type: 'assistant',
-          timestamp: new Date()
+          timestamp: new Date(),
+          sources: normalizeCitations(response.data.sources)
         };
         setMessages(prev => [...prev, botResponse]);
       } else {
@@ -442,14 +447,17 @@ const DemoPage: React.FC = () => {
                       {msg.type === 'assistant' && (
                         <div className="w-6 h-6 bg-gray-300 rounded-full flex-shrink-0 flex items-center justify-center text-xs">🤖</div>
                       )}
-                      <div
-                        className={`rounded-lg px-3 py-2 max-w-xs ${
-                          msg.type === 'assistant'
-                            ? 'bg-gray-100 text-gray-800'
-                            : 'bg-indigo-600 text-white'
-                        }`}
-                      >
-                        <div className="text-sm">{msg.content}</div>
+                      <div className="max-w-xs">
+                        <div
+                          className={`rounded-lg px-3 py-2 ${
+                            msg.type === 'assistant'
+                              ? 'bg-gray-100 text-gray-800'
+                              : 'bg-indigo-600 text-white'
+                          }`}
+                        >
+                          <div className="text-sm">{msg.content}</div>
+                        </div>
+                        {msg.sources && <SourceCitations citations={msg.sources} />}
                       </div>
                     </div>
                   ))}
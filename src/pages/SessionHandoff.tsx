@@ -24,22 +24,7 @@ import {
 import { useAppSelector } from '../store';
 import ResponsiveLayout from '../components/common/ResponsiveLayout';
 import { useResponsive } from '../hooks/useResponsive';
-
-interface TransferData {
-  transfer_id: string;
-  transfer_token: string;
-  transfer_link: string;
-  transfer_type: string;
-  access_level: string;
-  expires_at: string;
-  recipient_email?: string;
-  notes?: string;
-  session_info: {
-    session_token: string;
-    visitor_id: string;
-    website_id: string;
-  };
-}
+import { apiService, type SessionTransfer } from '../services/centralizedApi';
 
 const SessionHandoff: React.FC = () => {
   const { sessionToken } = useParams<{ sessionToken?: string }>();
@@ -51,7 +36,7 @@ const SessionHandoff: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [transfers, setTransfers] = useState<TransferData[]>([]);
+  const [transfers, setTransfers] = useState<SessionTransfer[]>([]);
   const [copiedToken, setCopiedToken] = useState<string | null>(null);
   
   // Form state
@@ -84,15 +69,10 @@ const SessionHandoff: React.FC = () => {
 
   const loadExistingTransfers = async () => {
     try {
-      const response = await fetch('/api/v1/session-handoff/list-transfers', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const response = await apiService.listSessionTransfers();
 
-      if (response.ok) {
-        const data = await response.json();
-        setTransfers(data.transfers || []);
+      if (response.success) {
+        setTransfers(response.data?.transfers || []);
       }
     } catch (error) {
       console.error('Failed to load transfers:', error);
@@ -106,21 +86,13 @@ const SessionHandoff: React.FC = () => {
     setSuccess(null);
 
     try {
-      const response = await fetch('/api/v1/session-handoff/create-transfer', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        },
-        body: JSON.stringify(formData)
-      });
+      const response = await apiService.createSessionTransfer(formData);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to create transfer');
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to create transfer');
       }
 
-      const transferData = await response.json();
+      const transferData = response.data;
       setSuccess('Transfer link created successfully!');
       setTransfers(prev => [transferData, ...prev]);
       
@@ -145,24 +117,16 @@ const SessionHandoff: React.FC = () => {
     setSuccess(null);
 
     try {
-      const response = await fetch('/api/v1/session-handoff/customer-service-handoff', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        },
-        body: JSON.stringify({
-          session_token: formData.session_token,
-          ...csHandoffData
-        })
+      const response = await apiService.createCustomerServiceHandoff({
+        session_token: formData.session_token,
+        ...csHandoffData
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to create customer service handoff');
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to create customer service handoff');
       }
 
-      const handoffData = await response.json();
+      const handoffData = response.data;
       setSuccess('Customer service handoff created successfully!');
       setTransfers(prev => [handoffData, ...prev]);
       
@@ -197,18 +161,13 @@ const SessionHandoff: React.FC = () => {
     }
 
     try {
-      const response = await fetch('/api/v1/session-handoff/revoke-transfer', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        },
-        body: JSON.stringify({ transfer_token: transferToken })
-      });
+      const response = await apiService.revokeSessionTransfer(transferToken);
 
-      if (response.ok) {
+      if (response.success) {
         setTransfers(prev => prev.filter(t => t.transfer_token !== transferToken));
         setSuccess('Transfer link revoked successfully');
+      } else {
+        setError(response.message || 'Failed to revoke transfer link');
       }
     } catch (error) {
       setError('Failed to revoke transfer link');
@@ -15,43 +15,15 @@ import {
   Loader2,
   AlertCircle,
   Eye,
-  Trash2
+  Trash2,
+  Paperclip
 } from 'lucide-react';
 // Removed useAuth context import - now using Redux auth
 import { useAppSelector } from '../store';
 import ResponsiveLayout from '../components/common/ResponsiveLayout';
 import { useResponsive } from '../hooks/useResponsive';
-
-interface SessionHistoryData {
-  session_token: string;
-  session_info: {
-    visitor_id: string;
-    website_id: string;
-    created_at: string;
-    expires_at: string;
-    is_active: boolean;
-  };
-  history: Array<{
-    conversation_id: string;
-    created_at: string;
-    updated_at: string;
-    message_count: number;
-    messages?: Array<{
-      id: string;
-      content: string;
-      message_type: string;
-      created_at: string;
-    }>;
-  }>;
-  pagination: {
-    current_page: number;
-    page_size: number;
-    total_items: number;
-    total_pages: number;
-    has_next: boolean;
-    has_previous: boolean;
-  };
-}
+import { apiService, type SessionHistoryData } from '../services/centralizedApi';
+import { formatFileSize, isImageAttachment } from '../widget/attachments';
 
 const SessionHistory: React.FC = () => {
   const { sessionToken } = useParams<{ sessionToken: string }>();
@@ -92,35 +64,19 @@ const SessionHistory: React.FC = () => {
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        page: currentPage.toString(),
-        page_size: pageSize.toString(),
-        include_messages: includeMessages.toString()
+      const response = await apiService.getSessionHistory(sessionToken!, {
+        page: currentPage,
+        pageSize,
+        includeMessages,
+        startDate,
+        endDate
       });
 
-      if (startDate) params.append('start_date', startDate);
-      if (endDate) params.append('end_date', endDate);
-
-      const response = await fetch(
-        `/api/v1/session-history/${sessionToken}/history?${params}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-          }
-        }
-      );
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Session not found');
-        } else if (response.status === 403) {
-          throw new Error('Session has expired');
-        }
-        throw new Error(`Failed to load session history: ${response.status}`);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to load session history');
       }
 
-      const data = await response.json();
-      setHistoryData(data);
+      setHistoryData(response.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load session history');
       console.error('Session history loading error:', err);
@@ -131,17 +87,10 @@ const SessionHistory: React.FC = () => {
 
   const handleExport = async (format: 'json' | 'csv' | 'txt') => {
     try {
-      const response = await fetch(
-        `/api/v1/session-history/${sessionToken}/export?format=${format}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-          }
-        }
-      );
+      const response = await apiService.exportSessionHistory(sessionToken!, format);
 
-      if (response.ok) {
-        const blob = await response.blob();
+      if (response.success) {
+        const blob = response.data;
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.style.display = 'none';
@@ -162,17 +111,9 @@ const SessionHistory: React.FC = () => {
     }
 
     try {
-      const response = await fetch(
-        `/api/v1/session-history/${sessionToken}?confirm=true`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-          }
-        }
-      );
+      const response = await apiService.deleteSessionHistory(sessionToken!);
 
-      if (response.ok) {
+      if (response.success) {
         alert('Session data deleted successfully');
         navigate('/dashboard');
       } else {
@@ -395,7 +336,35 @@ const SessionHistory: React.FC = () => {
                               {formatDate(message.created_at)}
                             </span>
                           </div>
-                          <p className="text-sm text-gray-800">{message.content}</p>
+                          {message.content && <p className="text-sm text-gray-800">{message.content}</p>}
+                          {message.attachments && message.attachments.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                              {message.attachments.map(attachment => (
+                                <a
+                                  key={attachment.id}
+                                  href={attachment.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="block rounded-md border border-gray-200 bg-white overflow-hidden hover:border-indigo-300"
+                                  title={attachment.name}
+                                >
+                                  {isImageAttachment(attachment.content_type) ? (
+                                    <img
+                                      src={attachment.thumbnail_url || attachment.url}
+                                      alt={attachment.name}
+                                      className="block max-w-48 max-h-36 object-cover"
+                                    />
+                                  ) : (
+                                    <span className="flex items-center space-x-2 px-3 py-2 text-xs text-gray-700">
+                                      <Paperclip className="w-4 h-4 text-gray-400" />
+                                      <span className="truncate max-w-40">{attachment.name}</span>
+                                      <span className="text-gray-400">{formatFileSize(attachment.size)}</span>
+                                    </span>
+                                  )}
+                                </a>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
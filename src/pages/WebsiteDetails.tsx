@@ -21,6 +21,7 @@ import { useResponsive } from '../hooks/useResponsive';
 import { useTokenRefresh } from '../hooks/useTokenRefresh';
 import ManualCrawlModal from '../components/crawl/ManualCrawlModal';
 import CrawlHistoryModal from '../components/crawl/CrawlHistoryModal';
+import LeadsPanel from '../components/website/LeadsPanel';
 import { useCrawl } from '../hooks/useCrawl';
 import { useAppDispatch, useAppSelector } from '../store';
 import {
@@ -32,7 +33,7 @@ import {
   selectCrawlTriggerLoading,
   fetchWebsitesWithMetrics
 } from '../store/dashboardSlice';
-import { showSuccessToast, showErrorToast } from '../store/notificationSlice';
+import { showSuccessToast, showErrorToast, showInfoToast } from '../store/notificationSlice';
 import type { Website as ApiWebsite, FirstPageStatus } from '../services/centralizedApi';
 import { apiService } from '../services/centralizedApi';
 import { StatusBadge, StatCard, Card } from '../components/ui';
@@ -140,8 +141,10 @@ const WebsiteDetails: React.FC = () => {
   const handleCrawlStarted = async (taskId: string) => {
     if (website) {
       try {
-        await dispatch(triggerCrawl({ websiteId: website.id, maxPages: 10 })).unwrap();
-        dispatch(showSuccessToast(`Crawl started for "${website.name}"`));
+        const result = await dispatch(triggerCrawl({ websiteId: website.id, maxPages: 10 })).unwrap();
+        dispatch(result.queued
+          ? showInfoToast('You are offline', `The crawl for "${website.name}" will start once you reconnect`)
+          : showSuccessToast(`Crawl started for "${website.name}"`));
       } catch (error) {
         console.error('Failed to start crawl:', error);
         dispatch(showErrorToast('Failed to start crawl', 'Please try again later'));
@@ -154,8 +157,10 @@ const WebsiteDetails: React.FC = () => {
 
     if (confirm(`Are you sure you want to delete "${website.name}"? This action cannot be undone.`)) {
       try {
-        await dispatch(deleteWebsite(website.id)).unwrap();
-        dispatch(showSuccessToast(`Website "${website.name}" deleted successfully`));
+        const result = await dispatch(deleteWebsite(website.id)).unwrap();
+        dispatch(result.queued
+          ? showInfoToast('You are offline', `"${website.name}" will be deleted once you reconnect`)
+          : showSuccessToast(`Website "${website.name}" deleted successfully`));
         navigate('/dashboard');
       } catch (error) {
         console.error('Failed to delete website:', error);
@@ -437,6 +442,11 @@ const WebsiteDetails: React.FC = () => {
             </Card>
           </div>
         </div>
+
+        {/* Leads from the offline form */}
+        <div className="mt-8">
+          <LeadsPanel websiteId={website.id} />
+        </div>
       </div>
 
       {/* Manual Crawl Modal */}
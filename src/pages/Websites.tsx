@@ -37,8 +37,8 @@ import {
   selectCrawlTriggerLoading,
   selectShouldRefreshWebsites
 } from '../store/dashboardSlice';
-import { showSuccessToast, showErrorToast } from '../store/notificationSlice';
-import type { Website as ApiWebsite } from '../services/centralizedApi';
+import { showSuccessToast, showErrorToast, showInfoToast } from '../store/notificationSlice';
+import { apiService, cacheTags, type Website as ApiWebsite } from '../services/centralizedApi';
 import { StatusBadge } from '../components/ui/StatusBadge';
 import { Card } from '../components/ui/Card';
 import { WebsiteCardSkeleton } from '../components/ui/SkeletonLoader';
@@ -78,7 +78,8 @@ const Websites: React.FC = () => {
   const [crawlModalOpen, setCrawlModalOpen] = useState(false);
   const [historyModalOpen, setHistoryModalOpen] = useState(false);
   const [selectedWebsite, setSelectedWebsite] = useState<Website | null>(null);
-  const isLoading = websitesLoading;
+  // Only block the page on the first load; later refreshes update the list in place
+  const isLoading = websitesLoading && websites.length === 0;
 
   useEffect(() => {
     // Don't redirect if we're in the middle of a token refresh
@@ -86,36 +87,19 @@ const Websites: React.FC = () => {
       navigate('/login');
       return;
     }
-    // Only load data if we don't have any data or if it's stale (more than 5 minutes old)
+    // Cached website data is shown immediately and revalidated in the background when stale
     if (isAuthenticated) {
-      const hasData = websites.length > 0;
-      // Use unified freshness tracking - check both keys and use the most recent
-      const dashboardLastFetch = localStorage.getItem('dashboard_last_fetch');
-      const websitesLastFetch = localStorage.getItem('websites_last_fetch');
-      const lastFetch = Math.max(
-        dashboardLastFetch ? parseInt(dashboardLastFetch) : 0,
-        websitesLastFetch ? parseInt(websitesLastFetch) : 0
-      );
-      const isStale = lastFetch === 0 || (Date.now() - lastFetch) > 300000; // 5 minutes
-
-      // Debug logging
-      console.log('Websites useEffect:', {
-        websites: websites.length,
-        hasData,
-        lastFetch,
-        isStale,
-        willLoad: !hasData || isStale
-      });
-
-      if (!hasData || isStale) {
-        loadWebsites();
-        const timestamp = Date.now().toString();
-        localStorage.setItem('dashboard_last_fetch', timestamp);
-        localStorage.setItem('websites_last_fetch', timestamp);
-      }
+      loadWebsites();
     }
   }, [isAuthenticated, isRefreshing, navigate]);
 
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return apiService.onCacheUpdate([cacheTags.websites], () => {
+      dispatch(fetchWebsitesWithMetrics({ page: 1, limit: 1000 }));
+    });
+  }, [isAuthenticated, dispatch]);
+
   const loadWebsites = async (page: number = 1, limit: number = 1000) => {
     try {
       // Use new consolidated API to get websites with metrics
@@ -140,8 +124,10 @@ const Websites: React.FC = () => {
     if (selectedWebsite) {
       // Use Redux action to trigger crawl and update crawl status
       try {
-        await dispatch(triggerCrawl({ websiteId: selectedWebsite.id, maxPages: 10 })).unwrap();
-        dispatch(showSuccessToast(`Crawl started for "${selectedWebsite.name}"`));
+        const result = await dispatch(triggerCrawl({ websiteId: selectedWebsite.id, maxPages: 10 })).unwrap();
+        dispatch(result.queued
+          ? showInfoToast('You are offline', `The crawl for "${selectedWebsite.name}" will start once you reconnect`)
+          : showSuccessToast(`Crawl started for "${selectedWebsite.name}"`));
       } catch (error) {
         console.error('Failed to start crawl:', error);
         dispatch(showErrorToast('Failed to start crawl', 'Please try again later'));
@@ -189,8 +175,10 @@ const Websites: React.FC = () => {
     if (confirm(`Are you sure you want to delete "${websiteName}"? This action cannot be undone.`)) {
       try {
         // Use Redux action with optimistic updates (eliminates redundant API call)
-        await dispatch(deleteWebsite(websiteId)).unwrap();
-        dispatch(showSuccessToast(`Website "${websiteName}" deleted successfully`));
+        const result = await dispatch(deleteWebsite(websiteId)).unwrap();
+        dispatch(result.queued
+          ? showInfoToast('You are offline', `"${websiteName}" will be deleted once you reconnect`)
+          : showSuccessToast(`Website "${websiteName}" deleted successfully`));
       } catch (error) {
         console.error('Failed to delete website:', error);
         dispatch(showErrorToast('Failed to delete website', 'Please try again later'));
@@ -2,9 +2,16 @@ import type {
   ChatMessage, 
   ChatResponse, 
   ChatHistory, 
+  LeadRequest,
+  MessageAttachment,
+  MessageFeedbackRequest,
   SessionCreateRequest, 
   SessionResponse,
+  SessionResumeRequest,
+  SessionResumeResponse,
+  SessionUpdateRequest,
   WidgetConfig, 
+  WidgetEvent,
   WidgetStatus 
 } from '../types/api';
 import { SocketService } from './socketService';
@@ -54,6 +61,134 @@ export class ApiService {
     return response.json();
   }
 
+  /**
+   * Resume a visitor's earlier session; null when it expired or was closed.
+   * `endpoint` is the published `api_endpoints.session_resume`, if any.
+   */
+  async resumeSession(widgetId: string, request: SessionResumeRequest, endpoint?: string): Promise<SessionResumeResponse | null> {
+    const response = await fetch(endpoint || `${this.baseUrl}/widget/session/${widgetId}/resume`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      if (response.status === 404 || response.status === 410) {
+        return null;
+      }
+      throw new Error(`Failed to resume session: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Replace the identity and context of a live session
+   */
+  async updateSession(widgetId: string, sessionId: string, update: SessionUpdateRequest): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/widget/session/${widgetId}/${sessionId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(update),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update session: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Store the contact details left in the offline form as a lead
+   */
+  async submitLead(widgetId: string, lead: LeadRequest): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/widget/${widgetId}/leads`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(lead),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to submit lead: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Report widget usage; keepalive lets events sent while the page unloads arrive
+   */
+  async trackEvent(widgetId: string, event: WidgetEvent): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/widget/${widgetId}/events`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(event),
+      keepalive: true,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to track event: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Rate an assistant reply as helpful or not
+   */
+  async submitMessageFeedback(widgetId: string, feedback: MessageFeedbackRequest): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/widget/${widgetId}/feedback`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(feedback),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to submit feedback: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Upload a file to attach to the session's next message. Uses XMLHttpRequest
+   * because fetch can't report upload progress.
+   */
+  uploadAttachment(
+    widgetId: string,
+    sessionId: string,
+    file: File,
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<MessageAttachment> {
+    return new Promise((resolve, reject) => {
+      const form = new FormData();
+      form.append('session_id', sessionId);
+      form.append('file', file);
+
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', `${this.baseUrl}/widget/${widgetId}/attachments`);
+      xhr.responseType = 'json';
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+      };
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(xhr.response);
+        } else {
+          reject(new Error(`Failed to upload attachment: ${xhr.statusText}`));
+        }
+      };
+      xhr.onerror = () => reject(new Error('Failed to upload attachment: network error'));
+      xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+      signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+      xhr.send(form);
+    });
+  }
+
   /**
    * Send a chat message to the AI
    */
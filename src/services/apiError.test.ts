@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from './apiError';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    statusText: 'Status text',
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+describe('ApiError.fromResponse', () => {
+  it('maps statuses to codes and marks retryable ones', async () => {
+    const cases = await Promise.all([401, 403, 404, 409, 400, 422, 429, 408, 500, 501, 503].map(async status => {
+      const error = await ApiError.fromResponse(new Response(null, { status }));
+      return [status, error.code, error.retryable];
+    }));
+
+    expect(cases).toEqual([
+      [401, 'unauthorized', false],
+      [403, 'forbidden', false],
+      [404, 'not_found', false],
+      [409, 'conflict', false],
+      [400, 'validation', false],
+      [422, 'validation', false],
+      [429, 'rate_limited', true],
+      [408, 'http', true],
+      [500, 'server', true],
+      [501, 'server', false],
+      [503, 'server', true],
+    ]);
+  });
+
+  it('uses a string detail as the message', async () => {
+    const error = await ApiError.fromResponse(jsonResponse(409, { detail: 'Domain already registered' }));
+
+    expect(error.message).toBe('Domain already registered');
+    expect(error.status).toBe(409);
+    expect(error.detail).toBe('Domain already registered');
+  });
+
+  it('reads the message from an object detail or the error field', async () => {
+    expect((await ApiError.fromResponse(jsonResponse(400, { detail: { message: 'Bad plan' } }))).message).toBe('Bad plan');
+    expect((await ApiError.fromResponse(jsonResponse(400, { error: 'Missing token' }))).message).toBe('Missing token');
+  });
+
+  it('collects validation errors by field', async () => {
+    const error = await ApiError.fromResponse(jsonResponse(422, {
+      detail: [
+        { loc: ['body', 'email'], msg: 'Invalid email', type: 'value_error' },
+        { loc: ['body', 'website', 'url'], msg: 'Invalid URL', type: 'value_error' },
+        { loc: ['body', 'email'], msg: 'Second email error', type: 'value_error' },
+      ],
+    }));
+
+    expect(error.code).toBe('validation');
+    expect(error.fieldErrors).toEqual({ email: 'Invalid email', url: 'Invalid URL' });
+    expect(error.message).toBe('Validation failed');
+  });
+
+  it('uses the only field error as the message', async () => {
+    const error = await ApiError.fromResponse(jsonResponse(422, {
+      detail: [{ loc: ['body', 'name'], msg: 'Name is required' }],
+    }));
+
+    expect(error.message).toBe('Name is required');
+  });
+
+  it('falls back to a default message without a usable body', async () => {
+    expect((await ApiError.fromResponse(new Response('<html>', { status: 404 }))).message).toBe('Resource not found');
+    expect((await ApiError.fromResponse(new Response(null, { status: 502 }))).message).toBe('Server error: 502');
+    expect((await ApiError.fromResponse(new Response(null, { status: 418, statusText: "I'm a teapot" }))).message)
+      .toBe("Request failed: 418 I'm a teapot");
+  });
+
+  it('takes the request id from the headers, then the body', async () => {
+    const fromHeader = await ApiError.fromResponse(jsonResponse(500, { request_id: 'body-id' }, { 'X-Correlation-ID': 'header-id' }));
+    const fromBody = await ApiError.fromResponse(jsonResponse(500, { request_id: 'body-id' }));
+    const withoutId = await ApiError.fromResponse(jsonResponse(500, {}));
+
+    expect(fromHeader.requestId).toBe('header-id');
+    expect(fromBody.requestId).toBe('body-id');
+    expect(withoutId.requestId).toBeUndefined();
+  });
+});
+
+describe('ApiError.from', () => {
+  it('classifies thrown errors', () => {
+    expect(ApiError.from(new DOMException('Timed out', 'TimeoutError'))).toMatchObject({ code: 'timeout', retryable: true, status: 0 });
+    expect(ApiError.from(new DOMException('Aborted', 'AbortError'))).toMatchObject({ code: 'aborted', retryable: false });
+    expect(ApiError.from(new TypeError('Failed to fetch'))).toMatchObject({ code: 'network', retryable: true, message: 'Failed to fetch' });
+    expect(ApiError.from(new SyntaxError('Unexpected token'))).toMatchObject({ code: 'invalid_response' });
+    expect(ApiError.from(new Error('Something else'))).toMatchObject({ code: 'http', message: 'Something else' });
+    expect(ApiError.from('boom')).toMatchObject({ code: 'http', message: 'Request failed' });
+  });
+
+  it('passes ApiErrors through unchanged', () => {
+    const error = new ApiError({ message: 'Gone', status: 404, code: 'not_found' });
+
+    expect(ApiError.from(error)).toBe(error);
+  });
+});
+
+describe('ApiError.toPayload', () => {
+  it('keeps only serializable fields', () => {
+    const error = new ApiError({
+      message: 'Invalid email',
+      status: 422,
+      code: 'validation',
+      detail: [{ loc: ['body', 'email'], msg: 'Invalid email' }],
+      fieldErrors: { email: 'Invalid email' },
+      requestId: 'req-1',
+    });
+
+    expect(error.toPayload()).toEqual({
+      message: 'Invalid email',
+      status: 422,
+      code: 'validation',
+      fieldErrors: { email: 'Invalid email' },
+      requestId: 'req-1',
+    });
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ApiError');
+  });
+});
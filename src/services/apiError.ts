@@ -0,0 +1,205 @@
+/**
+ * API Error
+ *
+ * Structured error returned by CentralizedApiService on failed requests.
+ * Carries the HTTP status, a stable error code, the server `detail` payload
+ * (including per-field validation errors) and whether a retry can succeed.
+ */
+
+export type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'invalid_response'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'validation'
+  | 'rate_limited'
+  | 'server'
+  | 'http';
+
+/**
+ * Serializable subset of ApiError, safe to store in Redux action payloads
+ */
+export interface ApiErrorPayload {
+  message: string;
+  status: number;
+  code: ApiErrorCode;
+  /** Validation messages keyed by request field name */
+  fieldErrors: Record<string, string>;
+  requestId?: string;
+}
+
+interface ApiErrorInit {
+  message: string;
+  status?: number;
+  code: ApiErrorCode;
+  detail?: unknown;
+  fieldErrors?: Record<string, string>;
+  retryable?: boolean;
+  requestId?: string;
+}
+
+/** JSON error body as sent by the backend */
+interface ErrorBody {
+  detail?: unknown;
+  error?: unknown;
+  request_id?: string;
+}
+
+/** FastAPI-style validation entry: `{ loc: ['body', 'email'], msg, type }` */
+interface ValidationErrorItem {
+  loc?: Array<string | number>;
+  msg?: string;
+  type?: string;
+}
+
+const DEFAULT_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  unauthorized: 'Authentication required',
+  forbidden: 'Access forbidden',
+  not_found: 'Resource not found',
+  conflict: 'Resource already exists',
+  validation: 'Validation failed',
+  rate_limited: 'Too many requests',
+};
+
+const REQUEST_ID_HEADERS = ['X-Request-ID', 'X-Correlation-ID'];
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'http';
+};
+
+const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || (status >= 500 && status !== 501);
+
+/**
+ * Collect per-field messages from a 422 `detail` array
+ */
+const parseFieldErrors = (detail: unknown): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  if (!Array.isArray(detail)) return fieldErrors;
+
+  detail.forEach((item: ValidationErrorItem) => {
+    // The last string segment of `loc` is the field name ('body' is only the location)
+    const field = [...(item?.loc || [])].reverse().find(
+      (segment): segment is string => typeof segment === 'string' && segment !== 'body'
+    );
+    if (field && item.msg && !fieldErrors[field]) {
+      fieldErrors[field] = item.msg;
+    }
+  });
+
+  return fieldErrors;
+};
+
+export class ApiError extends Error {
+  /** HTTP status (0 when no response was received) */
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  /** Raw `detail` from the response body */
+  readonly detail: unknown;
+  /** Validation messages keyed by request field name */
+  readonly fieldErrors: Record<string, string>;
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean;
+  /** Server request id, for support and log correlation */
+  readonly requestId?: string;
+
+  constructor(init: ApiErrorInit) {
+    super(init.message);
+    this.name = 'ApiError';
+    this.status = init.status ?? 0;
+    this.code = init.code;
+    this.detail = init.detail;
+    this.fieldErrors = init.fieldErrors ?? {};
+    this.retryable = init.retryable ?? false;
+    this.requestId = init.requestId;
+  }
+
+  /**
+   * Build an error from a non-2xx response, reading the JSON body when present
+   */
+  static async fromResponse(response: Response): Promise<ApiError> {
+    let body: ErrorBody | null = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Empty or non-JSON error body
+    }
+
+    const code = codeForStatus(response.status);
+    const detail = body?.detail ?? body?.error;
+    const fieldErrors = parseFieldErrors(detail);
+    const firstFieldError = Object.values(fieldErrors)[0];
+
+    let message: string;
+    if (typeof detail === 'string') {
+      message = detail;
+    } else if (typeof (detail as { message?: unknown })?.message === 'string') {
+      message = (detail as { message: string }).message;
+    } else if (firstFieldError && Object.keys(fieldErrors).length === 1) {
+      message = firstFieldError;
+    } else {
+      message = DEFAULT_MESSAGES[code]
+        || (response.status >= 500 ? `Server error: ${response.status}` : `Request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const requestId = REQUEST_ID_HEADERS
+      .map(header => response.headers.get(header))
+      .find(Boolean) || body?.request_id;
+
+    return new ApiError({
+      message,
+      status: response.status,
+      code,
+      detail,
+      fieldErrors,
+      retryable: isRetryableStatus(response.status),
+      requestId: requestId || undefined,
+    });
+  }
+
+  /**
+   * Wrap anything thrown while sending a request or reading its body
+   */
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      return new ApiError({ message: 'Request timed out', code: 'timeout', retryable: true });
+    }
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return new ApiError({ message: 'Request aborted', code: 'aborted' });
+    }
+    if (error instanceof TypeError) {
+      return new ApiError({ message: error.message || 'Network error', code: 'network', retryable: true });
+    }
+    if (error instanceof SyntaxError) {
+      return new ApiError({ message: 'Invalid response from server', code: 'invalid_response' });
+    }
+
+    return new ApiError({
+      message: error instanceof Error ? error.message : 'Request failed',
+      code: 'http',
+    });
+  }
+
+  toPayload(): ApiErrorPayload {
+    return {
+      message: this.message,
+      status: this.status,
+      code: this.code,
+      fieldErrors: this.fieldErrors,
+      requestId: this.requestId,
+    };
+  }
+}
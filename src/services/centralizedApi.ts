@@ -5,11 +5,19 @@
  * - Consolidates duplicate fetch calls across Dashboard.tsx and Websites.tsx
  * - Provides automatic auth header injection
  * - Implements request deduplication
+ * - Stale-while-revalidate caching with tag-based invalidation (see queryCache)
  * - Centralized error handling
  * - Configurable base URL
  */
 
 import { config } from '../config/env';
+import type { BusinessHours, CrawlJobProgress, FeedbackReason, Lead, LocalizedWidgetText, MessageAttachment, ProactiveTrigger, SourceCitation, WidgetExperiment } from '../types/api';
+import { ApiError } from './apiError';
+import { QueryCache, cacheTags, type CacheListener, type CacheOptions } from './queryCache';
+
+export { ApiError, cacheTags };
+export type { ApiErrorCode, ApiErrorPayload } from './apiError';
+export type { CacheListener } from './queryCache';
 
 export interface ApiConfig {
   baseUrl: string;
@@ -23,10 +31,32 @@ export interface ApiResponse<T = any> {
   data: T;
   success: boolean;
   message?: string;
+  /** True when the caller cancelled the request via its AbortSignal */
+  aborted?: boolean;
+  /** Details of the failure when success is false */
+  error?: ApiError;
+}
+
+/**
+ * Per-call options accepted by every public request method
+ */
+export interface ApiCallOptions {
+  /** Cancels the request when aborted (combined with the configured timeout) */
+  signal?: AbortSignal;
+  /** Leave failures to the caller instead of showing an error toast */
+  suppressErrorNotifications?: boolean;
+}
+
+interface PendingRequest {
+  promise: Promise<ApiResponse<any>>;
+  controller: AbortController;
+  subscribers: number;
 }
 
 interface RequestOptions extends RequestInit {
   suppressErrorNotifications?: boolean;
+  /** How to read the response body (default: json) */
+  responseType?: 'json' | 'blob';
 }
 
 export interface Website {
@@ -122,6 +152,428 @@ export interface FirstPageStatus {
   failure_info?: FailureInfo;
 }
 
+// ==================== ANALYTICS API INTERFACES ====================
+
+export interface AnalyticsPeriod {
+  days: number;
+  start_date: string;
+  end_date: string;
+}
+
+export interface AnalyticsOverview {
+  website_id: string;
+  analysis_period: AnalyticsPeriod & {
+    analyzed_conversations: number;
+  };
+  key_metrics: {
+    total_conversations: number;
+    total_messages: number;
+    unique_visitors: number;
+    avg_conversation_length: number;
+    avg_messages_per_conversation: number;
+    total_conversation_duration_hours: number;
+  };
+  engagement_summary: {
+    engagement_score: number;
+    response_rate: number;
+    conversation_completion_rate: number;
+    avg_response_time_seconds: number;
+  };
+  quality_indicators: {
+    overall_quality_score: number;
+    coherence_score: number;
+    satisfaction_score: number;
+    issue_resolution_rate: number;
+  };
+  trends: Record<string, any>;
+  insights: string[];
+  generated_at: string;
+  processing_time_ms: number;
+}
+
+export interface SessionAnalytics {
+  website_id: string;
+  analysis_period: AnalyticsPeriod;
+  session_metrics: {
+    total_sessions: number;
+    active_sessions: number;
+    expired_sessions: number;
+    avg_session_duration_minutes: number;
+    sessions_per_day: number;
+    session_continuation_rate: number;
+  };
+  conversation_session_mapping: {
+    conversations_with_sessions: number;
+    multi_session_conversations: number;
+    avg_conversations_per_session: number;
+  };
+  context_optimization: {
+    sessions_with_context_optimization: number;
+    avg_context_tokens_saved: number;
+    optimization_success_rate: number;
+  };
+}
+
+export interface ThreadAnalytics {
+  website_id: string;
+  analysis_period: AnalyticsPeriod;
+  thread_metrics: {
+    total_threads: number;
+    active_threads: number;
+    avg_thread_length: number;
+    avg_conversations_per_thread: number;
+    thread_continuation_rate: number;
+  };
+  topic_analysis: Record<string, number>;
+  visitor_journey: {
+    multi_session_visitors: number;
+    avg_sessions_per_visitor: number;
+    visitor_return_rate: number;
+  };
+  thread_health: {
+    coherent_threads: number;
+    broken_threads: number;
+    avg_coherence_score: number;
+  };
+  thread_details?: Array<{
+    thread_id: string;
+    topic: string;
+    conversations_count: number;
+    total_messages: number;
+    start_date: string;
+    last_activity: string;
+    coherence_score: number;
+    visitor_id: string;
+  }>;
+}
+
+export interface PerformanceAnalytics {
+  website_id: string;
+  analysis_period: AnalyticsPeriod;
+  response_performance: {
+    avg_response_time_ms: number;
+    median_response_time_ms: number;
+    p95_response_time_ms: number;
+    slow_responses_count: number;
+    response_time_trend: string;
+  };
+  context_optimization: {
+    avg_context_preparation_time_ms: number;
+    context_optimization_success_rate: number;
+    avg_tokens_optimized: number;
+    compression_ratio: number;
+  };
+  system_health: {
+    error_rate: number;
+    timeout_rate: number;
+    cache_hit_rate: number;
+    system_status: string;
+  };
+  resource_usage: {
+    avg_memory_usage_mb: number;
+    peak_concurrent_conversations: number;
+    database_query_performance: number;
+  };
+}
+
+export interface AnalyticsActionItem {
+  title: string;
+  description: string;
+  impact: string;
+  effort: string;
+}
+
+export interface AnalyticsBenchmark {
+  score: number;
+  comparison: string;
+}
+
+export interface AnalyticsInsightsReport {
+  website_id: string;
+  analysis_period: AnalyticsPeriod;
+  insights: {
+    conversation_patterns: string[];
+    user_behavior_insights: string[];
+    performance_recommendations: string[];
+    content_optimization_suggestions: string[];
+    engagement_improvement_tips: string[];
+  };
+  action_items: {
+    high_priority: AnalyticsActionItem[];
+    medium_priority: AnalyticsActionItem[];
+    low_priority: AnalyticsActionItem[];
+  };
+  trends_analysis: {
+    positive_trends: string[];
+    concerning_trends: string[];
+    neutral_trends: string[];
+  };
+  benchmarking: {
+    performance_vs_average: AnalyticsBenchmark;
+    engagement_vs_average: AnalyticsBenchmark;
+    quality_vs_average: AnalyticsBenchmark;
+  };
+  generated_at: string;
+  insight_confidence: number;
+}
+
+export interface AnalyticsExport {
+  download_info?: {
+    download_url: string;
+    expires_at?: string;
+  };
+  [key: string]: unknown;
+}
+
+/** Counts per A/B test variant; rates are derived from impressions */
+export interface ExperimentVariantResult {
+  variant_id: string;
+  name: string;
+  weight: number;
+  /** Page views on which the variant was shown */
+  impressions: number;
+  opens: number;
+  conversations: number;
+  /** Rated conversations, and how many of them were rated positively */
+  satisfaction_responses: number;
+  satisfied_responses: number;
+}
+
+export interface ExperimentResults {
+  experiment_id: string;
+  name: string;
+  enabled: boolean;
+  started_at?: string;
+  /** Control first, in the configured order */
+  variants: ExperimentVariantResult[];
+}
+
+/** An assistant reply visitors rated unhelpful, with the conversation it came from */
+export interface RatedAnswer {
+  message_id: string;
+  session_token: string;
+  /** Visitor message the reply answered */
+  question?: string;
+  answer: string;
+  helpful_count: number;
+  unhelpful_count: number;
+  /** Unhelpful ratings per reason the visitor picked */
+  reasons: Partial<Record<FeedbackReason, number>>;
+  last_rated_at: string;
+}
+
+export interface AnswerFeedbackSummary {
+  helpful_count: number;
+  unhelpful_count: number;
+  /** Most unhelpful ratings first */
+  worst_answers: RatedAnswer[];
+}
+
+// ==================== SESSION API INTERFACES ====================
+
+export interface SessionHistoryMessage {
+  id: string;
+  content: string;
+  message_type: string;
+  created_at: string;
+  /** Files the visitor sent with the message */
+  attachments?: MessageAttachment[];
+}
+
+export interface SessionHistoryData {
+  session_token: string;
+  session_info: {
+    visitor_id: string;
+    website_id: string;
+    created_at: string;
+    expires_at: string;
+    is_active: boolean;
+  };
+  history: Array<{
+    conversation_id: string;
+    created_at: string;
+    updated_at: string;
+    message_count: number;
+    messages?: SessionHistoryMessage[];
+  }>;
+  pagination: {
+    current_page: number;
+    page_size: number;
+    total_items: number;
+    total_pages: number;
+    has_next: boolean;
+    has_previous: boolean;
+  };
+}
+
+export interface SessionHistoryParams {
+  page?: number;
+  pageSize?: number;
+  includeMessages?: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface SessionTransfer {
+  transfer_id: string;
+  transfer_token: string;
+  transfer_link: string;
+  transfer_type: string;
+  access_level: string;
+  expires_at: string;
+  recipient_email?: string;
+  notes?: string;
+  session_info: {
+    session_token: string;
+    visitor_id: string;
+    website_id: string;
+  };
+}
+
+export interface SessionTransferRequest {
+  session_token: string;
+  transfer_type: string;
+  recipient_email?: string;
+  access_level: string;
+  expires_in_hours: number;
+  notes?: string;
+}
+
+export interface CustomerServiceHandoffRequest {
+  session_token: string;
+  agent_id: string;
+  priority: string;
+  issue_description: string;
+}
+
+// ==================== CRAWL API INTERFACES ====================
+
+export interface CrawlingJob {
+  job_id: string;
+  website_id: string;
+  website_name?: string;
+  base_url: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface CrawlingJobsParams {
+  limit?: number;
+  websiteId?: string;
+  /** Only pending and running jobs */
+  activeOnly?: boolean;
+}
+
+/** Envelope wrapped around most crawl endpoint responses */
+interface CrawlEnvelope<T> {
+  success: boolean;
+  data?: T;
+  detail?: string;
+  error?: string;
+}
+
+export type CrawlTaskStatus = Record<string, unknown>;
+
+export interface CrawlHistoryEntry {
+  crawl_id: string;
+  started_at: string;
+  completed_at?: string;
+  status: 'pending' | 'running' | 'completed' | 'success' | 'failed' | 'cancelled';
+  pages_crawled: number;
+  trigger_type: 'manual' | 'scheduled';
+  error_message?: string;
+}
+
+export interface CrawlHistory {
+  history: CrawlHistoryEntry[];
+  total: number;
+  has_more: boolean;
+}
+
+// ==================== WIDGET CONFIG API INTERFACES ====================
+
+/**
+ * Widget appearance, messages and branding, as edited in ScriptGenerator
+ */
+export interface WidgetConfiguration {
+  widget_color: string;
+  widget_position: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+  widget_size: 'small' | 'medium' | 'large';
+  widget_theme: 'light' | 'dark' | 'auto';
+  show_avatar: boolean;
+  enable_sound: boolean;
+  auto_open_delay?: number;
+  show_online_status: boolean;
+  welcome_message: string;
+  placeholder_text: string;
+  offline_message: string;
+  thanks_message: string;
+  show_branding: boolean;
+  custom_logo_url?: string;
+  company_name: string;
+  support_email?: string;
+  custom_css?: string;
+  font_family?: string;
+  border_radius: number;
+  chatbot_name?: string;
+  ai_logo_url?: string;
+  button_logo_url?: string;
+  ai_avatar_url?: string;
+  user_avatar_url?: string;
+  triggers?: ProactiveTrigger[];
+  /** When absent or disabled the widget is always online */
+  business_hours?: BusinessHours;
+  /** Locale of the base texts above */
+  default_locale?: string;
+  /** Per-locale overrides keyed by locale, e.g. { de: {...}, 'pt-BR': {...} } */
+  translations?: Record<string, LocalizedWidgetText>;
+  /** Pick the locale from the page's lang attribute and the browser languages */
+  auto_detect_locale?: boolean;
+  /** A/B test splitting visitors between variants of this configuration */
+  experiment?: WidgetExperiment;
+  /** Idle minutes a conversation follows the visitor across pages (default 30); 0 disables resuming */
+  session_ttl_minutes?: number;
+}
+
+export interface WidgetConfigVersion {
+  version: number;
+  status: 'draft' | 'published' | 'archived';
+  config: WidgetConfiguration;
+  created_at: string;
+  created_by?: string;
+  published_at?: string | null;
+  note?: string;
+  /** Set on versions created by a rollback */
+  restored_from?: number | null;
+}
+
+/**
+ * Saved widget configuration of a website. The embed snippet only carries
+ * `widget_id`; the widget loads the published version at runtime.
+ */
+export interface WidgetConfigRecord {
+  widget_id: string;
+  website_id: string;
+  draft: WidgetConfigVersion | null;
+  published: WidgetConfigVersion | null;
+}
+
+// ==================== LEADS API INTERFACES ====================
+
+export interface LeadsParams {
+  page?: number;
+  pageSize?: number;
+  status?: Lead['status'];
+}
+
+export interface LeadsPage {
+  leads: Lead[];
+  total: number;
+  has_more: boolean;
+}
+
 // ==================== DEMO API INTERFACES ====================
 
 export interface DemoInitRequest {
@@ -158,13 +610,43 @@ export interface DemoChatRequest {
 export interface DemoChatResponse {
   response: string;
   sources_used: number;
+  /** Pages the answer was based on */
+  sources?: Array<string | SourceCitation>;
   demo_only: boolean;
 }
 
+/**
+ * Response returned for requests cancelled by the caller
+ */
+const abortedResponse = <T>(): ApiResponse<T> => ({
+  data: null as T,
+  success: false,
+  message: 'Request aborted',
+  aborted: true,
+  error: new ApiError({ message: 'Request aborted', code: 'aborted' })
+});
+
+/**
+ * Combine an optional caller signal with the request timeout
+ */
+const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number): AbortSignal => {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  if (!signal) return timeout;
+  if (typeof AbortSignal.any === 'function') {
+    return AbortSignal.any([signal, timeout]);
+  }
+
+  const controller = new AbortController();
+  const abort = (source: AbortSignal) => () => controller.abort(source.reason);
+  signal.addEventListener('abort', abort(signal), { once: true });
+  timeout.addEventListener('abort', abort(timeout), { once: true });
+  return controller.signal;
+};
+
 class CentralizedApiService {
   private config: ApiConfig;
-  private pendingRequests: Map<string, Promise<any>> = new Map();
-  private requestCache: Map<string, { data: any; timestamp: number; ttl: number }> = new Map();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private queryCache = new QueryCache();
   private refreshingToken: boolean = false;
   private tokenRefreshQueue: Array<{resolve: Function, reject: Function}> = [];
 
@@ -230,64 +712,130 @@ class CentralizedApiService {
     return `${method}:${url}:${body}`;
   }
 
-  /**
-   * Check if cached response is still valid
-   */
-  private getCachedResponse<T>(cacheKey: string): T | null {
-    const cached = this.requestCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < cached.ttl) {
-      return cached.data as T;
-    }
-    this.requestCache.delete(cacheKey);
-    return null;
-  }
-
-  /**
-   * Cache response with TTL
-   */
-  private setCachedResponse(cacheKey: string, data: any, ttlMs: number = 300000): void {
-    this.requestCache.set(cacheKey, {
-      data,
-      timestamp: Date.now(),
-      ttl: ttlMs
-    });
-  }
-
   /**
    * Request with deduplication, caching, and retry logic
    */
   private async request<T = any>(
     endpoint: string,
     options: RequestOptions = {},
-    cacheTtl: number = 0
+    cache: CacheOptions = {}
   ): Promise<ApiResponse<T>> {
-    const { suppressErrorNotifications = false, ...requestOptions } = options;
+    const { suppressErrorNotifications = false, responseType = 'json', signal, ...requestOptions } = options;
     const url = `${this.config.baseUrl}${endpoint}`;
     const cacheKey = this.getCacheKey(url, options);
 
-    // Check cache first for GET requests
-    if ((!options.method || options.method === 'GET') && cacheTtl > 0) {
-      const cached = this.getCachedResponse<ApiResponse<T>>(cacheKey);
+    if (signal?.aborted) {
+      return abortedResponse<T>();
+    }
+
+    const { ttl = 0, tags = [] } = cache;
+    const cacheable = (!options.method || options.method === 'GET') && ttl > 0;
+
+    // Serve cached GET responses; stale ones are revalidated in the background
+    if (cacheable) {
+      const cached = this.queryCache.read<ApiResponse<T>>(cacheKey);
       if (cached) {
-        return cached;
+        if (cached.stale) {
+          this.queryCache.revalidate(cacheKey);
+        }
+        return cached.data;
       }
     }
 
-    // Check for pending request (deduplication)
-    if (this.pendingRequests.has(cacheKey)) {
-      return this.pendingRequests.get(cacheKey);
+    const pending = this.startRequest<T>(
+      cacheKey, url, requestOptions, suppressErrorNotifications, responseType,
+      cacheable ? { ttl, tags } : null
+    );
+    return this.subscribe<T>(cacheKey, pending, signal);
+  }
+
+  /**
+   * Join a pending identical request (deduplication) or start a new one.
+   * Successful responses of cacheable requests are written to the query cache.
+   */
+  private startRequest<T>(
+    cacheKey: string,
+    url: string,
+    requestOptions: RequestInit,
+    suppressErrorNotifications: boolean,
+    responseType: 'json' | 'blob',
+    cache: Required<CacheOptions> | null
+  ): PendingRequest {
+    const existing = this.pendingRequests.get(cacheKey);
+    if (existing) {
+      return existing;
     }
 
-    // Create new request
-    const requestPromise = this.executeRequest<T>(url, requestOptions, cacheKey, cacheTtl, suppressErrorNotifications);
-    this.pendingRequests.set(cacheKey, requestPromise);
+    const controller = new AbortController();
+    const pending: PendingRequest = {
+      promise: this.executeRequest<T>(url, requestOptions, suppressErrorNotifications, responseType, controller.signal)
+        .then((result) => {
+          if (cache && result.success) {
+            this.queryCache.write(cacheKey, result, cache.ttl, cache.tags, () =>
+              this.revalidateRequest(cacheKey, url, requestOptions, responseType, cache)
+            );
+          }
+          return result;
+        }),
+      controller,
+      subscribers: 0
+    };
+
+    this.pendingRequests.set(cacheKey, pending);
+    pending.promise.finally(() => {
+      if (this.pendingRequests.get(cacheKey) === pending) {
+        this.pendingRequests.delete(cacheKey);
+      }
+    });
 
-    try {
-      const result = await requestPromise;
-      return result;
-    } finally {
-      this.pendingRequests.delete(cacheKey);
+    return pending;
+  }
+
+  /**
+   * Refetch a cached query in the background. Failures are not toasted and
+   * leave the cached data in place; resolves with null in that case.
+   */
+  private async revalidateRequest(
+    cacheKey: string,
+    url: string,
+    requestOptions: RequestInit,
+    responseType: 'json' | 'blob',
+    cache: Required<CacheOptions>
+  ): Promise<ApiResponse<unknown> | null> {
+    const pending = this.startRequest<unknown>(cacheKey, url, requestOptions, true, responseType, cache);
+    const result = await this.subscribe<unknown>(cacheKey, pending);
+    return result.success ? result : null;
+  }
+
+  /**
+   * Wait for a shared request; the underlying fetch is cancelled only once
+   * every subscriber has aborted
+   */
+  private subscribe<T>(cacheKey: string, pending: PendingRequest, signal?: AbortSignal): Promise<ApiResponse<T>> {
+    pending.subscribers++;
+
+    if (!signal) {
+      return pending.promise;
     }
+
+    return new Promise<ApiResponse<T>>((resolve) => {
+      const onAbort = () => {
+        pending.subscribers--;
+        if (pending.subscribers === 0) {
+          pending.controller.abort();
+          if (this.pendingRequests.get(cacheKey) === pending) {
+            this.pendingRequests.delete(cacheKey);
+          }
+        }
+        resolve(abortedResponse<T>());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      pending.promise.then((result) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      });
+    });
   }
 
   /**
@@ -296,25 +844,28 @@ class CentralizedApiService {
   private async executeRequest<T>(
     url: string,
     options: RequestInit,
-    cacheKey: string,
-    cacheTtl: number,
-    suppressErrorNotifications: boolean = false
+    suppressErrorNotifications: boolean = false,
+    responseType: 'json' | 'blob' = 'json',
+    abortSignal?: AbortSignal
   ): Promise<ApiResponse<T>> {
-    let lastError: Error;
+    let lastError: ApiError;
 
     for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
+      if (abortSignal?.aborted) {
+        return abortedResponse<T>();
+      }
+
       try {
         // Refresh headers on each attempt (in case token was refreshed)
         const requestOptions: RequestInit = {
           ...options,
           headers: this.getHeaders(options.headers as Record<string, string>),
-          signal: AbortSignal.timeout(this.config.timeout)
+          signal: withTimeout(abortSignal, this.config.timeout)
         };
 
         const response = await fetch(url, requestOptions);
 
         if (!response.ok) {
-          // Handle specific HTTP errors with detailed error handling
           if (response.status === 401 || response.status === 403) {
             // Try to refresh token first
             const refreshSuccess = await this.handleTokenRefresh();
@@ -323,105 +874,30 @@ class CentralizedApiService {
               // Retry the request with new token (only once)
               continue;
             }
-
-            // If refresh failed or this is a retry, handle as authentication error
-            // Note: No error notifications here - handleTokenRefresh() and handleTokenExpiration() handle user redirects
-            if (response.status === 401) {
-              throw new Error('Authentication required');
-            } else {
-              throw new Error('Access forbidden');
-            }
-          }
-
-          if (response.status === 404) {
-            if (!suppressErrorNotifications) {
-              this.dispatchErrorNotification('error', 'Resource Not Found', 'The requested resource could not be found.');
-            }
-            throw new Error('Resource not found');
-          }
-
-          if (response.status === 409) {
-            // Handle conflict errors (e.g., duplicate resources)
-            try {
-              const errorData = await response.json();
-              const message = errorData.detail || 'Resource already exists';
-              if (!suppressErrorNotifications) {
-                this.dispatchErrorNotification('error', 'Conflict', message);
-              }
-              throw new Error(message);
-            } catch (error) {
-              const message = 'This resource already exists.';
-              if (!suppressErrorNotifications) {
-                this.dispatchErrorNotification('error', 'Conflict', message);
-              }
-              throw new Error('Resource conflict');
-            }
-          }
-
-          if (response.status === 422) {
-            // Try to get validation errors from response
-            try {
-              const errorData = await response.json();
-              const message = errorData.detail || 'Validation failed';
-              if (!suppressErrorNotifications) {
-                this.dispatchErrorNotification('validation', 'Validation Error', message);
-              }
-            } catch {
-              if (!suppressErrorNotifications) {
-                this.dispatchErrorNotification('validation', 'Validation Error', 'Please check your input and try again.');
-              }
-            }
-            throw new Error('Validation failed');
-          }
-
-          if (response.status >= 500) {
-            if (!suppressErrorNotifications) {
-              this.dispatchErrorNotification('error', 'Server Error', 'A server error occurred. Please try again later.');
-            }
-            throw new Error(`Server error: ${response.status}`);
           }
 
-          if (!suppressErrorNotifications) {
-            this.dispatchErrorNotification('error', 'Request Failed', `Request failed with status ${response.status}`);
-          }
-          throw new Error(`Request failed: ${response.status} ${response.statusText}`);
+          throw await ApiError.fromResponse(response);
         }
 
-        const data = await response.json();
-        const result: ApiResponse<T> = {
+        let data = null;
+        if (response.status !== 204) {
+          data = responseType === 'blob' ? await response.blob() : await response.json();
+        }
+        return {
           data,
           success: true
         };
 
-        // Cache successful GET requests
-        if ((!options.method || options.method === 'GET') && cacheTtl > 0) {
-          this.setCachedResponse(cacheKey, result, cacheTtl);
-        }
-
-        return result;
-
       } catch (error) {
-        lastError = error as Error;
-
-        // Handle network errors
-        if (!suppressErrorNotifications && error instanceof TypeError && error.message.includes('fetch')) {
-          this.dispatchErrorNotification('network', 'Network Error', 'Please check your internet connection and try again.');
+        // Cancelled by the caller: no retries and no notifications
+        if (abortSignal?.aborted) {
+          return abortedResponse<T>();
         }
 
-        // Handle timeout errors
-        if (!suppressErrorNotifications && error instanceof DOMException && error.name === 'TimeoutError') {
-          this.dispatchErrorNotification('error', 'Request Timeout', 'The request took too long. Please try again.');
-        }
+        lastError = ApiError.from(error);
 
-        // Don't retry on auth errors or client errors (4xx status codes)
-        if (error instanceof Error &&
-            (error.message.includes('Authentication') ||
-             error.message.includes('forbidden') ||
-             error.message.includes('not found') ||
-             error.message.includes('Validation') ||
-             error.message.includes('Resource conflict') ||
-             error.message.includes('already exists') ||
-             error.message.includes('Conflict'))) {
+        // Client errors (auth, validation, conflicts...) fail the same way every time
+        if (!lastError.retryable) {
           break;
         }
 
@@ -432,21 +908,55 @@ class CentralizedApiService {
       }
     }
 
-    // Final error notification if all retries failed
-    if (!suppressErrorNotifications && lastError && !lastError.message.includes('Authentication') &&
-        !lastError.message.includes('forbidden') &&
-        !lastError.message.includes('not found') &&
-        !lastError.message.includes('Validation')) {
-      this.dispatchErrorNotification('error', 'Request Failed', lastError.message);
+    if (abortSignal?.aborted) {
+      return abortedResponse<T>();
+    }
+
+    if (!suppressErrorNotifications) {
+      this.notifyError(lastError);
     }
 
     return {
       data: null as T,
       success: false,
-      message: lastError.message
+      message: lastError.message,
+      error: lastError
     };
   }
 
+  /**
+   * Show a single notification for a request that finally failed
+   */
+  private notifyError(error: ApiError): void {
+    switch (error.code) {
+      case 'unauthorized':
+      case 'forbidden':
+      case 'aborted':
+        // handleTokenRefresh() and handleTokenExpiration() handle user redirects
+        return;
+      case 'not_found':
+        this.dispatchErrorNotification('error', 'Resource Not Found', 'The requested resource could not be found.');
+        return;
+      case 'conflict':
+        this.dispatchErrorNotification('error', 'Conflict', error.message);
+        return;
+      case 'validation':
+        this.dispatchErrorNotification('validation', 'Validation Error', error.message);
+        return;
+      case 'server':
+        this.dispatchErrorNotification('error', 'Server Error', 'A server error occurred. Please try again later.');
+        return;
+      case 'network':
+        this.dispatchErrorNotification('network', 'Network Error', 'Please check your internet connection and try again.');
+        return;
+      case 'timeout':
+        this.dispatchErrorNotification('error', 'Request Timeout', 'The request took too long. Please try again.');
+        return;
+      default:
+        this.dispatchErrorNotification('error', 'Request Failed', error.message);
+    }
+  }
+
   /**
    * Handle automatic token refresh on 401/403 errors
    */
@@ -524,11 +1034,37 @@ class CentralizedApiService {
     }));
   }
 
+  /**
+   * Unwrap `{ success, data, detail }` envelopes returned by the crawl endpoints
+   */
+  private unwrapEnvelope<T>(response: ApiResponse<CrawlEnvelope<T>>, fallbackMessage: string): ApiResponse<T> {
+    if (response.success && response.data?.success) {
+      return {
+        success: true,
+        data: response.data.data
+      };
+    }
+
+    const message = response.data?.detail || response.data?.error || response.message || fallbackMessage;
+    // HTTP errors were already notified by executeRequest
+    if (response.success) {
+      this.dispatchErrorNotification('error', 'Request Failed', message);
+    }
+
+    return {
+      success: false,
+      data: null as T,
+      message,
+      error: response.error
+    };
+  }
+
   /**
    * Clear all caches
    */
   clearCache(): void {
-    this.requestCache.clear();
+    this.queryCache.clear();
+    this.pendingRequests.forEach(pending => pending.controller.abort());
     this.pendingRequests.clear();
   }
 
@@ -538,8 +1074,11 @@ class CentralizedApiService {
   /**
    * Get websites with comprehensive metrics and pagination (replaces overview + websites APIs)
    */
-  async getWebsitesWithMetrics(page: number = 1, limit: number = 10): Promise<ApiResponse<WebsitesWithMetricsResponse>> {
-    const response = await this.request<any>(`/api/v1/dashboard/websites?page=${page}&limit=${limit}`, {}, 60000); // 1 minute cache
+  async getWebsitesWithMetrics(page: number = 1, limit: number = 10, options: ApiCallOptions = {}): Promise<ApiResponse<WebsitesWithMetricsResponse>> {
+    const response = await this.request<any>(`/api/v1/dashboard/websites?page=${page}&limit=${limit}`, options, {
+      ttl: 60000, // 1 minute
+      tags: [cacheTags.websites]
+    });
 
     if (response.success && response.data?.status === 'success') {
       return {
@@ -551,6 +1090,7 @@ class CentralizedApiService {
     return {
       success: false,
       message: response.data?.error || response.message || 'Failed to fetch websites with metrics',
+      error: response.error,
       data: { websites: [], pagination: { current_page: 1, per_page: 10, total_items: 0, total_pages: 0, has_next_page: false, has_prev_page: false }, metrics: { total_websites: 0, active_websites: 0, inactive_websites: 0, total_conversations: 0, total_pages_crawled: 0, active_crawls: 0, websites_created_this_month: 0 } }
     };
   }
@@ -558,8 +1098,8 @@ class CentralizedApiService {
   /**
    * Get all websites (for backward compatibility)
    */
-  async getAllWebsites(): Promise<ApiResponse<Website[]>> {
-    const response = await this.getWebsitesWithMetrics(1, 1000); // Get up to 1000 websites
+  async getAllWebsites(options: ApiCallOptions = {}): Promise<ApiResponse<Website[]>> {
+    const response = await this.getWebsitesWithMetrics(1, 1000, options); // Get up to 1000 websites
     if (response.success) {
       return {
         ...response,
@@ -572,8 +1112,8 @@ class CentralizedApiService {
   /**
    * Get dashboard metrics only (extracted from websites API)
    */
-  async getDashboardMetrics(): Promise<ApiResponse<DashboardMetrics>> {
-    const response = await this.getWebsitesWithMetrics(1, 1); // Just get first page for metrics
+  async getDashboardMetrics(options: ApiCallOptions = {}): Promise<ApiResponse<DashboardMetrics>> {
+    const response = await this.getWebsitesWithMetrics(1, 1, options); // Just get first page for metrics
     if (response.success) {
       return {
         ...response,
@@ -586,8 +1126,8 @@ class CentralizedApiService {
   /**
    * @deprecated Use getDashboardMetrics() instead
    */
-  async getDashboardOverview(): Promise<ApiResponse<DashboardOverview>> {
-    const response = await this.getDashboardMetrics();
+  async getDashboardOverview(options: ApiCallOptions = {}): Promise<ApiResponse<DashboardOverview>> {
+    const response = await this.getDashboardMetrics(options);
     if (response.success) {
       // Map new format to old format for backward compatibility
       return {
@@ -606,8 +1146,11 @@ class CentralizedApiService {
   /**
    * Get chat statistics (Dashboard.tsx:109)
    */
-  async getChatStats(period: string = '30d'): Promise<ApiResponse<ChatStats>> {
-    return this.request<ChatStats>(`/api/v1/dashboard/chat-stats?period=${period}`, {}, 60000);
+  async getChatStats(period: string = '30d', options: ApiCallOptions = {}): Promise<ApiResponse<ChatStats>> {
+    return this.request<ChatStats>(`/api/v1/dashboard/chat-stats?period=${period}`, options, {
+      ttl: 60000,
+      tags: [cacheTags.websites]
+    });
   }
 
   /**
@@ -622,15 +1165,18 @@ class CentralizedApiService {
     scrapingFrequency: string;
     maxPages: number;
     features: string[];
-  }): Promise<ApiResponse<{ website: Website; message: string }>> {
+  }, options: ApiCallOptions = {}): Promise<ApiResponse<{ website: Website; message: string }>> {
     const result = await this.request<{ website: Website; message: string }>('/api/v1/onboarding/register', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(websiteData),
       suppressErrorNotifications: true
     });
 
-    // No need to invalidate cache since we'll add the website directly to state
-    // Cache will naturally expire or be invalidated on next fetch if needed
+    // The new website must show up in cached website lists
+    if (result.success) {
+      this.invalidateTags([cacheTags.websites]);
+    }
 
     return result;
   }
@@ -638,14 +1184,19 @@ class CentralizedApiService {
   /**
    * Delete website (replaces duplicate calls in Dashboard.tsx:220 and Websites.tsx:175)
    */
-  async deleteWebsite(websiteId: string): Promise<ApiResponse<void>> {
+  async deleteWebsite(websiteId: string, options: ApiCallOptions = {}): Promise<ApiResponse<void>> {
     const result = await this.request<void>(`/api/v1/websites/${websiteId}`, {
+      ...options,
       method: 'DELETE'
     });
 
-    // Invalidate website cache on successful delete
     if (result.success) {
-      this.invalidateWebsiteCache();
+      this.invalidateTags([
+        cacheTags.websites,
+        cacheTags.website(websiteId),
+        cacheTags.analytics(websiteId),
+        cacheTags.crawl(websiteId)
+      ]);
     }
 
     return result;
@@ -654,22 +1205,26 @@ class CentralizedApiService {
   /**
    * Get website crawl status
    */
-  async getWebsiteCrawlStatus(websiteId: string): Promise<ApiResponse<CrawlStatus>> {
-    return this.request<CrawlStatus>(`/api/v1/crawl/website/${websiteId}/status`, {}, 10000); // 10 second cache
+  async getWebsiteCrawlStatus(websiteId: string, options: ApiCallOptions = {}): Promise<ApiResponse<CrawlStatus>> {
+    return this.request<CrawlStatus>(`/api/v1/crawl/website/${websiteId}/status`, options, {
+      ttl: 10000, // 10 seconds
+      tags: [cacheTags.website(websiteId), cacheTags.crawl(websiteId)]
+    });
   }
 
   /**
    * Get first page crawl status (for instant testing)
    */
-  async getFirstPageStatus(websiteId: string): Promise<ApiResponse<FirstPageStatus>> {
-    return this.request<FirstPageStatus>(`/api/v1/websites/${websiteId}/first-page-status`, {}, 0); // No cache for status polling
+  async getFirstPageStatus(websiteId: string, options: ApiCallOptions = {}): Promise<ApiResponse<FirstPageStatus>> {
+    return this.request<FirstPageStatus>(`/api/v1/websites/${websiteId}/first-page-status`, options); // No cache for status polling
   }
 
   /**
    * Retry failed first page crawl
    */
-  async retryFirstPage(websiteId: string): Promise<ApiResponse<{ status: string; message: string }>> {
+  async retryFirstPage(websiteId: string, options: ApiCallOptions = {}): Promise<ApiResponse<{ status: string; message: string }>> {
     return this.request<{ status: string; message: string }>(`/api/v1/websites/${websiteId}/retry-first-page`, {
+      ...options,
       method: 'POST'
     });
   }
@@ -680,11 +1235,13 @@ class CentralizedApiService {
   async chatWithFirstPage(
     websiteId: string,
     message: string,
-    sessionId: string = 'test-session'
+    sessionId: string = 'test-session',
+    options: ApiCallOptions = {}
   ): Promise<ApiResponse<{ response: string; sources_used: number; first_page_only: boolean }>> {
     return this.request<{ response: string; sources_used: number; first_page_only: boolean }>(
       `/api/v1/chat/first-page/${websiteId}`,
       {
+        ...options,
         method: 'POST',
         body: JSON.stringify({
           session_id: sessionId,
@@ -697,38 +1254,389 @@ class CentralizedApiService {
   /**
    * Trigger manual crawl
    */
-  async triggerCrawl(websiteId: string, maxPages?: number): Promise<ApiResponse<{ task_id: string }>> {
+  async triggerCrawl(websiteId: string, maxPages?: number, maxDepth?: number, options: ApiCallOptions = {}): Promise<ApiResponse<{ task_id: string }>> {
     const result = await this.request<{ task_id: string }>('/api/v1/crawl/trigger', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({
         website_id: websiteId,
-        max_pages: maxPages || 10
+        max_pages: maxPages || 10,
+        ...(maxDepth ? { max_depth: maxDepth } : {})
       })
     });
 
-    // Invalidate caches on successful crawl trigger
+    // Crawl status, page counts and analytics all change once a crawl starts
     if (result.success) {
-      this.invalidateWebsiteCache();
-      this.invalidateAnalyticsCache(websiteId);
+      this.invalidateTags([cacheTags.websites, cacheTags.crawl(websiteId), cacheTags.analytics(websiteId)]);
     }
 
     return result;
   }
 
+  // ==================== CRAWL JOB API METHODS ====================
+
+  /**
+   * Get crawling jobs, newest first
+   */
+  async getCrawlingJobs(params: CrawlingJobsParams = {}, options: ApiCallOptions = {}): Promise<ApiResponse<{ jobs: CrawlingJob[] }>> {
+    const query = new URLSearchParams({ limit: String(params.limit ?? 10) });
+    if (params.websiteId) query.append('website_id', params.websiteId);
+    if (params.activeOnly) query.append('status', 'pending,running');
+
+    return this.request<{ jobs: CrawlingJob[] }>(`/api/v1/crawl/crawling-jobs?${query}`, {
+      ...options,
+      suppressErrorNotifications: true // Callers render their own error state
+    });
+  }
+
+  /**
+   * Cancel a crawling job
+   */
+  async cancelCrawlingJob(jobId: string, options: ApiCallOptions = {}): Promise<ApiResponse<void>> {
+    return this.request<void>(`/api/v1/crawl/crawling-jobs/${jobId}/cancel`, {
+      ...options,
+      method: 'PATCH'
+    });
+  }
+
+  /**
+   * Get live progress of a crawling job (no cache - used for progress polling)
+   */
+  async getCrawlJobProgress(jobId: string, suppressErrorNotifications: boolean = false, options: ApiCallOptions = {}): Promise<ApiResponse<CrawlJobProgress>> {
+    return this.request<CrawlJobProgress>(`/api/v1/crawl/crawling-jobs/${jobId}/progress`, {
+      ...options,
+      suppressErrorNotifications
+    });
+  }
+
+  /**
+   * Get status of a crawl task
+   */
+  async getCrawlTaskStatus(taskId: string, options: ApiCallOptions = {}): Promise<ApiResponse<CrawlTaskStatus>> {
+    const response = await this.request<CrawlEnvelope<CrawlTaskStatus>>(`/api/v1/crawl/status/${taskId}`, options);
+    return this.unwrapEnvelope(response, 'Failed to fetch crawl status');
+  }
+
+  /**
+   * Cancel a running crawl task
+   */
+  async cancelCrawlTask(taskId: string, options: ApiCallOptions = {}): Promise<ApiResponse<CrawlTaskStatus>> {
+    const response = await this.request<CrawlEnvelope<CrawlTaskStatus>>(`/api/v1/crawl/cancel/${taskId}`, {
+      ...options,
+      method: 'POST'
+    });
+    return this.unwrapEnvelope(response, 'Failed to cancel crawl');
+  }
+
+  /**
+   * Get crawl history of a website
+   */
+  async getCrawlHistory(websiteId: string, limit: number = 10, offset: number = 0, options: ApiCallOptions = {}): Promise<ApiResponse<CrawlHistory>> {
+    const response = await this.request<CrawlEnvelope<CrawlHistory>>(`/api/v1/crawl/website/${websiteId}/history?limit=${limit}&offset=${offset}`, options);
+    return this.unwrapEnvelope(response, 'Failed to fetch crawl history');
+  }
+
   // ==================== ANALYTICS API METHODS ====================
+  // Analytics views render their own error state, so toasts are suppressed
 
   /**
    * Get website analytics overview
    */
-  async getWebsiteAnalytics(websiteId: string, period: number = 30): Promise<ApiResponse<any>> {
-    return this.request<any>(`/api/v1/analytics/websites/${websiteId}/overview?days=${period}`, {}, 300000); // 5 minute cache
+  async getWebsiteAnalytics(websiteId: string, period: number = 30, options: ApiCallOptions = {}): Promise<ApiResponse<AnalyticsOverview>> {
+    return this.request<AnalyticsOverview>(`/api/v1/analytics/websites/${websiteId}/overview?days=${period}`, {
+      ...options,
+      suppressErrorNotifications: true
+    }, {
+      ttl: 300000, // 5 minutes
+      tags: [cacheTags.website(websiteId), cacheTags.analytics(websiteId)]
+    });
+  }
+
+  /**
+   * Get session analytics
+   */
+  async getSessionAnalytics(websiteId: string, period: number = 30, options: ApiCallOptions = {}): Promise<ApiResponse<SessionAnalytics>> {
+    return this.request<SessionAnalytics>(`/api/v1/analytics/websites/${websiteId}/sessions?days=${period}`, {
+      ...options,
+      suppressErrorNotifications: true
+    }, {
+      ttl: 300000, // 5 minutes
+      tags: [cacheTags.website(websiteId), cacheTags.analytics(websiteId)]
+    });
+  }
+
+  /**
+   * Get conversation thread analytics
+   */
+  async getThreadAnalytics(
+    websiteId: string,
+    period: number = 30,
+    includeThreadDetails: boolean = false,
+    options: ApiCallOptions = {}
+  ): Promise<ApiResponse<ThreadAnalytics>> {
+    return this.request<ThreadAnalytics>(
+      `/api/v1/analytics/websites/${websiteId}/threads?days=${period}&include_thread_details=${includeThreadDetails}`,
+      { ...options, suppressErrorNotifications: true },
+      { ttl: 300000, tags: [cacheTags.website(websiteId), cacheTags.analytics(websiteId)] } // 5 minute cache
+    );
+  }
+
+  /**
+   * Get response time and system performance analytics
+   */
+  async getPerformanceAnalytics(websiteId: string, period: number = 30, options: ApiCallOptions = {}): Promise<ApiResponse<PerformanceAnalytics>> {
+    return this.request<PerformanceAnalytics>(`/api/v1/analytics/websites/${websiteId}/performance?days=${period}`, {
+      ...options,
+      suppressErrorNotifications: true
+    }, {
+      ttl: 300000, // 5 minutes
+      tags: [cacheTags.website(websiteId), cacheTags.analytics(websiteId)]
+    });
+  }
+
+  /**
+   * Get generated insights and action items
+   */
+  async getAnalyticsInsights(websiteId: string, period: number = 30, options: ApiCallOptions = {}): Promise<ApiResponse<AnalyticsInsightsReport>> {
+    return this.request<AnalyticsInsightsReport>(`/api/v1/analytics/websites/${websiteId}/insights?days=${period}`, {
+      ...options,
+      suppressErrorNotifications: true
+    }, {
+      ttl: 300000, // 5 minutes
+      tags: [cacheTags.website(websiteId), cacheTags.analytics(websiteId)]
+    });
+  }
+
+  /**
+   * Get per-variant results of the website's widget A/B tests
+   */
+  async getExperimentResults(websiteId: string, period: number = 30, options: ApiCallOptions = {}): Promise<ApiResponse<{ experiments: ExperimentResults[] }>> {
+    return this.request<{ experiments: ExperimentResults[] }>(`/api/v1/analytics/websites/${websiteId}/experiments?days=${period}`, {
+      ...options,
+      suppressErrorNotifications: true
+    }, {
+      ttl: 300000, // 5 minutes
+      tags: [cacheTags.website(websiteId), cacheTags.analytics(websiteId)]
+    });
+  }
+
+  /**
+   * Get the visitors' helpfulness ratings and the worst-rated answers
+   */
+  async getAnswerFeedback(websiteId: string, period: number = 30, limit: number = 10, options: ApiCallOptions = {}): Promise<ApiResponse<AnswerFeedbackSummary>> {
+    return this.request<AnswerFeedbackSummary>(`/api/v1/analytics/websites/${websiteId}/feedback?days=${period}&limit=${limit}`, {
+      ...options,
+      suppressErrorNotifications: true
+    }, {
+      ttl: 300000, // 5 minutes
+      tags: [cacheTags.website(websiteId), cacheTags.analytics(websiteId)]
+    });
   }
 
   /**
    * Export analytics data
    */
-  async exportAnalytics(websiteId: string, period: number = 30, format: string = 'json'): Promise<ApiResponse<any>> {
-    return this.request<any>(`/api/v1/analytics/websites/${websiteId}/export?days=${period}&format=${format}`);
+  async exportAnalytics(websiteId: string, period: number = 30, format: string = 'json', options: ApiCallOptions = {}): Promise<ApiResponse<AnalyticsExport>> {
+    return this.request<AnalyticsExport>(`/api/v1/analytics/websites/${websiteId}/export?days=${period}&format=${format}`, options);
+  }
+
+  // ==================== SESSION API METHODS ====================
+
+  /**
+   * Get conversation history of a chat session
+   */
+  async getSessionHistory(sessionToken: string, params: SessionHistoryParams = {}, options: ApiCallOptions = {}): Promise<ApiResponse<SessionHistoryData>> {
+    const query = new URLSearchParams({
+      page: String(params.page ?? 1),
+      page_size: String(params.pageSize ?? 20),
+      include_messages: String(params.includeMessages ?? true)
+    });
+    if (params.startDate) query.append('start_date', params.startDate);
+    if (params.endDate) query.append('end_date', params.endDate);
+
+    return this.request<SessionHistoryData>(`/api/v1/session-history/${sessionToken}/history?${query}`, {
+      ...options,
+      suppressErrorNotifications: true // SessionHistory renders its own error state
+    });
+  }
+
+  /**
+   * Export session history as a downloadable file
+   */
+  async exportSessionHistory(sessionToken: string, format: 'json' | 'csv' | 'txt', options: ApiCallOptions = {}): Promise<ApiResponse<Blob>> {
+    return this.request<Blob>(`/api/v1/session-history/${sessionToken}/export?format=${format}`, {
+      ...options,
+      responseType: 'blob'
+    });
+  }
+
+  /**
+   * Permanently delete all data of a session
+   */
+  async deleteSessionHistory(sessionToken: string, options: ApiCallOptions = {}): Promise<ApiResponse<void>> {
+    return this.request<void>(`/api/v1/session-history/${sessionToken}?confirm=true`, {
+      ...options,
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * List session transfer links created by the current user
+   */
+  async listSessionTransfers(options: ApiCallOptions = {}): Promise<ApiResponse<{ transfers: SessionTransfer[] }>> {
+    return this.request<{ transfers: SessionTransfer[] }>('/api/v1/session-handoff/list-transfers', {
+      ...options,
+      suppressErrorNotifications: true
+    });
+  }
+
+  /**
+   * Create a link that shares or hands off a session
+   */
+  async createSessionTransfer(transfer: SessionTransferRequest, options: ApiCallOptions = {}): Promise<ApiResponse<SessionTransfer>> {
+    return this.request<SessionTransfer>('/api/v1/session-handoff/create-transfer', {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify(transfer),
+      suppressErrorNotifications: true // SessionHandoff shows the error inline
+    });
+  }
+
+  /**
+   * Hand a session off to a customer service agent
+   */
+  async createCustomerServiceHandoff(handoff: CustomerServiceHandoffRequest, options: ApiCallOptions = {}): Promise<ApiResponse<SessionTransfer>> {
+    return this.request<SessionTransfer>('/api/v1/session-handoff/customer-service-handoff', {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify(handoff),
+      suppressErrorNotifications: true // SessionHandoff shows the error inline
+    });
+  }
+
+  /**
+   * Revoke a session transfer link
+   */
+  async revokeSessionTransfer(transferToken: string, options: ApiCallOptions = {}): Promise<ApiResponse<void>> {
+    return this.request<void>('/api/v1/session-handoff/revoke-transfer', {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify({ transfer_token: transferToken }),
+      suppressErrorNotifications: true
+    });
+  }
+
+  // ==================== WIDGET CONFIG API METHODS ====================
+
+  /**
+   * Get the saved widget configuration (current draft and published version)
+   */
+  async getWidgetConfiguration(websiteId: string, options: ApiCallOptions = {}): Promise<ApiResponse<WidgetConfigRecord>> {
+    return this.request<WidgetConfigRecord>(`/api/v1/websites/${websiteId}/widget-config`, {
+      ...options,
+      suppressErrorNotifications: true // 404 just means nothing was saved yet
+    }, {
+      ttl: 60000,
+      tags: [cacheTags.website(websiteId), cacheTags.widgetConfig(websiteId)]
+    });
+  }
+
+  /**
+   * Save the draft; visitors keep seeing the published version until it is published
+   */
+  async saveWidgetConfigDraft(websiteId: string, widgetConfig: WidgetConfiguration, note?: string, options: ApiCallOptions = {}): Promise<ApiResponse<WidgetConfigVersion>> {
+    const result = await this.request<WidgetConfigVersion>(`/api/v1/websites/${websiteId}/widget-config/draft`, {
+      ...options,
+      method: 'PUT',
+      body: JSON.stringify({ config: widgetConfig, note })
+    });
+
+    if (result.success) {
+      this.invalidateTags([cacheTags.widgetConfig(websiteId)]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Publish the current draft to every embedded widget
+   */
+  async publishWidgetConfig(websiteId: string, options: ApiCallOptions = {}): Promise<ApiResponse<WidgetConfigVersion>> {
+    const result = await this.request<WidgetConfigVersion>(`/api/v1/websites/${websiteId}/widget-config/publish`, {
+      ...options,
+      method: 'POST'
+    });
+
+    if (result.success) {
+      this.invalidateTags([cacheTags.widgetConfig(websiteId)]);
+    }
+
+    return result;
+  }
+
+  /**
+   * List saved versions, newest first
+   */
+  async getWidgetConfigVersions(websiteId: string, options: ApiCallOptions = {}): Promise<ApiResponse<{ versions: WidgetConfigVersion[] }>> {
+    return this.request<{ versions: WidgetConfigVersion[] }>(`/api/v1/websites/${websiteId}/widget-config/versions`, options, {
+      ttl: 60000,
+      tags: [cacheTags.widgetConfig(websiteId)]
+    });
+  }
+
+  /**
+   * Publish an earlier version again (recorded as a new version)
+   */
+  async rollbackWidgetConfig(websiteId: string, version: number, options: ApiCallOptions = {}): Promise<ApiResponse<WidgetConfigVersion>> {
+    const result = await this.request<WidgetConfigVersion>(`/api/v1/websites/${websiteId}/widget-config/rollback`, {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify({ version })
+    });
+
+    if (result.success) {
+      this.invalidateTags([cacheTags.widgetConfig(websiteId)]);
+    }
+
+    return result;
+  }
+
+  // ==================== LEADS API METHODS ====================
+
+  /**
+   * Get leads collected by the offline form, newest first
+   */
+  async getLeads(websiteId: string, params: LeadsParams = {}, options: ApiCallOptions = {}): Promise<ApiResponse<LeadsPage>> {
+    const query = new URLSearchParams({
+      page: String(params.page ?? 1),
+      page_size: String(params.pageSize ?? 20)
+    });
+    if (params.status) query.append('status', params.status);
+
+    return this.request<LeadsPage>(`/api/v1/websites/${websiteId}/leads?${query}`, {
+      ...options,
+      suppressErrorNotifications: true // LeadsPanel renders its own error state
+    }, {
+      ttl: 30000,
+      tags: [cacheTags.leads(websiteId)]
+    });
+  }
+
+  /**
+   * Mark a lead as contacted or closed
+   */
+  async updateLeadStatus(websiteId: string, leadId: string, status: Lead['status'], options: ApiCallOptions = {}): Promise<ApiResponse<Lead>> {
+    const result = await this.request<Lead>(`/api/v1/websites/${websiteId}/leads/${leadId}`, {
+      ...options,
+      method: 'PATCH',
+      body: JSON.stringify({ status })
+    });
+
+    if (result.success) {
+      this.invalidateTags([cacheTags.leads(websiteId)]);
+    }
+
+    return result;
   }
 
   // ==================== AUTHENTICATION API METHODS ====================
@@ -736,13 +1644,14 @@ class CentralizedApiService {
   /**
    * Validate current token
    */
-  async validateToken(): Promise<ApiResponse<{ user: any }>> {
-    return this.request<{ user: any }>('/api/v1/auth/me');
+  async validateToken(options: ApiCallOptions = {}): Promise<ApiResponse<{ user: any }>> {
+    return this.request<{ user: any }>('/api/v1/auth/me', options);
   }
 
   /**
    * Refresh authentication token
-   * NOTE: This method bypasses the normal request() flow to avoid infinite loops
+   * NOTE: This method bypasses the normal request() flow to avoid infinite loops.
+   * It takes no AbortSignal because one refresh is shared by every queued request.
    */
   async refreshToken(): Promise<ApiResponse<{ access_token: string; refresh_token: string }>> {
     const refreshToken = localStorage.getItem('refresh_token');
@@ -791,8 +1700,9 @@ class CentralizedApiService {
   /**
    * Login user
    */
-  async login(email: string, password: string): Promise<ApiResponse<{ access_token: string; refresh_token: string; user: any }>> {
+  async login(email: string, password: string, options: ApiCallOptions = {}): Promise<ApiResponse<{ access_token: string; refresh_token: string; user: any }>> {
     return this.request<{ access_token: string; refresh_token: string; user: any }>('/api/v1/auth/login', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({ email, password })
     });
@@ -801,8 +1711,9 @@ class CentralizedApiService {
   /**
    * Register new user
    */
-  async register(name: string, email: string, password: string): Promise<ApiResponse<{ message: string }>> {
+  async register(name: string, email: string, password: string, options: ApiCallOptions = {}): Promise<ApiResponse<{ message: string }>> {
     return this.request<{ message: string }>('/api/v1/auth/register', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({ name, email, password })
     });
@@ -811,8 +1722,9 @@ class CentralizedApiService {
   /**
    * Verify email with token
    */
-  async verifyEmail(token: string): Promise<ApiResponse<{ message: string }>> {
+  async verifyEmail(token: string, options: ApiCallOptions = {}): Promise<ApiResponse<{ message: string }>> {
     return this.request<{ message: string }>('/api/v1/auth/verify-email', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({ token })
     });
@@ -821,8 +1733,9 @@ class CentralizedApiService {
   /**
    * Resend verification email
    */
-  async resendVerification(email: string): Promise<ApiResponse<{ message: string }>> {
+  async resendVerification(email: string, options: ApiCallOptions = {}): Promise<ApiResponse<{ message: string }>> {
     return this.request<{ message: string }>('/api/v1/auth/resend-verification', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({ email })
     });
@@ -836,7 +1749,7 @@ class CentralizedApiService {
    * NO AUTH REQUIRED - Public endpoint
    * NO RETRIES - Fail fast for demo endpoints
    */
-  async initiateDemoCrawl(url: string): Promise<ApiResponse<DemoInitResponse>> {
+  async initiateDemoCrawl(url: string, options: ApiCallOptions = {}): Promise<ApiResponse<DemoInitResponse>> {
     // Direct fetch without retry logic for demo endpoints
     try {
       const response = await fetch(`${this.config.baseUrl}/api/v1/demo/initiate`, {
@@ -845,7 +1758,7 @@ class CentralizedApiService {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({ url }),
-        signal: AbortSignal.timeout(this.config.timeout)
+        signal: withTimeout(options.signal, this.config.timeout)
       });
 
       if (!response.ok) {
@@ -872,6 +1785,9 @@ class CentralizedApiService {
         success: true
       };
     } catch (error) {
+      if (options.signal?.aborted) {
+        return abortedResponse();
+      }
       console.error('Demo initiation error:', error);
       return {
         data: null as any,
@@ -888,14 +1804,14 @@ class CentralizedApiService {
    * NO AUTH REQUIRED - Public endpoint
    * NO RETRIES - Fail fast for demo endpoints
    */
-  async getDemoStatus(demoId: string): Promise<ApiResponse<DemoStatusResponse>> {
+  async getDemoStatus(demoId: string, options: ApiCallOptions = {}): Promise<ApiResponse<DemoStatusResponse>> {
     try {
       const response = await fetch(`${this.config.baseUrl}/api/v1/demo/status/${demoId}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json'
         },
-        signal: AbortSignal.timeout(this.config.timeout)
+        signal: withTimeout(options.signal, this.config.timeout)
       });
 
       if (!response.ok) {
@@ -912,6 +1828,9 @@ class CentralizedApiService {
         success: true
       };
     } catch (error) {
+      if (options.signal?.aborted) {
+        return abortedResponse();
+      }
       return {
         data: null as any,
         success: false,
@@ -928,7 +1847,8 @@ class CentralizedApiService {
   async sendDemoChat(
     demoId: string,
     message: string,
-    sessionId: string = 'demo-session'
+    sessionId: string = 'demo-session',
+    options: ApiCallOptions = {}
   ): Promise<ApiResponse<DemoChatResponse>> {
     try {
       const response = await fetch(`${this.config.baseUrl}/api/v1/demo/chat`, {
@@ -941,7 +1861,7 @@ class CentralizedApiService {
           message: message,
           session_id: sessionId
         }),
-        signal: AbortSignal.timeout(this.config.timeout)
+        signal: withTimeout(options.signal, this.config.timeout)
       });
 
       if (!response.ok) {
@@ -968,6 +1888,9 @@ class CentralizedApiService {
         success: true
       };
     } catch (error) {
+      if (options.signal?.aborted) {
+        return abortedResponse();
+      }
       return {
         data: null as any,
         success: false,
@@ -979,34 +1902,25 @@ class CentralizedApiService {
   // ==================== CACHE INVALIDATION METHODS ====================
 
   /**
-   * Invalidate website-related caches
+   * Listen for background revalidations of queries carrying any of the tags
+   * (see cacheTags). Returns a function that removes the listener.
    */
-  private invalidateWebsiteCache(): void {
-    const keysToDelete: string[] = [];
-
-    this.requestCache.forEach((value, key) => {
-      if (key.includes('/api/v1/dashboard/websites') ||
-          key.includes('/api/v1/dashboard/overview')) {
-        keysToDelete.push(key);
-      }
-    });
+  onCacheUpdate(tags: string[], listener: CacheListener): () => void {
+    return this.queryCache.subscribe(tags, listener);
+  }
 
-    keysToDelete.forEach(key => this.requestCache.delete(key));
+  /**
+   * Drop cached queries carrying any of the tags; subscribed ones are refetched
+   */
+  invalidateTags(tags: string[]): void {
+    this.queryCache.invalidate(tags);
   }
 
   /**
    * Invalidate analytics caches for a specific website
    */
   invalidateAnalyticsCache(websiteId: string): void {
-    const keysToDelete: string[] = [];
-
-    this.requestCache.forEach((value, key) => {
-      if (key.includes(`/api/v1/analytics/websites/${websiteId}`)) {
-        keysToDelete.push(key);
-      }
-    });
-
-    keysToDelete.forEach(key => this.requestCache.delete(key));
+    this.invalidateTags([cacheTags.analytics(websiteId)]);
   }
 }
 
@@ -0,0 +1,253 @@
+/**
+ * Crawl Progress Service
+ *
+ * Single source of crawl job progress for the whole app:
+ * - Subscribes to `crawl_progress` deltas over the shared WebSocket (config.websocket.url)
+ * - Falls back to adaptive HTTP polling while push is unavailable, slowing down
+ *   when a job's progress stops changing
+ * - Deduplicates tracking, so any number of components can watch the same job
+ */
+
+import { config } from '../config/env';
+import type { ConnectionState, CrawlJobProgress, WebSocketMessage } from '../types/api';
+import { apiService } from './centralizedApi';
+import {
+  acquireSharedWebSocket,
+  releaseSharedWebSocket,
+  websocketChannels,
+  type Unsubscribe,
+  type WebSocketService,
+} from './websocket';
+
+export type CrawlProgressListener = (progress: CrawlJobProgress) => void;
+
+export type CrawlProgressTransport = 'push' | 'polling';
+
+interface TrackedJob {
+  listeners: Set<CrawlProgressListener>;
+  progress: CrawlJobProgress | null;
+  pollTimer: ReturnType<typeof setTimeout> | null;
+  pollInterval: number;
+  unsubscribe: Unsubscribe | null;
+}
+
+const MIN_POLL_INTERVAL = 2000;
+const MAX_POLL_INTERVAL = 30000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
+const TERMINAL_STATUSES: CrawlJobProgress['status'][] = ['completed', 'failed', 'cancelled'];
+
+export const isCrawlJobFinished = (progress: CrawlJobProgress | null): boolean =>
+  !!progress && TERMINAL_STATUSES.includes(progress.status);
+
+class CrawlProgressService {
+  private jobs: Map<string, TrackedJob> = new Map();
+  private socket: WebSocketService | null = null;
+  private unsubscribeState: Unsubscribe | null = null;
+  private transport: CrawlProgressTransport = 'polling';
+  private transportListeners: Set<(transport: CrawlProgressTransport) => void> = new Set();
+
+  /**
+   * Start receiving progress changes for a job (read the current value with
+   * getProgress). Returns a function that stops tracking.
+   */
+  track(jobId: string, listener: CrawlProgressListener): () => void {
+    let job = this.jobs.get(jobId);
+
+    if (!job) {
+      job = {
+        listeners: new Set(),
+        progress: null,
+        pollTimer: null,
+        pollInterval: MIN_POLL_INTERVAL,
+        unsubscribe: null,
+      };
+      this.jobs.set(jobId, job);
+      this.connectSocket();
+      job.unsubscribe = this.socket!.subscribe(
+        'crawl_progress',
+        (message) => this.handlePush(message),
+        { channel: websocketChannels.crawlJob(jobId) }
+      );
+
+      // Initial snapshot; afterwards push or polling keeps it fresh
+      this.refresh(jobId).catch((error) => {
+        console.error('Error fetching crawl progress:', error);
+      });
+      if (this.transport === 'polling') {
+        this.schedulePoll(jobId);
+      }
+    }
+
+    job.listeners.add(listener);
+
+    return () => {
+      const tracked = this.jobs.get(jobId);
+      if (!tracked) return;
+      tracked.listeners.delete(listener);
+      if (tracked.listeners.size === 0) {
+        this.untrack(jobId);
+      }
+    };
+  }
+
+  /**
+   * Latest known progress for a job
+   */
+  getProgress(jobId: string): CrawlJobProgress | null {
+    return this.jobs.get(jobId)?.progress ?? null;
+  }
+
+  /**
+   * Fetch a fresh snapshot over HTTP and notify listeners
+   */
+  async refresh(jobId: string): Promise<CrawlJobProgress | null> {
+    // Progress is refreshed in the background, so failures are not toasted
+    const response = await apiService.getCrawlJobProgress(jobId, true);
+
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to fetch progress');
+    }
+
+    const data = response.data;
+    this.applyProgress(jobId, data);
+    return data;
+  }
+
+  /**
+   * Whether progress currently arrives by push or by polling
+   */
+  getTransport(): CrawlProgressTransport {
+    return this.transport;
+  }
+
+  onTransportChange(listener: (transport: CrawlProgressTransport) => void): () => void {
+    this.transportListeners.add(listener);
+    return () => this.transportListeners.delete(listener);
+  }
+
+  private untrack(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    this.clearPoll(job);
+    job.unsubscribe?.();
+    this.jobs.delete(jobId);
+
+    if (this.jobs.size === 0) {
+      this.disconnectSocket();
+    }
+  }
+
+  private connectSocket(): void {
+    if (this.socket) return;
+
+    this.socket = acquireSharedWebSocket(config.websocket.url);
+    this.handleConnectionState(this.socket.getState());
+    this.unsubscribeState = this.socket.onStateChange((state) => this.handleConnectionState(state));
+  }
+
+  private disconnectSocket(): void {
+    if (!this.socket) return;
+
+    this.unsubscribeState?.();
+    this.unsubscribeState = null;
+    this.socket = null;
+    releaseSharedWebSocket(config.websocket.url);
+    this.setTransport('polling');
+  }
+
+  /**
+   * Switch between push and polling as the shared connection comes and goes
+   */
+  private handleConnectionState(state: ConnectionState): void {
+    const pushAvailable = state === 'open';
+    const wasPolling = this.transport === 'polling';
+    this.setTransport(pushAvailable ? 'push' : 'polling');
+
+    this.jobs.forEach((job, jobId) => {
+      if (pushAvailable) {
+        this.clearPoll(job);
+        // Catch up on deltas missed while push was down
+        if (wasPolling && !isCrawlJobFinished(job.progress)) {
+          this.refresh(jobId).catch((error) => {
+            console.error('Error fetching crawl progress:', error);
+          });
+        }
+      } else if (!job.pollTimer && !isCrawlJobFinished(job.progress)) {
+        job.pollInterval = MIN_POLL_INTERVAL;
+        this.schedulePoll(jobId);
+      }
+    });
+  }
+
+  private handlePush(message: WebSocketMessage): void {
+    if (!message.job_id || !message.progress) return;
+
+    const job = this.jobs.get(message.job_id);
+    if (!job) return;
+
+    const merged = {
+      ...(job.progress || { job_id: message.job_id }),
+      ...message.progress,
+    } as CrawlJobProgress;
+    this.applyProgress(message.job_id, merged);
+  }
+
+  private applyProgress(jobId: string, progress: CrawlJobProgress): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    const changed = JSON.stringify(job.progress) !== JSON.stringify(progress);
+    job.progress = progress;
+
+    // Poll quickly while a job is moving and back off while it is idle
+    job.pollInterval = changed
+      ? MIN_POLL_INTERVAL
+      : Math.min(job.pollInterval * POLL_BACKOFF_FACTOR, MAX_POLL_INTERVAL);
+
+    if (isCrawlJobFinished(progress)) {
+      this.clearPoll(job);
+    }
+
+    if (changed) {
+      job.listeners.forEach((listener) => listener(progress));
+    }
+  }
+
+  private schedulePoll(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job || job.pollTimer) return;
+
+    job.pollTimer = setTimeout(async () => {
+      job.pollTimer = null;
+      if (this.transport === 'push' || !this.jobs.has(jobId)) return;
+
+      try {
+        await this.refresh(jobId);
+      } catch (error) {
+        console.error('Error fetching crawl progress:', error);
+        job.pollInterval = Math.min(job.pollInterval * POLL_BACKOFF_FACTOR, MAX_POLL_INTERVAL);
+      }
+
+      if (this.transport === 'polling' && !isCrawlJobFinished(job.progress)) {
+        this.schedulePoll(jobId);
+      }
+    }, job.pollInterval);
+  }
+
+  private clearPoll(job: TrackedJob): void {
+    if (job.pollTimer) {
+      clearTimeout(job.pollTimer);
+      job.pollTimer = null;
+    }
+  }
+
+  private setTransport(transport: CrawlProgressTransport): void {
+    if (this.transport === transport) return;
+    this.transport = transport;
+    this.transportListeners.forEach((listener) => listener(transport));
+  }
+}
+
+export const crawlProgressService = new CrawlProgressService();
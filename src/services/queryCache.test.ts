@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache, cacheTags } from './queryCache';
+
+const STALE_RETENTION = 30 * 60 * 1000;
+
+/**
+ * Cache a query the way CentralizedApiService does: refetching writes the new
+ * response back before resolving with it
+ */
+const cacheQuery = (cache: QueryCache, key: string, data: unknown, ttl: number, tags: string[], next: () => unknown = () => data) => {
+  const refetch = vi.fn(async () => {
+    // The response arrives later
+    await Promise.resolve();
+    const fresh = next();
+    if (fresh !== null) cache.write(key, fresh, ttl, tags, refetch);
+    return fresh;
+  });
+  cache.write(key, data, ttl, tags, refetch);
+  return refetch;
+};
+
+/** Let pending refetches settle */
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('QueryCache reads', () => {
+  it('serves fresh data, then stale data, then nothing', () => {
+    const cache = new QueryCache();
+    cacheQuery(cache, 'websites', ['site'], 1000, [cacheTags.websites]);
+
+    expect(cache.read('websites')).toEqual({ data: ['site'], stale: false });
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.read('websites')).toEqual({ data: ['site'], stale: true });
+
+    vi.advanceTimersByTime(STALE_RETENTION - 1);
+    expect(cache.read('websites')?.stale).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.read('websites')).toBeNull();
+  });
+
+  it('returns nothing for unknown keys and after clear', () => {
+    const cache = new QueryCache();
+    cacheQuery(cache, 'websites', ['site'], 1000, [cacheTags.websites]);
+
+    expect(cache.read('other')).toBeNull();
+    cache.clear();
+    expect(cache.read('websites')).toBeNull();
+  });
+});
+
+describe('QueryCache revalidation', () => {
+  it('refetches in the background, once at a time, and notifies subscribers', async () => {
+    const cache = new QueryCache();
+    const refetch = cacheQuery(cache, 'website:1', { name: 'Old' }, 1000, [cacheTags.website('1')], () => ({ name: 'New' }));
+    const listener = vi.fn();
+    cache.subscribe([cacheTags.website('1')], listener);
+
+    vi.advanceTimersByTime(1000);
+    cache.revalidate('website:1');
+    cache.revalidate('website:1');
+    await flush();
+
+    expect(refetch).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('website:1', { name: 'New' });
+    expect(cache.read('website:1')).toEqual({ data: { name: 'New' }, stale: false });
+  });
+
+  it('keeps serving the old data when the refetch fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = new QueryCache();
+    cacheQuery(cache, 'website:1', { name: 'Old' }, 1000, [cacheTags.website('1')], () => {
+      throw new Error('offline');
+    });
+    const listener = vi.fn();
+    cache.subscribe([cacheTags.website('1')], listener);
+
+    vi.advanceTimersByTime(1000);
+    cache.revalidate('website:1');
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(cache.read('website:1')).toEqual({ data: { name: 'Old' }, stale: true });
+  });
+
+  it('does not notify when the refetch returns no data', async () => {
+    const cache = new QueryCache();
+    cacheQuery(cache, 'website:1', { name: 'Old' }, 1000, [cacheTags.website('1')], () => null);
+    const listener = vi.fn();
+    cache.subscribe([cacheTags.website('1')], listener);
+
+    cache.revalidate('website:1');
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('QueryCache invalidation', () => {
+  it('drops only entries carrying one of the tags', () => {
+    const cache = new QueryCache();
+    cacheQuery(cache, 'analytics:1', 'a1', 60000, [cacheTags.analytics('1'), cacheTags.website('1')]);
+    cacheQuery(cache, 'analytics:2', 'a2', 60000, [cacheTags.analytics('2'), cacheTags.website('2')]);
+    cacheQuery(cache, 'websites', 'list', 60000, [cacheTags.websites]);
+
+    cache.invalidate([cacheTags.website('1'), cacheTags.websites]);
+
+    expect(cache.read('analytics:1')).toBeNull();
+    expect(cache.read('websites')).toBeNull();
+    expect(cache.read('analytics:2')?.data).toBe('a2');
+  });
+
+  it('refetches invalidated entries that have subscribers', async () => {
+    const cache = new QueryCache();
+    const watched = cacheQuery(cache, 'crawl:1', 'running', 60000, [cacheTags.crawl('1')], () => 'done');
+    const unwatched = cacheQuery(cache, 'leads:1', 'leads', 60000, [cacheTags.leads('1'), cacheTags.website('1')]);
+    const listener = vi.fn();
+    cache.subscribe([cacheTags.crawl('1')], listener);
+
+    cache.invalidate([cacheTags.crawl('1'), cacheTags.website('1')]);
+    await flush();
+
+    expect(watched).toHaveBeenCalledTimes(1);
+    expect(unwatched).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledWith('crawl:1', 'done');
+    expect(cache.read('leads:1')).toBeNull();
+  });
+});
+
+describe('QueryCache subscriptions', () => {
+  it('calls a listener once per update even when subscribed to several of its tags', async () => {
+    const cache = new QueryCache();
+    cacheQuery(cache, 'analytics:1', 'a1', 1000, [cacheTags.analytics('1'), cacheTags.website('1')]);
+    const listener = vi.fn();
+    cache.subscribe([cacheTags.analytics('1'), cacheTags.website('1')], listener);
+
+    cache.revalidate('analytics:1');
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    const cache = new QueryCache();
+    const refetch = cacheQuery(cache, 'crawl:1', 'running', 60000, [cacheTags.crawl('1')]);
+    const listener = vi.fn();
+    const unsubscribe = cache.subscribe([cacheTags.crawl('1')], listener);
+
+    unsubscribe();
+    cache.invalidate([cacheTags.crawl('1')]);
+    await flush();
+
+    // Nobody is watching any more, so the entry isn't refetched either
+    expect(refetch).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
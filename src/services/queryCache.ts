@@ -0,0 +1,169 @@
+/**
+ * Query Cache
+ *
+ * Stale-while-revalidate store behind CentralizedApiService:
+ * - Entries are fresh for their `ttl`, then served stale (up to STALE_RETENTION)
+ *   while a background request revalidates them
+ * - Entries carry tags (`website:{id}`, `analytics:{id}`, `crawl:{id}`...) so a
+ *   mutation can invalidate exactly the queries it affects
+ * - Tag subscribers are notified whenever revalidation brings fresh data
+ */
+
+export interface CacheOptions {
+  /** How long a response stays fresh, in ms (0 disables caching) */
+  ttl?: number;
+  /** Tags used for invalidation and subscriptions */
+  tags?: string[];
+}
+
+export type CacheListener = (key: string, data: unknown) => void;
+
+export interface CacheHit<T> {
+  data: T;
+  stale: boolean;
+}
+
+interface CacheEntry {
+  data: unknown;
+  updatedAt: number;
+  ttl: number;
+  tags: Set<string>;
+  /** Re-runs the request that produced this entry; resolves with the new data on success */
+  refetch: () => Promise<unknown | null>;
+  revalidating: boolean;
+}
+
+/** How long an expired entry may still be served while it revalidates */
+const STALE_RETENTION = 30 * 60 * 1000;
+
+/**
+ * Tag builders shared by queries and mutations
+ */
+export const cacheTags = {
+  /** Website list and dashboard aggregates */
+  websites: 'websites',
+  website: (websiteId: string) => `website:${websiteId}`,
+  analytics: (websiteId: string) => `analytics:${websiteId}`,
+  crawl: (websiteId: string) => `crawl:${websiteId}`,
+  widgetConfig: (websiteId: string) => `widget-config:${websiteId}`,
+  leads: (websiteId: string) => `leads:${websiteId}`,
+};
+
+export class QueryCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private listeners: Map<string, Set<CacheListener>> = new Map();
+
+  /**
+   * Cached data for a key, or null when missing or too old to serve
+   */
+  read<T>(key: string): CacheHit<T> | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    const age = Date.now() - entry.updatedAt;
+    if (age >= entry.ttl + STALE_RETENTION) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return { data: entry.data as T, stale: age >= entry.ttl };
+  }
+
+  write(key: string, data: unknown, ttl: number, tags: string[], refetch: CacheEntry['refetch']): void {
+    this.entries.set(key, {
+      data,
+      updatedAt: Date.now(),
+      ttl,
+      tags: new Set(tags),
+      refetch,
+      revalidating: false,
+    });
+  }
+
+  /**
+   * Refetch an entry in the background and notify its subscribers on success
+   */
+  revalidate(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry || entry.revalidating) return;
+
+    entry.revalidating = true;
+    this.refetch(key, entry).finally(() => {
+      entry.revalidating = false;
+    });
+  }
+
+  /**
+   * Drop every entry carrying one of the tags. Entries somebody is subscribed
+   * to are refetched right away so the subscribers receive the new data.
+   */
+  invalidate(tags: string[]): void {
+    const tagSet = new Set(tags);
+
+    Array.from(this.entries.entries()).forEach(([key, entry]) => {
+      if (!Array.from(entry.tags).some(tag => tagSet.has(tag))) return;
+
+      this.entries.delete(key);
+      if (Array.from(entry.tags).some(tag => this.listeners.get(tag)?.size)) {
+        this.refetch(key, entry);
+      }
+    });
+  }
+
+  /**
+   * Listen for fresh data on any query carrying one of the tags.
+   * Returns a function that removes the listener.
+   */
+  subscribe(tags: string[], listener: CacheListener): () => void {
+    tags.forEach(tag => {
+      if (!this.listeners.has(tag)) {
+        this.listeners.set(tag, new Set());
+      }
+      this.listeners.get(tag)!.add(listener);
+    });
+
+    return () => {
+      tags.forEach(tag => {
+        const tagListeners = this.listeners.get(tag);
+        if (!tagListeners) return;
+        tagListeners.delete(listener);
+        if (tagListeners.size === 0) {
+          this.listeners.delete(tag);
+        }
+      });
+    };
+  }
+
+  /**
+   * Drop all entries (subscriptions are kept)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async refetch(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      const data = await entry.refetch();
+      if (data !== null) {
+        this.notify(key, data);
+      }
+    } catch (error) {
+      console.error('Cache revalidation failed:', error);
+    }
+  }
+
+  private notify(key: string, data: unknown): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    // A listener subscribed to several of the entry's tags is called once
+    const notified = new Set<CacheListener>();
+    entry.tags.forEach(tag => {
+      this.listeners.get(tag)?.forEach(listener => {
+        if (notified.has(listener)) return;
+        notified.add(listener);
+        listener(key, data);
+      });
+    });
+  }
+}
@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SocketService } from './socketService';
+
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readyState = FakeWebSocket.CONNECTING;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  fail() {
+    this.onerror?.(new Error('refused'));
+  }
+
+  receive(frame: object) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+const fetchMock = vi.fn(async () => ({
+  ok: true,
+  json: async () => ({ response: 'From HTTP', message_id: 'msg-http', processing_time_ms: 12, model_used: 'model' }),
+}));
+
+const createService = () => new SocketService('session-1', 'ws://api.test/api/v1/chat/stream', 'http://api.test');
+
+/** Let pending promise callbacks run */
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+beforeEach(() => {
+  FakeWebSocket.instances = [];
+  fetchMock.mockClear();
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('SocketService', () => {
+  it('streams chunks to handlers and resolves on complete', async () => {
+    const service = createService();
+    const chunks: string[] = [];
+    service.onMessage('chunk', frame => chunks.push(frame.content));
+
+    const connecting = service.connect();
+    latestSocket().open();
+    await connecting;
+    expect(latestSocket().url).toBe('ws://api.test/api/v1/chat/stream/session-1');
+
+    const reply = service.sendChatMessage('Hi');
+    await flush();
+    expect(latestSocket().sent).toEqual([expect.objectContaining({ type: 'chat', session_id: 'session-1', message: 'Hi' })]);
+
+    latestSocket().receive({ type: 'chunk', content: 'Hel' });
+    latestSocket().receive({ type: 'chunk', content: 'lo' });
+    latestSocket().receive({ type: 'complete', full_response: 'Hello', message_id: 'msg-1' });
+
+    await expect(reply).resolves.toMatchObject({ type: 'chat_response', ai_response: 'Hello', user_message: 'Hi' });
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to HTTP when the socket fails to open', async () => {
+    const service = createService();
+    const completed = vi.fn();
+    service.onMessage('complete', completed);
+
+    const reply = service.sendChatMessage('Hi');
+    latestSocket().fail();
+
+    await expect(reply).resolves.toMatchObject({ type: 'chat_response', ai_response: 'From HTTP' });
+    expect(service.getTransport()).toBe('http');
+    expect(fetchMock).toHaveBeenCalledWith('http://api.test/api/v1/chat/message', expect.objectContaining({ method: 'POST' }));
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ type: 'complete', full_response: 'From HTTP' }));
+    service.disconnect();
+  });
+
+  it('falls back to HTTP when the socket never opens', async () => {
+    vi.useFakeTimers();
+    const service = createService();
+
+    const connecting = service.connect();
+    await vi.advanceTimersByTimeAsync(5000);
+    await connecting;
+
+    expect(service.getTransport()).toBe('http');
+    expect(latestSocket().readyState).toBe(FakeWebSocket.CLOSED);
+  });
+
+  it('retries the socket in the background after a fallback without holding messages', async () => {
+    vi.useFakeTimers();
+    const service = createService();
+
+    const connecting = service.connect();
+    latestSocket().fail();
+    await connecting;
+
+    // Within the retry delay the socket is left alone
+    await service.sendChatMessage('First');
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(30000);
+
+    // The retry starts, but this message doesn't wait for it
+    await service.sendChatMessage('Second');
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    latestSocket().open();
+    await flush();
+    expect(service.getTransport()).toBe('websocket');
+
+    const reply = service.sendChatMessage('Third');
+    await flush();
+    expect(latestSocket().sent).toEqual([expect.objectContaining({ type: 'chat', message: 'Third' })]);
+    latestSocket().receive({ type: 'complete', full_response: 'Streamed' });
+    await expect(reply).resolves.toMatchObject({ ai_response: 'Streamed' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails in-flight replies when the socket closes unexpectedly', async () => {
+    const service = createService();
+    const errors = vi.fn();
+    service.onMessage('error', errors);
+
+    const connecting = service.connect();
+    latestSocket().open();
+    await connecting;
+
+    const reply = service.sendChatMessage('Hi');
+    await flush();
+    latestSocket().close();
+
+    await expect(reply).resolves.toMatchObject({ type: 'error', error: 'Chat stream closed unexpectedly' });
+    expect(errors).toHaveBeenCalledWith({ type: 'error', error: 'Chat stream closed unexpectedly' });
+    expect(service.isConnected()).toBe(false);
+  });
+});
+
+describe('SocketService connection state', () => {
+  it('reports connecting, then open', async () => {
+    const service = createService();
+    const states = vi.fn();
+    service.onStateChange(states);
+
+    const connecting = service.connect();
+    latestSocket().open();
+    await connecting;
+
+    expect(states.mock.calls).toEqual([['connecting', 'websocket'], ['open', 'websocket']]);
+    expect(service.getState()).toBe('open');
+  });
+
+  it('reports the HTTP fallback as degraded and recovers when a retry opens the socket', async () => {
+    vi.useFakeTimers();
+    const service = createService();
+    const states = vi.fn();
+    service.onStateChange(states);
+
+    const connecting = service.connect();
+    latestSocket().fail();
+    await connecting;
+    expect(service.getState()).toBe('degraded');
+
+    // Retried on a timer, without waiting for a message
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(service.getState()).toBe('degraded');
+
+    latestSocket().open();
+    await flush();
+    expect(states.mock.calls.map(([state]) => state)).toEqual(['connecting', 'degraded', 'open']);
+  });
+
+  it('falls back to HTTP when an open socket drops', async () => {
+    const service = createService();
+    const connecting = service.connect();
+    latestSocket().open();
+    await connecting;
+
+    latestSocket().close();
+
+    expect(service.getState()).toBe('degraded');
+    await expect(service.sendChatMessage('Hi')).resolves.toMatchObject({ ai_response: 'From HTTP' });
+    service.disconnect();
+  });
+
+  it('stops retrying and reporting once disconnected', async () => {
+    vi.useFakeTimers();
+    const service = createService();
+    const states = vi.fn();
+    service.onStateChange(states);
+
+    service.connect();
+    service.disconnect();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(states.mock.calls).toEqual([['connecting', 'websocket']]);
+    expect(service.getState()).toBe('closed');
+  });
+});
@@ -1,13 +1,20 @@
 /**
- * Socket service for real-time chat using TCP sockets (WebSocket wrapper for browser compatibility)
+ * Socket service for real-time chat.
+ *
+ * Streams assistant replies over the `/chat/stream/{sessionId}` WebSocket and
+ * falls back to the HTTP chat endpoint only when the socket can't be opened.
  */
 
+import { config } from '../config/env';
+import type { ConnectionState, SourceCitation, WebSocketMessage } from '../types/api';
+
 export interface SocketMessage {
   type: 'chat' | 'ping' | 'typing';
   session_id: string;
   message?: string;
   page_url?: string;
   page_title?: string;
+  attachment_ids?: string[];
 }
 
 export interface SocketResponse {
@@ -19,112 +26,217 @@ export interface SocketResponse {
   processing_time_ms?: number;
   model_used?: string;
   confidence_score?: number;
+  sources?: Array<string | SourceCitation>;
   timestamp?: string;
   error?: string;
 }
 
+export type SocketTransport = 'websocket' | 'http';
+
+export type SocketMessageHandler = (message: WebSocketMessage) => void;
+
+/**
+ * Connection states reported by the service:
+ * - connecting: opening the socket for the first time
+ * - open: replies stream over the socket
+ * - degraded: the socket failed or dropped; messages go over HTTP while it is retried
+ * - closed: disconnected
+ */
+export type SocketStateHandler = (state: ConnectionState, transport: SocketTransport) => void;
+
+interface PendingReply {
+  userMessage: string;
+  resolve: (response: SocketResponse) => void;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+const PING_TIMEOUT_MS = 5000;
+/** How long to stay on HTTP after the socket failed before trying it again */
+const SOCKET_RETRY_MS = 30000;
+
+/**
+ * Derive the streaming socket base URL from the configured API base URL
+ */
+const getDefaultSocketUrl = (): string =>
+  `${config.api.baseUrl.replace(/^http/, 'ws')}/api/v1/chat/stream`;
+
 export class SocketService {
   private socket: WebSocket | null = null;
   private socketUrl: string;
+  /** API origin for the HTTP fallback (the embeddable widget passes its own) */
+  private apiBaseUrl: string;
   private sessionId: string;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-  private messageHandlers: Map<string, (response: SocketResponse) => void> = new Map();
+  private transport: SocketTransport = 'websocket';
+  private messageHandlers: Map<string, SocketMessageHandler> = new Map();
   private connectionPromise: Promise<void> | null = null;
+  private socketRetryAt = 0;
+  private socketRetryTimer: ReturnType<typeof setTimeout> | null = null;
+  private state: ConnectionState = 'closed';
+  private stateHandlers: Set<SocketStateHandler> = new Set();
+  private isIntentionallyClosed = false;
+  private pendingReplies: PendingReply[] = [];
+  private pendingPongs: Array<() => void> = [];
 
-  constructor(sessionId: string, socketUrl: string = 'ws://127.0.0.1:8001/api/v1/chat/stream') {
+  constructor(sessionId: string, socketUrl: string = getDefaultSocketUrl(), apiBaseUrl: string = config.api.baseUrl) {
     this.sessionId = sessionId;
     this.socketUrl = `${socketUrl}/${sessionId}`;
+    this.apiBaseUrl = apiBaseUrl;
   }
 
   /**
-   * Connect to the socket server
+   * Connect to the streaming socket, switching to HTTP fallback if it can't be opened.
+   * After a fallback the socket is retried in the background every SOCKET_RETRY_MS.
    */
   async connect(): Promise<void> {
     if (this.connectionPromise) {
       return this.connectionPromise;
     }
+    if (this.transport === 'http' && Date.now() < this.socketRetryAt) {
+      return;
+    }
 
-    this.connectionPromise = new Promise((resolve, reject) => {
-      try {
-        // For now, we'll use HTTP polling as a fallback since the backend uses TCP sockets
-        // In a production environment, you'd typically use a WebSocket-to-TCP proxy
-        console.log('Socket service initialized for session:', this.sessionId);
+    this.isIntentionallyClosed = false;
+    this.clearSocketRetry();
+    // Retries keep reporting the fallback until the socket actually opens
+    if (this.transport === 'websocket') {
+      this.setState('connecting');
+    }
+
+    const attempt = new Promise<void>((resolve) => {
+      let settled = false;
+
+      const failAttempt = (reason: unknown) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(connectTimeout);
+        console.warn('Chat stream unavailable, falling back to HTTP:', reason);
+        if (this.socket) {
+          this.socket.onclose = null;
+          this.socket.close();
+          this.socket = null;
+        }
+        this.fallBackToHttp();
         resolve();
+      };
+
+      const connectTimeout = setTimeout(
+        () => failAttempt('connection timed out'),
+        CONNECT_TIMEOUT_MS
+      );
+
+      try {
+        this.socket = new WebSocket(this.socketUrl);
       } catch (error) {
-        console.error('Failed to connect to socket:', error);
-        reject(error);
+        failAttempt(error);
+        return;
       }
+
+      this.socket.onopen = () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(connectTimeout);
+        this.transport = 'websocket';
+        this.setState('open');
+        resolve();
+      };
+
+      this.socket.onmessage = (event) => this.handleFrame(event.data);
+
+      this.socket.onerror = (error) => {
+        if (!settled) {
+          failAttempt(error);
+        }
+      };
+
+      this.socket.onclose = () => {
+        if (!settled) {
+          failAttempt('socket closed before opening');
+          return;
+        }
+        this.handleUnexpectedClose();
+      };
     });
 
-    return this.connectionPromise;
+    this.connectionPromise = attempt;
+    // A fallback doesn't stick: the next connect() after the retry delay tries the socket again
+    attempt.then(() => {
+      if (this.connectionPromise === attempt && this.transport === 'http') {
+        this.connectionPromise = null;
+      }
+    });
+    return attempt;
   }
 
   /**
-   * Send a chat message via HTTP (fallback to HTTP API for browser compatibility)
+   * Send a chat message. Over the socket the reply is streamed to the registered
+   * handlers as `chunk` frames and the returned promise resolves on `complete`.
    */
-  async sendChatMessage(message: string, pageUrl?: string, pageTitle?: string): Promise<SocketResponse> {
-    try {
-      const response = await fetch('http://127.0.0.1:8001/api/v1/chat/message', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message,
-          session_id: this.sessionId,
-          page_url: pageUrl,
-          page_title: pageTitle,
-        }),
-      });
+  async sendChatMessage(message: string, pageUrl?: string, pageTitle?: string, attachmentIds?: string[]): Promise<SocketResponse> {
+    if (this.transport === 'http') {
+      // Retry the socket in the background; this message goes over HTTP right away
+      void this.connect();
+    } else {
+      await this.connect();
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    if (!this.isConnected()) {
+      return this.sendChatMessageViaHttp(message, pageUrl, pageTitle, attachmentIds);
+    }
 
-      const data = await response.json();
-      
-      // Convert HTTP response to socket response format
-      const socketResponse: SocketResponse = {
-        type: 'chat_response',
+    return new Promise((resolve) => {
+      this.pendingReplies.push({ userMessage: message, resolve });
+      this.sendFrame({
+        type: 'chat',
         session_id: this.sessionId,
-        message_id: data.message_id,
-        user_message: message,
-        ai_response: data.response,
-        processing_time_ms: data.processing_time_ms,
-        model_used: 'simple-chat-v1',
-        confidence_score: data.confidence_score,
-        timestamp: new Date().toISOString(),
-      };
-
-      return socketResponse;
-    } catch (error) {
-      console.error('Error sending chat message:', error);
-      return {
-        type: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        timestamp: new Date().toISOString(),
-      };
-    }
+        message,
+        page_url: pageUrl,
+        page_title: pageTitle,
+        attachment_ids: attachmentIds,
+      });
+    });
   }
 
   /**
-   * Send a ping message
+   * Send a ping message and wait for the server's pong
    */
   async sendPing(): Promise<SocketResponse> {
-    // For HTTP fallback, just return a pong
-    return {
-      type: 'pong',
-      session_id: this.sessionId,
-      timestamp: new Date().toISOString(),
-    };
+    await this.connect();
+
+    if (!this.isConnected()) {
+      return this.createErrorResponse('Chat stream is not connected');
+    }
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingPongs = this.pendingPongs.filter((pong) => pong !== onPong);
+        resolve(this.createErrorResponse('Ping timed out'));
+      }, PING_TIMEOUT_MS);
+
+      const onPong = () => {
+        clearTimeout(timeout);
+        resolve({
+          type: 'pong',
+          session_id: this.sessionId,
+          timestamp: new Date().toISOString(),
+        });
+      };
+
+      this.pendingPongs.push(onPong);
+      this.sendFrame({ type: 'ping', session_id: this.sessionId });
+    });
   }
 
   /**
    * Send typing indicator
    */
   async sendTyping(): Promise<SocketResponse> {
+    await this.connect();
+
+    if (!this.isConnected()) {
+      return this.createErrorResponse('Chat stream is not connected');
+    }
+
+    this.sendFrame({ type: 'typing', session_id: this.sessionId });
     return {
       type: 'typing_ack',
       session_id: this.sessionId,
@@ -133,16 +245,16 @@ export class SocketService {
   }
 
   /**
-   * Register a message handler
+   * Register a handler for a stream frame type (`chunk`, `complete`, `error`, `typing`)
    */
-  onMessage(type: string, handler: (response: SocketResponse) => void): void {
+  onMessage(type: WebSocketMessage['type'], handler: SocketMessageHandler): void {
     this.messageHandlers.set(type, handler);
   }
 
   /**
    * Remove a message handler
    */
-  offMessage(type: string): void {
+  offMessage(type: WebSocketMessage['type']): void {
     this.messageHandlers.delete(type);
   }
 
@@ -151,7 +263,7 @@ export class SocketService {
    */
   async getSocketInfo(): Promise<any> {
     try {
-      const response = await fetch('http://127.0.0.1:8001/api/v1/socket/info');
+      const response = await fetch(`${this.apiBaseUrl}/api/v1/socket/info`);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -163,23 +275,50 @@ export class SocketService {
   }
 
   /**
-   * Check if connected
+   * Check if the streaming socket is open
    */
   isConnected(): boolean {
-    return this.connectionPromise !== null;
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Get the transport currently used for chat messages
+   */
+  getTransport(): SocketTransport {
+    return this.transport;
+  }
+
+  /**
+   * Get the current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Listen for connection state and transport changes; returns a function that stops listening
+   */
+  onStateChange(handler: SocketStateHandler): () => void {
+    this.stateHandlers.add(handler);
+    return () => this.stateHandlers.delete(handler);
   }
 
   /**
    * Disconnect from the socket server
    */
   disconnect(): void {
+    this.isIntentionallyClosed = true;
+    this.clearSocketRetry();
+    this.stateHandlers.clear();
+    this.state = 'closed';
     if (this.socket) {
+      this.socket.onclose = null;
       this.socket.close();
       this.socket = null;
     }
     this.connectionPromise = null;
+    this.rejectPending('Chat stream disconnected');
     this.messageHandlers.clear();
-    console.log('Socket disconnected for session:', this.sessionId);
   }
 
   /**
@@ -188,4 +327,168 @@ export class SocketService {
   getSessionId(): string {
     return this.sessionId;
   }
-}
\ No newline at end of file
+
+  /**
+   * Send a chat message via HTTP (used when the stream socket can't connect)
+   */
+  private async sendChatMessageViaHttp(message: string, pageUrl?: string, pageTitle?: string, attachmentIds?: string[]): Promise<SocketResponse> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/api/v1/chat/message`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message,
+          session_id: this.sessionId,
+          page_url: pageUrl,
+          page_title: pageTitle,
+          attachment_ids: attachmentIds,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      // Replay the reply as a single complete frame so handlers see the same shape as a stream
+      this.dispatch({
+        type: 'complete',
+        full_response: data.response,
+        processing_time_ms: data.processing_time_ms,
+        model_used: data.model_used,
+        message_id: data.message_id,
+        sources: data.sources,
+      });
+
+      return {
+        type: 'chat_response',
+        session_id: this.sessionId,
+        message_id: data.message_id,
+        user_message: message,
+        ai_response: data.response,
+        processing_time_ms: data.processing_time_ms,
+        model_used: data.model_used,
+        confidence_score: data.confidence_score,
+        sources: data.sources,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.dispatch({ type: 'error', error: errorMessage });
+      return this.createErrorResponse(errorMessage);
+    }
+  }
+
+  /**
+   * Parse an inbound frame and route it to handlers and pending requests
+   */
+  private handleFrame(raw: string): void {
+    let frame: WebSocketMessage | { type: 'pong' };
+    try {
+      frame = JSON.parse(raw);
+    } catch (error) {
+      console.error('Error parsing chat stream frame:', error);
+      return;
+    }
+
+    if (frame.type === 'pong') {
+      this.pendingPongs.shift()?.();
+      return;
+    }
+
+    this.dispatch(frame);
+
+    if (frame.type === 'complete') {
+      const pending = this.pendingReplies.shift();
+      pending?.resolve({
+        type: 'chat_response',
+        session_id: this.sessionId,
+        message_id: frame.message_id,
+        sources: frame.sources,
+        user_message: pending.userMessage,
+        ai_response: frame.full_response,
+        processing_time_ms: frame.processing_time_ms,
+        model_used: frame.model_used,
+        timestamp: new Date().toISOString(),
+      });
+    } else if (frame.type === 'error') {
+      this.pendingReplies.shift()?.resolve(
+        this.createErrorResponse(frame.error || 'Chat stream error')
+      );
+    }
+  }
+
+  /**
+   * Deliver a frame to the handler registered for its type
+   */
+  private dispatch(frame: WebSocketMessage): void {
+    const handler = this.messageHandlers.get(frame.type);
+    if (handler) {
+      handler(frame);
+    }
+  }
+
+  /**
+   * Drop the dead socket and fail in-flight replies; later messages go over HTTP until a retry reopens it
+   */
+  private handleUnexpectedClose(): void {
+    this.socket = null;
+    this.connectionPromise = null;
+    if (this.pendingReplies.length > 0) {
+      this.dispatch({ type: 'error', error: 'Chat stream closed unexpectedly' });
+    }
+    this.rejectPending('Chat stream closed unexpectedly');
+    this.fallBackToHttp();
+  }
+
+  /**
+   * Send messages over HTTP and schedule the next socket attempt
+   */
+  private fallBackToHttp(): void {
+    this.transport = 'http';
+    if (this.isIntentionallyClosed) return;
+    this.socketRetryAt = Date.now() + SOCKET_RETRY_MS;
+    this.clearSocketRetry();
+    this.socketRetryTimer = setTimeout(() => {
+      this.socketRetryTimer = null;
+      void this.connect();
+    }, SOCKET_RETRY_MS);
+    this.setState('degraded');
+  }
+
+  private clearSocketRetry(): void {
+    if (this.socketRetryTimer) {
+      clearTimeout(this.socketRetryTimer);
+      this.socketRetryTimer = null;
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateHandlers.forEach(handler => handler(state, this.transport));
+  }
+
+  private rejectPending(reason: string): void {
+    this.pendingReplies.forEach(({ resolve }) => resolve(this.createErrorResponse(reason)));
+    this.pendingReplies = [];
+    this.pendingPongs = [];
+  }
+
+  private sendFrame(frame: SocketMessage): void {
+    this.socket?.send(JSON.stringify(frame));
+  }
+
+  private createErrorResponse(error: string): SocketResponse {
+    return {
+      type: 'error',
+      session_id: this.sessionId,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,367 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketService, acquireSharedWebSocket, releaseSharedWebSocket } from './websocket';
+
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readyState = FakeWebSocket.CONNECTING;
+  sent: Array<Record<string, unknown>> = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  /** Like a browser, the close event arrives later (see drop) */
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  /** The connection goes away */
+  drop() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  receive(frame: object) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+const options = {
+  baseReconnectDelay: 1000,
+  maxReconnectDelay: 8000,
+  heartbeatInterval: 25000,
+  heartbeatTimeout: 10000,
+};
+
+/** Open a service's first socket */
+const connectService = async (service: WebSocketService) => {
+  const connecting = service.connect();
+  latestSocket().open();
+  await connecting;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  FakeWebSocket.instances = [];
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('WebSocketService reconnects', () => {
+  it('backs off exponentially with jitter, capped per attempt but never giving up', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    service.connect().catch(() => {});
+
+    // Math.random() = 0 picks the low end of the jitter range, half the ceiling
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 8; attempt++) {
+      latestSocket().drop();
+      const before = FakeWebSocket.instances.length;
+      let waited = 0;
+      while (FakeWebSocket.instances.length === before) {
+        await vi.advanceTimersByTimeAsync(250);
+        waited += 250;
+      }
+      delays.push(waited);
+    }
+
+    expect(delays).toEqual([500, 1000, 2000, 4000, 4000, 4000, 4000, 4000]);
+    service.disconnect();
+  });
+
+  it('starts over from the base delay after a successful connect', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    service.connect().catch(() => {});
+    latestSocket().drop();
+    await vi.advanceTimersByTimeAsync(500);
+    latestSocket().drop();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    latestSocket().open();
+    latestSocket().drop();
+    await vi.advanceTimersByTimeAsync(499);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(FakeWebSocket.instances).toHaveLength(4);
+    service.disconnect();
+  });
+
+  it('does not reconnect after an intentional disconnect', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    await connectService(service);
+
+    service.disconnect();
+    latestSocket().drop();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(service.getState()).toBe('closed');
+  });
+
+  it('shares one socket between concurrent connect calls', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    const first = service.connect();
+    const second = service.connect();
+    latestSocket().open();
+
+    await Promise.all([first, second]);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    service.disconnect();
+  });
+});
+
+describe('WebSocketService heartbeat', () => {
+  it('marks a silent connection degraded, recovers on any frame and closes after a second miss', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    const states: string[] = [];
+    service.onStateChange(state => states.push(state));
+    await connectService(service);
+    const socket = latestSocket();
+
+    await vi.advanceTimersByTimeAsync(25000);
+    expect(socket.sent).toEqual([{ type: 'ping' }]);
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(service.getState()).toBe('degraded');
+
+    socket.receive({ type: 'pong' });
+    expect(service.getState()).toBe('open');
+
+    // Two missed pongs in a row (pings keep the 25 s rhythm: 50 s and 75 s)
+    await vi.advanceTimersByTimeAsync(25000);
+    expect(service.getState()).toBe('degraded');
+    await vi.advanceTimersByTimeAsync(25000);
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(states).toEqual(['connecting', 'open', 'degraded', 'open', 'degraded', 'closed']);
+
+    // The reconnect logic takes over
+    await vi.advanceTimersByTimeAsync(500);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(service.getState()).toBe('connecting');
+    service.disconnect();
+  });
+
+  it('stays open while pongs arrive', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    await connectService(service);
+
+    for (let beat = 0; beat < 3; beat++) {
+      await vi.advanceTimersByTimeAsync(25000);
+      latestSocket().receive({ type: 'pong' });
+    }
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(service.getState()).toBe('open');
+    expect(latestSocket().sent).toHaveLength(3);
+    service.disconnect();
+  });
+});
+
+describe('WebSocketService outbound queue', () => {
+  it('queues messages while disconnected and flushes them in order on open', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+
+    expect(service.sendMessage({ type: 'a' })).toBe(false);
+    expect(service.sendMessage({ type: 'b' })).toBe(false);
+    expect(service.getQueuedMessageCount()).toBe(2);
+
+    await connectService(service);
+
+    expect(latestSocket().sent).toEqual([{ type: 'a' }, { type: 'b' }]);
+    expect(service.getQueuedMessageCount()).toBe(0);
+    expect(service.sendMessage({ type: 'c' })).toBe(true);
+    service.disconnect();
+  });
+
+  it('drops the oldest message when the queue is full', async () => {
+    const service = new WebSocketService('ws://api.test/ws', { ...options, maxQueueSize: 2 });
+
+    ['a', 'b', 'c'].forEach(type => service.sendMessage({ type }));
+    await connectService(service);
+
+    expect(latestSocket().sent).toEqual([{ type: 'b' }, { type: 'c' }]);
+    service.disconnect();
+  });
+
+  it('keeps messages sent during a reconnect for the new socket', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    await connectService(service);
+
+    latestSocket().drop();
+    service.sendMessage({ type: 'while-down' });
+    await vi.advanceTimersByTimeAsync(500);
+    latestSocket().open();
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(latestSocket().sent).toEqual([{ type: 'while-down' }]);
+    service.disconnect();
+  });
+
+  it('discards queued messages on disconnect', () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    service.sendMessage({ type: 'a' });
+
+    service.disconnect();
+
+    expect(service.getQueuedMessageCount()).toBe(0);
+  });
+});
+
+describe('WebSocketService subscriptions', () => {
+  it('delivers messages to every listener of their type and to wildcard listeners', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    const first = vi.fn();
+    const second = vi.fn();
+    const all = vi.fn();
+    service.subscribe('chunk', first);
+    const unsubscribeSecond = service.subscribe('chunk', second);
+    service.subscribe('*', all);
+    await connectService(service);
+
+    latestSocket().receive({ type: 'chunk', content: 'a' });
+    unsubscribeSecond();
+    latestSocket().receive({ type: 'typing', is_typing: true });
+    latestSocket().receive({ type: 'chunk', content: 'b' });
+
+    expect(first.mock.calls.map(([message]) => message.content)).toEqual(['a', 'b']);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(all.mock.calls.map(([message]) => message.type)).toEqual(['chunk', 'typing', 'chunk']);
+    service.disconnect();
+  });
+
+  it('keeps delivering when a listener throws', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    const healthy = vi.fn();
+    service.subscribe('chunk', () => {
+      throw new Error('broken listener');
+    });
+    service.subscribe('chunk', healthy);
+    await connectService(service);
+
+    latestSocket().receive({ type: 'chunk', content: 'a' });
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    service.disconnect();
+  });
+
+  it('only delivers channel messages to that channel\'s listeners', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    const siteA = vi.fn();
+    const siteB = vi.fn();
+    service.subscribe('crawl_progress', siteA, { channel: 'crawl:a' });
+    service.subscribe('crawl_progress', siteB, { channel: 'crawl:b' });
+    await connectService(service);
+
+    latestSocket().receive({ type: 'crawl_progress', channel: 'crawl:a', job_id: 'job-1' });
+
+    expect(siteA).toHaveBeenCalledTimes(1);
+    expect(siteB).not.toHaveBeenCalled();
+    service.disconnect();
+  });
+
+  it('subscribes a channel on its first listener and unsubscribes after its last', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    await connectService(service);
+    const socket = latestSocket();
+
+    const first = service.subscribe('crawl_progress', vi.fn(), { channel: 'crawl:a' });
+    const second = service.subscribe('crawl_progress', vi.fn(), { channel: 'crawl:a' });
+    first();
+    first();
+    expect(socket.sent).toEqual([{ type: 'subscribe', channel: 'crawl:a' }]);
+
+    second();
+    expect(socket.sent).toEqual([
+      { type: 'subscribe', channel: 'crawl:a' },
+      { type: 'unsubscribe', channel: 'crawl:a' },
+    ]);
+    service.disconnect();
+  });
+
+  it('restores channel subscriptions after a reconnect', async () => {
+    const service = new WebSocketService('ws://api.test/ws', options);
+    service.subscribe('crawl_progress', vi.fn(), { channel: 'crawl:a' });
+    await connectService(service);
+    expect(latestSocket().sent).toEqual([{ type: 'subscribe', channel: 'crawl:a' }]);
+
+    latestSocket().drop();
+    await vi.advanceTimersByTimeAsync(500);
+    latestSocket().open();
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(latestSocket().sent).toEqual([{ type: 'subscribe', channel: 'crawl:a' }]);
+    service.disconnect();
+  });
+});
+
+describe('shared WebSocket connections', () => {
+  it('opens one socket per URL and closes it when the last consumer releases it', () => {
+    const url = 'ws://api.test/shared';
+    const first = acquireSharedWebSocket(url);
+    const second = acquireSharedWebSocket(url);
+    const other = acquireSharedWebSocket('ws://api.test/other');
+
+    expect(second).toBe(first);
+    expect(other).not.toBe(first);
+    expect(FakeWebSocket.instances.map(socket => socket.url)).toEqual([url, 'ws://api.test/other']);
+
+    releaseSharedWebSocket(url);
+    expect(first.getState()).toBe('connecting');
+
+    releaseSharedWebSocket(url);
+    expect(first.getState()).toBe('closed');
+    expect(FakeWebSocket.instances[0].readyState).toBe(FakeWebSocket.CLOSED);
+
+    // The next consumer gets a fresh connection
+    expect(acquireSharedWebSocket(url)).not.toBe(first);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    releaseSharedWebSocket(url);
+    releaseSharedWebSocket('ws://api.test/other');
+  });
+
+  it('drops the listeners of a released connection', async () => {
+    const url = 'ws://api.test/shared';
+    const service = acquireSharedWebSocket(url);
+    const listener = vi.fn();
+    service.subscribe('chunk', listener);
+    const socket = latestSocket();
+    socket.open();
+
+    releaseSharedWebSocket(url);
+    socket.receive({ type: 'chunk', content: 'late' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -1,94 +1,189 @@
-import type { WebSocketMessage } from '../types/api';
+import { config } from '../config/env';
+import type { ConnectionState, WebSocketMessage } from '../types/api';
+
+export type { ConnectionState };
 
 export type WebSocketEventHandler = (message: WebSocketMessage) => void;
 
+/** Message type to subscribe to, or '*' for every message */
+export type WebSocketEventType = WebSocketMessage['type'] | '*';
+
+export interface SubscribeOptions {
+  /** Only receive messages published on this topic channel */
+  channel?: string;
+}
+
+export type Unsubscribe = () => void;
+
+interface MessageListener {
+  handler: WebSocketEventHandler;
+  channel?: string;
+}
+
+/**
+ * Topic channel names shared with the backend
+ */
+export const websocketChannels = {
+  crawl: (websiteId: string) => `crawl:${websiteId}`,
+  crawlJob: (jobId: string) => `crawl-job:${jobId}`,
+  chat: (sessionId: string) => `chat:${sessionId}`,
+};
+
+/**
+ * Connection states emitted by the service:
+ * - connecting: opening the socket (first connect or reconnect)
+ * - open: socket is open and the server answers heartbeats
+ * - degraded: socket is open but the server missed a heartbeat
+ * - closed: socket is down, or was closed intentionally
+ */
+export type ConnectionStateHandler = (state: ConnectionState) => void;
+
+export interface WebSocketServiceOptions {
+  /** Delay before the first reconnect attempt in ms (default: 1000) */
+  baseReconnectDelay?: number;
+  /** Upper bound for a single reconnect delay in ms (default: 30000) */
+  maxReconnectDelay?: number;
+  /** How often to send a heartbeat ping in ms (default: 25000) */
+  heartbeatInterval?: number;
+  /** How long to wait for a pong before marking the connection degraded in ms (default: 10000) */
+  heartbeatTimeout?: number;
+  /** Maximum number of outbound messages kept while disconnected (default: 100) */
+  maxQueueSize?: number;
+}
+
+const DEFAULT_OPTIONS: Required<WebSocketServiceOptions> = {
+  baseReconnectDelay: 1000,
+  maxReconnectDelay: 30000,
+  heartbeatInterval: 25000,
+  heartbeatTimeout: 10000,
+  maxQueueSize: 100,
+};
+
 export class WebSocketService {
   private ws: WebSocket | null = null;
   private url: string;
+  private options: Required<WebSocketServiceOptions>;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectInterval = 1000; // Start with 1 second
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimeoutTimer: ReturnType<typeof setTimeout> | null = null;
   private isIntentionallyClosed = false;
-  
-  // Event handlers
-  private onMessageHandler: WebSocketEventHandler | null = null;
-  private onOpenHandler: (() => void) | null = null;
-  private onCloseHandler: (() => void) | null = null;
-  private onErrorHandler: ((error: Event) => void) | null = null;
-
-  constructor(url: string) {
+  private state: ConnectionState = 'closed';
+  private outboundQueue: string[] = [];
+  private pendingConnect: Promise<void> | null = null;
+
+  // Event listeners
+  private messageListeners: Map<WebSocketEventType, Set<MessageListener>> = new Map();
+  private channelRefCounts: Map<string, number> = new Map();
+  private openHandlers: Set<() => void> = new Set();
+  private closeHandlers: Set<() => void> = new Set();
+  private errorHandlers: Set<(error: Event) => void> = new Set();
+  private stateChangeHandlers: Set<ConnectionStateHandler> = new Set();
+
+  constructor(url: string, options: WebSocketServiceOptions = {}) {
     this.url = url;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
   /**
-   * Connect to WebSocket
+   * Connect to WebSocket. Calls while a connection is opening share its promise
+   * instead of opening a second socket.
    */
   connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    if (this.isConnected()) {
+      return Promise.resolve();
+    }
+    if (this.pendingConnect) {
+      return this.pendingConnect;
+    }
+
+    this.isIntentionallyClosed = false;
+    this.clearReconnectTimer();
+    window.addEventListener('online', this.handleBrowserOnline);
+    this.setState('connecting');
+
+    const attempt = new Promise<void>((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.url);
-        this.isIntentionallyClosed = false;
+        const ws = new WebSocket(this.url);
+        this.ws = ws;
 
-        this.ws.onopen = () => {
+        ws.onopen = () => {
           console.log('WebSocket connected');
           this.reconnectAttempts = 0;
-          this.reconnectInterval = 1000;
-          
-          if (this.onOpenHandler) {
-            this.onOpenHandler();
-          }
+          this.setState('open');
+          this.startHeartbeat();
+          this.resubscribeChannels();
+          this.flushQueue();
+
+          this.openHandlers.forEach(handler => handler());
           resolve();
         };
 
-        this.ws.onmessage = (event) => {
+        ws.onmessage = (event) => {
+          // Any inbound frame proves the connection is alive
+          this.markAlive();
+
           try {
-            const message: WebSocketMessage = JSON.parse(event.data);
-            if (this.onMessageHandler) {
-              this.onMessageHandler(message);
+            const message = JSON.parse(event.data);
+            if (message.type === 'pong') {
+              return;
             }
+            this.dispatch(message as WebSocketMessage);
           } catch (error) {
             console.error('Error parsing WebSocket message:', error);
           }
         };
 
-        this.ws.onclose = () => {
-          console.log('WebSocket disconnected');
-          this.ws = null;
-          
-          if (this.onCloseHandler) {
-            this.onCloseHandler();
-          }
-
-          // Attempt to reconnect if not intentionally closed
-          if (!this.isIntentionallyClosed && this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.attemptReconnect();
-          }
+        ws.onclose = () => {
+          reject(new Error('WebSocket closed'));
+          this.handleClose(ws);
         };
 
-        this.ws.onerror = (error) => {
+        ws.onerror = (error) => {
           console.error('WebSocket error:', error);
-          if (this.onErrorHandler) {
-            this.onErrorHandler(error);
-          }
+          this.errorHandlers.forEach(handler => handler(error));
           reject(error);
         };
 
       } catch (error) {
+        this.setState('closed');
+        if (!this.isIntentionallyClosed) {
+          this.scheduleReconnect();
+        }
         reject(error);
       }
     });
+
+    this.pendingConnect = attempt;
+    const settle = () => {
+      if (this.pendingConnect === attempt) {
+        this.pendingConnect = null;
+      }
+    };
+    attempt.then(settle, settle);
+    return attempt;
   }
 
   /**
-   * Send a message through WebSocket
+   * Send a message through WebSocket.
+   * While disconnected the message is queued and sent once the connection reopens;
+   * the oldest queued message is dropped when the queue is full.
+   * Returns true if the message was sent immediately.
    */
-  sendMessage(message: any): void {
+  sendMessage(message: any): boolean {
+    const payload = JSON.stringify(message);
+
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
-    } else {
-      console.error('WebSocket is not connected');
-      throw new Error('WebSocket is not connected');
+      this.ws.send(payload);
+      return true;
+    }
+
+    if (this.outboundQueue.length >= this.options.maxQueueSize) {
+      console.warn('WebSocket send queue is full, dropping oldest message');
+      this.outboundQueue.shift();
     }
+    this.outboundQueue.push(payload);
+    return false;
   }
 
   /**
@@ -96,10 +191,17 @@ export class WebSocketService {
    */
   disconnect(): void {
     this.isIntentionallyClosed = true;
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.outboundQueue = [];
+    window.removeEventListener('online', this.handleBrowserOnline);
+    this.pendingConnect = null;
+
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
+    this.setState('closed');
   }
 
   /**
@@ -110,49 +212,308 @@ export class WebSocketService {
   }
 
   /**
-   * Attempt to reconnect with exponential backoff
+   * Get the current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Number of messages waiting for the connection to reopen
+   */
+  getQueuedMessageCount(): number {
+    return this.outboundQueue.length;
+  }
+
+  /**
+   * Tear down after a socket closes and reconnect unless the close was intentional
+   */
+  private handleClose(ws: WebSocket): void {
+    // Ignore sockets that were already replaced by a newer connection
+    if (this.ws !== ws && this.ws !== null) return;
+
+    console.log('WebSocket disconnected');
+    ws.onclose = null;
+    this.ws = null;
+    this.stopHeartbeat();
+    this.setState('closed');
+
+    this.closeHandlers.forEach(handler => handler());
+
+    if (!this.isIntentionallyClosed) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Schedule a reconnect using exponential backoff with jitter.
+   * There is no attempt limit; the delay is capped at maxReconnectDelay.
    */
-  private attemptReconnect(): void {
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    const { baseReconnectDelay, maxReconnectDelay } = this.options;
+    const ceiling = Math.min(maxReconnectDelay, baseReconnectDelay * 2 ** this.reconnectAttempts);
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
     this.reconnectAttempts++;
-    
-    console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-    
-    setTimeout(() => {
+
+    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect().catch((error) => {
         console.error('Reconnection failed:', error);
-        
-        // Increase reconnect interval with exponential backoff
-        this.reconnectInterval = Math.min(this.reconnectInterval * 2, 30000); // Max 30 seconds
       });
-    }, this.reconnectInterval);
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Reconnect right away when the browser comes back online
+   */
+  private handleBrowserOnline = (): void => {
+    if (this.isIntentionallyClosed || this.state !== 'closed') return;
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.connect().catch((error) => {
+      console.error('Reconnection failed:', error);
+    });
+  };
+
+  /**
+   * Ping the server periodically. A missed pong marks the connection degraded,
+   * and a second miss closes the socket so the reconnect logic takes over.
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+      this.ws.send(JSON.stringify({ type: 'ping' }));
+
+      if (!this.heartbeatTimeoutTimer) {
+        this.heartbeatTimeoutTimer = setTimeout(() => {
+          this.heartbeatTimeoutTimer = null;
+          if (this.state === 'degraded' && this.ws) {
+            // Don't wait for the close handshake on a dead connection
+            console.warn('WebSocket heartbeat lost, closing connection');
+            const deadSocket = this.ws;
+            deadSocket.close();
+            this.handleClose(deadSocket);
+          } else {
+            this.setState('degraded');
+          }
+        }, this.options.heartbeatTimeout);
+      }
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.heartbeatTimeoutTimer) {
+      clearTimeout(this.heartbeatTimeoutTimer);
+      this.heartbeatTimeoutTimer = null;
+    }
+  }
+
+  private markAlive(): void {
+    if (this.heartbeatTimeoutTimer) {
+      clearTimeout(this.heartbeatTimeoutTimer);
+      this.heartbeatTimeoutTimer = null;
+    }
+    if (this.state === 'degraded') {
+      this.setState('open');
+    }
+  }
+
+  /**
+   * Send messages queued while disconnected, in order
+   */
+  private flushQueue(): void {
+    while (this.outboundQueue.length > 0 && this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(this.outboundQueue.shift()!);
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateChangeHandlers.forEach(handler => handler(state));
+  }
+
+  /**
+   * Deliver a message to every matching listener
+   */
+  private dispatch(message: WebSocketMessage): void {
+    const listeners = [
+      ...(this.messageListeners.get(message.type) || []),
+      ...(this.messageListeners.get('*') || []),
+    ];
+
+    listeners.forEach(({ handler, channel }) => {
+      if (channel && channel !== message.channel) return;
+      try {
+        handler(message);
+      } catch (error) {
+        console.error('WebSocket message handler failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Track channel listeners and tell the server when a channel gains its first
+   * or loses its last listener
+   */
+  private retainChannel(channel: string): void {
+    const count = this.channelRefCounts.get(channel) || 0;
+    this.channelRefCounts.set(channel, count + 1);
+    if (count === 0 && this.isConnected()) {
+      this.ws!.send(JSON.stringify({ type: 'subscribe', channel }));
+    }
+  }
+
+  private releaseChannel(channel: string): void {
+    const count = this.channelRefCounts.get(channel) || 0;
+    if (count <= 1) {
+      this.channelRefCounts.delete(channel);
+      if (this.isConnected()) {
+        this.ws!.send(JSON.stringify({ type: 'unsubscribe', channel }));
+      }
+    } else {
+      this.channelRefCounts.set(channel, count - 1);
+    }
+  }
+
+  /**
+   * Restore channel subscriptions after a (re)connect; the server forgets them on close
+   */
+  private resubscribeChannels(): void {
+    this.channelRefCounts.forEach((_count, channel) => {
+      this.ws?.send(JSON.stringify({ type: 'subscribe', channel }));
+    });
   }
 
   /**
-   * Set event handlers
+   * Subscribe to messages of a type ('*' for all), optionally scoped to a topic channel.
+   * Any number of listeners can be registered; call the returned function to unsubscribe.
    */
-  onMessage(handler: WebSocketEventHandler): void {
-    this.onMessageHandler = handler;
+  subscribe(
+    eventType: WebSocketEventType,
+    handler: WebSocketEventHandler,
+    options: SubscribeOptions = {}
+  ): Unsubscribe {
+    const listener: MessageListener = { handler, channel: options.channel };
+    if (!this.messageListeners.has(eventType)) {
+      this.messageListeners.set(eventType, new Set());
+    }
+    this.messageListeners.get(eventType)!.add(listener);
+    if (listener.channel) {
+      this.retainChannel(listener.channel);
+    }
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      this.messageListeners.get(eventType)?.delete(listener);
+      if (listener.channel) {
+        this.releaseChannel(listener.channel);
+      }
+    };
   }
 
-  onOpen(handler: () => void): void {
-    this.onOpenHandler = handler;
+  /**
+   * Add event handlers (each returns a function that removes it)
+   */
+  onMessage(handler: WebSocketEventHandler): Unsubscribe {
+    return this.subscribe('*', handler);
   }
 
-  onClose(handler: () => void): void {
-    this.onCloseHandler = handler;
+  onOpen(handler: () => void): Unsubscribe {
+    this.openHandlers.add(handler);
+    return () => this.openHandlers.delete(handler);
   }
 
-  onError(handler: (error: Event) => void): void {
-    this.onErrorHandler = handler;
+  onClose(handler: () => void): Unsubscribe {
+    this.closeHandlers.add(handler);
+    return () => this.closeHandlers.delete(handler);
+  }
+
+  onError(handler: (error: Event) => void): Unsubscribe {
+    this.errorHandlers.add(handler);
+    return () => this.errorHandlers.delete(handler);
+  }
+
+  onStateChange(handler: ConnectionStateHandler): Unsubscribe {
+    this.stateChangeHandlers.add(handler);
+    return () => this.stateChangeHandlers.delete(handler);
   }
 
   /**
    * Remove event handlers
    */
   removeAllHandlers(): void {
-    this.onMessageHandler = null;
-    this.onOpenHandler = null;
-    this.onCloseHandler = null;
-    this.onErrorHandler = null;
+    this.channelRefCounts.forEach((_count, channel) => {
+      if (this.isConnected()) {
+        this.ws!.send(JSON.stringify({ type: 'unsubscribe', channel }));
+      }
+    });
+    this.channelRefCounts.clear();
+    this.messageListeners.clear();
+    this.openHandlers.clear();
+    this.closeHandlers.clear();
+    this.errorHandlers.clear();
+    this.stateChangeHandlers.clear();
+  }
+}
+
+// Shared connections, reference counted so one socket serves every consumer of a URL
+const sharedConnections: Map<string, { service: WebSocketService; refs: number }> = new Map();
+
+/**
+ * Get the shared connection for a URL, connecting it on first use.
+ * Every acquire must be paired with releaseSharedWebSocket().
+ */
+export const acquireSharedWebSocket = (url: string = config.websocket.url): WebSocketService => {
+  let entry = sharedConnections.get(url);
+  if (!entry) {
+    entry = {
+      service: new WebSocketService(url, { baseReconnectDelay: config.websocket.reconnectInterval }),
+      refs: 0,
+    };
+    sharedConnections.set(url, entry);
+  }
+
+  entry.refs++;
+  if (entry.refs === 1) {
+    entry.service.connect().catch((error) => {
+      console.error('Shared WebSocket connection failed:', error);
+    });
+  }
+  return entry.service;
+};
+
+/**
+ * Release a shared connection; the socket closes once its last consumer releases it
+ */
+export const releaseSharedWebSocket = (url: string = config.websocket.url): void => {
+  const entry = sharedConnections.get(url);
+  if (!entry) return;
+
+  entry.refs--;
+  if (entry.refs <= 0) {
+    entry.service.removeAllHandlers();
+    entry.service.disconnect();
+    sharedConnections.delete(url);
   }
-}
\ No newline at end of file
+};
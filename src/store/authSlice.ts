@@ -7,7 +7,7 @@
 
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-import { apiService } from '../services/centralizedApi';
+import { apiService, ApiError, type ApiErrorPayload } from '../services/centralizedApi';
 import { showSuccessToast, showErrorToast, clearErrorToasts } from './notificationSlice';
 
 export interface User {
@@ -26,6 +26,8 @@ interface AuthState {
   isLoading: boolean;
   isRefreshing: boolean;
   error: string | null;
+  /** Per-field validation errors from the last rejected registration */
+  fieldErrors: Record<string, string>;
   lastTokenRefresh: number | null;
   tokenExpiresAt: number | null;
 }
@@ -48,6 +50,7 @@ const initialState: AuthState = {
   isLoading: false,
   isRefreshing: false,
   error: null,
+  fieldErrors: {},
   lastTokenRefresh: null,
   tokenExpiresAt: null
 };
@@ -161,16 +164,16 @@ export const registerUser = createAsyncThunk(
 
       if (!response.success) {
         dispatch(showErrorToast('Registration Failed', response.message || 'Please check your information and try again.'));
-        return rejectWithValue(response.message || 'Registration failed');
+        return rejectWithValue((response.error ?? ApiError.from(new Error(response.message || 'Registration failed'))).toPayload());
       }
 
       dispatch(showSuccessToast('Registration Successful', 'Please check your email to verify your account.'));
 
       return response.data;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Registration failed';
-      dispatch(showErrorToast('Registration Error', message));
-      return rejectWithValue(message);
+      const apiError = ApiError.from(error);
+      dispatch(showErrorToast('Registration Error', apiError.message));
+      return rejectWithValue(apiError.toPayload());
     }
   }
 );
@@ -200,6 +203,7 @@ const authSlice = createSlice({
   reducers: {
     clearError: (state) => {
       state.error = null;
+      state.fieldErrors = {};
     },
     setTokenExpiration: (state, action: PayloadAction<number>) => {
       state.tokenExpiresAt = action.payload;
@@ -299,6 +303,7 @@ const authSlice = createSlice({
       .addCase(registerUser.pending, (state) => {
         state.isLoading = true;
         state.error = null;
+        state.fieldErrors = {};
       })
       .addCase(registerUser.fulfilled, (state) => {
         state.isLoading = false;
@@ -307,8 +312,10 @@ const authSlice = createSlice({
         // User needs to verify email first
       })
       .addCase(registerUser.rejected, (state, action) => {
+        const payload = action.payload as ApiErrorPayload | undefined;
         state.isLoading = false;
-        state.error = action.payload as string;
+        state.error = payload?.message || 'Registration failed';
+        state.fieldErrors = payload?.fieldErrors || {};
       });
 
     // Logout user
@@ -0,0 +1,172 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import { ApiError, apiService, type ApiResponse, type Website } from '../services/centralizedApi';
+import authReducer, { logoutUser } from './authSlice';
+import notificationReducer from './notificationSlice';
+import dashboardReducer, {
+  createWebsite,
+  deleteWebsite,
+  replayMutationQueue,
+  revertWebsiteDelete,
+  triggerCrawl,
+  type WebsiteRegistrationData,
+} from './dashboardSlice';
+
+const createStore = () =>
+  configureStore({
+    reducer: { auth: authReducer, dashboard: dashboardReducer, notifications: notificationReducer },
+  });
+
+const website = (id: string, name = id): Website => ({
+  id,
+  domain: `${id}.example.com`,
+  name,
+  url: `https://${id}.example.com`,
+  status: 'active',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  verification_status: 'verified',
+  widget_status: 'active',
+  scraping_status: 'completed',
+});
+
+const registration = (name: string): WebsiteRegistrationData => ({
+  name,
+  domain: `${name}.example.com`,
+  url: `https://${name}.example.com`,
+  description: '',
+  category: 'other',
+  scrapingFrequency: 'weekly',
+  maxPages: 10,
+  features: [],
+});
+
+const ok = <T>(data: T): ApiResponse<T> => ({ success: true, data });
+
+const failure = (status: number, code: ApiError['code']): ApiResponse<never> => ({
+  success: false,
+  data: undefined as never,
+  message: `Failed with ${status}`,
+  error: new ApiError({ message: `Failed with ${status}`, status, code }),
+});
+
+let online = true;
+
+beforeEach(() => {
+  online = true;
+  vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+  vi.spyOn(apiService, 'getWebsiteCrawlStatus').mockResolvedValue(failure(404, 'not_found'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** Queue a create, a crawl and a delete while offline */
+const queueOfflineChanges = async (store: ReturnType<typeof createStore>) => {
+  store.dispatch(revertWebsiteDelete(website('site-1')));
+  online = false;
+  await store.dispatch(createWebsite(registration('shop')));
+  await store.dispatch(triggerCrawl({ websiteId: 'site-1', maxPages: 5 }));
+  await store.dispatch(deleteWebsite('site-1'));
+  online = true;
+};
+
+describe('offline mutation queue', () => {
+  it('shows queued changes optimistically', async () => {
+    const store = createStore();
+    await queueOfflineChanges(store);
+
+    const { pendingMutations, websites } = store.getState().dashboard;
+    expect(pendingMutations.map(mutation => mutation.type)).toEqual(['createWebsite', 'triggerCrawl', 'deleteWebsite']);
+    expect(websites.map(item => [item.name, item.status])).toEqual([['shop', 'pending']]);
+  });
+
+  it('replays in order without toasting errors and swaps in the created website', async () => {
+    const store = createStore();
+    await queueOfflineChanges(store);
+
+    const calls: string[] = [];
+    const createSpy = vi.spyOn(apiService, 'createWebsite').mockImplementation(async () => {
+      calls.push('create');
+      return ok({ website: website('site-2', 'shop'), message: 'Created' });
+    });
+    vi.spyOn(apiService, 'triggerCrawl').mockImplementation(async () => {
+      calls.push('crawl');
+      return ok({ task_id: 'task-1' });
+    });
+    const deleteSpy = vi.spyOn(apiService, 'deleteWebsite').mockImplementation(async () => {
+      calls.push('delete');
+      return ok(undefined);
+    });
+
+    const result = await store.dispatch(replayMutationQueue());
+
+    expect(calls).toEqual(['create', 'crawl', 'delete']);
+    expect(result.payload).toEqual({ applied: 3, conflicts: 0 });
+    expect(createSpy.mock.calls[0][1]).toEqual({ suppressErrorNotifications: true });
+    expect(deleteSpy).toHaveBeenCalledWith('site-1', { suppressErrorNotifications: true });
+    expect(store.getState().dashboard.pendingMutations).toEqual([]);
+    expect(store.getState().dashboard.websites.map(item => item.id)).toEqual(['site-2']);
+  });
+
+  it('stops at a network failure and keeps the rest queued', async () => {
+    const store = createStore();
+    await queueOfflineChanges(store);
+
+    vi.spyOn(apiService, 'createWebsite').mockResolvedValue(ok({ website: website('site-2', 'shop'), message: 'Created' }));
+    vi.spyOn(apiService, 'triggerCrawl').mockResolvedValue(failure(0, 'network'));
+    const deleteSpy = vi.spyOn(apiService, 'deleteWebsite');
+
+    const result = await store.dispatch(replayMutationQueue());
+
+    expect(result.payload).toEqual({ applied: 1, conflicts: 0 });
+    expect(deleteSpy).not.toHaveBeenCalled();
+    expect(store.getState().dashboard.pendingMutations.map(mutation => [mutation.type, mutation.status]))
+      .toEqual([['triggerCrawl', 'pending'], ['deleteWebsite', 'pending']]);
+  });
+
+  it('turns server rejections into conflicts and undoes the optimistic change', async () => {
+    const store = createStore();
+    await queueOfflineChanges(store);
+
+    vi.spyOn(apiService, 'createWebsite').mockResolvedValue(failure(409, 'conflict'));
+    vi.spyOn(apiService, 'triggerCrawl').mockResolvedValue(ok({ task_id: 'task-1' }));
+    vi.spyOn(apiService, 'deleteWebsite').mockResolvedValue(failure(403, 'forbidden'));
+
+    const result = await store.dispatch(replayMutationQueue());
+
+    expect(result.payload).toEqual({ applied: 1, conflicts: 2 });
+    const { pendingMutations, websites } = store.getState().dashboard;
+    expect(pendingMutations.map(mutation => [mutation.type, mutation.status, mutation.error?.status]))
+      .toEqual([['createWebsite', 'conflict', 409], ['deleteWebsite', 'conflict', 403]]);
+    expect(websites.map(item => [item.name, item.status])).toEqual([['shop', 'error'], ['site-1', 'active']]);
+  });
+
+  it('counts a delete of an already deleted website as applied', async () => {
+    const store = createStore();
+    store.dispatch(revertWebsiteDelete(website('site-1')));
+    online = false;
+    await store.dispatch(deleteWebsite('site-1'));
+    online = true;
+
+    vi.spyOn(apiService, 'deleteWebsite').mockResolvedValue(failure(404, 'not_found'));
+
+    const result = await store.dispatch(replayMutationQueue());
+
+    expect(result.payload).toEqual({ applied: 1, conflicts: 0 });
+    expect(store.getState().dashboard.pendingMutations).toEqual([]);
+    expect(store.getState().notifications.toasts.filter(toast => toast.type === 'error')).toEqual([]);
+  });
+
+  it('forgets queued changes and their placeholders on logout', async () => {
+    const store = createStore();
+    await queueOfflineChanges(store);
+
+    await store.dispatch(logoutUser());
+
+    expect(store.getState().dashboard.pendingMutations).toEqual([]);
+    expect(store.getState().dashboard.websites).toEqual([]);
+  });
+});
@@ -7,8 +7,36 @@
 
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-import { apiService, type Website, type DashboardOverview, type DashboardMetrics, type WebsitesWithMetricsResponse, type ChatStats, type CrawlStatus } from '../services/centralizedApi';
+import { apiService, type ApiErrorPayload, type ApiResponse, type Website, type DashboardOverview, type DashboardMetrics, type WebsitesWithMetricsResponse, type ChatStats, type CrawlStatus } from '../services/centralizedApi';
 import { config } from '../config/env';
+import { logoutUser } from './authSlice';
+
+export interface WebsiteRegistrationData {
+  name: string;
+  domain: string;
+  url: string;
+  description: string;
+  category: string;
+  scrapingFrequency: string;
+  maxPages: number;
+  features: string[];
+}
+
+/**
+ * Dashboard mutation made while offline. Queued items are replayed in order
+ * once the connection returns; items the server rejects move to 'conflict'
+ * and wait for the user to retry or discard them.
+ */
+export type QueuedMutation = {
+  id: string;
+  queuedAt: string;
+  status: 'pending' | 'conflict';
+  error: ApiErrorPayload | null;
+} & (
+  | { type: 'createWebsite'; websiteData: WebsiteRegistrationData; placeholder: Website }
+  | { type: 'deleteWebsite'; websiteId: string; website: Website | null }
+  | { type: 'triggerCrawl'; websiteId: string; maxPages?: number }
+);
 
 interface DashboardState {
   // Website data (shared between Dashboard and Websites pages)
@@ -52,6 +80,10 @@ interface DashboardState {
   crawlStatusesError: Record<string, string>;
   crawlTriggerLoading: Record<string, boolean>;
 
+  // Offline mutation queue (persisted)
+  pendingMutations: QueuedMutation[];
+  isReplayingMutations: boolean;
+
   // UI state
   selectedWebsiteId: string | null;
   refreshInterval: number;
@@ -86,10 +118,63 @@ const initialState: DashboardState = {
   crawlStatusesError: {},
   crawlTriggerLoading: {},
 
+  pendingMutations: [],
+  isReplayingMutations: false,
+
   selectedWebsiteId: null,
   refreshInterval: 30000 // 30 seconds
 };
 
+const createMutationId = () =>
+  `mutation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A mutation is queued instead of failing when the browser is offline
+ * (no response) or the request never reached the server
+ */
+const shouldQueueMutation = (response: ApiResponse<unknown> | null): boolean =>
+  !response || response.error?.code === 'network';
+
+/**
+ * Stand-in list entry for a website registered while offline
+ */
+const createPlaceholderWebsite = (mutationId: string, websiteData: WebsiteRegistrationData): Website => {
+  const now = new Date().toISOString();
+  return {
+    id: `pending-${mutationId}`,
+    domain: websiteData.domain,
+    name: websiteData.name,
+    url: websiteData.url,
+    status: 'pending',
+    created_at: now,
+    updated_at: now,
+    verification_status: 'pending',
+    widget_status: 'pending',
+    scraping_status: 'pending'
+  };
+};
+
+/**
+ * Keep queued creates and deletes visible on top of freshly fetched websites
+ */
+const applyQueuedMutations = (websites: Website[], queue: QueuedMutation[]): Website[] => {
+  const deletedIds = new Set<string>();
+  const placeholders: Website[] = [];
+
+  queue.forEach(mutation => {
+    if (mutation.type === 'deleteWebsite' && mutation.status === 'pending') {
+      deletedIds.add(mutation.websiteId);
+    } else if (mutation.type === 'createWebsite') {
+      placeholders.push({ ...mutation.placeholder, status: mutation.status === 'conflict' ? 'error' : 'pending' });
+    }
+  });
+
+  if (deletedIds.size === 0 && placeholders.length === 0) {
+    return websites;
+  }
+  return [...placeholders, ...websites.filter(website => !deletedIds.has(website.id))];
+};
+
 // Async thunks
 
 /**
@@ -214,11 +299,34 @@ export const deleteWebsite = createAsyncThunk(
     const currentState = getState() as RootState;
     const websiteToDelete = currentState.dashboard.websites.find(w => w.id === websiteId);
 
+    // Deleting a website that was registered offline just drops the queued create
+    const queuedCreate = currentState.dashboard.pendingMutations.find(
+      mutation => mutation.type === 'createWebsite' && mutation.placeholder.id === websiteId
+    );
+    if (queuedCreate) {
+      await dispatch(discardQueuedMutation(queuedCreate.id));
+      return { websiteId, deletedWebsite: websiteToDelete, queued: false };
+    }
+
     // Optimistic update - remove from UI immediately
     dispatch(removeWebsiteOptimistic(websiteId));
 
     try {
-      const response = await apiService.deleteWebsite(websiteId);
+      const response = navigator.onLine ? await apiService.deleteWebsite(websiteId) : null;
+
+      // Offline: keep the website hidden and delete it once the connection returns
+      if (shouldQueueMutation(response)) {
+        dispatch(queueMutation({
+          id: createMutationId(),
+          queuedAt: new Date().toISOString(),
+          status: 'pending',
+          error: null,
+          type: 'deleteWebsite',
+          websiteId,
+          website: websiteToDelete ?? null
+        }));
+        return { websiteId, deletedWebsite: websiteToDelete, queued: true };
+      }
 
       if (!response.success) {
         // Revert optimistic update on failure
@@ -229,7 +337,7 @@ export const deleteWebsite = createAsyncThunk(
       }
 
       // Return both the websiteId and the deleted website data for metrics update
-      return { websiteId, deletedWebsite: websiteToDelete };
+      return { websiteId, deletedWebsite: websiteToDelete, queued: false };
     } catch (error) {
       // Revert optimistic update on error
       if (websiteToDelete) {
@@ -268,9 +376,29 @@ export const fetchCrawlStatus = createAsyncThunk(
  */
 export const triggerCrawl = createAsyncThunk(
   'dashboard/triggerCrawl',
-  async ({ websiteId, maxPages }: { websiteId: string; maxPages?: number }, { rejectWithValue, dispatch }) => {
+  async ({ websiteId, maxPages }: { websiteId: string; maxPages?: number }, { rejectWithValue, dispatch, getState }) => {
+    const isQueuedWebsite = (getState() as RootState).dashboard.pendingMutations.some(
+      mutation => mutation.type === 'createWebsite' && mutation.placeholder.id === websiteId
+    );
+    if (isQueuedWebsite) {
+      return rejectWithValue('This website will be registered once you are back online');
+    }
+
     try {
-      const response = await apiService.triggerCrawl(websiteId, maxPages);
+      const response = navigator.onLine ? await apiService.triggerCrawl(websiteId, maxPages) : null;
+
+      if (shouldQueueMutation(response)) {
+        dispatch(queueMutation({
+          id: createMutationId(),
+          queuedAt: new Date().toISOString(),
+          status: 'pending',
+          error: null,
+          type: 'triggerCrawl',
+          websiteId,
+          maxPages
+        }));
+        return { websiteId, taskId: null, queued: true };
+      }
 
       if (!response.success) {
         return rejectWithValue(response.message || 'Failed to trigger crawl');
@@ -279,7 +407,7 @@ export const triggerCrawl = createAsyncThunk(
       // Fetch updated crawl status only
       dispatch(fetchCrawlStatus(websiteId));
 
-      return { websiteId, taskId: response.data.task_id };
+      return { websiteId, taskId: response.data.task_id, queued: false };
     } catch (error) {
       return rejectWithValue(error instanceof Error ? error.message : 'Failed to trigger crawl');
     }
@@ -326,27 +454,40 @@ export const refreshDashboardState = createAsyncThunk(
  */
 export const createWebsite = createAsyncThunk(
   'dashboard/createWebsite',
-  async (websiteData: {
-    name: string;
-    domain: string;
-    url: string;
-    description: string;
-    category: string;
-    scrapingFrequency: string;
-    maxPages: number;
-    features: string[];
-  }, { rejectWithValue }) => {
+  async (websiteData: WebsiteRegistrationData, { rejectWithValue, dispatch }) => {
     try {
-      const response = await apiService.createWebsite(websiteData);
+      const response = navigator.onLine ? await apiService.createWebsite(websiteData) : null;
+
+      // Offline: show a pending placeholder and register the website once the connection returns
+      if (shouldQueueMutation(response)) {
+        const id = createMutationId();
+        const placeholder = createPlaceholderWebsite(id, websiteData);
+        dispatch(queueMutation({
+          id,
+          queuedAt: new Date().toISOString(),
+          status: 'pending',
+          error: null,
+          type: 'createWebsite',
+          websiteData,
+          placeholder
+        }));
+        return {
+          website: placeholder,
+          message: 'Website will be registered once you are back online',
+          queued: true
+        };
+      }
 
       if (!response.success) {
-        return rejectWithValue(response.message || 'Failed to create website');
+        // Keep status and field errors so the form can point at the rejected input
+        return rejectWithValue(response.error?.toPayload() ?? response.message ?? 'Failed to create website');
       }
 
       // Return the website from the backend response
       return {
         website: response.data.website,
-        message: response.data.message
+        message: response.data.message,
+        queued: false
       };
     } catch (error) {
       return rejectWithValue(error instanceof Error ? error.message : 'Failed to create website');
@@ -354,6 +495,129 @@ export const createWebsite = createAsyncThunk(
   }
 );
 
+/**
+ * Replay queued mutations in order. Stops at the first network failure so the
+ * remaining items keep their order; server rejections become conflicts.
+ * Requests don't toast their own errors: PendingMutations lists the conflicts.
+ */
+export const replayMutationQueue = createAsyncThunk(
+  'dashboard/replayMutationQueue',
+  async (_, { dispatch, getState }) => {
+    const attempted = new Set<string>();
+    let applied = 0;
+    let conflicts = 0;
+    const options = { suppressErrorNotifications: true };
+
+    for (;;) {
+      // Re-read the queue each time: items may be retried or discarded meanwhile
+      const mutation = (getState() as RootState).dashboard.pendingMutations.find(
+        item => item.status === 'pending' && !attempted.has(item.id)
+      );
+      if (!mutation) break;
+      attempted.add(mutation.id);
+
+      let response: ApiResponse<unknown>;
+      switch (mutation.type) {
+        case 'createWebsite': {
+          const created = await apiService.createWebsite(mutation.websiteData, options);
+          if (created.success) {
+            dispatch(confirmWebsiteCreate({ placeholderId: mutation.placeholder.id, website: created.data.website }));
+          }
+          response = created;
+          break;
+        }
+        case 'deleteWebsite':
+          response = await apiService.deleteWebsite(mutation.websiteId, options);
+          // Already gone on the server: nothing left to do
+          if (response.error?.code === 'not_found') {
+            response = { ...response, success: true };
+          }
+          break;
+        case 'triggerCrawl':
+          response = await apiService.triggerCrawl(mutation.websiteId, mutation.maxPages, undefined, options);
+          if (response.success) {
+            dispatch(fetchCrawlStatus(mutation.websiteId));
+          }
+          break;
+      }
+
+      if (response.success) {
+        dispatch(removeQueuedMutation(mutation.id));
+        applied++;
+        continue;
+      }
+
+      if (shouldQueueMutation(response)) {
+        break;
+      }
+
+      // Rejected by the server (e.g. 409 duplicate domain): undo the optimistic change
+      if (mutation.type === 'deleteWebsite' && mutation.website) {
+        dispatch(revertWebsiteDelete(mutation.website));
+      } else if (mutation.type === 'createWebsite') {
+        dispatch(updateWebsiteStatus({ id: mutation.placeholder.id, status: 'error' }));
+      }
+      dispatch(markMutationConflict({
+        id: mutation.id,
+        error: response.error?.toPayload() ?? {
+          message: response.message || 'Request failed',
+          status: 0,
+          code: 'http',
+          fieldErrors: {}
+        }
+      }));
+      conflicts++;
+    }
+
+    return { applied, conflicts };
+  },
+  {
+    condition: (_, { getState }) =>
+      navigator.onLine && !(getState() as RootState).dashboard.isReplayingMutations
+  }
+);
+
+/**
+ * Send a conflicting mutation again, e.g. after the user fixed the cause
+ */
+export const retryQueuedMutation = createAsyncThunk(
+  'dashboard/retryQueuedMutation',
+  async (mutationId: string, { dispatch, getState }) => {
+    const mutation = (getState() as RootState).dashboard.pendingMutations.find(item => item.id === mutationId);
+    if (!mutation) return null;
+
+    // Re-apply the optimistic change that was undone when the conflict came in
+    if (mutation.type === 'deleteWebsite') {
+      dispatch(removeWebsiteOptimistic(mutation.websiteId));
+    } else if (mutation.type === 'createWebsite') {
+      dispatch(updateWebsiteStatus({ id: mutation.placeholder.id, status: 'pending' }));
+    }
+    dispatch(markMutationPending(mutationId));
+    await dispatch(replayMutationQueue());
+    return null;
+  }
+);
+
+/**
+ * Drop a queued mutation and roll back its optimistic change
+ */
+export const discardQueuedMutation = createAsyncThunk(
+  'dashboard/discardQueuedMutation',
+  async (mutationId: string, { dispatch, getState }) => {
+    const mutation = (getState() as RootState).dashboard.pendingMutations.find(item => item.id === mutationId);
+    if (!mutation) return null;
+
+    if (mutation.type === 'createWebsite') {
+      dispatch(removeWebsiteOptimistic(mutation.placeholder.id));
+    } else if (mutation.type === 'deleteWebsite' && mutation.status === 'pending' && mutation.website) {
+      // Conflicting deletes were already reverted
+      dispatch(revertWebsiteDelete(mutation.website));
+    }
+    dispatch(removeQueuedMutation(mutationId));
+    return null;
+  }
+);
+
 const dashboardSlice = createSlice({
   name: 'dashboard',
   initialState,
@@ -409,11 +673,6 @@ const dashboardSlice = createSlice({
         state.overview.total_websites = state.websites.length;
         state.overview.active_websites = activeCount;
       }
-
-      // Update timestamps immediately for cross-page state sync
-      const timestamp = Date.now().toString();
-      localStorage.setItem('dashboard_last_fetch', timestamp);
-      localStorage.setItem('websites_last_fetch', timestamp);
     },
     revertWebsiteDelete: (state, action: PayloadAction<Website>) => {
       // Restore the deleted website to its original position
@@ -454,10 +713,6 @@ const dashboardSlice = createSlice({
         state.overview.total_websites = state.websites.length;
         state.overview.active_websites = activeCount;
       }
-
-      // Clear timestamps to trigger fresh data fetch on next navigation
-      localStorage.removeItem('dashboard_last_fetch');
-      localStorage.removeItem('websites_last_fetch');
     },
 
     // Clear errors
@@ -485,6 +740,38 @@ const dashboardSlice = createSlice({
     // Update crawl status
     updateCrawlStatus: (state, action: PayloadAction<{ websiteId: string; status: CrawlStatus }>) => {
       state.crawlStatuses[action.payload.websiteId] = action.payload.status;
+    },
+
+    // Offline mutation queue
+    queueMutation: (state, action: PayloadAction<QueuedMutation>) => {
+      state.pendingMutations.push(action.payload);
+    },
+    markMutationConflict: (state, action: PayloadAction<{ id: string; error: ApiErrorPayload }>) => {
+      const mutation = state.pendingMutations.find(item => item.id === action.payload.id);
+      if (mutation) {
+        mutation.status = 'conflict';
+        mutation.error = action.payload.error;
+      }
+    },
+    markMutationPending: (state, action: PayloadAction<string>) => {
+      const mutation = state.pendingMutations.find(item => item.id === action.payload);
+      if (mutation) {
+        mutation.status = 'pending';
+        mutation.error = null;
+      }
+    },
+    removeQueuedMutation: (state, action: PayloadAction<string>) => {
+      state.pendingMutations = state.pendingMutations.filter(item => item.id !== action.payload);
+    },
+    // Swap an offline placeholder for the website the server created
+    confirmWebsiteCreate: (state, action: PayloadAction<{ placeholderId: string; website: Website }>) => {
+      const { placeholderId, website } = action.payload;
+      const index = state.websites.findIndex(w => w.id === placeholderId);
+      if (index >= 0) {
+        state.websites[index] = website;
+      } else {
+        state.websites.unshift(website);
+      }
     }
   },
   extraReducers: (builder) => {
@@ -496,7 +783,7 @@ const dashboardSlice = createSlice({
       })
       .addCase(fetchWebsites.fulfilled, (state, action) => {
         state.websitesLoading = false;
-        state.websites = action.payload.websites;
+        state.websites = applyQueuedMutations(action.payload.websites, state.pendingMutations);
         state.websitesLastFetch = Date.now();
         state.websitesError = null;
       })
@@ -552,7 +839,7 @@ const dashboardSlice = createSlice({
         state.overviewLoading = false;
         state.websitesLoading = false;
         state.overview = action.payload.overview;
-        state.websites = action.payload.websites.websites;
+        state.websites = applyQueuedMutations(action.payload.websites.websites, state.pendingMutations);
         state.overviewLastFetch = Date.now();
         state.websitesLastFetch = Date.now();
         state.overviewError = null;
@@ -576,7 +863,7 @@ const dashboardSlice = createSlice({
       .addCase(fetchWebsitesWithMetrics.fulfilled, (state, action) => {
         state.websitesLoading = false;
         state.metricsLoading = false;
-        state.websites = action.payload.websites;
+        state.websites = applyQueuedMutations(action.payload.websites, state.pendingMutations);
         state.metrics = action.payload.metrics;
         state.pagination = action.payload.pagination;
         state.websitesLastFetch = Date.now();
@@ -593,13 +880,9 @@ const dashboardSlice = createSlice({
 
     // Delete website
     builder
-      .addCase(deleteWebsite.fulfilled, (state, action) => {
+      .addCase(deleteWebsite.fulfilled, () => {
         // Website deletion confirmed successfully
         // All state updates were already done in the optimistic update
-        // Just ensure timestamps are current (redundant but safe)
-        const timestamp = Date.now().toString();
-        localStorage.setItem('dashboard_last_fetch', timestamp);
-        localStorage.setItem('websites_last_fetch', timestamp);
       })
       .addCase(deleteWebsite.rejected, () => {
         // Optimistic update reverted in thunk
@@ -631,10 +914,10 @@ const dashboardSlice = createSlice({
         state.crawlTriggerLoading[websiteId] = true;
       })
       .addCase(triggerCrawl.fulfilled, (state, action) => {
-        const { websiteId } = action.payload;
+        const { websiteId, queued } = action.payload;
         state.crawlTriggerLoading[websiteId] = false;
         // Update crawl status to show crawl has started
-        if (state.crawlStatuses[websiteId]) {
+        if (!queued && state.crawlStatuses[websiteId]) {
           state.crawlStatuses[websiteId].crawl_active = true;
           state.crawlStatuses[websiteId].status = 'running';
         }
@@ -684,13 +967,29 @@ const dashboardSlice = createSlice({
             state.overview.total_websites = state.websites.length;
             state.overview.active_websites = activeCount;
           }
-
-          // Update timestamps to prevent unnecessary reloads
-          const timestamp = Date.now().toString();
-          localStorage.setItem('dashboard_last_fetch', timestamp);
-          localStorage.setItem('websites_last_fetch', timestamp);
         }
       });
+
+    // Replay offline mutations
+    builder
+      .addCase(replayMutationQueue.pending, (state) => {
+        state.isReplayingMutations = true;
+      })
+      .addCase(replayMutationQueue.fulfilled, (state) => {
+        state.isReplayingMutations = false;
+      })
+      .addCase(replayMutationQueue.rejected, (state) => {
+        state.isReplayingMutations = false;
+      });
+
+    // Queued changes belong to the account that made them; never replay them under the next login
+    builder.addCase(logoutUser.fulfilled, (state) => {
+      const placeholderIds = new Set(
+        state.pendingMutations.flatMap(mutation => (mutation.type === 'createWebsite' ? [mutation.placeholder.id] : []))
+      );
+      state.websites = state.websites.filter(website => !placeholderIds.has(website.id));
+      state.pendingMutations = [];
+    });
   }
 });
 
@@ -705,7 +1004,12 @@ export const {
   clearChatStatsError,
   clearCrawlStatusError,
   updateWebsiteStatus,
-  updateCrawlStatus
+  updateCrawlStatus,
+  queueMutation,
+  markMutationConflict,
+  markMutationPending,
+  removeQueuedMutation,
+  confirmWebsiteCreate
 } = dashboardSlice.actions;
 
 // Import RootState from store
@@ -738,6 +1042,9 @@ export const selectCrawlStatusLoading = (websiteId: string) => (state: RootState
 export const selectCrawlTriggerLoading = (websiteId: string) => (state: RootState) =>
   state.dashboard?.crawlTriggerLoading?.[websiteId] || false;
 
+export const selectPendingMutations = (state: RootState) => state.dashboard.pendingMutations;
+export const selectIsReplayingMutations = (state: RootState) => state.dashboard.isReplayingMutations;
+
 export const selectSelectedWebsite = (state: RootState) => {
   const selectedId = state.dashboard.selectedWebsiteId;
   return selectedId ? state.dashboard.websites.find(w => w.id === selectedId) : null;
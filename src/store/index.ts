@@ -37,9 +37,10 @@ const authPersistConfig = {
 const dashboardPersistConfig = {
   key: 'dashboard',
   storage,
-  whitelist: ['websites', 'overview', 'chatStats', 'websitesLastFetch', 'overviewLastFetch', 'chatStatsLastFetch'],
+  // pendingMutations keeps changes made offline until they are replayed
+  whitelist: ['websites', 'overview', 'chatStats', 'websitesLastFetch', 'overviewLastFetch', 'chatStatsLastFetch', 'pendingMutations'],
   // Don't persist loading states or errors
-  blacklist: ['websitesLoading', 'overviewLoading', 'chatStatsLoading', 'websitesError', 'overviewError', 'chatStatsError', 'crawlStatusesLoading', 'crawlStatusesError']
+  blacklist: ['websitesLoading', 'overviewLoading', 'chatStatsLoading', 'websitesError', 'overviewError', 'chatStatsError', 'crawlStatusesLoading', 'crawlStatusesError', 'isReplayingMutations']
 };
 
 // Create persisted reducers
@@ -1,21 +1,43 @@
 // API Types for LiteChat Widget
 
+/** File a visitor attached to a message, as stored by the backend */
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  content_type: string;
+  /** Bytes */
+  size: number;
+  url: string;
+  /** Smaller rendition for images */
+  thumbnail_url?: string;
+}
+
 export interface ChatMessage {
   message: string;
   session_id: string;
   visitor_id: string;
+  /** Uploaded attachments sent with the message */
+  attachment_ids?: string[];
   page_url?: string;
   page_title?: string;
   user_agent?: string;
   ip_address?: string;
 }
 
+/** Crawled page an answer was based on */
+export interface SourceCitation {
+  url: string;
+  title?: string;
+  favicon_url?: string;
+}
+
 export interface ChatResponse {
   message_id: string;
   response: string;
   confidence_score?: number;
   processing_time_ms: number;
-  sources?: string[];
+  /** Page URLs, or pages with their title and favicon */
+  sources?: Array<string | SourceCitation>;
 }
 
 export interface MessageHistory {
@@ -25,6 +47,9 @@ export interface MessageHistory {
   sequence_number: number;
   sent_at: string;
   was_helpful?: boolean;
+  attachments?: MessageAttachment[];
+  /** Pages an assistant reply was based on */
+  sources?: Array<string | SourceCitation>;
 }
 
 export interface ChatHistory {
@@ -36,12 +61,30 @@ export interface ChatHistory {
   last_activity_at: string;
 }
 
+/** Visitor identity supplied by the host site through `ChatLite.identify()` */
+export interface VisitorIdentity {
+  /** The host site's own user id */
+  id?: string;
+  email?: string;
+  name?: string;
+  traits?: Record<string, unknown>;
+}
+
 export interface SessionCreateRequest {
   visitor_id: string;
   page_url?: string;
   page_title?: string;
   user_agent?: string;
   referrer?: string;
+  /** Who the visitor is, shown on the transcript */
+  identity?: VisitorIdentity;
+  /** Host-provided context from `ChatLite.setContext()` (plan, cart value...) */
+  context?: Record<string, unknown>;
+  /** Locale the widget renders in, e.g. "de" or "pt-BR" */
+  locale?: string;
+  /** Experiment variant the visitor sees, so conversations count towards it */
+  experiment_id?: string;
+  variant_id?: string;
 }
 
 export interface SessionResponse {
@@ -51,6 +94,158 @@ export interface SessionResponse {
   is_active: boolean;
 }
 
+/** Picking up a visitor's conversation on another page */
+export interface SessionResumeRequest {
+  session_id: string;
+  visitor_id: string;
+  page_url?: string;
+  page_title?: string;
+  /** The host page's current identity and context, which may have changed since the session started */
+  identity?: VisitorIdentity;
+  context?: Record<string, unknown>;
+}
+
+/** Identity or context the host page set after the session started */
+export interface SessionUpdateRequest {
+  identity?: VisitorIdentity;
+  context?: Record<string, unknown>;
+}
+
+export interface SessionResumeResponse extends SessionResponse {
+  /** The transcript so far */
+  messages: MessageHistory[];
+}
+
+// Proactive triggers: rules that open the widget or show a teaser on their own
+export type TriggerAction = 'open' | 'teaser';
+
+/** How often one visitor can see a trigger */
+export type TriggerFrequency = 'every_page' | 'once_per_session' | 'once_per_day' | 'once';
+
+/** Every condition that is set has to hold for the trigger to fire */
+export interface TriggerConditions {
+  /** Page path pattern, `*` matches anything (e.g. /pricing*) */
+  url_pattern?: string;
+  /** Seconds on the current page */
+  time_on_page?: number;
+  /** Percent of the page scrolled */
+  scroll_depth?: number;
+  /** Pointer left through the top of the window */
+  exit_intent?: boolean;
+  visitor_type?: 'new' | 'returning';
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+}
+
+export interface ProactiveTrigger {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: TriggerConditions;
+  action: TriggerAction;
+  /** Teaser text, or the greeting shown when the trigger opens the chat */
+  message?: string;
+  frequency: TriggerFrequency;
+}
+
+// Business hours: when visitors can chat; outside them the widget collects leads
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** Opening interval in the schedule's timezone, "HH:MM" 24-hour; end is exclusive */
+export interface OpeningInterval {
+  start: string;
+  end: string;
+}
+
+/** Holiday or special day that replaces the weekly hours on that date */
+export interface BusinessHoursException {
+  /** YYYY-MM-DD in the schedule's timezone */
+  date: string;
+  label?: string;
+  /** Empty when closed all day */
+  intervals: OpeningInterval[];
+}
+
+export interface BusinessHours {
+  enabled: boolean;
+  /** IANA timezone, e.g. Europe/Berlin */
+  timezone: string;
+  /** Days without intervals are closed */
+  weekly: Record<Weekday, OpeningInterval[]>;
+  exceptions: BusinessHoursException[];
+}
+
+/** Contact details left in the offline form */
+export interface LeadRequest {
+  name: string;
+  email: string;
+  question: string;
+  visitor_id?: string;
+  page_url?: string;
+}
+
+export interface Lead extends LeadRequest {
+  lead_id: string;
+  website_id: string;
+  status: 'new' | 'contacted' | 'closed';
+  created_at: string;
+}
+
+// A/B tests: visitors are split between variants of the widget configuration
+
+/** Config fields a variant changes; unset fields keep the base configuration */
+export interface ExperimentVariantOverrides {
+  welcome_message?: string;
+  widget_color?: string;
+  /** Seconds on page before time-based triggers fire, replacing each trigger's own delay */
+  trigger_delay?: number;
+}
+
+export interface ExperimentVariant {
+  id: string;
+  name: string;
+  /** Share of visitors in percent */
+  weight: number;
+  overrides: ExperimentVariantOverrides;
+}
+
+export interface WidgetExperiment {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** The first variant is the control the others are compared against */
+  variants: ExperimentVariant[];
+}
+
+/** Widget usage reported for experiment results */
+export interface WidgetEvent {
+  type: 'impression' | 'open' | 'conversation_start';
+  visitor_id: string;
+  experiment_id: string;
+  variant_id: string;
+  page_url?: string;
+}
+
+export type FeedbackReason = 'wrong' | 'outdated' | 'unclear';
+
+/** A visitor's rating of one assistant reply; sets `MessageHistory.was_helpful` */
+export interface MessageFeedbackRequest {
+  session_id: string;
+  message_id: string;
+  was_helpful: boolean;
+  /** Only for unhelpful replies */
+  reason?: FeedbackReason;
+}
+
+/** Configured widget texts for one locale; missing fields fall back to the base config */
+export interface LocalizedWidgetText {
+  welcome_message?: string;
+  placeholder_text?: string;
+  offline_message?: string;
+  thanks_message?: string;
+}
+
 export interface WidgetConfig {
   widget_id: string;
   website_id: string;
@@ -64,6 +259,7 @@ export interface WidgetConfig {
     widget_theme?: string;
     show_avatar?: boolean;
     enable_sound?: boolean;
+    /** Seconds before the widget opens by itself; only used while no triggers are set */
     auto_open_delay?: number;
     show_online_status?: boolean;
     offline_message?: string;
@@ -73,6 +269,14 @@ export interface WidgetConfig {
     custom_css?: string;
     font_family?: string;
     border_radius?: number;
+    triggers?: ProactiveTrigger[];
+    business_hours?: BusinessHours;
+    default_locale?: string;
+    translations?: Record<string, LocalizedWidgetText>;
+    auto_detect_locale?: boolean;
+    experiment?: WidgetExperiment;
+    /** Idle minutes a conversation follows the visitor across pages; 0 disables resuming */
+    session_ttl_minutes?: number;
   };
   api_endpoints: {
     chat: string;
@@ -93,17 +297,53 @@ export interface TypingIndicator {
   is_typing: boolean;
 }
 
+// Crawl job progress (REST snapshot and real-time deltas)
+export interface CrawlJobProgress {
+  job_id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  pages_queued: number;
+  pages_processing: number;
+  pages_completed: number;
+  pages_failed: number;
+  total_pages: number;
+  total_discovered: number;
+  pages_processed: number;
+  max_pages: number;
+  progress_percentage: number;
+  estimated_time_remaining?: number;
+  current_page_url?: string;
+  started_at?: string;
+  completed_at?: string;
+  error_message?: string;
+}
+
 // WebSocket message types
 export interface WebSocketMessage {
-  type: 'chunk' | 'complete' | 'error' | 'typing';
+  type: 'chunk' | 'complete' | 'error' | 'typing' | 'crawl_progress' | 'handoff';
   content?: string;
   full_response?: string;
   processing_time_ms?: number;
   model_used?: string;
   error?: string;
   is_typing?: boolean;
+  /** Topic channel the message was published on (e.g. `crawl:{websiteId}`) */
+  channel?: string;
+  /** Crawl job a `crawl_progress` delta belongs to */
+  job_id?: string;
+  /** Changed progress fields for `crawl_progress` */
+  progress?: Partial<CrawlJobProgress>;
+  /** Human agent taking over the conversation, for `handoff` */
+  agent_name?: string;
+  transfer_id?: string;
+  /** Stored id of the assistant reply, on `complete` */
+  message_id?: string;
+  /** Pages the reply was based on, on `complete` */
+  sources?: Array<string | SourceCitation>;
 }
 
+// Lifecycle of a real-time connection (see WebSocketService)
+export type ConnectionState = 'connecting' | 'open' | 'degraded' | 'closed';
+
 // Internal widget state types
 export interface Message {
   id: string;
@@ -111,7 +351,18 @@ export interface Message {
   type: 'user' | 'assistant';
   timestamp: Date;
   status?: 'sending' | 'sent' | 'delivered' | 'error';
+  /** True while an assistant reply is still streaming in */
   isTyping?: boolean;
+  processingTimeMs?: number;
+  modelUsed?: string;
+  /** Backend id of a stored assistant reply; replies without one can't be rated */
+  serverId?: string;
+  /** The visitor's rating of this reply */
+  feedback?: { wasHelpful: boolean; reason?: FeedbackReason };
+  /** Deduplicated pages the reply cites */
+  sources?: SourceCitation[];
+  /** Files the visitor sent with the message */
+  attachments?: MessageAttachment[];
 }
 
 export interface WidgetState {
@@ -119,6 +370,7 @@ export interface WidgetState {
   isMinimized: boolean;
   isLoading: boolean;
   isConnected: boolean;
+  connectionState?: ConnectionState;
   hasError: boolean;
   errorMessage?: string;
 }
@@ -140,6 +392,8 @@ export interface WidgetSettings {
   welcomeMessage?: string;
   placeholder?: string;
   title?: string;
+  offlineMessage?: string;
+  thanksMessage?: string;
 }
 
 // Personalization types
@@ -0,0 +1,48 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import type { WidgetSettings } from '../types/api';
+import { useWidgetI18n } from './i18n';
+
+interface TeaserBubbleProps {
+  message: string;
+  position: WidgetSettings['position'];
+  onOpen: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Message bubble next to the closed chat button, shown by a proactive trigger
+ */
+const TeaserBubble: React.FC<TeaserBubbleProps> = ({ message, position, onOpen, onDismiss }) => {
+  const { strings } = useWidgetI18n();
+  const [vertical, horizontal] = position.split('-');
+
+  return (
+    <div
+      className={`absolute w-64 ${vertical === 'bottom' ? 'bottom-full mb-3' : 'top-full mt-3'} ${
+        horizontal === 'right' ? 'right-0' : 'left-0'
+      }`}
+      role="status"
+    >
+      <div className="relative bg-white text-gray-800 text-sm rounded-lg shadow-lg border border-gray-200">
+        <button
+          type="button"
+          onClick={onOpen}
+          className="block w-full text-start px-4 py-3 pe-8 rounded-lg hover:bg-gray-50"
+        >
+          {message}
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="absolute top-2 end-2 text-gray-400 hover:text-gray-600"
+          aria-label={strings.dismiss}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TeaserBubble;
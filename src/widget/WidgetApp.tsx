@@ -0,0 +1,624 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { ConnectionState, FeedbackReason, LeadRequest, Message, MessageAttachment, SessionResponse, VisitorIdentity, WidgetConfig, WidgetEvent, WidgetSettings, WidgetState } from '../types/api';
+import { ApiService } from '../services/api';
+import { SocketService } from '../services/socketService';
+import { useChatStream } from '../hooks/useChatStream';
+import ChatButton from '../components/ChatButton';
+import ChatWindow from '../components/ChatWindow';
+import { getApiOrigin, type WidgetOptions } from './options';
+import { widgetBridge } from './hostApi';
+import { getConfiguredTriggers, watchTriggers } from './triggers';
+import TeaserBubble from './TeaserBubble';
+import { isWithinBusinessHours, formatNextOpening } from './businessHours';
+import { assignVariant, applyVariant } from './experiments';
+import { PreviewSocketService, listenToPreviewHost, postToPreviewHost } from './preview';
+import { clearStoredSession, isRestoredMessage, loadStoredSession, restoreTranscript, saveStoredSession } from './sessionStore';
+import {
+  DEFAULT_STRINGS,
+  WidgetI18nContext,
+  detectLocale,
+  getLocalizedText,
+  isRtlLocale,
+  loadWidgetStrings,
+  type WidgetI18n,
+  type WidgetStrings,
+} from './i18n';
+
+interface WidgetAppProps {
+  options: WidgetOptions;
+}
+
+const VISITOR_ID_KEY = 'chatlite_visitor_id';
+
+interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+}
+
+/**
+ * Visitor id kept in the host page's localStorage so returning visitors keep their identity
+ */
+const getVisitorId = (): string => {
+  try {
+    const stored = localStorage.getItem(VISITOR_ID_KEY);
+    if (stored) return stored;
+
+    const visitorId = `visitor_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem(VISITOR_ID_KEY, visitorId);
+    return visitorId;
+  } catch {
+    // Storage can be blocked (privacy mode, sandboxed iframes)
+    return `visitor_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  }
+};
+
+/**
+ * Widget state for a chat connection state; the HTTP fallback (degraded) still takes messages
+ */
+const connectionFields = (connectionState: ConnectionState): Pick<WidgetState, 'isConnected' | 'connectionState'> => ({
+  isConnected: connectionState === 'open' || connectionState === 'degraded',
+  connectionState,
+});
+
+const WidgetApp: React.FC<WidgetAppProps> = ({ options }) => {
+  const apiOrigin = getApiOrigin(options.apiBase);
+  const api = useMemo(() => new ApiService(`${apiOrigin}/api/v1`), [apiOrigin]);
+
+  const [config, setConfig] = useState<WidgetConfig | null>(null);
+  // Sessions wait for the configuration (or its failure) for the resume endpoint, locale and variant
+  const [isConfigSettled, setIsConfigSettled] = useState(!!options.preview);
+  // Conversation carried over from an earlier page, resumed once on load
+  const resumableSessionRef = useRef(options.preview ? null : loadStoredSession(options.widgetId));
+  const [assignment, setAssignment] = useState<ExperimentAssignment | null>(null);
+  const [socketService, setSocketService] = useState<SocketService | null>(null);
+  const [hasUnreadMessages, setHasUnreadMessages] = useState(false);
+  // Bumped to (re)start the session; 0 until the chat is first opened or a conversation is resumed
+  const [sessionAttempt, setSessionAttempt] = useState(options.preview || resumableSessionRef.current ? 1 : 0);
+  const [teaser, setTeaser] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [widgetState, setWidgetState] = useState<WidgetState>({
+    isOpen: !!options.preview || !!resumableSessionRef.current?.isOpen,
+    isMinimized: !!resumableSessionRef.current?.isMinimized,
+    isLoading: false,
+    isConnected: false,
+    connectionState: 'connecting',
+    hasError: false,
+  });
+
+  const { messages, isTyping, sendMessage, setMessages } = useChatStream(socketService);
+
+  // Latest values for the host API controller, which outlives individual renders
+  const latestRef = useRef({
+    widgetState,
+    sessionAttempt,
+    socketService,
+    sendMessage,
+    messages,
+    assignment,
+    locale: options.lang,
+    strings: DEFAULT_STRINGS,
+    resumePath: undefined as string | undefined,
+  });
+  // Host messages sent before the session was ready
+  const pendingOutgoingRef = useRef<string[]>([]);
+  const lastReceivedIdRef = useRef<string | null>(null);
+  const conversationStartedRef = useRef(false);
+  // Identity and context the current session was last given
+  const sentVisitorRef = useRef<{ identity: VisitorIdentity | null; context: Record<string, unknown> } | null>(null);
+
+  const locale = detectLocale(config?.config, options.lang);
+  const [strings, setStrings] = useState<WidgetStrings>(DEFAULT_STRINGS);
+  const i18n = useMemo<WidgetI18n>(() => ({
+    locale,
+    dir: isRtlLocale(locale) ? 'rtl' : 'ltr',
+    strings,
+  }), [locale, strings]);
+
+  // Labels other than English are fetched; English shows until they arrive or if they can't be loaded
+  useEffect(() => {
+    if (!options.scriptBase) return;
+
+    let cancelled = false;
+    loadWidgetStrings(locale, options.scriptBase)
+      .then(loaded => {
+        if (!cancelled) setStrings(loaded);
+      })
+      .catch(error => {
+        console.warn('ChatLite: failed to load UI labels', error);
+        if (!cancelled) setStrings(DEFAULT_STRINGS);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [locale, options.scriptBase]);
+  const localizedText = getLocalizedText(config?.config, locale);
+  latestRef.current = {
+    widgetState,
+    sessionAttempt,
+    socketService,
+    sendMessage,
+    messages,
+    assignment,
+    locale,
+    strings: i18n.strings,
+    resumePath: config?.api_endpoints.session_resume || undefined,
+  };
+
+  const settings: WidgetSettings = {
+    widgetId: options.widgetId,
+    position: options.position
+      || (config?.config.widget_position as WidgetSettings['position'])
+      || 'bottom-right',
+    primaryColor: options.primaryColor || config?.config.widget_color || '#0066CC',
+    apiUrl: options.apiBase,
+    welcomeMessage: options.welcomeMessage || localizedText.welcome_message,
+    placeholder: options.placeholder || localizedText.placeholder_text,
+    title: options.title || config?.config.company_name,
+    offlineMessage: localizedText.offline_message,
+    thanksMessage: localizedText.thanks_message,
+  };
+
+  // Outside business hours visitors get the offline form instead of a chat session
+  const businessHours = config?.config.business_hours;
+  const isOffline = !isWithinBusinessHours(businessHours, now);
+  const nextOpening = isOffline ? formatNextOpening(businessHours, now, locale) : undefined;
+
+  useEffect(() => {
+    if (!businessHours?.enabled) return;
+    const interval = window.setInterval(() => setNow(new Date()), 60000);
+    return () => window.clearInterval(interval);
+  }, [businessHours]);
+
+  // Published appearance and messages
+  useEffect(() => {
+    if (options.preview) return;
+
+    let cancelled = false;
+    api.getWidgetConfig(options.widgetId)
+      .then(widgetConfig => {
+        if (cancelled) return;
+        // The visitor's A/B test variant replaces parts of the published configuration
+        const experiment = widgetConfig.config.experiment;
+        const variant = assignVariant(experiment, getVisitorId());
+        setAssignment(experiment && variant ? { experimentId: experiment.id, variantId: variant.id } : null);
+        setConfig(applyVariant(widgetConfig, variant));
+        setIsConfigSettled(true);
+      })
+      .catch(error => {
+        // The widget still works with the defaults and snippet overrides
+        console.warn('ChatLite: failed to load widget configuration', error);
+        if (!cancelled) setIsConfigSettled(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, options.widgetId, options.preview]);
+
+  // Start the session on first open rather than on every page view, or pick up the one from an earlier page
+  useEffect(() => {
+    if (sessionAttempt === 0 || isOffline || !isConfigSettled) return;
+
+    if (options.preview) {
+      setSocketService(new PreviewSocketService(options.previewOrigin || '*'));
+      setWidgetState(prev => ({ ...prev, isConnected: true, connectionState: 'open' }));
+      return;
+    }
+
+    let cancelled = false;
+    setWidgetState(prev => ({ ...prev, isLoading: true, hasError: false }));
+
+    // Read once for both requests; later changes are sent to the live session
+    const visitor = { identity: widgetBridge.getIdentity(), context: widgetBridge.getContext() };
+    sentVisitorRef.current = visitor;
+
+    const resume = async (): Promise<{ session: SessionResponse; transcript: Message[] } | null> => {
+      const stored = resumableSessionRef.current;
+      if (!stored) return null;
+
+      try {
+        // Published endpoints may be relative to the API origin
+        const { resumePath } = latestRef.current;
+        const resumed = await api.resumeSession(options.widgetId, {
+          session_id: stored.sessionId,
+          visitor_id: stored.visitorId,
+          page_url: window.location.href,
+          page_title: document.title,
+          identity: visitor.identity ?? undefined,
+          context: visitor.context,
+        }, resumePath && new URL(resumePath, apiOrigin).href);
+        if (resumed?.is_active) {
+          return { session: resumed, transcript: restoreTranscript(resumed.messages ?? []) };
+        }
+      } catch (error) {
+        console.warn('ChatLite: failed to resume conversation', error);
+      }
+      clearStoredSession(options.widgetId);
+      return null;
+    };
+
+    const start = async () => {
+      const resumed = await resume();
+      if (cancelled) return;
+      // Resumed once; retries and new conversations start over
+      resumableSessionRef.current = null;
+
+      // Nothing to resume and the visitor hasn't opened the chat yet
+      if (!resumed && !latestRef.current.widgetState.isOpen) {
+        setSessionAttempt(0);
+        setWidgetState(prev => ({ ...prev, isLoading: false }));
+        return;
+      }
+
+      const session = resumed?.session ?? await api.createSession(options.widgetId, {
+        visitor_id: getVisitorId(),
+        page_url: window.location.href,
+        page_title: document.title,
+        user_agent: navigator.userAgent,
+        referrer: document.referrer || undefined,
+        identity: visitor.identity ?? undefined,
+        context: visitor.context,
+        locale: latestRef.current.locale,
+        experiment_id: latestRef.current.assignment?.experimentId,
+        variant_id: latestRef.current.assignment?.variantId,
+      });
+
+      const service = new SocketService(
+        session.session_id,
+        `${apiOrigin.replace(/^http/, 'ws')}/api/v1/chat/stream`,
+        apiOrigin
+      );
+      await service.connect();
+      if (cancelled) {
+        service.disconnect();
+        return;
+      }
+      if (resumed?.transcript.length) {
+        conversationStartedRef.current = true;
+        setMessages(prev => [...prev.filter(message => message.id === 'welcome'), ...resumed.transcript]);
+      }
+      setSocketService(service);
+      setWidgetState(prev => ({ ...prev, isLoading: false, ...connectionFields(service.getState()) }));
+    };
+
+    start().catch(error => {
+      if (cancelled) return;
+      console.error('ChatLite: failed to start chat session', error);
+      setWidgetState(prev => ({
+        ...prev,
+        isLoading: false,
+        hasError: true,
+        connectionState: 'closed',
+        errorMessage: latestRef.current.strings.chatUnavailable,
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, apiOrigin, options.widgetId, options.preview, options.previewOrigin, sessionAttempt, isOffline, isConfigSettled, setMessages]);
+
+  useEffect(() => () => socketService?.disconnect(), [socketService]);
+
+  // Fallbacks, dropped sockets and successful retries after the session started
+  useEffect(() => {
+    if (options.preview || !socketService) return;
+    return socketService.onStateChange(state => {
+      setWidgetState(prev => ({ ...prev, ...connectionFields(state) }));
+    });
+  }, [options.preview, socketService]);
+
+  // Identity and context the host page sets once the session is live
+  useEffect(() => {
+    if (options.preview || !socketService) return;
+    const sessionId = socketService.getSessionId();
+
+    const sendVisitor = () => {
+      const visitor = { identity: widgetBridge.getIdentity(), context: widgetBridge.getContext() };
+      const sent = sentVisitorRef.current;
+      if (sent?.identity === visitor.identity && sent.context === visitor.context) return;
+      sentVisitorRef.current = visitor;
+      api.updateSession(options.widgetId, sessionId, { identity: visitor.identity ?? undefined, context: visitor.context })
+        .catch(error => console.warn('ChatLite: failed to update visitor details', error));
+    };
+
+    // Calls made while the session was starting
+    sendVisitor();
+    return widgetBridge.onVisitorChange(sendVisitor);
+  }, [api, options.widgetId, options.preview, socketService]);
+
+  // Remember the conversation and how the window was left for the next page; activity extends it
+  const sessionTtl = config?.config.session_ttl_minutes;
+  const { isOpen, isMinimized } = widgetState;
+  useEffect(() => {
+    if (options.preview || !socketService) return;
+    saveStoredSession(options.widgetId, {
+      sessionId: socketService.getSessionId(),
+      visitorId: getVisitorId(),
+      isOpen,
+      isMinimized,
+    }, sessionTtl);
+  }, [options.widgetId, options.preview, socketService, isOpen, isMinimized, sessionTtl, messages.length]);
+
+  // Drop the current conversation and start over with a fresh session
+  const startNewConversation = useCallback(() => {
+    clearStoredSession(options.widgetId);
+    resumableSessionRef.current = null;
+    conversationStartedRef.current = false;
+    setSocketService(null);
+    setMessages([]);
+    setWidgetState(prev => ({ ...prev, isConnected: false, connectionState: 'connecting', hasError: false }));
+    setSessionAttempt(attempt => attempt + 1);
+  }, [options.widgetId, setMessages]);
+
+  const submitLead = useCallback(async (lead: Pick<LeadRequest, 'name' | 'email' | 'question'>) => {
+    // Previews show the form without collecting leads
+    if (options.preview) return;
+    await api.submitLead(options.widgetId, {
+      ...lead,
+      visitor_id: getVisitorId(),
+      page_url: window.location.href,
+    });
+  }, [api, options.widgetId, options.preview]);
+
+  // Helpfulness ratings of assistant replies; shown as given even if reporting fails
+  const rateMessage = useCallback((messageId: string, wasHelpful: boolean, reason?: FeedbackReason) => {
+    const message = latestRef.current.messages.find(candidate => candidate.id === messageId);
+    const sessionId = latestRef.current.socketService?.getSessionId();
+    if (!message?.serverId || !sessionId) return;
+
+    setMessages(prev => prev.map(candidate => (
+      candidate.id === messageId ? { ...candidate, feedback: { wasHelpful, reason } } : candidate
+    )));
+    api.submitMessageFeedback(options.widgetId, {
+      session_id: sessionId,
+      message_id: message.serverId,
+      was_helpful: wasHelpful,
+      reason,
+    }).catch(error => console.warn('ChatLite: failed to send feedback', error));
+  }, [api, options.widgetId, setMessages]);
+
+  // Experiment results: how often each variant is seen, opened and talked to
+  const trackExperimentEvent = useCallback((type: WidgetEvent['type']) => {
+    const current = latestRef.current.assignment;
+    if (!current) return;
+
+    api.trackEvent(options.widgetId, {
+      type,
+      visitor_id: getVisitorId(),
+      experiment_id: current.experimentId,
+      variant_id: current.variantId,
+      page_url: window.location.href,
+    }).catch(error => console.warn('ChatLite: failed to report experiment event', error));
+  }, [api, options.widgetId]);
+
+  useEffect(() => {
+    if (assignment) trackExperimentEvent('impression');
+  }, [assignment, trackExperimentEvent]);
+
+  const deliverMessage = useCallback((content: string, attachments?: MessageAttachment[]) => {
+    if (!conversationStartedRef.current) {
+      conversationStartedRef.current = true;
+      trackExperimentEvent('conversation_start');
+    }
+    widgetBridge.emit('message:sent', { content });
+    return latestRef.current.sendMessage(content, window.location.href, document.title, attachments);
+  }, [trackExperimentEvent]);
+
+  // Send what the host queued once the session is up
+  useEffect(() => {
+    if (!socketService) return;
+    pendingOutgoingRef.current.splice(0).forEach(content => deliverMessage(content));
+  }, [socketService, deliverMessage]);
+
+  // Files are uploaded to the session as soon as they are attached
+  const uploadAttachment = useCallback((file: File, onProgress: (fraction: number) => void, signal: AbortSignal) => {
+    const sessionId = latestRef.current.socketService?.getSessionId();
+    if (!sessionId) return Promise.reject(new Error('Chat is not connected'));
+    return api.uploadAttachment(options.widgetId, sessionId, file, onProgress, signal);
+  }, [api, options.widgetId]);
+
+  // A human agent took over the conversation
+  useEffect(() => {
+    if (!socketService) return;
+
+    socketService.onMessage('handoff', (frame) => {
+      widgetBridge.emit('handoff', { agentName: frame.agent_name, transferId: frame.transfer_id });
+      setMessages(prev => [...prev, {
+        id: `handoff-${Date.now()}`,
+        content: frame.content || `${frame.agent_name || 'A support agent'} joined the conversation`,
+        type: 'assistant',
+        timestamp: new Date(),
+      }]);
+    });
+
+    return () => socketService.offMessage('handoff');
+  }, [socketService, setMessages]);
+
+  // Greeting shown before the first message; kept current when the text changes (locale, preview edits)
+  const hasMessages = messages.length > 0;
+  useEffect(() => {
+    if (!settings.welcomeMessage) return;
+    setMessages(prev => prev.length > 0
+      ? prev.map(message => (message.id === 'welcome' ? { ...message, content: settings.welcomeMessage! } : message))
+      : [{
+        id: 'welcome',
+        content: settings.welcomeMessage!,
+        type: 'assistant',
+        timestamp: new Date(),
+      }]);
+  }, [settings.welcomeMessage, hasMessages, setMessages]);
+
+  // Flag replies that arrive while the window is closed
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    if (!widgetState.isOpen && lastMessage?.type === 'assistant' && lastMessage.id !== 'welcome' && !isRestoredMessage(lastMessage)) {
+      setHasUnreadMessages(true);
+    }
+  }, [lastMessage, widgetState.isOpen]);
+
+  // Report each finished assistant reply to the host once
+  useEffect(() => {
+    if (lastMessage?.type !== 'assistant' || lastMessage.isTyping || lastMessage.status !== 'delivered') return;
+    if (isRestoredMessage(lastMessage)) return;
+    if (lastMessage.id === lastReceivedIdRef.current) return;
+    lastReceivedIdRef.current = lastMessage.id;
+    widgetBridge.emit('message:received', { id: lastMessage.id, content: lastMessage.content });
+  }, [lastMessage]);
+
+  const setOpen = useCallback((isOpen: boolean) => {
+    const latest = latestRef.current;
+    if (latest.widgetState.isOpen === isOpen) return;
+
+    const startSession = isOpen && (latest.sessionAttempt === 0 || latest.widgetState.hasError);
+    if (startSession) {
+      setSessionAttempt(attempt => attempt + 1);
+    }
+    // Keep back-to-back host calls from acting on the same stale state
+    latestRef.current = {
+      ...latest,
+      widgetState: { ...latest.widgetState, isOpen },
+      sessionAttempt: startSession ? latest.sessionAttempt + 1 : latest.sessionAttempt,
+    };
+
+    setWidgetState(prev => ({ ...prev, isOpen, isMinimized: false }));
+    if (isOpen) {
+      setHasUnreadMessages(false);
+      setTeaser(null);
+      trackExperimentEvent('open');
+    }
+    widgetBridge.emit(isOpen ? 'open' : 'close', undefined);
+  }, [trackExperimentEvent]);
+
+  const toggleOpen = () => setOpen(!widgetState.isOpen);
+
+  // Proactive triggers from the published configuration; previews only show simulated ones
+  const triggers = useMemo(() => (config ? getConfiguredTriggers(config.config) : undefined), [config]);
+  useEffect(() => {
+    if (!triggers?.length || options.preview) return;
+
+    return watchTriggers(triggers, trigger => {
+      if (latestRef.current.widgetState.isOpen) return;
+
+      if (trigger.action === 'teaser') {
+        setTeaser(trigger.message || latestRef.current.strings.defaultTeaser);
+        return;
+      }
+      if (trigger.message) {
+        setMessages(prev => [...prev, {
+          id: `trigger-${trigger.id}`,
+          content: trigger.message!,
+          type: 'assistant',
+          timestamp: new Date(),
+        }]);
+      }
+      setOpen(true);
+    });
+  }, [triggers, options.preview, setOpen, setMessages]);
+
+  // Dashboard preview: edited configuration and simulated triggers stream in
+  useEffect(() => {
+    if (!options.preview) return;
+    const hostOrigin = options.previewOrigin || '*';
+
+    const stop = listenToPreviewHost(hostOrigin, message => {
+      if (message.type === 'config') {
+        setConfig(prev => ({
+          widget_id: options.widgetId,
+          website_id: prev?.website_id ?? '',
+          domain: prev?.domain ?? '',
+          is_active: true,
+          api_endpoints: prev?.api_endpoints ?? { chat: '', session_create: '', session_resume: '', analytics: '' },
+          config: message.config,
+        }));
+      } else if (message.type === 'trigger') {
+        const { trigger } = message;
+        if (trigger?.action === 'teaser') {
+          setOpen(false);
+          setTeaser(trigger.message || latestRef.current.strings.defaultTeaser);
+          return;
+        }
+        setTeaser(null);
+        if (trigger?.message) {
+          setMessages(prev => [...prev, {
+            id: `trigger-${Date.now()}`,
+            content: trigger.message!,
+            type: 'assistant',
+            timestamp: new Date(),
+          }]);
+        }
+        if (trigger) setOpen(true);
+      }
+    });
+    postToPreviewHost({ type: 'ready' }, hostOrigin);
+    return stop;
+  }, [options.preview, options.previewOrigin, options.widgetId, setOpen, setMessages]);
+
+  // Serve window.ChatLite commands while mounted
+  useEffect(() => {
+    widgetBridge.attach({
+      open: () => setOpen(true),
+      close: () => setOpen(false),
+      toggle: () => setOpen(!latestRef.current.widgetState.isOpen),
+      sendMessage: (content) => {
+        setOpen(true);
+        if (latestRef.current.socketService) {
+          deliverMessage(content);
+        } else {
+          pendingOutgoingRef.current.push(content);
+        }
+      },
+    });
+    widgetBridge.emit('ready', { widgetId: options.widgetId });
+
+    return () => widgetBridge.detach();
+  }, [options.widgetId, setOpen, deliverMessage]);
+
+  return (
+    <WidgetI18nContext.Provider value={i18n}>
+      <div
+        className="widget-root"
+        dir={i18n.dir}
+        lang={locale}
+        style={{ ['--widget-primary' as string]: settings.primaryColor }}
+      >
+        {widgetState.isOpen && (
+          <ChatWindow
+            chatState={{ messages, isTyping, sessionId: socketService?.getSessionId() }}
+            widgetState={widgetState}
+            config={config}
+            onSendMessage={deliverMessage}
+            onRateMessage={rateMessage}
+            onNewConversation={startNewConversation}
+            onUploadAttachment={options.preview ? undefined : uploadAttachment}
+            onClose={toggleOpen}
+            onMinimize={() => setWidgetState(prev => ({ ...prev, isMinimized: !prev.isMinimized }))}
+            settings={settings}
+            isOffline={isOffline}
+            nextOpening={nextOpening}
+            onSubmitLead={submitLead}
+          />
+        )}
+
+        <div className={`widget-position-${settings.position}`}>
+          {teaser && !widgetState.isOpen && (
+            <TeaserBubble
+              message={teaser}
+              position={settings.position}
+              onOpen={() => setOpen(true)}
+              onDismiss={() => setTeaser(null)}
+            />
+          )}
+          <ChatButton
+            isOpen={widgetState.isOpen}
+            isLoading={widgetState.isLoading}
+            hasUnreadMessages={hasUnreadMessages}
+            primaryColor={settings.primaryColor}
+            onClick={toggleOpen}
+          />
+        </div>
+      </div>
+    </WidgetI18nContext.Provider>
+  );
+};
+
+export default WidgetApp;
@@ -0,0 +1,38 @@
+/**
+ * Client-side checks for files visitors attach in the widget. The backend
+ * validates again; these only save an upload that would be rejected.
+ */
+import { config } from '../config/env';
+
+/** Screenshots, documents and logs support conversations typically need */
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/json',
+];
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+export type AttachmentError = 'tooLarge' | 'unsupportedType';
+
+export const validateAttachment = (
+  file: File,
+  maxSize: number = config.features.maxUploadSize
+): AttachmentError | null => {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) return 'unsupportedType';
+  if (file.size > maxSize) return 'tooLarge';
+  return null;
+};
+
+export const isImageAttachment = (contentType: string): boolean => contentType.startsWith('image/');
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+};
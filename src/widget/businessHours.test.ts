@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { BusinessHours, OpeningInterval } from '../types/api';
+import { formatNextOpening, getNextOpening, isWithinBusinessHours, validateBusinessHours } from './businessHours';
+
+const workday: OpeningInterval[] = [{ start: '09:00', end: '17:00' }];
+
+const schedule = (changes: Partial<BusinessHours> = {}): BusinessHours => ({
+  enabled: true,
+  timezone: 'Europe/Berlin',
+  weekly: { mon: workday, tue: workday, wed: workday, thu: workday, fri: workday, sat: [], sun: [] },
+  exceptions: [],
+  ...changes,
+});
+
+const isOpenAt = (hours: BusinessHours, iso: string) => isWithinBusinessHours(hours, new Date(iso));
+
+describe('isWithinBusinessHours', () => {
+  it('is open without an enabled schedule', () => {
+    expect(isWithinBusinessHours(undefined)).toBe(true);
+    expect(isOpenAt(schedule({ enabled: false }), '2024-01-06T12:00:00Z')).toBe(true);
+  });
+
+  it("evaluates in the schedule's timezone across the DST change", () => {
+    const hours = schedule();
+    // Friday before the change, UTC+1: 08:30 UTC is 09:30 in Berlin
+    expect(isOpenAt(hours, '2024-03-29T08:30:00Z')).toBe(true);
+    expect(isOpenAt(hours, '2024-03-29T16:30:00Z')).toBe(false);
+    // Monday after the change, UTC+2: 07:30 UTC is 09:30, 15:30 UTC is 17:30
+    expect(isOpenAt(hours, '2024-04-01T07:30:00Z')).toBe(true);
+    expect(isOpenAt(hours, '2024-04-01T06:30:00Z')).toBe(false);
+    expect(isOpenAt(hours, '2024-04-01T15:30:00Z')).toBe(false);
+  });
+
+  it('lets holiday exceptions replace the weekly hours', () => {
+    const hours = schedule({
+      exceptions: [
+        { date: '2024-12-25', label: 'Christmas Day', intervals: [] },
+        { date: '2024-12-24', label: 'Christmas Eve', intervals: [{ start: '09:00', end: '12:00' }] },
+      ],
+    });
+    expect(isOpenAt(hours, '2024-12-25T10:00:00Z')).toBe(false);
+    expect(isOpenAt(hours, '2024-12-24T10:00:00Z')).toBe(true);
+    expect(isOpenAt(hours, '2024-12-24T12:30:00Z')).toBe(false);
+    // Saturday the 28th opens only by exception
+    expect(isOpenAt(schedule({ exceptions: [{ date: '2024-12-28', intervals: workday }] }), '2024-12-28T10:00:00Z')).toBe(true);
+  });
+
+  it('treats an end at or before the start as running past midnight', () => {
+    const hours = schedule({
+      timezone: 'UTC',
+      weekly: { mon: [{ start: '18:00', end: '00:00' }], tue: [{ start: '22:00', end: '02:00' }], wed: [], thu: [], fri: [], sat: [], sun: [] },
+    });
+    // 2024-01-01 was a Monday
+    expect(isOpenAt(hours, '2024-01-01T23:59:00Z')).toBe(true);
+    expect(isOpenAt(hours, '2024-01-02T00:00:00Z')).toBe(false);
+    expect(isOpenAt(hours, '2024-01-02T23:00:00Z')).toBe(true);
+    expect(isOpenAt(hours, '2024-01-03T01:59:00Z')).toBe(true);
+    expect(isOpenAt(hours, '2024-01-03T02:00:00Z')).toBe(false);
+  });
+
+  it("runs the previous day's late hours into a holiday", () => {
+    const hours = schedule({
+      timezone: 'UTC',
+      weekly: { mon: [{ start: '22:00', end: '02:00' }], tue: [], wed: [], thu: [], fri: [], sat: [], sun: [] },
+      exceptions: [{ date: '2024-01-02', intervals: [] }],
+    });
+    expect(isOpenAt(hours, '2024-01-02T01:00:00Z')).toBe(true);
+  });
+
+  it('ignores intervals with a cleared time', () => {
+    const hours = schedule({ weekly: { ...schedule().weekly, mon: [{ start: '', end: '17:00' }] } });
+    expect(isOpenAt(hours, '2024-01-01T10:00:00Z')).toBe(false);
+  });
+
+  it('stays open with an invalid timezone', () => {
+    expect(isOpenAt(schedule({ timezone: 'Mars/Olympus' }), '2024-01-06T12:00:00Z')).toBe(true);
+  });
+});
+
+describe('getNextOpening', () => {
+  it('skips the weekend and holidays', () => {
+    const hours = schedule({ exceptions: [{ date: '2024-01-08', intervals: [] }] });
+    // Friday evening in Berlin
+    expect(getNextOpening(hours, new Date('2024-01-05T18:00:00Z'))).toEqual({ weekday: 'tue', date: '2024-01-09', time: '09:00' });
+  });
+
+  it('finds a later opening on the same day', () => {
+    expect(getNextOpening(schedule(), new Date('2024-01-08T06:00:00Z'))).toEqual({ weekday: 'mon', date: '2024-01-08', time: '09:00' });
+  });
+
+  it('names the timezone', () => {
+    expect(formatNextOpening(schedule({ timezone: 'Pacific/Auckland' }), new Date('2024-01-05T22:00:00Z'), 'en'))
+      .toBe('Monday 09:00 (Pacific/Auckland)');
+  });
+});
+
+describe('validateBusinessHours', () => {
+  it('reports incomplete intervals and undated exceptions', () => {
+    const hours = schedule({
+      weekly: { ...schedule().weekly, tue: [{ start: '09:00', end: '' }] },
+      exceptions: [{ date: '', intervals: [] }],
+    });
+    expect(validateBusinessHours(hours)).toEqual([
+      'Tue: opening hours need both a start and an end time',
+      'Exceptions need a date',
+    ]);
+  });
+
+  it('accepts overnight hours and disabled schedules', () => {
+    expect(validateBusinessHours(schedule({ weekly: { ...schedule().weekly, fri: [{ start: '18:00', end: '00:00' }] } }))).toEqual([]);
+    expect(validateBusinessHours(schedule({ enabled: false, exceptions: [{ date: '', intervals: [] }] }))).toEqual([]);
+  });
+});
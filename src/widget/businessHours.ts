@@ -0,0 +1,193 @@
+/**
+ * Business hours evaluation in the schedule's timezone, independent of the
+ * visitor's clock. Shared by the widget and the dashboard editor.
+ */
+import type { BusinessHours, OpeningInterval, Weekday } from '../types/api';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const INTL_WEEKDAYS: Record<string, Weekday> = {
+  Mon: 'mon', Tue: 'tue', Wed: 'wed', Thu: 'thu', Fri: 'fri', Sat: 'sat', Sun: 'sun',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Wall clock of a moment in a timezone */
+interface ZonedTime {
+  weekday: Weekday;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Minutes since midnight */
+  minutes: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** HH:MM as the time inputs produce it; a cleared input gives '' */
+export const isValidTime = (time: string | undefined): boolean => !!time && TIME_PATTERN.test(time);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Minutes from the start of the interval's day until it closes. An end at or
+ * before the start runs past midnight, so 18:00-00:00 closes at the end of the
+ * day and 22:00-02:00 at 02:00 the next day.
+ */
+const getClosingMinutes = (interval: OpeningInterval): number => {
+  const start = toMinutes(interval.start);
+  const end = toMinutes(interval.end);
+  return end > start ? end : end + MINUTES_PER_DAY;
+};
+
+const getZonedTime = (moment: Date, timezone: string): ZonedTime => {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  })
+    .formatToParts(moment)
+    .forEach(part => {
+      parts[part.type] = part.value;
+    });
+
+  return {
+    weekday: INTL_WEEKDAYS[parts.weekday],
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+/**
+ * Opening intervals that apply on a date: a matching exception wins over the
+ * weekly hours. Incomplete intervals are skipped.
+ */
+const getIntervalsFor = (hours: BusinessHours, day: Pick<ZonedTime, 'weekday' | 'date'>): OpeningInterval[] =>
+  (hours.exceptions.find(exception => exception.date === day.date)?.intervals
+    ?? hours.weekly[day.weekday]
+    ?? []
+  ).filter(interval => isValidTime(interval.start) && isValidTime(interval.end));
+
+/** The calendar day before, for intervals that run past midnight into today */
+const getPreviousDay = (zoned: ZonedTime): Pick<ZonedTime, 'weekday' | 'date'> => {
+  const [year, month, day] = zoned.date.split('-').map(Number);
+  return {
+    weekday: WEEKDAYS[(WEEKDAYS.indexOf(zoned.weekday) + 6) % 7],
+    date: new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10),
+  };
+};
+
+/**
+ * Problems with a schedule that would silently keep the widget offline, one
+ * message per incomplete interval
+ */
+export const validateBusinessHours = (hours: BusinessHours | undefined): string[] => {
+  if (!hours?.enabled) return [];
+
+  const errors: string[] = [];
+  const check = (intervals: OpeningInterval[], label: string) => {
+    intervals.forEach(interval => {
+      if (!isValidTime(interval.start) || !isValidTime(interval.end)) {
+        errors.push(`${label}: opening hours need both a start and an end time`);
+      }
+    });
+  };
+  WEEKDAYS.forEach(weekday => check(hours.weekly[weekday] ?? [], weekday[0].toUpperCase() + weekday.slice(1)));
+  hours.exceptions.forEach(exception => {
+    if (!exception.date) errors.push('Exceptions need a date');
+    check(exception.intervals, exception.label || exception.date || 'Exception');
+  });
+  return errors;
+};
+
+/**
+ * Whether visitors can chat now. Always true when no schedule is enabled, and
+ * when the timezone is invalid so a typo never takes the widget offline.
+ */
+export const isWithinBusinessHours = (hours: BusinessHours | undefined, now: Date = new Date()): boolean => {
+  if (!hours?.enabled) return true;
+
+  try {
+    const zoned = getZonedTime(now, hours.timezone);
+    const openToday = getIntervalsFor(hours, zoned).some(
+      interval => zoned.minutes >= toMinutes(interval.start) && zoned.minutes < getClosingMinutes(interval)
+    );
+    // Yesterday's late hours may still be running
+    return openToday || getIntervalsFor(hours, getPreviousDay(zoned)).some(
+      interval => zoned.minutes + MINUTES_PER_DAY < getClosingMinutes(interval)
+    );
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * When the schedule opens next, within two weeks, as its local weekday and time
+ */
+export const getNextOpening = (
+  hours: BusinessHours | undefined,
+  now: Date = new Date()
+): { weekday: Weekday; date: string; time: string } | null => {
+  if (!hours?.enabled) return null;
+
+  try {
+    for (let offset = 0; offset < 14; offset++) {
+      const zoned = getZonedTime(new Date(now.getTime() + offset * DAY_MS), hours.timezone);
+      const opening = getIntervalsFor(hours, zoned)
+        .map(interval => interval.start)
+        .sort()
+        .find(start => offset > 0 || toMinutes(start) > zoned.minutes);
+
+      if (opening) {
+        return { weekday: zoned.weekday, date: zoned.date, time: opening };
+      }
+    }
+  } catch {
+    // Invalid timezone
+  }
+  return null;
+};
+
+/** Weekday name in the locale; 1 January 2024 was a Monday */
+const getWeekdayName = (weekday: Weekday, locale: string): string => {
+  const date = new Date(Date.UTC(2024, 0, 1 + WEEKDAYS.indexOf(weekday), 12));
+  return new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: 'UTC' }).format(date);
+};
+
+/**
+ * Next opening as "Monday 09:00", naming the schedule's timezone when it
+ * differs from the visitor's
+ */
+export const formatNextOpening = (
+  hours: BusinessHours | undefined,
+  now: Date = new Date(),
+  locale = 'en'
+): string | undefined => {
+  const next = getNextOpening(hours, now);
+  if (!next || !hours) return undefined;
+
+  const label = `${getWeekdayName(next.weekday, locale)} ${next.time}`;
+  const visitorTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return visitorTimezone === hours.timezone ? label : `${label} (${hours.timezone})`;
+};
+
+/** Mon-Fri 09:00-17:00 in the dashboard user's timezone */
+export const createDefaultBusinessHours = (): BusinessHours => {
+  const workday: OpeningInterval[] = [{ start: '09:00', end: '17:00' }];
+  return {
+    enabled: false,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    weekly: { mon: workday, tue: workday, wed: workday, thu: workday, fri: workday, sat: [], sun: [] },
+    exceptions: [],
+  };
+};
@@ -0,0 +1,58 @@
+/**
+ * Source citations of assistant answers. The API sends sources either as
+ * plain page URLs or as objects with the crawled page's title and favicon;
+ * both become one numbered citation per page. Shared by the widget and the
+ * demo page.
+ */
+import type { SourceCitation } from '../types/api';
+
+/** Same page regardless of fragment, trailing slash or host case */
+const citationKey = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * One citation per page in the order the answer used them; only http(s)
+ * links are kept so a source can't become a script URL
+ */
+export const normalizeCitations = (sources: Array<string | SourceCitation> | undefined): SourceCitation[] => {
+  if (!sources?.length) return [];
+
+  const seen = new Set<string>();
+  const citations: SourceCitation[] = [];
+  for (const source of sources) {
+    const citation = typeof source === 'string' ? { url: source } : source;
+    if (!/^https?:\/\//i.test(citation?.url ?? '')) continue;
+
+    const key = citationKey(citation.url);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    citations.push(citation);
+  }
+  return citations;
+};
+
+/** Page title, or host and path when the page has none */
+export const getCitationTitle = (citation: SourceCitation): string => {
+  if (citation.title?.trim()) return citation.title.trim();
+  try {
+    const { host, pathname } = new URL(citation.url);
+    return pathname === '/' ? host : `${host}${pathname}`;
+  } catch {
+    return citation.url;
+  }
+};
+
+export const getCitationFavicon = (citation: SourceCitation): string | undefined => {
+  if (citation.favicon_url) return citation.favicon_url;
+  try {
+    return `${new URL(citation.url).origin}/favicon.ico`;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { WidgetConfig, WidgetExperiment } from '../types/api';
+import { applyVariant, assignVariant } from './experiments';
+
+const experiment: WidgetExperiment = {
+  id: 'exp-greeting',
+  name: 'Greeting',
+  enabled: true,
+  variants: [
+    { id: 'control', name: 'Control', weight: 50, overrides: {} },
+    { id: 'friendly', name: 'Friendly', weight: 50, overrides: { welcome_message: 'Hey there!' } },
+  ],
+};
+
+const visitors = Array.from({ length: 2000 }, (_, index) => `visitor_${index}`);
+
+describe('assignVariant', () => {
+  it('keeps a visitor in the same variant', () => {
+    visitors.slice(0, 50).forEach(visitorId => {
+      expect(assignVariant(experiment, visitorId)?.id).toBe(assignVariant(experiment, visitorId)?.id);
+    });
+    // Stable across releases: the hash must not change
+    expect(visitors.slice(0, 8).map(visitorId => assignVariant(experiment, visitorId)?.id)).toMatchInlineSnapshot(`
+      [
+        "control",
+        "control",
+        "friendly",
+        "friendly",
+        "control",
+        "friendly",
+        "friendly",
+        "control",
+      ]
+    `);
+  });
+
+  it('splits visitors by weight', () => {
+    const weighted: WidgetExperiment = {
+      ...experiment,
+      variants: [{ ...experiment.variants[0], weight: 80 }, { ...experiment.variants[1], weight: 20 }],
+    };
+    const control = visitors.filter(visitorId => assignVariant(weighted, visitorId)?.id === 'control').length;
+    expect(control / visitors.length).toBeGreaterThan(0.75);
+    expect(control / visitors.length).toBeLessThan(0.85);
+  });
+
+  it('buckets independently per experiment', () => {
+    const other = { ...experiment, id: 'exp-color' };
+    const differing = visitors.filter(visitorId => assignVariant(experiment, visitorId)?.id !== assignVariant(other, visitorId)?.id);
+    expect(differing.length).toBeGreaterThan(0);
+  });
+
+  it('never assigns variants without traffic', () => {
+    const paused: WidgetExperiment = { ...experiment, variants: [{ ...experiment.variants[0], weight: 0 }, experiment.variants[1]] };
+    expect(visitors.slice(0, 200).every(visitorId => assignVariant(paused, visitorId)?.id === 'friendly')).toBe(true);
+  });
+
+  it('assigns nothing when the experiment is off or has no traffic', () => {
+    expect(assignVariant(undefined, 'visitor_1')).toBeNull();
+    expect(assignVariant({ ...experiment, enabled: false }, 'visitor_1')).toBeNull();
+    expect(assignVariant({ ...experiment, variants: experiment.variants.map(variant => ({ ...variant, weight: 0 })) }, 'visitor_1')).toBeNull();
+  });
+});
+
+describe('applyVariant', () => {
+  const config: WidgetConfig = {
+    widget_id: 'widget',
+    website_id: 'site',
+    domain: 'example.com',
+    is_active: true,
+    api_endpoints: { chat: '', session_create: '', session_resume: '', analytics: '' },
+    config: {
+      welcome_message: 'Hello',
+      widget_color: '#0066CC',
+      triggers: [{ id: 't1', name: 'Pricing', enabled: true, conditions: { url_pattern: '/pricing', time_on_page: 30 }, action: 'open', frequency: 'once' }],
+    },
+  };
+
+  it('returns the configuration unchanged without a variant', () => {
+    expect(applyVariant(config, null)).toBe(config);
+  });
+
+  it('applies overrides and keeps the rest', () => {
+    const applied = applyVariant(config, { id: 'v', name: 'V', weight: 50, overrides: { widget_color: '#FF0000', trigger_delay: 5 } });
+    expect(applied.config.welcome_message).toBe('Hello');
+    expect(applied.config.widget_color).toBe('#FF0000');
+    expect(applied.config.triggers?.[0].conditions).toEqual({ url_pattern: '/pricing', time_on_page: 5 });
+  });
+});
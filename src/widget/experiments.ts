@@ -0,0 +1,58 @@
+/**
+ * A/B test assignment: each visitor is bucketed by a hash of their visitor id,
+ * so they see the same variant on every page and visit without extra storage.
+ */
+import type { ExperimentVariant, WidgetConfig, WidgetExperiment } from '../types/api';
+
+/** 32-bit FNV-1a */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Variant for the visitor; null when the experiment is off or has no traffic.
+ * Visitors keep their variant as long as the variants and weights stay the same.
+ */
+export const assignVariant = (
+  experiment: WidgetExperiment | undefined,
+  visitorId: string
+): ExperimentVariant | null => {
+  if (!experiment?.enabled) return null;
+
+  const variants = experiment.variants.filter(variant => variant.weight > 0);
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  let bucket = hashString(`${experiment.id}:${visitorId}`) % totalWeight;
+  for (const variant of variants) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+  return variants[variants.length - 1];
+};
+
+/** Configuration with the variant's overrides applied */
+export const applyVariant = (config: WidgetConfig, variant: ExperimentVariant | null): WidgetConfig => {
+  if (!variant) return config;
+
+  const { welcome_message, widget_color, trigger_delay } = variant.overrides;
+  return {
+    ...config,
+    config: {
+      ...config.config,
+      welcome_message: welcome_message || config.config.welcome_message,
+      widget_color: widget_color || config.config.widget_color,
+      triggers: trigger_delay === undefined
+        ? config.config.triggers
+        : config.config.triggers?.map(trigger => ({
+          ...trigger,
+          conditions: { ...trigger.conditions, time_on_page: trigger_delay },
+        })),
+    },
+  };
+};
@@ -0,0 +1,213 @@
+/**
+ * JavaScript API the embedded widget exposes to host pages as `window.ChatLite`.
+ *
+ * The generated snippets install a stub that records calls in `ChatLite.q`
+ * until widget.js loads; `installHostApi` replays them against the real API.
+ * Commands that need the mounted widget (open, sendMessage...) wait in the
+ * bridge until WidgetApp attaches its controller.
+ */
+import type { VisitorIdentity } from '../types/api';
+import type { WidgetOptions } from './options';
+
+export interface ChatLiteEventMap {
+  ready: { widgetId: string };
+  open: undefined;
+  close: undefined;
+  'message:sent': { content: string };
+  'message:received': { id: string; content: string };
+  handoff: { agentName?: string; transferId?: string };
+}
+
+export type ChatLiteEvent = keyof ChatLiteEventMap;
+
+export type ChatLiteListener<E extends ChatLiteEvent> = (payload: ChatLiteEventMap[E]) => void;
+
+/** Commands the mounted widget carries out */
+export interface WidgetController {
+  open: () => void;
+  close: () => void;
+  toggle: () => void;
+  sendMessage: (content: string) => void;
+}
+
+/** Call recorded by the snippet stub before widget.js loaded */
+export type QueuedCall = [method: string, args: unknown[]];
+
+export interface ChatLiteApi {
+  init: (options?: Partial<WidgetOptions>) => void;
+  destroy: () => void;
+  open: () => void;
+  close: () => void;
+  toggle: () => void;
+  sendMessage: (content: string) => void;
+  /** Who the visitor is; sent with the chat session, also when it has already started, so transcripts show it */
+  identify: (identity: VisitorIdentity) => void;
+  /** Extra data for the conversation, merged with earlier calls */
+  setContext: (context: Record<string, unknown>) => void;
+  /** Subscribe to an event; returns a function that unsubscribes */
+  on: <E extends ChatLiteEvent>(event: E, listener: ChatLiteListener<E>) => () => void;
+  off: <E extends ChatLiteEvent>(event: E, listener: ChatLiteListener<E>) => void;
+  /** Pre-load queue; only present on the snippet stub */
+  q?: QueuedCall[];
+}
+
+declare global {
+  interface Window {
+    ChatLite?: ChatLiteApi;
+  }
+}
+
+type ControllerCommand = {
+  [K in keyof WidgetController]: [K, Parameters<WidgetController[K]>]
+}[keyof WidgetController];
+
+export class WidgetBridge {
+  private controller: WidgetController | null = null;
+  private pendingCommands: ControllerCommand[] = [];
+  private listeners: Map<ChatLiteEvent, Set<(payload: unknown) => void>> = new Map();
+  private identity: VisitorIdentity | null = null;
+  private context: Record<string, unknown> = {};
+  private visitorListeners: Set<() => void> = new Set();
+
+  /**
+   * Connect the mounted widget and run the commands issued before it was ready
+   */
+  attach(controller: WidgetController): void {
+    this.controller = controller;
+    const pending = this.pendingCommands;
+    this.pendingCommands = [];
+    pending.forEach(command => this.run(command));
+  }
+
+  detach(): void {
+    this.controller = null;
+  }
+
+  /**
+   * Forget queued commands (the widget was destroyed). Identity, context and
+   * listeners are kept for a later `init()`.
+   */
+  reset(): void {
+    this.controller = null;
+    this.pendingCommands = [];
+  }
+
+  command(...command: ControllerCommand): void {
+    if (this.controller) {
+      this.run(command);
+    } else {
+      this.pendingCommands.push(command);
+    }
+  }
+
+  identify(identity: VisitorIdentity): void {
+    this.identity = { ...identity };
+    this.visitorListeners.forEach(listener => listener());
+  }
+
+  getIdentity(): VisitorIdentity | null {
+    return this.identity;
+  }
+
+  setContext(context: Record<string, unknown>): void {
+    this.context = { ...this.context, ...context };
+    this.visitorListeners.forEach(listener => listener());
+  }
+
+  getContext(): Record<string, unknown> {
+    return this.context;
+  }
+
+  /**
+   * Called after `identify()` or `setContext()`, so a live session can be
+   * updated; returns a function that unsubscribes
+   */
+  onVisitorChange(listener: () => void): () => void {
+    this.visitorListeners.add(listener);
+    return () => {
+      this.visitorListeners.delete(listener);
+    };
+  }
+
+  on<E extends ChatLiteEvent>(event: E, listener: ChatLiteListener<E>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener as (payload: unknown) => void);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends ChatLiteEvent>(event: E, listener: ChatLiteListener<E>): void {
+    this.listeners.get(event)?.delete(listener as (payload: unknown) => void);
+  }
+
+  emit<E extends ChatLiteEvent>(event: E, payload: ChatLiteEventMap[E]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        // A failing host listener must not break the widget
+        console.error(`ChatLite: "${event}" listener failed`, error);
+      }
+    });
+  }
+
+  private run([name, args]: ControllerCommand): void {
+    const controller = this.controller!;
+    switch (name) {
+      case 'open':
+        controller.open();
+        break;
+      case 'close':
+        controller.close();
+        break;
+      case 'toggle':
+        controller.toggle();
+        break;
+      case 'sendMessage':
+        controller.sendMessage(...args);
+        break;
+    }
+  }
+}
+
+export const widgetBridge = new WidgetBridge();
+
+/**
+ * Publish `window.ChatLite`, replaying any calls the snippet stub queued
+ */
+export const installHostApi = (
+  init: ChatLiteApi['init'],
+  destroy: ChatLiteApi['destroy']
+): ChatLiteApi => {
+  const queuedCalls = window.ChatLite?.q ?? [];
+
+  const api: ChatLiteApi = {
+    init,
+    destroy,
+    open: () => widgetBridge.command('open', []),
+    close: () => widgetBridge.command('close', []),
+    toggle: () => widgetBridge.command('toggle', []),
+    sendMessage: (content) => {
+      if (typeof content === 'string' && content.trim()) {
+        widgetBridge.command('sendMessage', [content.trim()]);
+      }
+    },
+    identify: (identity) => widgetBridge.identify(identity),
+    setContext: (context) => widgetBridge.setContext(context),
+    on: (event, listener) => widgetBridge.on(event, listener),
+    off: (event, listener) => widgetBridge.off(event, listener),
+  };
+  window.ChatLite = api;
+
+  queuedCalls.forEach(([method, args]) => {
+    const fn = api[method as keyof ChatLiteApi];
+    if (typeof fn === 'function') {
+      (fn as (...params: unknown[]) => unknown)(...args);
+    } else {
+      console.warn(`ChatLite: unknown method "${method}"`);
+    }
+  });
+
+  return api;
+};
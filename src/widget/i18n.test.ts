@@ -0,0 +1,38 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_LOCALES, DEFAULT_STRINGS, formatString, matchLocale } from './i18n';
+
+const LOCALES_DIR = new URL('./locales/', import.meta.url);
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+describe('locale files', () => {
+  const files = readdirSync(LOCALES_DIR).filter(file => file.endsWith('.json'));
+
+  it('exist for every built-in locale but English', () => {
+    expect(files.map(file => file.replace('.json', '')).sort())
+      .toEqual(BUILT_IN_LOCALES.filter(locale => locale !== 'en').sort());
+  });
+
+  it.each(files)('%s translates every label with the same placeholders', file => {
+    const strings = JSON.parse(readFileSync(new URL(file, LOCALES_DIR), 'utf8')) as Record<string, string>;
+    expect(Object.keys(strings).sort()).toEqual(Object.keys(DEFAULT_STRINGS).sort());
+    Object.entries(DEFAULT_STRINGS).forEach(([key, text]) => {
+      expect(placeholders(strings[key]), key).toEqual(placeholders(text));
+    });
+  });
+});
+
+describe('matchLocale', () => {
+  it('prefers an exact match, then the language', () => {
+    expect(matchLocale(['pt-BR', 'fr-CA'], ['en', 'fr', 'fr-CA'])).toBe('fr-CA');
+    expect(matchLocale(['de-AT'], BUILT_IN_LOCALES)).toBe('de');
+    expect(matchLocale(['ja', undefined], BUILT_IN_LOCALES)).toBeUndefined();
+  });
+});
+
+describe('formatString', () => {
+  it('fills placeholders and leaves unknown ones', () => {
+    expect(formatString('{count} of {total}', { count: 2 })).toBe('2 of {total}');
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Widget localization: built-in UI labels, per-locale overrides of the
+ * configured texts, locale detection and text direction.
+ */
+import { createContext, useContext } from 'react';
+import type { LocalizedWidgetText, WidgetConfig } from '../types/api';
+
+export interface WidgetStrings {
+  online: string;
+  offline: string;
+  /** {time} */
+  offlineUntil: string;
+  connectionUnstable: string;
+  connecting: string;
+  reconnecting: string;
+  offlineReconnecting: string;
+  loading: string;
+  somethingWrong: string;
+  chatUnavailable: string;
+  openChat: string;
+  closeChat: string;
+  minimizeChat: string;
+  expandChat: string;
+  expandWindow: string;
+  contractWindow: string;
+  muteSounds: string;
+  enableSounds: string;
+  settings: string;
+  chatSettings: string;
+  soundNotifications: string;
+  /** {status} */
+  statusLine: string;
+  /** {count} */
+  messageCount: string;
+  /** {version} */
+  versionLine: string;
+  unreadMessages: string;
+  startConversation: string;
+  askAnything: string;
+  typeMessage: string;
+  sendMessage: string;
+  addEmoji: string;
+  attachFile: string;
+  startRecording: string;
+  stopRecording: string;
+  recording: string;
+  aiTyping: string;
+  enterToSend: string;
+  /** {count} */
+  characters: string;
+  retry: string;
+  dismiss: string;
+  helpful: string;
+  notHelpful: string;
+  whatWentWrong: string;
+  feedbackWrong: string;
+  feedbackOutdated: string;
+  feedbackUnclear: string;
+  feedbackThanks: string;
+  sources: string;
+  copyCode: string;
+  copied: string;
+  /** {name}, {size} */
+  attachmentTooLarge: string;
+  /** {name} */
+  attachmentUnsupported: string;
+  /** {count} */
+  attachmentLimit: string;
+  uploadFailed: string;
+  removeAttachment: string;
+  dropFiles: string;
+  newConversation: string;
+  yourName: string;
+  yourEmail: string;
+  howCanWeHelp: string;
+  send: string;
+  sending: string;
+  /** {time} */
+  backOnline: string;
+  nameAndQuestionRequired: string;
+  invalidEmail: string;
+  submitFailed: string;
+  /** {email} */
+  replyTo: string;
+  defaultOfflineMessage: string;
+  defaultThanksMessage: string;
+  defaultTeaser: string;
+}
+
+const en: WidgetStrings = {
+  online: 'Online',
+  offline: 'Offline',
+  offlineUntil: 'Offline until {time}',
+  connectionUnstable: 'Connection unstable',
+  connecting: 'Connecting...',
+  reconnecting: 'Reconnecting...',
+  offlineReconnecting: 'Offline, reconnecting...',
+  loading: 'Loading...',
+  somethingWrong: 'Something went wrong. Please try again.',
+  chatUnavailable: 'Chat is unavailable right now. Please try again later.',
+  openChat: 'Open chat',
+  closeChat: 'Close chat',
+  minimizeChat: 'Minimize chat',
+  expandChat: 'Expand chat',
+  expandWindow: 'Expand window',
+  contractWindow: 'Contract window',
+  muteSounds: 'Mute sounds',
+  enableSounds: 'Enable sounds',
+  settings: 'Settings',
+  chatSettings: 'Chat Settings',
+  soundNotifications: 'Sound notifications',
+  statusLine: 'Status: {status}',
+  messageCount: 'Messages: {count}',
+  versionLine: 'Version: {version}',
+  unreadMessages: 'Unread messages',
+  startConversation: 'Start a conversation',
+  askAnything: 'Ask me anything about this website!',
+  typeMessage: 'Type your message...',
+  sendMessage: 'Send message',
+  addEmoji: 'Add emoji',
+  attachFile: 'Attach file',
+  startRecording: 'Start voice recording',
+  stopRecording: 'Stop recording',
+  recording: 'Recording...',
+  aiTyping: 'AI is typing...',
+  enterToSend: 'Press Enter to send, Shift+Enter for new line',
+  characters: '{count} characters',
+  retry: 'Retry',
+  dismiss: 'Dismiss message',
+  helpful: 'Helpful',
+  notHelpful: 'Not helpful',
+  whatWentWrong: 'What went wrong?',
+  feedbackWrong: 'Wrong',
+  feedbackOutdated: 'Outdated',
+  feedbackUnclear: 'Unclear',
+  feedbackThanks: 'Thanks for your feedback',
+  sources: 'Sources:',
+  copyCode: 'Copy code',
+  copied: 'Copied',
+  attachmentTooLarge: '{name} is larger than {size}',
+  attachmentUnsupported: '{name} is not a supported file type',
+  attachmentLimit: 'Up to {count} files per message',
+  uploadFailed: 'Upload failed',
+  removeAttachment: 'Remove attachment',
+  dropFiles: 'Drop files to attach',
+  newConversation: 'Start new conversation',
+  yourName: 'Your name',
+  yourEmail: 'Your email',
+  howCanWeHelp: 'How can we help?',
+  send: 'Send message',
+  sending: 'Sending...',
+  backOnline: 'Back online: {time}',
+  nameAndQuestionRequired: 'Please fill in your name and question.',
+  invalidEmail: 'Please enter a valid email address.',
+  submitFailed: 'Your message could not be sent. Please try again.',
+  replyTo: 'We will reply to {email}.',
+  defaultOfflineMessage: "We're currently offline. We'll get back to you soon!",
+  defaultThanksMessage: 'Thank you for your message!',
+  defaultTeaser: 'Hi there! Can we help you with anything?',
+};
+
+/**
+ * Locales whose UI labels ship with the widget; others fall back to English.
+ * English is bundled, the rest are fetched from locales/{locale}.json next to
+ * widget.js when needed (see vite.widget.config.ts).
+ */
+export const BUILT_IN_LOCALES = ['en', 'es', 'fr', 'de', 'ar', 'he'];
+
+export const DEFAULT_STRINGS = en;
+
+/** Configured texts that can be overridden per locale */
+export const LOCALIZED_TEXT_FIELDS: (keyof LocalizedWidgetText)[] = [
+  'welcome_message',
+  'placeholder_text',
+  'offline_message',
+  'thanks_message',
+];
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+const getLanguage = (locale: string): string => locale.toLowerCase().split(/[-_]/)[0];
+
+export const isRtlLocale = (locale: string): boolean => RTL_LANGUAGES.includes(getLanguage(locale));
+
+/** Replace `{name}` placeholders */
+export const formatString = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+
+/**
+ * First candidate that one of the available locales serves, matching the
+ * exact tag before the language alone (pt-BR, then pt)
+ */
+export const matchLocale = (candidates: (string | undefined)[], available: string[]): string | undefined => {
+  const normalized = available.map(locale => locale.toLowerCase());
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const exact = normalized.indexOf(candidate.toLowerCase());
+    if (exact !== -1) return available[exact];
+    const language = normalized.indexOf(getLanguage(candidate));
+    if (language !== -1) return available[language];
+  }
+  return undefined;
+};
+
+/**
+ * Locale for the visitor. An explicit `lang` option always wins; the page's
+ * <html lang> and the browser languages are only used when the configuration
+ * enables detection.
+ */
+export const detectLocale = (config: WidgetConfig['config'] | undefined, explicitLang?: string): string => {
+  const defaultLocale = config?.default_locale || 'en';
+  const available = [defaultLocale, ...Object.keys(config?.translations ?? {}), ...BUILT_IN_LOCALES];
+
+  const candidates = [explicitLang];
+  if (config?.auto_detect_locale) {
+    candidates.push(document.documentElement.lang, ...(navigator.languages ?? [navigator.language]));
+  }
+  return matchLocale(candidates, available) ?? defaultLocale;
+};
+
+/**
+ * Configured texts for a locale: its overrides, then its language's, then the base config
+ */
+export const getLocalizedText = (config: WidgetConfig['config'] | undefined, locale: string): LocalizedWidgetText => {
+  const translations = config?.translations ?? {};
+  const localeKey = matchLocale([locale], Object.keys(translations));
+  const overrides = localeKey ? translations[localeKey] : {};
+
+  const text: LocalizedWidgetText = {};
+  LOCALIZED_TEXT_FIELDS.forEach(field => {
+    text[field] = overrides[field] || config?.[field];
+  });
+  return text;
+};
+
+const loadedStrings = new Map<string, Promise<WidgetStrings>>();
+
+/**
+ * UI labels for a locale, fetched relative to `baseUrl` (the directory serving
+ * widget.js). Missing labels fall back to English.
+ */
+export const loadWidgetStrings = (locale: string, baseUrl: string): Promise<WidgetStrings> => {
+  const builtIn = matchLocale([locale], BUILT_IN_LOCALES);
+  if (!builtIn || builtIn === 'en') return Promise.resolve(en);
+
+  const cached = loadedStrings.get(builtIn);
+  if (cached) return cached;
+
+  const pending = fetch(new URL(`locales/${builtIn}.json`, baseUrl).href)
+    .then(response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load ${builtIn} labels: ${response.statusText}`);
+      }
+      return response.json() as Promise<Partial<WidgetStrings>>;
+    })
+    .then(strings => ({ ...en, ...strings }));
+
+  loadedStrings.set(builtIn, pending);
+  // Failures are not cached so the next page view can retry
+  pending.catch(() => loadedStrings.delete(builtIn));
+  return pending;
+};
+
+export interface WidgetI18n {
+  locale: string;
+  dir: 'ltr' | 'rtl';
+  strings: WidgetStrings;
+}
+
+export const WidgetI18nContext = createContext<WidgetI18n>({ locale: 'en', dir: 'ltr', strings: en });
+
+/** Labels for the visitor's locale; English outside a widget */
+export const useWidgetI18n = (): WidgetI18n => useContext(WidgetI18nContext);
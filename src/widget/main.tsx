@@ -0,0 +1,96 @@
+/**
+ * Embeddable widget entry (built by vite.widget.config.ts into widget.js / widget.mjs).
+ *
+ * Mounts WidgetApp inside a Shadow DOM root so host-page CSS can't reach it,
+ * initializes itself when configuration is present and exposes `window.ChatLite`
+ * (see hostApi.ts).
+ */
+import { StrictMode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import WidgetApp from './WidgetApp';
+import { resolveWidgetOptions, type WidgetOptions } from './options';
+import { installHostApi, widgetBridge } from './hostApi';
+import styles from './widget.css?inline';
+
+const HOST_ELEMENT_ID = 'chatlite-widget';
+
+// Only available while a classic <script> runs, so capture it at load time
+const currentScript = (document.currentScript as HTMLScriptElement | null)
+  ?? document.querySelector<HTMLScriptElement>('script[data-widget-id]');
+
+// Locale files are served next to the bundle; import.meta.url covers the module build
+const scriptUrl = currentScript?.src || import.meta.url;
+
+let mounted: { host: HTMLElement; root: Root } | null = null;
+
+/**
+ * Constructed stylesheets are not subject to the host page's CSP `style-src`,
+ * unlike a <style> element. Browsers without them get a <style> element that
+ * carries the widget script's nonce, if the page uses one.
+ */
+const adoptStyles = (shadow: ShadowRoot): void => {
+  if ('adoptedStyleSheets' in shadow && 'replaceSync' in CSSStyleSheet.prototype) {
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(styles);
+    shadow.adoptedStyleSheets = [sheet];
+    return;
+  }
+
+  const style = document.createElement('style');
+  if (currentScript?.nonce) style.nonce = currentScript.nonce;
+  style.textContent = styles;
+  shadow.appendChild(style);
+};
+
+/**
+ * Mount the widget. Calls after the first one are ignored until `destroy()`.
+ */
+export const init = (overrides: Partial<WidgetOptions> = {}): void => {
+  if (mounted) return;
+
+  const options = resolveWidgetOptions(currentScript, { scriptBase: new URL('./', scriptUrl).href, ...overrides });
+  if (!options) {
+    console.error('ChatLite: widgetId and apiBase are required');
+    return;
+  }
+
+  const host = document.createElement('div');
+  host.id = HOST_ELEMENT_ID;
+  const shadow = host.attachShadow({ mode: 'open' });
+
+  adoptStyles(shadow);
+
+  const container = document.createElement('div');
+  shadow.appendChild(container);
+  document.body.appendChild(host);
+
+  const root = createRoot(container);
+  root.render(
+    <StrictMode>
+      <WidgetApp options={options} />
+    </StrictMode>
+  );
+  mounted = { host, root };
+};
+
+/**
+ * Unmount the widget and remove its host element
+ */
+export const destroy = (): void => {
+  if (!mounted) return;
+  mounted.root.unmount();
+  mounted.host.remove();
+  mounted = null;
+  widgetBridge.reset();
+};
+
+installHostApi(init, destroy);
+
+// Self-initialize when the page already provides configuration
+if (resolveWidgetOptions(currentScript)) {
+  if (document.body) {
+    init();
+  } else {
+    document.addEventListener('DOMContentLoaded', () => init(), { once: true });
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeHref, parseInline, parseMarkdown } from './markdown';
+
+describe('isSafeHref', () => {
+  it('allows web and mail links', () => {
+    expect(isSafeHref('https://example.com')).toBe(true);
+    expect(isSafeHref('HTTP://example.com')).toBe(true);
+    expect(isSafeHref('mailto:help@example.com')).toBe(true);
+  });
+
+  it('rejects script, data and relative links', () => {
+    expect(isSafeHref('javascript:alert(1)')).toBe(false);
+    expect(isSafeHref('JavaScript:alert(1)')).toBe(false);
+    expect(isSafeHref('data:text/html,<script>alert(1)</script>')).toBe(false);
+    expect(isSafeHref('vbscript:msgbox')).toBe(false);
+    expect(isSafeHref('/account')).toBe(false);
+  });
+});
+
+describe('parseInline', () => {
+  it('keeps javascript: and data: links as their text', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([
+      { type: 'text', text: 'click' },
+      { type: 'text', text: ')' },
+    ]);
+    expect(parseInline('[open](data:text/html;base64,PHNjcmlwdD4=)')).toEqual([
+      { type: 'text', text: 'open' },
+    ]);
+  });
+
+  it('turns safe links and bare URLs into links', () => {
+    expect(parseInline('[docs](https://example.com/docs)')).toEqual([
+      { type: 'link', href: 'https://example.com/docs', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+    expect(parseInline('See https://example.com/a.')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('does not parse emphasis inside code spans', () => {
+    expect(parseInline('run `a **b** c` now')).toEqual([
+      { type: 'text', text: 'run ' },
+      { type: 'code', text: 'a **b** c' },
+      { type: 'text', text: ' now' },
+    ]);
+  });
+
+  it('nests emphasis', () => {
+    expect(parseInline('**bold *em* bold**')).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'bold ' },
+          { type: 'em', children: [{ type: 'text', text: 'em' }] },
+          { type: 'text', text: ' bold' },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps HTML as text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([
+      { type: 'text', text: '<img src=x onerror=alert(1)>' },
+    ]);
+  });
+
+  it('turns single newlines into breaks', () => {
+    expect(parseInline('a\nb')).toEqual([
+      { type: 'text', text: 'a' },
+      { type: 'break' },
+      { type: 'text', text: 'b' },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses headings, lists and paragraphs', () => {
+    expect(parseMarkdown('## Steps\n1. One\n2. Two\n\nDone').map(block => block.type))
+      .toEqual(['heading', 'list', 'paragraph']);
+  });
+
+  it('keeps an ordered list start', () => {
+    const [list] = parseMarkdown('3. Three\n4. Four');
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 3 });
+  });
+
+  it('runs an unclosed code fence to the end, as while streaming', () => {
+    expect(parseMarkdown('```js\nconst a = 1;\n**not bold**')).toEqual([
+      { type: 'code', language: 'js', code: 'const a = 1;\n**not bold**' },
+    ]);
+  });
+
+  it('parses tables with alignment', () => {
+    const [table] = parseMarkdown('| Plan | Price |\n|:---|---:|\n| Pro | $10 |');
+    expect(table).toMatchObject({ type: 'table', align: ['left', 'right'] });
+    expect(table.type === 'table' && table.rows).toHaveLength(1);
+  });
+
+  it('parses quotes recursively', () => {
+    expect(parseMarkdown('> - item')).toEqual([
+      { type: 'quote', children: [{ type: 'list', ordered: false, start: 1, items: [[{ type: 'text', text: 'item' }]] }] },
+    ]);
+  });
+});
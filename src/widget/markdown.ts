@@ -0,0 +1,162 @@
+/**
+ * Small Markdown parser for assistant replies. It produces a syntax tree that
+ * MarkdownContent renders as React elements, never as HTML, so markup in a
+ * reply shows up as text instead of running. Covers what chat models emit:
+ * headings, lists, tables, quotes, code and inline emphasis and links.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | undefined;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Code spans, links, bold, italics, strikethrough and bare URLs, in that priority
+const INLINE = /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)|\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|~~(.+?)~~|(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?])/;
+
+/** Only web and mail links; anything else (javascript:, data:...) stays text */
+export const isSafeHref = (href: string): boolean => /^(https?:\/\/|mailto:)/i.test(href);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    value.split('\n').forEach((line, index) => {
+      if (index > 0) nodes.push({ type: 'break' });
+      if (line) nodes.push({ type: 'text', text: line });
+    });
+  };
+
+  let rest = text;
+  let match: RegExpExecArray | null;
+  while ((match = INLINE.exec(rest))) {
+    pushText(rest.slice(0, match.index));
+    const [whole, , code, linkText, href, strong, strongAlt, em, del, url] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code.trim() || code });
+    } else if (linkText !== undefined) {
+      nodes.push(isSafeHref(href)
+        ? { type: 'link', href, children: parseInline(linkText) }
+        : { type: 'text', text: linkText });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em) });
+    } else if (del !== undefined) {
+      nodes.push({ type: 'del', children: parseInline(del) });
+    } else {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  pushText(rest);
+  return nodes;
+};
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && TABLE_DIVIDER.test(lines[index + 1]) && lines[index + 1].includes('-');
+
+/** Lines that end a paragraph without a blank line in between */
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line)
+    || LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let match: RegExpExecArray | null;
+
+    if (!line.trim()) {
+      i++;
+    } else if ((match = FENCE.exec(line))) {
+      // An unclosed fence (e.g. while streaming) runs to the end of the reply
+      const fence = match[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence)) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: 'code', language: match[2], code: code.join('\n') });
+    } else if ((match = HEADING.exec(line))) {
+      blocks.push({ type: 'heading', level: match[1].length, children: parseInline(match[2]) });
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+    } else if (isTableStart(lines, i)) {
+      const align = splitTableRow(lines[i + 1]).map<TableAlign>(cell => (
+        cell.endsWith(':') ? (cell.startsWith(':') ? 'center' : 'right') : cell.startsWith(':') ? 'left' : undefined
+      ));
+      const header = splitTableRow(lines[i]).map(parseInline);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i++]).map(parseInline));
+      }
+      blocks.push({ type: 'table', align, header, rows });
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i++].replace(QUOTE, ''));
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+    } else if ((match = LIST_ITEM.exec(line))) {
+      const ordered = match[2] !== undefined;
+      const start = ordered ? Number(match[2]) : 1;
+      const items: string[] = [];
+      // Nested items are flattened into the list; indented lines continue the item above
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && (item[2] !== undefined) === ordered) {
+          items.push(item[3]);
+        } else if (!item && lines[i].trim() && /^\s/.test(lines[i]) && items.length > 0) {
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, start, items: items.map(parseInline) });
+    } else {
+      const paragraph = [line];
+      i++;
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+  }
+
+  return blocks;
+};
@@ -0,0 +1,95 @@
+/**
+ * Embeddable widget options and where they come from.
+ *
+ * Precedence: options passed to `ChatLite.init()`, then `data-*` attributes on
+ * the widget <script> tag, then `window.ChatLiteConfig` (or the `window.chatLiteConfig`
+ * object the generated snippets set).
+ */
+import type { WidgetSettings } from '../types/api';
+
+export interface WidgetOptions {
+  widgetId: string;
+  /** Widget API base, e.g. https://api.example.com/api/v1/widget */
+  apiBase: string;
+  /** Origin serving widget.js */
+  frontendBase?: string;
+  /** Overrides for the published configuration */
+  position?: WidgetSettings['position'];
+  primaryColor?: string;
+  title?: string;
+  placeholder?: string;
+  welcomeMessage?: string;
+  /** Render in this locale regardless of detection, e.g. "fr" */
+  lang?: string;
+  /** Directory widget.js was loaded from, for its locale files; set by main.tsx */
+  scriptBase?: string;
+  /**
+   * Dashboard live preview: configuration and replies come from the embedding
+   * page over postMessage (see preview.ts) instead of the widget API
+   */
+  preview?: boolean;
+  /** Origin of the dashboard embedding the preview */
+  previewOrigin?: string;
+}
+
+declare global {
+  interface Window {
+    ChatLiteConfig?: Partial<WidgetOptions>;
+    chatLiteConfig?: Partial<WidgetOptions>;
+  }
+}
+
+const POSITIONS: WidgetSettings['position'][] = ['bottom-right', 'bottom-left', 'top-right', 'top-left'];
+
+/**
+ * Options declared as `data-widget-id`, `data-api-base`, `data-primary-color`...
+ */
+const readDataAttributes = (script: HTMLScriptElement | null): Partial<WidgetOptions> => {
+  if (!script) return {};
+
+  const { widgetId, apiBase, frontendBase, position, primaryColor, title, placeholder, welcomeMessage, lang } = script.dataset;
+  const options: Partial<WidgetOptions> = {
+    widgetId,
+    apiBase,
+    frontendBase,
+    position: POSITIONS.find(value => value === position),
+    primaryColor,
+    title,
+    placeholder,
+    welcomeMessage,
+    lang,
+  };
+
+  Object.keys(options).forEach(key => {
+    if (options[key as keyof WidgetOptions] === undefined) {
+      delete options[key as keyof WidgetOptions];
+    }
+  });
+  return options;
+};
+
+/**
+ * Merge every option source; null when the required widgetId or apiBase is missing
+ */
+export const resolveWidgetOptions = (
+  script: HTMLScriptElement | null,
+  overrides: Partial<WidgetOptions> = {}
+): WidgetOptions | null => {
+  const options = {
+    ...window.chatLiteConfig,
+    ...window.ChatLiteConfig,
+    ...readDataAttributes(script),
+    ...overrides,
+  };
+
+  if (!options.widgetId || !options.apiBase) {
+    return null;
+  }
+  return options as WidgetOptions;
+};
+
+/**
+ * API origin (without /api/v1/widget) used by ApiService and SocketService
+ */
+export const getApiOrigin = (apiBase: string): string =>
+  apiBase.replace(/\/+$/, '').replace(/\/api\/v1\/widget$/, '');
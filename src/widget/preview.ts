@@ -0,0 +1,99 @@
+/**
+ * postMessage protocol between the dashboard's live preview and a widget
+ * mounted with `preview: true` in a sandboxed iframe.
+ *
+ * The dashboard streams the edited configuration and simulated triggers in;
+ * the widget hands visitor messages out, and the dashboard answers them with
+ * its own credentials, so the sandboxed frame never holds a token.
+ */
+import type { TriggerAction, WidgetConfig } from '../types/api';
+import { SocketService, type SocketResponse } from '../services/socketService';
+
+export const PREVIEW_PROTOCOL = 'chatlite-preview/1';
+
+/** Dashboard → widget */
+export type PreviewHostMessage =
+  | { type: 'config'; config: WidgetConfig['config'] }
+  | { type: 'reply'; requestId: string; content?: string; error?: string }
+  /** Show what a proactive trigger does; null hides the teaser again */
+  | { type: 'trigger'; trigger: { action: TriggerAction; message?: string } | null };
+
+/** Widget → dashboard */
+export type PreviewWidgetMessage =
+  | { type: 'ready' }
+  | { type: 'message'; requestId: string; content: string };
+
+type Envelope<T> = T & { protocol: typeof PREVIEW_PROTOCOL };
+
+export const toPreviewEnvelope = <T extends PreviewHostMessage | PreviewWidgetMessage>(message: T): Envelope<T> =>
+  ({ ...message, protocol: PREVIEW_PROTOCOL });
+
+export const isPreviewEnvelope = <T extends PreviewHostMessage | PreviewWidgetMessage>(data: unknown): data is Envelope<T> =>
+  typeof data === 'object' && data !== null && (data as { protocol?: unknown }).protocol === PREVIEW_PROTOCOL;
+
+/**
+ * Send to the dashboard embedding the preview
+ */
+export const postToPreviewHost = (message: PreviewWidgetMessage, hostOrigin: string): void => {
+  window.parent.postMessage(toPreviewEnvelope(message), hostOrigin);
+};
+
+/**
+ * Receive the dashboard's messages; only the parent window at `hostOrigin` is
+ * listened to. Returns a function that stops listening.
+ */
+export const listenToPreviewHost = (hostOrigin: string, handler: (message: PreviewHostMessage) => void): (() => void) => {
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== window.parent || (hostOrigin !== '*' && event.origin !== hostOrigin)) return;
+    if (isPreviewEnvelope<PreviewHostMessage>(event.data)) {
+      handler(event.data);
+    }
+  };
+  window.addEventListener('message', onMessage);
+  return () => window.removeEventListener('message', onMessage);
+};
+
+/**
+ * Stands in for the chat socket in preview mode: messages go to the dashboard
+ * and the reply comes back in one piece.
+ */
+export class PreviewSocketService extends SocketService {
+  private hostOrigin: string;
+  private previewReplies: Map<string, (response: SocketResponse) => void> = new Map();
+  private stopListening: () => void;
+
+  constructor(hostOrigin: string) {
+    super('preview');
+    this.hostOrigin = hostOrigin;
+    this.stopListening = listenToPreviewHost(hostOrigin, message => {
+      if (message.type !== 'reply') return;
+      const resolve = this.previewReplies.get(message.requestId);
+      if (!resolve) return;
+      this.previewReplies.delete(message.requestId);
+      resolve(message.error || message.content === undefined
+        ? { type: 'error', error: message.error || 'No reply' }
+        : { type: 'chat_response', ai_response: message.content });
+    });
+  }
+
+  async connect(): Promise<void> {}
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async sendChatMessage(message: string): Promise<SocketResponse> {
+    const requestId = `preview-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    return new Promise((resolve) => {
+      this.previewReplies.set(requestId, resolve);
+      postToPreviewHost({ type: 'message', requestId, content: message }, this.hostOrigin);
+    });
+  }
+
+  disconnect(): void {
+    this.stopListening();
+    this.previewReplies.forEach(resolve => resolve({ type: 'error', error: 'Preview closed' }));
+    this.previewReplies.clear();
+    super.disconnect();
+  }
+}
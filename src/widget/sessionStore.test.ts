@@ -0,0 +1,103 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_SESSION_TTL_MINUTES,
+  clearStoredSession,
+  isRestoredMessage,
+  loadStoredSession,
+  restoreTranscript,
+  saveStoredSession,
+} from './sessionStore';
+
+const session = { sessionId: 'session-1', visitorId: 'visitor-1', isOpen: true, isMinimized: false };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('stored sessions', () => {
+  it('keeps a conversation for the default idle time', () => {
+    saveStoredSession('widget', session);
+
+    vi.advanceTimersByTime(DEFAULT_SESSION_TTL_MINUTES * 60000 - 1);
+    expect(loadStoredSession('widget')).toMatchObject(session);
+
+    vi.advanceTimersByTime(1);
+    expect(loadStoredSession('widget')).toBeNull();
+    expect(localStorage.getItem('chatlite_session_widget')).toBeNull();
+  });
+
+  it('uses the configured idle time, extended by every save', () => {
+    saveStoredSession('widget', session, 5);
+    vi.advanceTimersByTime(4 * 60000);
+    saveStoredSession('widget', { ...session, isOpen: false }, 5);
+
+    vi.advanceTimersByTime(4 * 60000);
+    expect(loadStoredSession('widget')).toMatchObject({ isOpen: false });
+
+    vi.advanceTimersByTime(60000);
+    expect(loadStoredSession('widget')).toBeNull();
+  });
+
+  it('keeps nothing when the idle time is 0', () => {
+    saveStoredSession('widget', session);
+    saveStoredSession('widget', session, 0);
+
+    expect(loadStoredSession('widget')).toBeNull();
+  });
+
+  it('keeps each widget separate', () => {
+    saveStoredSession('first', session);
+    saveStoredSession('second', { ...session, sessionId: 'session-2' });
+    clearStoredSession('first');
+
+    expect(loadStoredSession('first')).toBeNull();
+    expect(loadStoredSession('second')?.sessionId).toBe('session-2');
+  });
+
+  it('ignores corrupt or incomplete entries', () => {
+    localStorage.setItem('chatlite_session_widget', '{not json');
+    expect(loadStoredSession('widget')).toBeNull();
+
+    localStorage.setItem('chatlite_session_widget', JSON.stringify({ sessionId: 'session-1', expiresAt: Date.now() + 60000 }));
+    expect(loadStoredSession('widget')).toBeNull();
+
+    localStorage.setItem('chatlite_session_widget', JSON.stringify({ ...session }));
+    expect(loadStoredSession('widget')).toBeNull();
+  });
+
+  it('works without storage', () => {
+    vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('Blocked', 'SecurityError');
+    });
+    vi.spyOn(localStorage, 'getItem').mockImplementation(() => {
+      throw new DOMException('Blocked', 'SecurityError');
+    });
+
+    expect(() => saveStoredSession('widget', session)).not.toThrow();
+    expect(loadStoredSession('widget')).toBeNull();
+  });
+});
+
+describe('restoreTranscript', () => {
+  it('orders messages and marks them as restored', () => {
+    const messages = restoreTranscript([
+      { id: 'm2', content: 'Hi there', message_type: 'assistant', sequence_number: 2, sent_at: '2026-01-01T11:00:05Z', was_helpful: true },
+      { id: 'm1', content: 'Hello', message_type: 'user', sequence_number: 1, sent_at: '2026-01-01T11:00:00Z' },
+    ]);
+
+    expect(messages.map(message => [message.content, message.serverId, message.feedback])).toEqual([
+      ['Hello', undefined, undefined],
+      ['Hi there', 'm2', { wasHelpful: true }],
+    ]);
+    expect(messages.every(isRestoredMessage)).toBe(true);
+    expect(isRestoredMessage({ id: 'assistant-1', content: '', type: 'assistant', timestamp: new Date() })).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * The visitor's conversation kept in the host page's localStorage, so it
+ * survives navigating to another page: which session to resume and how the
+ * window was left. Entries expire after the configured idle time.
+ */
+import type { Message, MessageHistory } from '../types/api';
+import { normalizeCitations } from './citations';
+
+export interface StoredSession {
+  sessionId: string;
+  visitorId: string;
+  isOpen: boolean;
+  isMinimized: boolean;
+  /** Epoch milliseconds after which the conversation starts over */
+  expiresAt: number;
+}
+
+/** Idle minutes before a conversation is forgotten, unless configured */
+export const DEFAULT_SESSION_TTL_MINUTES = 30;
+
+const RESTORED_ID_PREFIX = 'history-';
+
+const storageKey = (widgetId: string) => `chatlite_session_${widgetId}`;
+
+export const clearStoredSession = (widgetId: string): void => {
+  try {
+    localStorage.removeItem(storageKey(widgetId));
+  } catch {
+    // Storage can be blocked (privacy mode, sandboxed iframes)
+  }
+};
+
+/**
+ * The conversation to resume on this page, or null when there is none or it expired
+ */
+export const loadStoredSession = (widgetId: string): StoredSession | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(widgetId)) || 'null') as StoredSession | null;
+    if (!stored?.sessionId || !stored.visitorId) return null;
+    if (!(stored.expiresAt > Date.now())) {
+      clearStoredSession(widgetId);
+      return null;
+    }
+    return stored;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remember the conversation for another `ttlMinutes`; 0 keeps it to the current page
+ */
+export const saveStoredSession = (
+  widgetId: string,
+  session: Omit<StoredSession, 'expiresAt'>,
+  ttlMinutes = DEFAULT_SESSION_TTL_MINUTES
+): void => {
+  if (ttlMinutes <= 0) {
+    clearStoredSession(widgetId);
+    return;
+  }
+  try {
+    const stored: StoredSession = { ...session, expiresAt: Date.now() + ttlMinutes * 60000 };
+    localStorage.setItem(storageKey(widgetId), JSON.stringify(stored));
+  } catch {
+    // The conversation just won't follow the visitor to the next page
+  }
+};
+
+/**
+ * Stored messages of a resumed session as widget messages, oldest first
+ */
+export const restoreTranscript = (history: MessageHistory[]): Message[] =>
+  [...history]
+    .sort((a, b) => a.sequence_number - b.sequence_number)
+    .map(message => ({
+      id: `${RESTORED_ID_PREFIX}${message.id}`,
+      content: message.content,
+      type: message.message_type,
+      timestamp: new Date(message.sent_at),
+      status: 'delivered',
+      serverId: message.message_type === 'assistant' ? message.id : undefined,
+      feedback: typeof message.was_helpful === 'boolean' ? { wasHelpful: message.was_helpful } : undefined,
+      sources: normalizeCitations(message.sources),
+      attachments: message.attachments,
+    }));
+
+/** Restored messages were already seen on an earlier page */
+export const isRestoredMessage = (message: Message): boolean => message.id.startsWith(RESTORED_ID_PREFIX);
@@ -0,0 +1,134 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ProactiveTrigger } from '../types/api';
+import {
+  canShowTrigger,
+  evaluateTrigger,
+  findFiringTrigger,
+  getConfiguredTriggers,
+  getUnmetConditions,
+  matchesUrlPattern,
+  readUtmParams,
+  recordTriggerShown,
+  type PageSnapshot,
+} from './triggers';
+
+const snapshot: PageSnapshot = {
+  path: '/pricing/teams',
+  timeOnPage: 0,
+  scrollDepth: 0,
+  exitIntent: false,
+  isReturning: false,
+  utm: {},
+};
+
+const trigger = (changes: Partial<ProactiveTrigger> = {}): ProactiveTrigger => ({
+  id: 'pricing',
+  name: 'Pricing help',
+  enabled: true,
+  conditions: { url_pattern: '/pricing*', time_on_page: 30 },
+  action: 'teaser',
+  frequency: 'once',
+  ...changes,
+});
+
+afterEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+  vi.useRealTimers();
+});
+
+describe('getConfiguredTriggers', () => {
+  it('turns a legacy auto-open delay into a time-on-page open rule', () => {
+    expect(getConfiguredTriggers({ auto_open_delay: 10 })).toEqual([
+      expect.objectContaining({ enabled: true, conditions: { time_on_page: 10 }, action: 'open', frequency: 'every_page' }),
+    ]);
+    expect(getConfiguredTriggers({ auto_open_delay: 0 })).toEqual([]);
+  });
+
+  it('prefers configured trigger rules over the delay', () => {
+    const rules = [trigger()];
+
+    expect(getConfiguredTriggers({ triggers: rules, auto_open_delay: 10 })).toBe(rules);
+  });
+});
+
+describe('matchesUrlPattern', () => {
+  it('matches the whole path, ignoring case', () => {
+    expect(matchesUrlPattern('/pricing', '/Pricing')).toBe(true);
+    expect(matchesUrlPattern('/pricing', '/pricing/teams')).toBe(false);
+  });
+
+  it('treats * as a wildcard and everything else literally', () => {
+    expect(matchesUrlPattern('/blog/*', '/blog/2024/launch')).toBe(true);
+    expect(matchesUrlPattern('*/checkout', '/eu/checkout')).toBe(true);
+    expect(matchesUrlPattern('/a.b', '/axb')).toBe(false);
+    expect(matchesUrlPattern('/search?q=(x)', '/search?q=(x)')).toBe(true);
+  });
+});
+
+describe('evaluateTrigger', () => {
+  it('lists the conditions still unmet', () => {
+    expect(getUnmetConditions(trigger(), { ...snapshot, path: '/about', timeOnPage: 10 }))
+      .toEqual(['page matches /pricing*', '30s on page']);
+  });
+
+  it('fires once every condition holds', () => {
+    expect(evaluateTrigger(trigger(), { ...snapshot, timeOnPage: 30 })).toBe(true);
+    expect(evaluateTrigger(trigger({ enabled: false }), { ...snapshot, timeOnPage: 30 })).toBe(false);
+  });
+
+  it('compares UTM values without case and checks the visitor type', () => {
+    const campaign = trigger({ conditions: { utm_source: 'Newsletter', visitor_type: 'returning' } });
+    expect(evaluateTrigger(campaign, { ...snapshot, utm: { utm_source: 'newsletter' }, isReturning: true })).toBe(true);
+    expect(getUnmetConditions(campaign, { ...snapshot, utm: { utm_source: 'ads' } }))
+      .toEqual(['returning visitor', 'utm_source=Newsletter']);
+  });
+
+  it('picks the first firing trigger in rule order', () => {
+    const exit = trigger({ id: 'exit', conditions: { exit_intent: true } });
+    const scroll = trigger({ id: 'scroll', conditions: { scroll_depth: 50 } });
+    expect(findFiringTrigger([exit, scroll], { ...snapshot, scrollDepth: 60, exitIntent: true })?.id).toBe('exit');
+    expect(findFiringTrigger([exit, scroll], snapshot)).toBeNull();
+  });
+});
+
+describe('frequency caps', () => {
+  it('shows a once trigger a single time', () => {
+    expect(canShowTrigger('pricing', 'once')).toBe(true);
+    recordTriggerShown('pricing');
+    expect(canShowTrigger('pricing', 'once')).toBe(false);
+    expect(canShowTrigger('other', 'once')).toBe(true);
+  });
+
+  it('shows a daily trigger again after a day', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T10:00:00Z'));
+    recordTriggerShown('pricing');
+    vi.setSystemTime(new Date('2024-05-02T09:59:00Z'));
+    expect(canShowTrigger('pricing', 'once_per_day')).toBe(false);
+    vi.setSystemTime(new Date('2024-05-02T10:00:00Z'));
+    expect(canShowTrigger('pricing', 'once_per_day')).toBe(true);
+  });
+
+  it('shows a session trigger again in a new session', () => {
+    recordTriggerShown('pricing');
+    expect(canShowTrigger('pricing', 'once_per_session')).toBe(false);
+    sessionStorage.clear();
+    expect(canShowTrigger('pricing', 'once_per_session')).toBe(true);
+    expect(canShowTrigger('pricing', 'every_page')).toBe(true);
+  });
+
+  it('treats corrupted history as nothing shown', () => {
+    localStorage.setItem('chatlite_trigger_history', '{oops');
+    expect(canShowTrigger('pricing', 'once')).toBe(true);
+  });
+});
+
+describe('readUtmParams', () => {
+  it('keeps the landing page parameters for the session', () => {
+    expect(readUtmParams('?utm_source=newsletter&utm_campaign=spring&ref=x'))
+      .toEqual({ utm_source: 'newsletter', utm_campaign: 'spring' });
+    expect(readUtmParams('')).toEqual({ utm_source: 'newsletter', utm_campaign: 'spring' });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Proactive trigger rules engine.
+ *
+ * `evaluateTrigger` is pure so the dashboard preview can simulate a visit;
+ * `watchTriggers` feeds it live page signals inside the embedded widget.
+ */
+import type { ProactiveTrigger, TriggerFrequency } from '../types/api';
+
+/** What the page looks like to the rules at one moment */
+export interface PageSnapshot {
+  path: string;
+  /** Seconds since the page loaded */
+  timeOnPage: number;
+  /** 0-100 */
+  scrollDepth: number;
+  exitIntent: boolean;
+  isReturning: boolean;
+  utm: Partial<Record<'utm_source' | 'utm_medium' | 'utm_campaign', string>>;
+}
+
+/** Teaser text when a rule doesn't set its own */
+export const DEFAULT_TEASER_MESSAGE = 'Hi there! Can we help you with anything?';
+
+const LAST_VISIT_KEY = 'chatlite_last_visit';
+const VISIT_STARTED_KEY = 'chatlite_visit_started';
+const UTM_KEY = 'chatlite_utm';
+const TRIGGER_HISTORY_KEY = 'chatlite_trigger_history';
+const SESSION_TRIGGERS_KEY = 'chatlite_session_triggers';
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const readJson = <T>(storage: Storage, key: string, fallback: T): T => {
+  try {
+    return JSON.parse(storage.getItem(key) ?? '') as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (storage: Storage, key: string, value: unknown): void => {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be blocked; triggers then behave as for a new visitor
+  }
+};
+
+/**
+ * The configuration's trigger rules. Configurations from before trigger rules
+ * only set `auto_open_delay`, which becomes the equivalent time-on-page rule.
+ */
+export const getConfiguredTriggers = (config: { triggers?: ProactiveTrigger[]; auto_open_delay?: number }): ProactiveTrigger[] => {
+  if (config.triggers?.length) return config.triggers;
+  if (!config.auto_open_delay || config.auto_open_delay <= 0) return [];
+  return [{
+    id: 'auto-open',
+    name: 'Auto open',
+    enabled: true,
+    conditions: { time_on_page: config.auto_open_delay },
+    action: 'open',
+    frequency: 'every_page',
+  }];
+};
+
+/**
+ * `*` matches any run of characters; the rest of the pattern is literal
+ */
+export const matchesUrlPattern = (pattern: string, path: string): boolean => {
+  const source = pattern
+    .trim()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(path);
+};
+
+/**
+ * Conditions of the trigger that the snapshot does not meet yet; empty when it fires
+ */
+export const getUnmetConditions = (trigger: ProactiveTrigger, snapshot: PageSnapshot): string[] => {
+  const { url_pattern, time_on_page, scroll_depth, exit_intent, visitor_type } = trigger.conditions;
+  const unmet: string[] = [];
+
+  if (url_pattern && !matchesUrlPattern(url_pattern, snapshot.path)) {
+    unmet.push(`page matches ${url_pattern}`);
+  }
+  if (time_on_page && snapshot.timeOnPage < time_on_page) {
+    unmet.push(`${time_on_page}s on page`);
+  }
+  if (scroll_depth && snapshot.scrollDepth < scroll_depth) {
+    unmet.push(`scrolled ${scroll_depth}%`);
+  }
+  if (exit_intent && !snapshot.exitIntent) {
+    unmet.push('exit intent');
+  }
+  if (visitor_type && (visitor_type === 'returning') !== snapshot.isReturning) {
+    unmet.push(`${visitor_type} visitor`);
+  }
+  UTM_PARAMS.forEach(param => {
+    const expected = trigger.conditions[param];
+    if (expected && expected.toLowerCase() !== snapshot.utm[param]?.toLowerCase()) {
+      unmet.push(`${param}=${expected}`);
+    }
+  });
+
+  return unmet;
+};
+
+export const evaluateTrigger = (trigger: ProactiveTrigger, snapshot: PageSnapshot): boolean =>
+  trigger.enabled && getUnmetConditions(trigger, snapshot).length === 0;
+
+/**
+ * First enabled trigger, in rule order, whose conditions all hold
+ */
+export const findFiringTrigger = (
+  triggers: ProactiveTrigger[],
+  snapshot: PageSnapshot
+): ProactiveTrigger | null => triggers.find(trigger => evaluateTrigger(trigger, snapshot)) ?? null;
+
+/**
+ * Whether the visitor came before this browser session. Counts the visit on first call.
+ */
+export const isReturningVisitor = (): boolean => {
+  try {
+    const returning = sessionStorage.getItem(VISIT_STARTED_KEY);
+    if (returning !== null) return returning === 'true';
+
+    const isReturning = localStorage.getItem(LAST_VISIT_KEY) !== null;
+    sessionStorage.setItem(VISIT_STARTED_KEY, String(isReturning));
+    localStorage.setItem(LAST_VISIT_KEY, String(Date.now()));
+    return isReturning;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * UTM parameters of the landing page, kept for the rest of the session
+ */
+export const readUtmParams = (search: string): PageSnapshot['utm'] => {
+  const params = new URLSearchParams(search);
+  const utm: PageSnapshot['utm'] = {};
+  UTM_PARAMS.forEach(param => {
+    const value = params.get(param);
+    if (value) utm[param] = value;
+  });
+
+  if (Object.keys(utm).length > 0) {
+    writeJson(sessionStorage, UTM_KEY, utm);
+    return utm;
+  }
+  return readJson(sessionStorage, UTM_KEY, {});
+};
+
+/**
+ * Frequency cap check against what this visitor has already been shown
+ */
+export const canShowTrigger = (triggerId: string, frequency: TriggerFrequency): boolean => {
+  const lastShown = readJson<Record<string, number>>(localStorage, TRIGGER_HISTORY_KEY, {})[triggerId];
+
+  switch (frequency) {
+    case 'once':
+      return lastShown === undefined;
+    case 'once_per_day':
+      return lastShown === undefined || Date.now() - lastShown >= DAY_MS;
+    case 'once_per_session':
+      return !readJson<string[]>(sessionStorage, SESSION_TRIGGERS_KEY, []).includes(triggerId);
+    default:
+      return true;
+  }
+};
+
+export const recordTriggerShown = (triggerId: string): void => {
+  const history = readJson<Record<string, number>>(localStorage, TRIGGER_HISTORY_KEY, {});
+  writeJson(localStorage, TRIGGER_HISTORY_KEY, { ...history, [triggerId]: Date.now() });
+
+  const shownThisSession = readJson<string[]>(sessionStorage, SESSION_TRIGGERS_KEY, []);
+  if (!shownThisSession.includes(triggerId)) {
+    writeJson(sessionStorage, SESSION_TRIGGERS_KEY, [...shownThisSession, triggerId]);
+  }
+};
+
+/**
+ * Watch the page and call `onFire` with the first trigger whose conditions hold.
+ * Fires at most once per page; returns a function that stops watching.
+ */
+export const watchTriggers = (
+  triggers: ProactiveTrigger[],
+  onFire: (trigger: ProactiveTrigger) => void
+): (() => void) => {
+  const candidates = triggers.filter(trigger => trigger.enabled && canShowTrigger(trigger.id, trigger.frequency));
+  if (candidates.length === 0) return () => {};
+
+  const startedAt = Date.now();
+  const snapshot: PageSnapshot = {
+    path: window.location.pathname,
+    timeOnPage: 0,
+    scrollDepth: 0,
+    exitIntent: false,
+    isReturning: isReturningVisitor(),
+    utm: readUtmParams(window.location.search),
+  };
+
+  const check = () => {
+    snapshot.timeOnPage = (Date.now() - startedAt) / 1000;
+    const trigger = findFiringTrigger(candidates, snapshot);
+    if (!trigger) return;
+
+    stop();
+    recordTriggerShown(trigger.id);
+    onFire(trigger);
+  };
+
+  const onScroll = () => {
+    const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+    const depth = scrollable > 0 ? (window.scrollY / scrollable) * 100 : 100;
+    snapshot.scrollDepth = Math.max(snapshot.scrollDepth, depth);
+    check();
+  };
+
+  const onMouseOut = (event: MouseEvent) => {
+    if (event.relatedTarget === null && event.clientY <= 0) {
+      snapshot.exitIntent = true;
+      check();
+    }
+  };
+
+  const interval = window.setInterval(check, 1000);
+  window.addEventListener('scroll', onScroll, { passive: true });
+  document.addEventListener('mouseout', onMouseOut);
+
+  function stop() {
+    window.clearInterval(interval);
+    window.removeEventListener('scroll', onScroll);
+    document.removeEventListener('mouseout', onMouseOut);
+  }
+
+  check();
+  return stop;
+};
@@ -0,0 +1,115 @@
+import { defineConfig, loadEnv, transformWithEsbuild, type Plugin } from 'vite'
+import react from '@vitejs/plugin-react'
+import { gzipSync } from 'node:zlib'
+import { readdirSync, readFileSync } from 'node:fs'
+
+// Gzipped size limits, in bytes. New features have to fit within these
+// rather than raise them.
+const WIDGET_SIZE_BUDGETS: Record<string, number> = {
+  'widget.js': 75 * 1024,
+  'widget.mjs': 90 * 1024,
+}
+
+const LOCALES_DIR = 'src/widget/locales'
+
+/**
+ * Fail the build when a bundle exceeds its size budget
+ */
+const sizeBudget = (budgets: Record<string, number>): Plugin => ({
+  name: 'chatlite-size-budget',
+  generateBundle(_options, bundle) {
+    Object.values(bundle).forEach(output => {
+      const limit = budgets[output.fileName]
+      if (output.type !== 'chunk' || !limit) return
+      const size = gzipSync(output.code).length
+      if (size > limit) {
+        this.error(`${output.fileName} is ${(size / 1024).toFixed(1)} kB gzipped, over the ${(limit / 1024).toFixed(0)} kB budget`)
+      }
+      this.info(`${output.fileName}: ${(size / 1024).toFixed(1)} kB gzipped (budget ${(limit / 1024).toFixed(0)} kB)`)
+    })
+  },
+})
+
+/**
+ * Minify the ES module build, which library mode leaves unminified. Vite's own
+ * transpile step reprints chunks after renderChunk, so this runs on the final
+ * bundle, before the size budget is checked.
+ */
+const minifyModuleBuild = (): Plugin => ({
+  name: 'chatlite-minify-esm',
+  async generateBundle(outputOptions, bundle) {
+    if (outputOptions.format !== 'es') return
+    for (const output of Object.values(bundle)) {
+      if (output.type !== 'chunk') continue
+      const result = await transformWithEsbuild(output.code, output.fileName, { minify: true, format: 'esm' })
+      output.code = result.code
+    }
+  },
+})
+
+/**
+ * Emit the non-English UI labels as locales/{locale}.json next to widget.js
+ * and its versioned copy; the widget fetches the one it needs
+ */
+const localeFiles = (version: string): Plugin => ({
+  name: 'chatlite-locale-files',
+  generateBundle(outputOptions) {
+    // Both builds share the files, so emit them once
+    if (outputOptions.format !== 'iife') return
+    readdirSync(LOCALES_DIR)
+      .filter(file => file.endsWith('.json'))
+      .forEach(file => {
+        const source = JSON.stringify(JSON.parse(readFileSync(`${LOCALES_DIR}/${file}`, 'utf-8')))
+        this.emitFile({ type: 'asset', fileName: `locales/${file}`, source })
+        if (version) {
+          this.emitFile({ type: 'asset', fileName: `widget/${version}/locales/${file}`, source })
+        }
+      })
+  },
+})
+
+/**
+ * Also emit the IIFE build as widget/{version}/widget.js, the immutable URL SRI snippets pin
+ */
+const versionedCopy = (version: string): Plugin => ({
+  name: 'chatlite-versioned-copy',
+  generateBundle(_options, bundle) {
+    const chunk = bundle['widget.js']
+    if (!version || !chunk || chunk.type !== 'chunk') return
+    this.emitFile({ type: 'asset', fileName: `widget/${version}/widget.js`, source: chunk.code })
+  },
+})
+
+// Standalone embeddable widget: `vite build --config vite.widget.config.ts`
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), 'VITE_')
+
+  return {
+    plugins: [react(), minifyModuleBuild(), sizeBudget(WIDGET_SIZE_BUDGETS), versionedCopy(env.VITE_WIDGET_VERSION), localeFiles(env.VITE_WIDGET_VERSION)],
+    // The embed renders with preact/compat: React DOM alone would take most of the budget
+    resolve: {
+      alias: [
+        { find: /^react$/, replacement: 'preact/compat' },
+        { find: /^react\/jsx-runtime$/, replacement: 'preact/compat/jsx-runtime' },
+        { find: /^react-dom$/, replacement: 'preact/compat' },
+        { find: /^react-dom\/client$/, replacement: 'preact/compat/client' },
+      ],
+    },
+    // React reads process.env.NODE_ENV, which library mode leaves untouched
+    define: {
+      'process.env.NODE_ENV': JSON.stringify('production'),
+    },
+    publicDir: false,
+    build: {
+      outDir: 'dist',
+      // Runs after the dashboard build, next to its output
+      emptyOutDir: false,
+      lib: {
+        entry: 'src/widget/main.tsx',
+        name: 'ChatLiteWidget',
+        formats: ['iife', 'es'],
+        fileName: (format) => (format === 'iife' ? 'widget.js' : 'widget.mjs'),
+      },
+    },
+  }
+})